@@ -8,6 +8,8 @@ import DashboardScreen from './src/screens/DashboardScreen';
 import TransactionListScreen from './src/screens/TransactionListScreen';
 // import TransactionDetailsScreen from './src/screens/TransactionDetailsScreen';
 import AddPaymentScreen from './src/screens/AddPaymentScreen';
+import ReconciliationScreen from './src/screens/ReconciliationScreen';
+import AuthEventsScreen from './src/screens/AuthEventsScreen';
 import { checkAuthToken } from './src/utils/auth';
 
 const Stack = createStackNavigator();
@@ -43,6 +45,8 @@ export default function App() {
         <Stack.Screen name="TransactionList" component={TransactionListScreen} />
         {/* <Stack.Screen name="TransactionDetails" component={TransactionDetailsScreen} /> */}
         <Stack.Screen name="AddPayment" component={AddPaymentScreen} />
+        <Stack.Screen name="Reconciliation" component={ReconciliationScreen} />
+        <Stack.Screen name="AuthEvents" component={AuthEventsScreen} />
       </Stack.Navigator>
     </NavigationContainer>
   );
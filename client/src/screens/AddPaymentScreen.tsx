@@ -1,5 +1,5 @@
 // src/screens/AddPaymentScreen.tsx
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import {
   View,
   Text,
@@ -22,7 +22,6 @@ type PaymentMethod = 'UPI' | 'Credit Card' | 'Net Banking' | 'Wallet';
 interface PaymentFormData {
   amount: string;
   receiver: string;
-  status: PaymentStatus;
   method: PaymentMethod;
   description: string;
 }
@@ -40,11 +39,12 @@ export default function AddPaymentScreen({ navigation, route }: AddPaymentScreen
   const [formData, setFormData] = useState<PaymentFormData>({
     amount: '',
     receiver: '',
-    status: 'pending',
     method: 'UPI',
     description: '',
   });
   const [loading, setLoading] = useState(false);
+  // Reused across retries of the same form so a timed out request is not duplicated
+  const idempotencyKey = useRef(ApiService.createIdempotencyKey());
 
   const handleSubmit = async () => {
     // Validation
@@ -69,7 +69,6 @@ export default function AddPaymentScreen({ navigation, route }: AddPaymentScreen
       const paymentData = {
         amount: amount,
         receiver: formData.receiver.trim(),
-        status: formData.status,
         method: formData.method,
         description: formData.description.trim(),
       };
@@ -78,8 +77,14 @@ export default function AddPaymentScreen({ navigation, route }: AddPaymentScreen
       
       // Try to create payment via API
       let success = false;
+      // The payment provider decides the outcome; offline payments stay pending
+      let status: PaymentStatus = 'pending';
+      let failureReason: string | undefined;
       try {
-        await ApiService.createPayment(paymentData);
+        const payment = await ApiService.createPayment(paymentData, idempotencyKey.current);
+        status = payment.status;
+        failureReason = payment.failureReason;
+        idempotencyKey.current = ApiService.createIdempotencyKey();
         success = true;
         console.log('Payment created successfully via API');
       } catch (apiError) {
@@ -90,7 +95,7 @@ export default function AddPaymentScreen({ navigation, route }: AddPaymentScreen
           id: Date.now(), // Simple ID generation
           amount: paymentData.amount,
           receiver: paymentData.receiver,
-          status: paymentData.status,
+          status,
           method: paymentData.method,
           createdAt: new Date().toISOString(),
         };
@@ -117,9 +122,13 @@ export default function AddPaymentScreen({ navigation, route }: AddPaymentScreen
           route.params.onPaymentAdded();
         }
 
+        const outcomes: Record<PaymentStatus, [string, string]> = {
+          success: ['Success', 'Payment completed successfully!'],
+          pending: ['Payment Pending', 'Payment created and is waiting for the provider to confirm it.'],
+          failed: ['Payment Declined', `The provider declined this payment${failureReason ? `: ${failureReason}` : '.'}`],
+        };
         Alert.alert(
-          'Success', 
-          'Payment created successfully!',
+          ...outcomes[status],
           [
             {
               text: 'Add Another',
@@ -128,7 +137,6 @@ export default function AddPaymentScreen({ navigation, route }: AddPaymentScreen
                 setFormData({
                   amount: '',
                   receiver: '',
-                  status: 'pending',
                   method: 'UPI',
                   description: '',
                 });
@@ -159,6 +167,8 @@ export default function AddPaymentScreen({ navigation, route }: AddPaymentScreen
     value: PaymentFormData[K]
   ) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    // A different payment needs a different key
+    idempotencyKey.current = ApiService.createIdempotencyKey();
   };
 
   return (
@@ -201,21 +211,6 @@ export default function AddPaymentScreen({ navigation, route }: AddPaymentScreen
             />
           </View>
 
-          <View style={styles.inputGroup}>
-            <Text style={styles.label}>Status</Text>
-            <View style={styles.pickerContainer}>
-              <Picker
-                selectedValue={formData.status}
-                onValueChange={(value: PaymentStatus) => updateFormData('status', value)}
-                style={styles.picker}
-              >
-                <Picker.Item label="Pending" value="pending" />
-                <Picker.Item label="Success" value="success" />
-                <Picker.Item label="Failed" value="failed" />
-              </Picker>
-            </View>
-          </View>
-
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Payment Method</Text>
             <View style={styles.pickerContainer}>
@@ -0,0 +1,185 @@
+// src/screens/AuthEventsScreen.tsx
+import React, { useState, useEffect } from 'react';
+import ApiService, { AuthEvent } from '../services/api';
+import './AuthEventsScreen.css';
+
+interface AuthEventsScreenProps {
+  navigation: any;
+}
+
+const EVENT_LABELS: Record<AuthEvent['type'], string> = {
+  login_succeeded: '✅ Login',
+  login_failed: '⛔ Failed login',
+  logout: '👋 Logout',
+  token_refreshed: '🔄 Token refresh',
+  password_changed: '🔑 Password change',
+  role_changed: '👤 Role change',
+  user_disabled: '🚫 User disabled',
+  user_enabled: '♻️ User enabled',
+  user_deleted: '🗑️ User deleted',
+  organization_switched: '🏢 Organization switch',
+  api_key_used: '🗝️ API key use',
+};
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS = { type: '', username: '', ip: '', from: '', to: '' };
+
+// One line summary of the event specific details
+const describeDetails = (event: AuthEvent): string => {
+  const details = event.details ?? {};
+  switch (event.type) {
+    case 'login_failed':
+      return String(details.reason ?? '').replace(/_/g, ' ');
+    case 'role_changed':
+    case 'organization_switched':
+      return `${details.from} → ${details.to}`;
+    case 'password_changed':
+      return String(details.method ?? '').replace(/_/g, ' ');
+    case 'api_key_used':
+      return `key ${details.prefix ?? details.apiKeyId}`;
+    default:
+      return '';
+  }
+};
+
+export default function AuthEventsScreen({ navigation }: AuthEventsScreenProps) {
+  const [events, setEvents] = useState<AuthEvent[]>([]);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [applied, setApplied] = useState(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadEvents();
+  }, [applied, page]);
+
+  const loadEvents = async () => {
+    try {
+      setLoading(true);
+      // Dates from the inputs cover whole days
+      const result = await ApiService.getAuthEvents(
+        {
+          ...applied,
+          from: applied.from && new Date(`${applied.from}T00:00:00`).toISOString(),
+          to: applied.to && new Date(`${applied.to}T23:59:59.999`).toISOString(),
+        },
+        page,
+        PAGE_SIZE
+      );
+      setEvents(result.data);
+      setTotal(result.total);
+      setTotalPages(result.totalPages);
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Could not load the security log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyFilters = () => {
+    setPage(1);
+    setApplied(filters);
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+    setApplied(EMPTY_FILTERS);
+  };
+
+  const setFilter = (key: keyof typeof EMPTY_FILTERS, value: string) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  return (
+    <div className="auth-events-container">
+      <div className="auth-events-header">
+        <button className="auth-events-back" onClick={() => navigation.goBack()}>
+          ← Back
+        </button>
+        <h1>Security Log</h1>
+        <span className="auth-events-muted">{total} events</span>
+      </div>
+
+      <div className="auth-events-filters">
+        <select value={filters.type} onChange={(e) => setFilter('type', e.target.value)}>
+          <option value="">All events</option>
+          {Object.entries(EVENT_LABELS).map(([type, label]) => (
+            <option key={type} value={type}>{label}</option>
+          ))}
+        </select>
+        <input
+          placeholder="Username"
+          value={filters.username}
+          onChange={(e) => setFilter('username', e.target.value)}
+        />
+        <input
+          placeholder="IP address"
+          value={filters.ip}
+          onChange={(e) => setFilter('ip', e.target.value)}
+        />
+        <input type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+        <input type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+        <button className="auth-events-apply" onClick={applyFilters}>Apply</button>
+        <button onClick={clearFilters}>Clear</button>
+      </div>
+
+      <div className="auth-events-panel">
+        {loading ? (
+          <p className="auth-events-muted">Loading events...</p>
+        ) : events.length === 0 ? (
+          <p className="auth-events-muted">No events match these filters.</p>
+        ) : (
+          <table className="auth-events-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Event</th>
+                <th>User</th>
+                <th>Details</th>
+                <th>IP</th>
+                <th>User agent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.id} className={event.type}>
+                  <td>{new Date(event.createdAt).toLocaleString()}</td>
+                  <td>{EVENT_LABELS[event.type] ?? event.type}</td>
+                  <td>
+                    {event.username ?? '—'}
+                    {event.userId != null && <span className="auth-events-muted"> #{event.userId}</span>}
+                    {event.actorUsername && (
+                      <div className="auth-events-muted">by {event.actorUsername}</div>
+                    )}
+                  </td>
+                  <td>{describeDetails(event)}</td>
+                  <td>{event.ip ?? '—'}</td>
+                  <td className="auth-events-agent" title={event.userAgent ?? ''}>
+                    {event.userAgent ?? '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {totalPages > 1 && (
+          <div className="auth-events-pagination">
+            <button disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              ← Newer
+            </button>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            <button disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Older →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,14 @@
 // src/screens/DashboardScreen.tsx - Complete Feature Implementation
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
-import ApiService from '../services/api';
+import ApiService, { Organization, PaymentStreamEvent } from '../services/api';
 import './DashboardScreen.css';
 
 interface Transaction {
   id: number;
   amount: number;
   receiver: string;
-  status: 'success' | 'pending' | 'failed';
+  status: 'success' | 'pending' | 'failed' | 'refunded' | 'partially_refunded';
   method: string;
   createdAt: string;
 }
@@ -43,6 +43,10 @@ export default function DashboardScreen({ navigation }: DashboardScreenProps) {
   const [refreshing, setRefreshing] = useState(false);
   const [selectedDateRange, setSelectedDateRange] = useState('7d');
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const [live, setLive] = useState(false);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [activeOrganizationId, setActiveOrganizationId] = useState<number | null>(null);
+  const statsRefreshTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Sample transactions fallback (same as in TransactionListScreen)
   const sampleTransactions: Transaction[] = [
@@ -137,11 +141,39 @@ export default function DashboardScreen({ navigation }: DashboardScreenProps) {
     }
   };
 
+  // Recent transactions change in place; stats are reloaded at most once per
+  // burst of events
+  const handlePaymentEvent = (event: PaymentStreamEvent) => {
+    if (event.type === 'payment.created') {
+      setRecentTransactions(prev =>
+        [event.payment, ...prev.filter(t => t.id !== event.payment.id)].slice(0, 5)
+      );
+    } else if (event.type === 'payment.status_changed') {
+      setRecentTransactions(prev =>
+        prev.map(t => (t.id === event.payment.id ? { ...t, ...event.payment } : t))
+      );
+    } else {
+      loadTransactions();
+    }
+
+    if (statsRefreshTimeout.current) clearTimeout(statsRefreshTimeout.current);
+    statsRefreshTimeout.current = setTimeout(loadStats, 1000);
+  };
+
   useEffect(() => {
     loadAllData();
-    // Auto-refresh every 5 minutes
-    const interval = setInterval(loadAllData, 5 * 60 * 1000);
-    return () => clearInterval(interval);
+    ApiService.getMyOrganizations()
+      .then(({ activeOrganizationId, organizations }) => {
+        setOrganizations(organizations);
+        setActiveOrganizationId(activeOrganizationId);
+      })
+      .catch(error => console.error('Error loading organizations:', error));
+    // Live updates replace polling
+    const unsubscribe = ApiService.subscribeToPayments(handlePaymentEvent, setLive);
+    return () => {
+      unsubscribe();
+      if (statsRefreshTimeout.current) clearTimeout(statsRefreshTimeout.current);
+    };
   }, []);
 
   // Add focus listener to refresh when navigating back
@@ -159,6 +191,16 @@ export default function DashboardScreen({ navigation }: DashboardScreenProps) {
     loadAllData();
   };
 
+  // The new session sees other payments, so the screen starts over
+  const handleOrganizationChange = async (organizationId: number) => {
+    try {
+      await ApiService.switchOrganization(organizationId);
+      navigation.replace('Dashboard');
+    } catch (error) {
+      console.error('Error switching organization:', error);
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await ApiService.logout();
@@ -182,6 +224,8 @@ export default function DashboardScreen({ navigation }: DashboardScreenProps) {
       case 'success': return '#34C759';
       case 'failed': return '#FF3B30';
       case 'pending': return '#FF9500';
+      case 'refunded': return '#5856D6';
+      case 'partially_refunded': return '#AF52DE';
       default: return '#8E8E93';
     }
   };
@@ -201,9 +245,25 @@ export default function DashboardScreen({ navigation }: DashboardScreenProps) {
       <div className="dashboard-header">
         <div className="header-left">
           <h1 className="header-title">Payment Dashboard</h1>
-          <p className="last-updated">Last updated: {lastUpdated.toLocaleTimeString()}</p>
+          <p className="last-updated">
+            <span className={`live-indicator ${live ? 'connected' : ''}`}>{live ? '● Live' : '○ Offline'}</span>
+            {' '}Last updated: {lastUpdated.toLocaleTimeString()}
+          </p>
         </div>
         <div className="header-actions">
+          {organizations.length > 1 && (
+            <select
+              className="organization-select"
+              value={activeOrganizationId ?? ''}
+              onChange={e => handleOrganizationChange(Number(e.target.value))}
+            >
+              {organizations.map(organization => (
+                <option key={organization.id} value={organization.id}>
+                  {organization.name}
+                </option>
+              ))}
+            </select>
+          )}
           <button className="refresh-button" onClick={onRefresh} disabled={refreshing}>
             {refreshing ? '🔄' : '↻'} {refreshing ? 'Refreshing...' : 'Refresh'}
           </button>
@@ -438,12 +498,26 @@ export default function DashboardScreen({ navigation }: DashboardScreenProps) {
           📊 Export Data
         </button>
 
+        <button
+          className="action-button tertiary"
+          onClick={() => navigation.navigate('Reconciliation')}
+        >
+          🏦 Reconciliation
+        </button>
+
         <button
           className="action-button tertiary"
           onClick={() => navigation.navigate('UserManagement')}
         >
           👥 Manage Users
         </button>
+
+        <button
+          className="action-button tertiary"
+          onClick={() => navigation.navigate('AuthEvents')}
+        >
+          🛡️ Security Log
+        </button>
       </div>
 
       {/* Quick Actions Floating Menu */}
@@ -244,7 +244,7 @@
 // });
 
 // LoginScreen.tsx - Fixed version
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -256,7 +256,7 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
-import ApiService from '../services/api';
+import ApiService, { MfaChallenge, authErrorCode, isMfaChallenge } from '../services/api';
 
 interface LoginScreenProps {
   navigation: any;
@@ -266,72 +266,168 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
+  // Set while the server refuses logins after too many failures
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // Second step, once the password is accepted but a 2FA code is still needed
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState('');
+  // Shown once after enrolling during login, before moving on
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const lockSecondsLeft = lockedUntil
+    ? Math.max(0, Math.ceil((lockedUntil.getTime() - now) / 1000))
+    : 0;
+
+  // Count the lockout down every second and clear it when it runs out
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil.getTime()) setLockedUntil(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const formatTimeLeft = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0
+      ? `${minutes}:${String(seconds % 60).padStart(2, '0')} min`
+      : `${seconds} s`;
+  };
+
+  const finishLogin = async () => {
+    // IMPORTANT: Verify token is actually stored before navigating
+    const tokenInfo = ApiService.getTokenInfo();
+    console.log('Token verification:', tokenInfo);
+    
+    if (!tokenInfo.hasToken) {
+      throw new Error('Token was not stored properly after login');
+    }
+    
+    // Optional: Test authentication immediately
+    try {
+      await ApiService.testAuth();
+      console.log('✅ Authentication verified successfully');
+    } catch (authError) {
+      console.log('❌ Authentication test failed:', authError);
+      // You might want to handle this case
+    }
+    
+    // Navigate to main app ONLY after confirming token is set
+    navigation.replace('Dashboard');
+  };
+
+  const resetChallenge = () => {
+    setChallenge(null);
+    setEnrollment(null);
+    setCode('');
+  };
 
   const handleLogin = async () => {
     if (!username.trim() || !password.trim()) {
       Alert.alert('Error', 'Please enter both username and password');
       return;
     }
+    if (lockSecondsLeft > 0) return;
 
     setLoading(true);
     try {
       console.log('Starting login process...');
       const response = await ApiService.login(username.trim(), password);
       console.log('Login successful:', response);
-      
-      // IMPORTANT: Verify token is actually stored before navigating
-      const tokenInfo = ApiService.getTokenInfo();
-      console.log('Token verification:', tokenInfo);
-      
-      if (!tokenInfo.hasToken) {
-        throw new Error('Token was not stored properly after login');
+
+      if (isMfaChallenge(response)) {
+        setCode('');
+        setChallenge(response);
+        if (response.enrollment_required) {
+          setEnrollment(await ApiService.startMfaEnrollment(response.challenge_token));
+        }
+        return;
       }
-      
-      // Optional: Test authentication immediately
-      try {
-        await ApiService.testAuth();
-        console.log('✅ Authentication verified successfully');
-      } catch (authError) {
-        console.log('❌ Authentication test failed:', authError);
-        // You might want to handle this case
+
+      await finishLogin();
+    } catch (error: any) {
+      handleLoginError(error, 'Invalid username or password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (!challenge) return;
+    if (!code.trim()) {
+      Alert.alert('Error', 'Please enter the code from your authenticator app');
+      return;
+    }
+    if (lockSecondsLeft > 0) return;
+
+    setLoading(true);
+    try {
+      const response = await ApiService.loginWithMfa(challenge.challenge_token, code.trim());
+      if (response.recovery_codes) {
+        setRecoveryCodes(response.recovery_codes);
+        return;
       }
-      
-      // Navigate to main app ONLY after confirming token is set
-      navigation.replace('Dashboard');
-      
+      await finishLogin();
     } catch (error: any) {
-      console.log('Login error:', error);
-      
-      let errorMessage = 'Login failed. Please try again.';
-      
-      if (error.response) {
-        // Server responded with error status
-        switch (error.response.status) {
-          case 401:
-            errorMessage = 'Invalid username or password';
-            break;
-          case 404:
-            errorMessage = 'Login service not found. Is the backend running?';
-            break;
-          case 500:
-            errorMessage = 'Server error. Please try again later.';
-            break;
-          default:
-            errorMessage = `Server error: ${error.response.status}`;
-        }
-      } else if (error.request) {
-        // Network error
-        errorMessage = 'Cannot connect to server. Please check:\n• Backend is running\n• Correct API URL\n• Network connection';
-      } else if (error.message) {
-        errorMessage = error.message;
+      // The challenge ran out: start over from the password
+      const errorCode = authErrorCode(error);
+      if (errorCode === 'TOKEN_EXPIRED' || errorCode === 'TOKEN_INVALID') {
+        resetChallenge();
+        Alert.alert('Login Failed', 'The sign-in took too long. Please enter your password again.');
+        return;
       }
-      
-      Alert.alert('Login Failed', errorMessage);
+      setCode('');
+      handleLoginError(error, 'Invalid verification code');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleLoginError = (error: any, invalidMessage: string) => {
+    console.log('Login error:', error);
+    
+    let errorMessage = 'Login failed. Please try again.';
+    
+    const errorCode = authErrorCode(error);
+    if (errorCode === 'ACCOUNT_LOCKED') {
+      // Locked out: shown inline with a countdown instead of an alert
+      const until = error.response.data?.lockedUntil;
+      setNow(Date.now());
+      setLockedUntil(until ? new Date(until) : new Date(Date.now() + 60000));
+      return;
+    }
+
+    if (errorCode === 'INVALID_CREDENTIALS' || errorCode === 'INVALID_MFA_CODE') {
+      errorMessage = invalidMessage;
+    } else if (errorCode === 'ACCOUNT_DISABLED') {
+      errorMessage = 'This account has been disabled. Please contact an administrator.';
+    } else if (errorCode === 'VALIDATION_FAILED') {
+      errorMessage = [error.response.data.message].flat().join('\n');
+    } else if (error.response) {
+      // Server responded with error status
+      switch (error.response.status) {
+        case 404:
+          errorMessage = 'Login service not found. Is the backend running?';
+          break;
+        case 500:
+          errorMessage = 'Server error. Please try again later.';
+          break;
+        default:
+          errorMessage = `Server error: ${error.response.status}`;
+      }
+    } else if (error.request) {
+      // Network error
+      errorMessage = 'Cannot connect to server. Please check:\n• Backend is running\n• Correct API URL\n• Network connection';
+    } else if (error.message) {
+      errorMessage = error.message;
+    }
+    
+    Alert.alert('Login Failed', errorMessage);
+  };
+
   const fillDemoCredentials = (type: 'admin' | 'viewer') => {
     if (type === 'admin') {
       setUsername('admin');
@@ -349,65 +445,153 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
     >
       <View style={styles.formContainer}>
         <Text style={styles.title}>Payment Dashboard</Text>
-        <Text style={styles.subtitle}>Sign in to continue</Text>
-
-        <View style={styles.inputContainer}>
-          <TextInput
-            style={styles.input}
-            placeholder="Username"
-            value={username}
-            onChangeText={setUsername}
-            autoCapitalize="none"
-            editable={!loading}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Password"
-            value={password}
-            onChangeText={setPassword}
-            secureTextEntry
-            editable={!loading}
-          />
-        </View>
-
-        <TouchableOpacity 
-          style={[styles.loginButton, loading && styles.disabledButton]} 
-          onPress={handleLogin}
-          disabled={loading}
-        >
-          {loading ? (
-            <ActivityIndicator color="#ffffff" />
-          ) : (
-            <Text style={styles.loginButtonText}>Sign In</Text>
-          )}
-        </TouchableOpacity>
-
-        {/* Demo credentials buttons */}
-        <View style={styles.demoSection}>
-          <Text style={styles.demoTitle}>Quick Login:</Text>
-          <View style={styles.demoButtons}>
-            <TouchableOpacity 
-              style={styles.demoButton} 
-              onPress={() => fillDemoCredentials('admin')}
-              disabled={loading}
+        <Text style={styles.subtitle}>
+          {recoveryCodes
+            ? 'Two-factor authentication is on'
+            : challenge
+            ? 'Two-factor authentication'
+            : 'Sign in to continue'}
+        </Text>
+
+        {recoveryCodes ? (
+          <>
+            <View style={styles.mfaBox}>
+              <Text style={styles.mfaTitle}>Save your recovery codes</Text>
+              <Text style={styles.mfaText}>
+                Each code signs you in once if you lose your authenticator. They will not be shown again.
+              </Text>
+              {recoveryCodes.map((recoveryCode) => (
+                <Text key={recoveryCode} style={styles.mfaCode} selectable>
+                  {recoveryCode}
+                </Text>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.loginButton} onPress={finishLogin}>
+              <Text style={styles.loginButtonText}>I have saved these codes</Text>
+            </TouchableOpacity>
+          </>
+        ) : challenge ? (
+          <>
+            {enrollment && (
+              <View style={styles.mfaBox}>
+                <Text style={styles.mfaTitle}>Set up an authenticator app</Text>
+                <Text style={styles.mfaText}>
+                  Your role requires two-factor authentication. Add this key to your authenticator app, or open the link on your phone:
+                </Text>
+                <Text style={styles.mfaCode} selectable>{enrollment.secret}</Text>
+                <Text style={styles.mfaUri} selectable>{enrollment.otpauthUri}</Text>
+              </View>
+            )}
+
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={styles.input}
+                placeholder={enrollment ? '6-digit code' : '6-digit code or recovery code'}
+                value={code}
+                onChangeText={setCode}
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+                editable={!loading}
+                onSubmitEditing={handleVerifyCode}
+              />
+            </View>
+
+            {lockSecondsLeft > 0 && (
+              <View style={styles.lockoutBox}>
+                <Text style={styles.lockoutTitle}>Too many failed login attempts</Text>
+                <Text style={styles.lockoutText}>
+                  Sign-in is locked. Try again in {formatTimeLeft(lockSecondsLeft)}, or ask an administrator to unlock your account.
+                </Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.loginButton, (loading || lockSecondsLeft > 0) && styles.disabledButton]}
+              onPress={handleVerifyCode}
+              disabled={loading || lockSecondsLeft > 0}
             >
-              <Text style={styles.demoButtonText}>Admin</Text>
+              {loading ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.loginButtonText}>Verify</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={resetChallenge} disabled={loading}>
+              <Text style={styles.backLink}>Back to sign in</Text>
             </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={styles.input}
+                placeholder="Username"
+                value={username}
+                onChangeText={setUsername}
+                autoCapitalize="none"
+                editable={!loading}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Password"
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                editable={!loading}
+              />
+            </View>
+
+            {lockSecondsLeft > 0 && (
+              <View style={styles.lockoutBox}>
+                <Text style={styles.lockoutTitle}>Too many failed login attempts</Text>
+                <Text style={styles.lockoutText}>
+                  Sign-in is locked. Try again in {formatTimeLeft(lockSecondsLeft)}, or ask an administrator to unlock your account.
+                </Text>
+              </View>
+            )}
+
             <TouchableOpacity 
-              style={styles.demoButton} 
-              onPress={() => fillDemoCredentials('viewer')}
-              disabled={loading}
+              style={[styles.loginButton, (loading || lockSecondsLeft > 0) && styles.disabledButton]} 
+              onPress={handleLogin}
+              disabled={loading || lockSecondsLeft > 0}
             >
-              <Text style={styles.demoButtonText}>Viewer</Text>
+              {loading ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.loginButtonText}>Sign In</Text>
+              )}
             </TouchableOpacity>
-          </View>
-        </View>
 
-        <Text style={styles.defaultCredentials}>
-          Default Credentials:{'\n'}
-          Admin: admin / admin123{'\n'}
-          Viewer: viewer / viewer123
-        </Text>
+            {/* Demo credentials buttons */}
+            <View style={styles.demoSection}>
+              <Text style={styles.demoTitle}>Quick Login:</Text>
+              <View style={styles.demoButtons}>
+                <TouchableOpacity 
+                  style={styles.demoButton} 
+                  onPress={() => fillDemoCredentials('admin')}
+                  disabled={loading}
+                >
+                  <Text style={styles.demoButtonText}>Admin</Text>
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  style={styles.demoButton} 
+                  onPress={() => fillDemoCredentials('viewer')}
+                  disabled={loading}
+                >
+                  <Text style={styles.demoButtonText}>Viewer</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <Text style={styles.defaultCredentials}>
+              Default Credentials:{'\n'}
+              Admin: admin / admin123{'\n'}
+              Viewer: viewer / viewer123
+            </Text>
+          </>
+        )}
       </View>
     </KeyboardAvoidingView>
   );
@@ -468,11 +652,62 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#ccc',
   },
+  lockoutBox: {
+    backgroundColor: '#fdecea',
+    borderColor: '#f5c2c7',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 15,
+  },
+  lockoutTitle: {
+    color: '#b02a37',
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  lockoutText: {
+    color: '#842029',
+    lineHeight: 18,
+  },
   loginButtonText: {
     color: 'white',
     fontSize: 18,
     fontWeight: 'bold',
   },
+  mfaBox: {
+    backgroundColor: '#eef4ff',
+    borderColor: '#b6d0fb',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 15,
+  },
+  mfaTitle: {
+    color: '#0b4fb3',
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  mfaText: {
+    color: '#333',
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  mfaCode: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 16,
+    letterSpacing: 1,
+    color: '#111',
+    marginBottom: 4,
+  },
+  mfaUri: {
+    fontSize: 11,
+    color: '#666',
+  },
+  backLink: {
+    color: '#007bff',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
   demoSection: {
     marginBottom: 20,
   },
@@ -0,0 +1,330 @@
+// src/screens/ReconciliationScreen.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import ApiService from '../services/api';
+import './ReconciliationScreen.css';
+
+type LineStatus = 'matched' | 'unmatched' | 'mismatched';
+type StatementFormat = 'csv' | 'mt940' | 'camt053';
+
+interface Payment {
+  id: number;
+  transactionId: string;
+  amount: string;
+  receiver: string;
+  status: string;
+  createdAt: string;
+}
+
+interface StatementLine {
+  id: number;
+  bookingDate: string;
+  amount: string;
+  currency?: string;
+  reference?: string;
+  counterparty?: string;
+  description?: string;
+  status: LineStatus;
+  matchMethod?: 'reference' | 'amount_date' | 'manual' | null;
+  reasons: string[];
+  payment?: Payment | null;
+  reviewed: boolean;
+  reviewedByUsername?: string;
+  note?: string | null;
+}
+
+interface Statement {
+  id: number;
+  filename: string;
+  format: StatementFormat;
+  fromDate?: string;
+  toDate?: string;
+  lineCount: number;
+  createdAt: string;
+  matchedCount?: number;
+  unmatchedCount?: number;
+  mismatchedCount?: number;
+}
+
+interface StatementDetails {
+  statement: Statement;
+  summary: {
+    total: number;
+    matched: number;
+    unmatched: number;
+    mismatched: number;
+    reviewed: number;
+    unmatchedPayments: number;
+  };
+  matched: StatementLine[];
+  unmatched: StatementLine[];
+  mismatched: StatementLine[];
+  unmatchedPayments: Payment[];
+}
+
+interface ReconciliationScreenProps {
+  navigation: any;
+}
+
+// Mismatches need attention first, then lines with no payment
+const SECTIONS: { status: LineStatus; title: string }[] = [
+  { status: 'mismatched', title: '⚠️ Mismatched' },
+  { status: 'unmatched', title: '❓ Unmatched' },
+  { status: 'matched', title: '✅ Matched' },
+];
+
+const MATCH_METHOD_LABELS = {
+  reference: 'by reference',
+  amount_date: 'by amount and date',
+  manual: 'manually',
+};
+
+export default function ReconciliationScreen({ navigation }: ReconciliationScreenProps) {
+  const [statements, setStatements] = useState<Statement[]>([]);
+  const [selected, setSelected] = useState<StatementDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [format, setFormat] = useState<StatementFormat | ''>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadStatements();
+  }, []);
+
+  const loadStatements = async () => {
+    try {
+      setLoading(true);
+      setStatements(await ApiService.getStatements());
+    } catch (error) {
+      console.error('Failed to load statements:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openStatement = async (id: number) => {
+    try {
+      setSelected(await ApiService.getStatement(id));
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Could not load the statement');
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    try {
+      setUploading(true);
+      const details: StatementDetails = await ApiService.importStatement(file, format || undefined);
+      setSelected(details);
+      alert(
+        `Imported ${details.summary.total} lines: ${details.summary.matched} matched, ` +
+        `${details.summary.mismatched} mismatched, ${details.summary.unmatched} unmatched.`
+      );
+      await loadStatements();
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Statement import failed');
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  // Review actions reload the statement so every set stays consistent
+  const reviewLine = async (action: () => Promise<unknown>) => {
+    if (!selected) {
+      return;
+    }
+    try {
+      await action();
+      await openStatement(selected.statement.id);
+      await loadStatements();
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Could not update the line');
+    }
+  };
+
+  const handleConfirm = (line: StatementLine) => {
+    const note = window.prompt('Note (optional)') ?? undefined;
+    return reviewLine(() => ApiService.confirmStatementLine(line.id, note || undefined));
+  };
+
+  const handleLink = (line: StatementLine) => {
+    const paymentId = Number(window.prompt('Payment ID to link this line to'));
+    if (!Number.isInteger(paymentId) || paymentId <= 0) {
+      return;
+    }
+    const note = window.prompt('Note (optional)') ?? undefined;
+    return reviewLine(() => ApiService.overrideStatementLine(line.id, paymentId, note || undefined));
+  };
+
+  const handleUnlink = (line: StatementLine) => {
+    if (!window.confirm('Mark this line as not belonging to any payment?')) {
+      return;
+    }
+    return reviewLine(() => ApiService.overrideStatementLine(line.id, null));
+  };
+
+  const formatAmount = (amount: string | number, currency?: string) =>
+    `${currency ?? '₹'} ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+  const renderLine = (line: StatementLine) => (
+    <div key={line.id} className={`statement-line ${line.status}`}>
+      <div className="line-main">
+        <div className="line-info">
+          <h4>{formatAmount(line.amount, line.currency)} • {line.bookingDate}</h4>
+          {line.counterparty && <p>{line.counterparty}</p>}
+          {line.reference && <p>Ref: {line.reference}</p>}
+          {line.description && <p className="line-description">{line.description}</p>}
+        </div>
+        {line.payment && (
+          <div className="line-payment">
+            <p>
+              Payment #{line.payment.id} {line.matchMethod && `(${MATCH_METHOD_LABELS[line.matchMethod]})`}
+            </p>
+            <p>{line.payment.transactionId}</p>
+            <p>
+              {formatAmount(line.payment.amount)} • {line.payment.status} •{' '}
+              {new Date(line.payment.createdAt).toLocaleDateString()}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {line.reasons.length > 0 && (
+        <ul className="line-reasons">
+          {line.reasons.map((reason) => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+
+      <div className="line-footer">
+        <span className="line-review">
+          {line.reviewed
+            ? `Reviewed by ${line.reviewedByUsername ?? 'unknown'}${line.note ? `: ${line.note}` : ''}`
+            : 'Not reviewed'}
+        </span>
+        <div className="line-actions">
+          {!line.reviewed && (
+            <button onClick={() => handleConfirm(line)}>
+              {line.status === 'mismatched' ? 'Accept Match' : 'Confirm'}
+            </button>
+          )}
+          <button onClick={() => handleLink(line)}>Link Payment</button>
+          {line.payment && (
+            <button onClick={() => handleUnlink(line)}>Unlink</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="reconciliation-container">
+      <div className="reconciliation-header">
+        <button className="back-button" onClick={() => navigation.goBack()}>
+          ← Back
+        </button>
+        <h1>Bank Reconciliation</h1>
+        <div className="header-actions">
+          <select value={format} onChange={(e) => setFormat(e.target.value as typeof format)}>
+            <option value="">Detect format</option>
+            <option value="csv">CSV</option>
+            <option value="mt940">MT940</option>
+            <option value="camt053">camt.053</option>
+          </select>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.sta,.mt940,.xml"
+            style={{ display: 'none' }}
+            onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+          />
+          <button
+            className="upload-button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+          >
+            {uploading ? 'Matching...' : '📥 Import Statement'}
+          </button>
+        </div>
+      </div>
+
+      <div className="reconciliation-body">
+        {/* Statements */}
+        <div className="statements-panel">
+          <h2>Statements</h2>
+          {loading ? (
+            <p className="muted">Loading statements...</p>
+          ) : statements.length === 0 ? (
+            <p className="muted">No statements imported yet.</p>
+          ) : (
+            statements.map((statement) => (
+              <div
+                key={statement.id}
+                className={`statement-card ${selected?.statement.id === statement.id ? 'active' : ''}`}
+                onClick={() => openStatement(statement.id)}
+              >
+                <h3>{statement.filename}</h3>
+                <p>
+                  {statement.format.toUpperCase()} • {statement.fromDate} → {statement.toDate}
+                </p>
+                <p className="statement-counts">
+                  <span className="count matched">{statement.matchedCount ?? 0} matched</span>
+                  <span className="count mismatched">{statement.mismatchedCount ?? 0} mismatched</span>
+                  <span className="count unmatched">{statement.unmatchedCount ?? 0} unmatched</span>
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Selected statement */}
+        <div className="results-panel scrollable">
+          {!selected ? (
+            <p className="muted">Import a statement or pick one to review its lines.</p>
+          ) : (
+            <>
+              <div className="results-summary">
+                <h2>{selected.statement.filename}</h2>
+                <p>
+                  {selected.summary.total} lines • {selected.summary.matched} matched •{' '}
+                  {selected.summary.mismatched} mismatched • {selected.summary.unmatched} unmatched •{' '}
+                  {selected.summary.reviewed} reviewed
+                </p>
+              </div>
+
+              {SECTIONS.map(({ status, title }) => (
+                <div key={status} className="results-section">
+                  <h3>{title} ({selected[status].length})</h3>
+                  {selected[status].length === 0 ? (
+                    <p className="muted">None.</p>
+                  ) : (
+                    selected[status].map(renderLine)
+                  )}
+                </div>
+              ))}
+
+              <div className="results-section">
+                <h3>💸 Payments missing from the bank ({selected.unmatchedPayments.length})</h3>
+                {selected.unmatchedPayments.length === 0 ? (
+                  <p className="muted">Every settled payment in this period was found on the statement.</p>
+                ) : (
+                  selected.unmatchedPayments.map((payment) => (
+                    <div key={payment.id} className="statement-line missing">
+                      <h4>
+                        #{payment.id} • {formatAmount(payment.amount)} • {payment.receiver}
+                      </h4>
+                      <p>
+                        {payment.transactionId} • {payment.status} •{' '}
+                        {new Date(payment.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 // src/screens/TransactionDetailsScreen.tsx
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  Alert,
 } from 'react-native';
+import ApiService from '../services/api';
+
+type ManualStatus = 'success' | 'pending' | 'failed';
 
 interface Transaction {
   id: number;
@@ -20,6 +24,16 @@ interface Transaction {
   description?: string;
 }
 
+interface PaymentEvent {
+  id: number;
+  type: 'created' | 'status_changed' | 'refunded' | 'note';
+  actorUsername?: string | null;
+  oldValue?: string | null;
+  newValue?: string | null;
+  reason?: string | null;
+  createdAt: string;
+}
+
 interface TransactionDetailsScreenProps {
   navigation: any;
   route: {
@@ -33,13 +47,63 @@ export default function TransactionDetailsScreen({
   navigation, 
   route, 
 }: TransactionDetailsScreenProps) {
-  const { transaction } = route.params;
+  const [transaction, setTransaction] = useState<Transaction>(route.params.transaction);
+  const [nextStatuses, setNextStatuses] = useState<ManualStatus[]>([]);
+  const [updating, setUpdating] = useState(false);
+  const [history, setHistory] = useState<PaymentEvent[]>([]);
+
+  const loadHistory = async () => {
+    try {
+      const events = await ApiService.getPaymentHistory(transaction.id);
+      setHistory(events);
+    } catch (error) {
+      console.warn('Could not load payment history:', error);
+    }
+  };
+
+  // Reload whenever the status changes so the new event shows up
+  useEffect(() => {
+    loadHistory();
+  }, [transaction.id, transaction.status]);
+
+  // Only offer the status changes the server's transition table allows
+  useEffect(() => {
+    const loadTransitions = async () => {
+      try {
+        const { transitions, manualStatuses } = await ApiService.getStatusTransitions();
+        const allowed = (transitions[transaction.status] || []).filter(status =>
+          manualStatuses.includes(status)
+        );
+        setNextStatuses(allowed as ManualStatus[]);
+      } catch (error) {
+        console.warn('Could not load status transitions:', error);
+        setNextStatuses([]);
+      }
+    };
+
+    loadTransitions();
+  }, [transaction.status]);
+
+  const handleStatusChange = async (status: ManualStatus) => {
+    setUpdating(true);
+    try {
+      const updated = await ApiService.updatePaymentStatus(transaction.id, status);
+      setTransaction(prev => ({ ...prev, ...updated }));
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to update payment status';
+      Alert.alert('Status Update Failed', Array.isArray(message) ? message.join('\n') : message);
+    } finally {
+      setUpdating(false);
+    }
+  };
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case 'success': return '#4CAF50';
       case 'failed': return '#f44336';
       case 'pending': return '#ff9800';
+      case 'refunded': return '#673AB7';
+      case 'partially_refunded': return '#9C27B0';
       default: return '#666';
     }
   };
@@ -60,6 +124,21 @@ export default function TransactionDetailsScreen({
     };
   };
 
+  const describeEvent = (event: PaymentEvent) => {
+    switch (event.type) {
+      case 'created':
+        return `Created as ${event.newValue?.toUpperCase()}`;
+      case 'status_changed':
+        return `${event.oldValue?.toUpperCase()} → ${event.newValue?.toUpperCase()}`;
+      case 'refunded':
+        return `Refund issued (${event.newValue?.replace('_', ' ').toUpperCase()})`;
+      case 'note':
+        return 'Note added';
+      default:
+        return event.type;
+    }
+  };
+
   const createdDate = formatDate(transaction.createdAt);
   const updatedDate = formatDate(transaction.updatedAt);
 
@@ -80,7 +159,7 @@ export default function TransactionDetailsScreen({
         <View style={styles.card}>
           <View style={styles.statusHeader}>
             <View style={[styles.statusBadge, { backgroundColor: getStatusColor(transaction.status) }]}>
-              <Text style={styles.statusText}>{transaction.status.toUpperCase()}</Text>
+              <Text style={styles.statusText}>{transaction.status.replace('_', ' ').toUpperCase()}</Text>
             </View>
           </View>
 
@@ -117,6 +196,58 @@ export default function TransactionDetailsScreen({
           </View>
         </View>
 
+        {history.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>History</Text>
+            <View style={styles.timeline}>
+              {history.map((event, index) => {
+                const eventDate = formatDate(event.createdAt);
+                return (
+                  <View key={event.id} style={styles.timelineItem}>
+                    <View style={styles.timelineMarker}>
+                      <View
+                        style={[
+                          styles.timelineDot,
+                          { backgroundColor: getStatusColor(event.newValue || '') },
+                        ]}
+                      />
+                      {index < history.length - 1 && <View style={styles.timelineLine} />}
+                    </View>
+                    <View style={styles.timelineContent}>
+                      <Text style={styles.timelineTitle}>{describeEvent(event)}</Text>
+                      {event.reason ? (
+                        <Text style={styles.timelineReason}>{event.reason}</Text>
+                      ) : null}
+                      <Text style={styles.timelineMeta}>
+                        {eventDate.date} {eventDate.time}
+                        {event.actorUsername ? ` • ${event.actorUsername}` : ' • system'}
+                      </Text>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {nextStatuses.length > 0 && (
+          <View style={styles.actionsSection}>
+            <Text style={styles.sectionTitle}>Change Status</Text>
+            {nextStatuses.map(status => (
+              <TouchableOpacity
+                key={status}
+                style={[styles.actionButton, { borderColor: getStatusColor(status) }]}
+                onPress={() => handleStatusChange(status)}
+                disabled={updating}
+              >
+                <Text style={[styles.actionButtonText, { color: getStatusColor(status) }]}>
+                  Mark as {status.toUpperCase()}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         <View style={styles.actionsSection}>
           <TouchableOpacity style={styles.actionButton}>
             <Text style={styles.actionButtonText}>Share Transaction</Text>
@@ -258,6 +389,53 @@ const styles = StyleSheet.create({
     padding: 20,
     gap: 15,
   },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  timeline: {
+    marginTop: 15,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    width: 20,
+    marginRight: 12,
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e0e0e0',
+    marginVertical: 2,
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: 20,
+  },
+  timelineTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  timelineReason: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  timelineMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
   actionButton: {
     backgroundColor: '#fff',
     paddingVertical: 15,
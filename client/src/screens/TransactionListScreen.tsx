@@ -1,5 +1,5 @@
 // src/screens/TransactionListScreen.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ApiService from '../services/api';
 import './TransactionListScreen.css';
 
@@ -7,11 +7,20 @@ interface Transaction {
   id: number;
   amount: number;
   receiver: string;
-  status: 'success' | 'pending' | 'failed';
+  status: 'success' | 'pending' | 'failed' | 'refunded' | 'partially_refunded';
   method: string;
   createdAt: string;
 }
 
+interface SearchResult {
+  payment: Transaction;
+  rank: number;
+  matchedFields: string[];
+}
+
+// Columns the server can sort /payments by
+type SortField = 'createdAt' | 'amount' | 'receiver' | 'status';
+
 interface TransactionListScreenProps {
   navigation: any;
 }
@@ -23,9 +32,23 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
   const [filters, setFilters] = useState({
     status: '',
     method: '',
+    receiver: '',
+    minAmount: '',
+    maxAmount: '',
     startDate: '',
     endDate: ''
   });
+  const [sort, setSort] = useState({
+    sortBy: 'createdAt' as SortField,
+    sortOrder: 'DESC' as 'ASC' | 'DESC'
+  });
+  const [exportFormat, setExportFormat] = useState<'csv' | 'xlsx' | 'json' | 'ndjson'>('csv');
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Latest loadTransactions, for the stream handler registered on mount
+  const reloadRef = useRef<() => void>(() => {});
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const itemsPerPage = 10;
@@ -46,12 +69,56 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
 
   useEffect(() => {
     applyFilters();
-  }, [filters, allTransactions]);
+  }, [filters, sort, allTransactions, searchResults]);
 
   useEffect(() => {
-    // Reset to first page when filters change
+    // Reset to first page when filters, sorting or the search change
     setCurrentPage(1);
-  }, [filters]);
+  }, [filters, sort, searchResults]);
+
+  // Search on the server once the user stops typing
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await ApiService.searchTransactions(query, filters);
+        setSearchResults(response.data || []);
+      } catch (error) {
+        console.error('Search failed:', error);
+        setSearchResults([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery, filters]);
+
+  // Live updates from the server: new payments go on top and status changes
+  // are applied in place; filters, sorting and paging then run as usual
+  useEffect(() => {
+    return ApiService.subscribeToPayments(event => {
+      if (event.type === 'payments.imported') {
+        reloadRef.current();
+        return;
+      }
+
+      const payment: Transaction = event.payment;
+      if (event.type === 'payment.created') {
+        setAllTransactions(prev => [payment, ...prev.filter(t => t.id !== payment.id)]);
+        return;
+      }
+
+      const update = (t: Transaction) => (t.id === payment.id ? { ...t, ...payment } : t);
+      setAllTransactions(prev => prev.map(update));
+      setSearchResults(prev =>
+        prev && prev.map(result => ({ ...result, payment: update(result.payment) }))
+      );
+    });
+  }, []);
 
   // Add listener for when new payments are added (if using navigation focus)
   useEffect(() => {
@@ -96,7 +163,7 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
 
       // Try to load from API
       try {
-        const response = await ApiService.getTransactions(filters, currentPage, itemsPerPage);
+        const response = await ApiService.getTransactions({ ...filters, ...sort }, currentPage, itemsPerPage);
         const apiTransactions: Transaction[] = response.data || [];
         
         // Combine localStorage transactions with API transactions
@@ -130,8 +197,12 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
     }
   };
 
+  reloadRef.current = loadTransactions;
+
   const applyFilters = () => {
-    let filtered = [...allTransactions];
+    let filtered = searchResults
+      ? searchResults.map(result => result.payment)
+      : [...allTransactions];
 
     // Filter by status
     if (filters.status) {
@@ -147,6 +218,27 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
       );
     }
 
+    // Filter by receiver (case-insensitive partial match, same as the server)
+    if (filters.receiver) {
+      const receiver = filters.receiver.toLowerCase();
+      filtered = filtered.filter(transaction =>
+        transaction.receiver.toLowerCase().includes(receiver)
+      );
+    }
+
+    // Filter by amount range
+    if (filters.minAmount) {
+      filtered = filtered.filter(transaction =>
+        transaction.amount >= parseFloat(filters.minAmount)
+      );
+    }
+
+    if (filters.maxAmount) {
+      filtered = filtered.filter(transaction =>
+        transaction.amount <= parseFloat(filters.maxAmount)
+      );
+    }
+
     // Filter by date range
     if (filters.startDate) {
       filtered = filtered.filter(transaction => {
@@ -166,6 +258,19 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
       });
     }
 
+    // Sort locally too, since stored payments are merged with the API page.
+    // Search results keep the server's relevance order.
+    if (!searchResults) {
+      const direction = sort.sortOrder === 'ASC' ? 1 : -1;
+      filtered.sort((a, b) => {
+        const left = sort.sortBy === 'createdAt' ? new Date(a.createdAt).getTime() : a[sort.sortBy];
+        const right = sort.sortBy === 'createdAt' ? new Date(b.createdAt).getTime() : b[sort.sortBy];
+        if (left < right) return -direction;
+        if (left > right) return direction;
+        return (a.id - b.id) * direction;
+      });
+    }
+
     setFilteredTransactions(filtered);
     
     // Calculate pagination
@@ -187,6 +292,14 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
     }));
   };
 
+  const getMatchedFields = (id: number) =>
+    searchResults?.find(result => result.payment.id === id)?.matchedFields ?? [];
+
+  const handleSortChange = (value: string) => {
+    const [sortBy, sortOrder] = value.split(':') as [SortField, 'ASC' | 'DESC'];
+    setSort({ sortBy, sortOrder });
+  };
+
   const handleRefresh = async () => {
     await loadTransactions();
   };
@@ -195,19 +308,64 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
     setFilters({
       status: '',
       method: '',
+      receiver: '',
+      minAmount: '',
+      maxAmount: '',
       startDate: '',
       endDate: ''
     });
   };
 
+  const hasActiveFilters = Object.values(filters).some(value => value !== '');
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'success': return '#34C759';
       case 'failed': return '#FF3B30';
       case 'pending': return '#FF9500';
+      case 'refunded': return '#5856D6';
+      case 'partially_refunded': return '#AF52DE';
       default: return '#8E8E93';
     }
   };
+  // Validate the file with a dry run first, then import only if confirmed
+  const handleImportFile = async (file: File) => {
+    try {
+      setImporting(true);
+      const preview = await ApiService.importPayments(file, true);
+
+      if (preview.acceptedCount === 0) {
+        alert(`No valid rows found in ${file.name} (${preview.rejectedCount} rejected).`);
+        if (preview.rejectedCount > 0) {
+          await ApiService.downloadRejectedImportRows(preview.id);
+        }
+        return;
+      }
+
+      const proceed = window.confirm(
+        `${preview.acceptedCount} of ${preview.totalRows} rows are valid and ` +
+        `${preview.rejectedCount} will be rejected. Import the valid rows?`
+      );
+      if (!proceed) {
+        return;
+      }
+
+      const job = await ApiService.importPayments(file);
+      alert(`Imported ${job.acceptedCount} payments.`);
+      if (job.rejectedCount > 0 && window.confirm('Download the rejected rows?')) {
+        await ApiService.downloadRejectedImportRows(job.id);
+      }
+      await loadTransactions();
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Import failed');
+    } finally {
+      setImporting(false);
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
+    }
+  };
+
   const handleClearLocalStorage = () => {
     localStorage.clear();
     alert("Local storage cleared!");
@@ -228,15 +386,49 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
           <button className="refresh-button" onClick={handleRefresh} disabled={loading}>
             🔄 Refresh
           </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            style={{ display: 'none' }}
+            onChange={(e) => e.target.files?.[0] && handleImportFile(e.target.files[0])}
+          />
+          <button
+            className="refresh-button"
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+          >
+            {importing ? 'Importing...' : '📥 Import CSV'}
+          </button>
           <button className="clear-storage-button" onClick={handleClearLocalStorage}>
             🗑️ Clear Local
           </button>
-          <button className="export-button" onClick={() => ApiService.exportTransactions(filters)}>
-            📊 Export CSV
+          <select
+            className="export-format"
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as typeof exportFormat)}
+          >
+            <option value="csv">CSV</option>
+            <option value="xlsx">Excel (XLSX)</option>
+            <option value="json">JSON</option>
+            <option value="ndjson">NDJSON</option>
+          </select>
+          <button className="export-button" onClick={() => ApiService.exportTransactions(filters, exportFormat)}>
+            📊 Export
           </button>
         </div>
       </div>
 
+      {/* Search */}
+      <div className="search-section">
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search by receiver, description or transaction ID"
+        />
+      </div>
+
       {/* Filters */}
       <div className="filters-section">
         <select 
@@ -247,6 +439,8 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
           <option value="success">Success</option>
           <option value="pending">Pending</option>
           <option value="failed">Failed</option>
+          <option value="refunded">Refunded</option>
+          <option value="partially_refunded">Partially Refunded</option>
         </select>
 
         <select 
@@ -260,6 +454,29 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
           <option value="Wallet">Wallet</option>
         </select>
 
+        <input
+          type="text"
+          value={filters.receiver}
+          onChange={(e) => handleFilterChange('receiver', e.target.value)}
+          placeholder="Receiver"
+        />
+
+        <input
+          type="number"
+          min="0"
+          value={filters.minAmount}
+          onChange={(e) => handleFilterChange('minAmount', e.target.value)}
+          placeholder="Min Amount"
+        />
+
+        <input
+          type="number"
+          min="0"
+          value={filters.maxAmount}
+          onChange={(e) => handleFilterChange('maxAmount', e.target.value)}
+          placeholder="Max Amount"
+        />
+
         <input 
           type="date" 
           value={filters.startDate}
@@ -277,10 +494,23 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
         <button 
           className="clear-filters-btn"
           onClick={clearFilters}
-          disabled={!filters.status && !filters.method && !filters.startDate && !filters.endDate}
+          disabled={!hasActiveFilters}
         >
           Clear Filters
         </button>
+
+        <select
+          value={`${sort.sortBy}:${sort.sortOrder}`}
+          onChange={(e) => handleSortChange(e.target.value)}
+        >
+          <option value="createdAt:DESC">Newest First</option>
+          <option value="createdAt:ASC">Oldest First</option>
+          <option value="amount:DESC">Amount: High to Low</option>
+          <option value="amount:ASC">Amount: Low to High</option>
+          <option value="receiver:ASC">Receiver: A to Z</option>
+          <option value="receiver:DESC">Receiver: Z to A</option>
+          <option value="status:ASC">Status</option>
+        </select>
       </div>
 
       {/* Results Summary */}
@@ -299,7 +529,11 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
           <div className="loading">Loading transactions...</div>
         ) : currentTransactions.length === 0 ? (
           <div className="no-transactions">
-            <p>No transactions found matching your filters.</p>
+            <p>
+              {searchResults
+                ? `No transactions found matching "${searchQuery.trim()}".`
+                : 'No transactions found matching your filters.'}
+            </p>
             <button onClick={clearFilters}>Clear Filters</button>
           </div>
         ) : (
@@ -310,6 +544,11 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
                   <h3>{transaction.receiver}</h3>
                   <p>ID: #{transaction.id} • {transaction.method}</p>
                   <p>{new Date(transaction.createdAt).toLocaleString()}</p>
+                  {getMatchedFields(transaction.id).length > 0 && (
+                    <p className="matched-fields">
+                      Matched: {getMatchedFields(transaction.id).join(', ')}
+                    </p>
+                  )}
                 </div>
                 <div className="transaction-amount">
                   {formatCurrency(transaction.amount)}
@@ -320,7 +559,7 @@ export default function TransactionListScreen({ navigation }: TransactionListScr
                   className="status-badge"
                   style={{ backgroundColor: getStatusColor(transaction.status) }}
                 >
-                  {transaction.status.toUpperCase()}
+                  {transaction.status.replace('_', ' ').toUpperCase()}
                 </div>
                 <button 
                   className="view-details-btn"
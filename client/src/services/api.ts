@@ -3,9 +3,108 @@ import axios, { AxiosInstance, AxiosResponse } from 'axios';
 // Update this to your backend URL
 const API_BASE_URL = 'http://localhost:3000'; // Change to your computer's IP for physical device
 
+// Changes pushed by GET /payments/stream
+export type PaymentStreamEvent =
+  | { type: 'payment.created'; payment: any }
+  | { type: 'payment.status_changed'; payment: any; previousStatus: string }
+  | { type: 'payments.imported'; count: number };
+
+// Longest wait between stream reconnects
+const MAX_STREAM_RETRY_MS = 30000;
+
+// Auth routes whose 401s mean bad credentials, not an expired access token
+const NO_REFRESH_URLS = [
+  '/auth/login',
+  '/auth/login/mfa',
+  '/auth/login/mfa/enroll',
+  '/auth/refresh',
+];
+
+// `code` of every error from the auth routes (AuthErrorCode on the server)
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'ACCOUNT_LOCKED'
+  | 'ACCOUNT_DISABLED'
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_INVALID'
+  | 'TOKEN_REVOKED'
+  | 'MFA_REQUIRED'
+  | 'INVALID_MFA_CODE'
+  | 'PASSWORD_POLICY_VIOLATION'
+  | 'VALIDATION_FAILED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT';
+
+// The auth error code of a failed request, if it has one
+export const authErrorCode = (error: any): AuthErrorCode | undefined =>
+  error?.response?.data?.code;
+
+// Successful answer of the login, refresh, change-password and
+// switch-organization routes
+export interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  user: {
+    id: number;
+    username: string;
+    role: 'admin' | 'viewer';
+    // Null for users who belong to no organization yet
+    organizationId: number | null;
+  };
+  recovery_codes?: string[];
+}
+
+export interface Organization {
+  id: number;
+  name: string;
+  createdAt: string;
+}
+
+// POST /auth/login answer for users who also need a TOTP or recovery code
+export interface MfaChallenge {
+  code: 'MFA_REQUIRED';
+  mfa_required: true;
+  enrollment_required: boolean;
+  challenge_token: string;
+  expires_in: number;
+}
+
+// Row of GET /audit/auth-events
+export interface AuthEvent {
+  id: number;
+  type:
+    | 'login_succeeded'
+    | 'login_failed'
+    | 'logout'
+    | 'token_refreshed'
+    | 'password_changed'
+    | 'role_changed'
+    | 'user_disabled'
+    | 'user_enabled'
+    | 'user_deleted'
+    | 'organization_switched'
+    | 'api_key_used';
+  userId?: number | null;
+  username?: string | null;
+  actorUsername?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  details?: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export const isMfaChallenge = (
+  response: TokenResponse | MfaChallenge
+): response is MfaChallenge => (response as MfaChallenge).code === 'MFA_REQUIRED';
+
 class ApiService {
   private api: AxiosInstance;
   private authToken: string | null = null;
+  private refreshToken: string | null = null;
+  // Shared by every request that hits a 401 while a refresh is running
+  private refreshing: Promise<boolean> | null = null;
 
   constructor() {
     this.api = axios.create({
@@ -49,9 +148,26 @@ class ApiService {
       async (error) => {
         console.log('❌ Response error:', error.response?.status, error.config?.url);
         
-        if (error.response?.status === 401) {
-          console.log('🚨 401 Unauthorized - clearing token');
-          this.clearToken();
+        const config = error.config;
+        const code = authErrorCode(error);
+        if (
+          error.response?.status === 401 &&
+          config &&
+          !config._retried &&
+          !NO_REFRESH_URLS.includes(config.url)
+        ) {
+          if (code === 'TOKEN_EXPIRED') {
+            // The access token expired: renew it once and replay the request
+            console.log('🔄 401 Unauthorized - refreshing session');
+            if (await this.refreshSession()) {
+              config._retried = true;
+              return this.api(config);
+            }
+          } else if (code === 'TOKEN_REVOKED' || code === 'ACCOUNT_DISABLED') {
+            // Logged out elsewhere or disabled: a refresh would fail too
+            console.log('🚨 Session ended by the server:', code);
+            this.clearToken();
+          }
         }
         return Promise.reject(error);
       }
@@ -66,29 +182,63 @@ class ApiService {
         this.authToken = token;
         console.log('🔑 Token loaded from localStorage');
       }
+      this.refreshToken = localStorage.getItem('refreshToken');
     } catch (error) {
       console.log('❌ Error loading token from localStorage:', error);
     }
   }
 
-  private saveTokenToStorage(token: string): void {
+  private saveTokenToStorage(token: string, refreshToken?: string): void {
+    this.authToken = token;
+    if (refreshToken) this.refreshToken = refreshToken;
     try {
       localStorage.setItem('token', token);
-      this.authToken = token;
+      if (refreshToken) localStorage.setItem('refreshToken', refreshToken);
       console.log('💾 Token saved to localStorage');
     } catch (error) {
       console.log('❌ Error saving token to localStorage:', error);
-      this.authToken = token; // At least keep it in memory
+      // Tokens are still kept in memory
     }
   }
 
   private clearToken(): void {
     try {
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
     } catch (error) {
       console.log('❌ Error removing token from localStorage:', error);
     }
     this.authToken = null;
+    this.refreshToken = null;
+  }
+
+  // Trades the refresh token for new tokens. Concurrent callers share one
+  // request, since each refresh token only works once. Clears the session
+  // when the refresh token is rejected.
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshToken) {
+      this.clearToken();
+      return Promise.resolve(false);
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = this.api
+        .post('/auth/refresh', { refreshToken: this.refreshToken })
+        .then(response => {
+          this.saveTokenToStorage(response.data.access_token, response.data.refresh_token);
+          console.log('✅ Session refreshed');
+          return true;
+        })
+        .catch(error => {
+          console.log('🚨 Refresh failed - clearing token:', error.response?.status);
+          this.clearToken();
+          return false;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
   }
 
   // Debug method to check token
@@ -99,8 +249,87 @@ class ApiService {
     };
   }
 
+  // Live payment changes. The stream is read with fetch so the bearer token
+  // can be sent as a header; it reconnects with backoff until the returned
+  // function is called.
+  subscribeToPayments(
+    onEvent: (event: PaymentStreamEvent) => void,
+    onConnectionChange?: (connected: boolean) => void
+  ): () => void {
+    let controller: AbortController | null = null;
+    let stopped = false;
+    let retryMs = 1000;
+
+    const handleMessage = (message: string) => {
+      let type = 'message';
+      const data: string[] = [];
+      message.split('\n').forEach(line => {
+        if (line.startsWith('event:')) type = line.slice(6).trim();
+        if (line.startsWith('data:')) data.push(line.slice(5).trim());
+      });
+
+      if (type === 'ready') {
+        retryMs = 1000;
+        onConnectionChange?.(true);
+      } else if (type !== 'heartbeat' && data.length > 0) {
+        onEvent(JSON.parse(data.join('\n')));
+      }
+    };
+
+    const connect = async () => {
+      controller = new AbortController();
+      try {
+        const response = await fetch(`${API_BASE_URL}/payments/stream`, {
+          headers: this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {},
+          signal: controller.signal,
+        });
+        if (response.status === 401) {
+          console.log('🔄 401 Unauthorized on payment stream - refreshing session');
+          if (!(await this.refreshSession())) {
+            stopped = true;
+          }
+          return;
+        }
+        if (!response.ok || !response.body) {
+          throw new Error(`Payment stream failed with status ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true }).replace(/\r/g, '');
+          let end: number;
+          while ((end = buffer.indexOf('\n\n')) !== -1) {
+            handleMessage(buffer.slice(0, end));
+            buffer = buffer.slice(end + 2);
+          }
+        }
+      } catch (error) {
+        if (!stopped) {
+          console.log('❌ Payment stream error:', error);
+        }
+      } finally {
+        onConnectionChange?.(false);
+        if (!stopped) {
+          setTimeout(connect, retryMs);
+          retryMs = Math.min(retryMs * 2, MAX_STREAM_RETRY_MS);
+        }
+      }
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      controller?.abort();
+    };
+  }
+
   // Authentication
-  async login(username: string, password: string): Promise<any> {
+  async login(username: string, password: string): Promise<TokenResponse | MfaChallenge> {
     try {
       console.log('🔐 Attempting login with:', { username, password });
       console.log('🌐 API URL:', `${API_BASE_URL}/auth/login`);
@@ -113,27 +342,20 @@ class ApiService {
       console.log('📥 Login response status:', response.status);
       console.log('📥 Login response data:', JSON.stringify(response.data, null, 2));
 
-      // Try different possible token field names
-      let token = response.data.access_token || 
-                  response.data.token || 
-                  response.data.accessToken ||
-                  response.data.jwt ||
-                  response.data.authToken;
-
-      if (token) {
-        this.saveTokenToStorage(token);
-        console.log('✅ Token stored successfully');
-        console.log('🔑 Token preview:', token.substring(0, 30) + '...');
+      // Second factor outstanding: no tokens until loginWithMfa succeeds
+      if (isMfaChallenge(response.data)) {
+        console.log('🔐 Two-factor code required');
         return response.data;
-      } else {
-        console.log('❌ No token found in response');
-        console.log('📋 Available fields:', Object.keys(response.data));
-        throw new Error('No authentication token found in response');
       }
+
+      this.saveTokenToStorage(response.data.access_token, response.data.refresh_token);
+      console.log('✅ Token stored successfully');
+      return response.data;
     } catch (error: any) {
       console.log('❌ Login failed:', error);
       
       if (error.response) {
+        console.log('📥 Error code:', authErrorCode(error));
         console.log('📥 Error response data:', error.response.data);
         console.log('📥 Error response status:', error.response.status);
         console.log('📥 Error response headers:', error.response.headers);
@@ -148,11 +370,84 @@ class ApiService {
     }
   }
 
+  // Second login step; the response carries recovery_codes when the user
+  // enrolled during this login
+  async loginWithMfa(challengeToken: string, code: string): Promise<TokenResponse> {
+    const response = await this.api.post('/auth/login/mfa', {
+      challengeToken,
+      code,
+    });
+    this.saveTokenToStorage(response.data.access_token, response.data.refresh_token);
+    console.log('✅ Two-factor login complete');
+    return response.data;
+  }
+
+  // For a challenge with enrollment_required: the secret and otpauth:// URI
+  // to add to an authenticator app
+  async startMfaEnrollment(challengeToken: string): Promise<{ secret: string; otpauthUri: string }> {
+    const response = await this.api.post('/auth/login/mfa/enroll', { challengeToken });
+    return response.data;
+  }
+
+  // Admin only: which roles must use two-factor authentication
+  async getMfaPolicies(): Promise<{ role: 'admin' | 'viewer'; required: boolean }[]> {
+    const response = await this.api.get('/auth/mfa/policies');
+    return response.data;
+  }
+
+  async setMfaPolicy(role: 'admin' | 'viewer', required: boolean) {
+    const response = await this.api.put(`/auth/mfa/policies/${role}`, { required });
+    return response.data;
+  }
+
+  // Ends the session on the server too, so its tokens stop working
   async logout(): Promise<void> {
+    try {
+      await this.api.post('/auth/logout');
+    } catch (error) {
+      console.log('❌ Server logout failed:', error);
+    }
     this.clearToken();
     console.log('👋 Logged out successfully');
   }
 
+  // Every other session ends; the response carries tokens for this one
+  async changePassword(currentPassword: string, newPassword: string): Promise<TokenResponse> {
+    const response = await this.api.post('/auth/change-password', {
+      currentPassword,
+      newPassword,
+    });
+    this.saveTokenToStorage(response.data.access_token, response.data.refresh_token);
+    return response.data;
+  }
+
+  // Payments are only visible in the organization the session acts in
+  async getMyOrganizations(): Promise<{
+    activeOrganizationId: number | null;
+    organizations: Organization[];
+  }> {
+    const response = await this.api.get('/organizations/mine');
+    return response.data;
+  }
+
+  // Starts a new session in the organization; the old tokens stop working
+  async switchOrganization(organizationId: number): Promise<TokenResponse> {
+    const response = await this.api.post('/auth/switch-organization', { organizationId });
+    this.saveTokenToStorage(response.data.access_token, response.data.refresh_token);
+    return response.data;
+  }
+
+  // The reset token is delivered out of band, not in the response
+  async forgotPassword(username: string): Promise<{ message: string }> {
+    const response = await this.api.post('/auth/forgot-password', { username });
+    return response.data;
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<{ message: string }> {
+    const response = await this.api.post('/auth/reset-password', { token, newPassword });
+    return response.data;
+  }
+
   async isAuthenticated(): Promise<boolean> {
     const isAuth = !!this.authToken;
     console.log('🔍 Authentication check:', isAuth);
@@ -265,11 +560,22 @@ class ApiService {
     }
   }
 
-  async getTransactions(filters = {}, page = 1, limit = 10) {
+  // Empty filter values would fail server-side validation, so leave them out
+  private toQueryParams(values: Record<string, string | number | undefined>): URLSearchParams {
+    const params = new URLSearchParams();
+    Object.entries(values).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.append(key, String(value));
+      }
+    });
+    return params;
+  }
+
+  async getTransactions(filters: Record<string, string> = {}, page = 1, limit = 10) {
     try {
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: limit.toString(),
+      const params = this.toQueryParams({
+        page,
+        limit,
         ...filters
       });
 
@@ -281,6 +587,32 @@ class ApiService {
     }
   }
 
+  // Ranked search over receiver, description and transaction id
+  async searchTransactions(q: string, filters: Record<string, string> = {}, limit = 50) {
+    try {
+      const params = this.toQueryParams({ q, limit, ...filters });
+
+      const response = await this.api.get(`/payments/search?${params}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error searching transactions:', error);
+      throw error;
+    }
+  }
+
+  // Fetches the page before or after a nextCursor/prevCursor returned by getTransactions
+  async getTransactionsByCursor(cursor: string, limit = 10) {
+    try {
+      const params = this.toQueryParams({ cursor, limit });
+
+      const response = await this.api.get(`/payments?${params}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching transactions:', error);
+      throw error;
+    }
+  }
+
   async getTransaction(id: number) {
     try {
       const response = await this.api.get(`/payments/${id}`);
@@ -291,14 +623,22 @@ class ApiService {
     }
   }
 
+  // Random key identifying one logical payment submission
+  createIdempotencyKey(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 12)}`;
+  }
+
+  // Pass the same idempotencyKey when retrying so the server never creates duplicates
   async createPayment(paymentData: {
     amount: number;
     receiver: string;
-    status: 'success' | 'pending' | 'failed';
     method: string;
-  }) {
+    description?: string;
+  }, idempotencyKey?: string) {
     try {
-      const response = await this.api.post('/payments', paymentData);
+      const response = await this.api.post('/payments', paymentData, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      });
       return response.data;
     } catch (error) {
       console.error('Error creating payment:', error);
@@ -331,10 +671,66 @@ class ApiService {
     }
   }
 
+  // Admin only: lift a login lockout early
+  async unlockUser(id: number) {
+    try {
+      const response = await this.api.post(`/users/${id}/unlock`);
+      return response.data;
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      throw error;
+    }
+  }
+
+  // Admin only: user lifecycle. Demoting, disabling or deleting the last
+  // active admin is refused with 409.
+  async updateUserRole(id: number, role: 'admin' | 'viewer') {
+    try {
+      const response = await this.api.patch(`/users/${id}`, { role });
+      return response.data;
+    } catch (error) {
+      console.error('Error updating user:', error);
+      throw error;
+    }
+  }
+
+  async setUserDisabled(id: number, disabled: boolean) {
+    try {
+      const response = await this.api.post(`/users/${id}/${disabled ? 'disable' : 'enable'}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error updating user:', error);
+      throw error;
+    }
+  }
+
+  // Returns { temporaryPassword }, which is not shown again
+  async resetUserPassword(id: number): Promise<{ temporaryPassword: string }> {
+    try {
+      const response = await this.api.post(`/users/${id}/reset-password`);
+      return response.data;
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      throw error;
+    }
+  }
+
+  async deleteUser(id: number) {
+    try {
+      await this.api.delete(`/users/${id}`);
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      throw error;
+    }
+  }
+
   // Export transactions to CSV
-  async exportTransactions(filters = {}) {
+  async exportTransactions(
+    filters: Record<string, string> = {},
+    format: 'csv' | 'xlsx' | 'json' | 'ndjson' = 'csv'
+  ) {
     try {
-      const params = new URLSearchParams(filters);
+      const params = this.toQueryParams({ ...filters, format });
       
       const response = await this.api.get(`/payments/export?${params}`, {
         responseType: 'blob'
@@ -344,7 +740,7 @@ class ApiService {
       const url = window.URL.createObjectURL(new Blob([response.data]));
       const link = document.createElement('a');
       link.href = url;
-      link.setAttribute('download', `transactions_${new Date().toISOString().split('T')[0]}.csv`);
+      link.setAttribute('download', `transactions_${new Date().toISOString().split('T')[0]}.${format}`);
       document.body.appendChild(link);
       link.click();
       link.remove();
@@ -357,7 +753,135 @@ class ApiService {
     }
   }
 
-  // Update payment status
+  // Bulk CSV import. A dry run only validates and reports per-row errors.
+  async importPayments(file: File, dryRun = false) {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await this.api.post(`/payments/import?dryRun=${dryRun}`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error importing payments:', error);
+      throw error;
+    }
+  }
+
+  async downloadRejectedImportRows(jobId: number) {
+    try {
+      const response = await this.api.get(`/payments/import/${jobId}/rejected`, {
+        responseType: 'blob'
+      });
+
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', `import_${jobId}_rejected.csv`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error downloading rejected rows:', error);
+      throw error;
+    }
+  }
+
+  // Bank statement reconciliation
+  async importStatement(file: File, format?: 'csv' | 'mt940' | 'camt053') {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const query = format ? `?format=${format}` : '';
+      const response = await this.api.post(`/reconciliation/statements${query}`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error importing bank statement:', error);
+      throw error;
+    }
+  }
+
+  // Admin only: security log, newest first. Filters: type, userId,
+  // username, ip, from, to
+  async getAuthEvents(
+    filters: Record<string, string> = {},
+    page = 1,
+    limit = 50
+  ): Promise<{ data: AuthEvent[]; total: number; page: number; limit: number; totalPages: number }> {
+    try {
+      const params = this.toQueryParams({ page, limit, ...filters });
+      const response = await this.api.get(`/audit/auth-events?${params}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching auth events:', error);
+      throw error;
+    }
+  }
+
+  async getStatements() {
+    try {
+      const response = await this.api.get('/reconciliation/statements');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching bank statements:', error);
+      throw error;
+    }
+  }
+
+  async getStatement(id: number) {
+    try {
+      const response = await this.api.get(`/reconciliation/statements/${id}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching bank statement:', error);
+      throw error;
+    }
+  }
+
+  async confirmStatementLine(id: number, note?: string) {
+    try {
+      const response = await this.api.post(`/reconciliation/lines/${id}/confirm`, { note });
+      return response.data;
+    } catch (error) {
+      console.error('Error confirming statement line:', error);
+      throw error;
+    }
+  }
+
+  // paymentId null unlinks the line from any payment
+  async overrideStatementLine(id: number, paymentId: number | null, note?: string) {
+    try {
+      const response = await this.api.post(`/reconciliation/lines/${id}/override`, { paymentId, note });
+      return response.data;
+    } catch (error) {
+      console.error('Error overriding statement line:', error);
+      throw error;
+    }
+  }
+
+  // Status transition rules - the server is the single source of truth
+  async getStatusTransitions(): Promise<{
+    transitions: Record<string, string[]>;
+    initialStatuses: string[];
+    manualStatuses: string[];
+  }> {
+    try {
+      const response = await this.api.get('/payments/status-transitions');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching status transitions:', error);
+      throw error;
+    }
+  }
+
+  // Update payment status - the server rejects illegal transitions with 409
   async updatePaymentStatus(id: number, status: 'success' | 'pending' | 'failed') {
     try {
       const response = await this.api.patch(`/payments/${id}/status`, { status });
@@ -368,6 +892,48 @@ class ApiService {
     }
   }
 
+  // Refund a payment - omit amount for a full refund
+  async createRefund(id: number, refundData: { amount?: number; reason?: string } = {}) {
+    try {
+      const response = await this.api.post(`/payments/${id}/refunds`, refundData);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating refund:', error);
+      throw error;
+    }
+  }
+
+  async getRefunds(id: number) {
+    try {
+      const response = await this.api.get(`/payments/${id}/refunds`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+      throw error;
+    }
+  }
+
+  // Payment history (creation, status changes, refunds and notes)
+  async getPaymentHistory(id: number) {
+    try {
+      const response = await this.api.get(`/payments/${id}/history`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching payment history:', error);
+      throw error;
+    }
+  }
+
+  async addPaymentNote(id: number, note: string) {
+    try {
+      const response = await this.api.post(`/payments/${id}/notes`, { note });
+      return response.data;
+    } catch (error) {
+      console.error('Error adding payment note:', error);
+      throw error;
+    }
+  }
+
   // Analytics methods
   async getRevenueByMethod() {
     try {
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import type { ApiKeyResourceName } from './api-key-scopes';
+
+export const API_KEY_RESOURCE_KEY = 'apiKeyResource';
+
+// Marks the scope family API keys need for a controller or route; used
+// together with JwtOrApiKeyAuthGuard
+export const ApiKeyResource = (resource: ApiKeyResourceName) =>
+  SetMetadata(API_KEY_RESOURCE_KEY, resource);
@@ -0,0 +1,18 @@
+// src/api-keys/api-key-scopes.ts
+
+// Areas of the API a key can be let into; see ApiKeyResource
+export const API_KEY_RESOURCES = [
+  'payments',
+  'reconciliation',
+  'webhooks',
+] as const;
+
+export type ApiKeyResourceName = (typeof API_KEY_RESOURCES)[number];
+
+// `<resource>:read` covers GET requests, `<resource>:write` everything else
+export const API_KEY_SCOPES = API_KEY_RESOURCES.flatMap((resource) => [
+  `${resource}:read` as const,
+  `${resource}:write` as const,
+]);
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
@@ -0,0 +1,57 @@
+// src/api-keys/api-key.strategy.ts
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import type { Request } from 'express';
+import * as passport from 'passport';
+import { ApiKeysService } from './api-keys.service';
+import { JwtUser } from '../auth/interfaces/jwt-user.interface';
+
+type VerifyCallback = (
+  req: Request,
+  key: string,
+  done: (error: unknown, user?: JwtUser | false) => void,
+) => void;
+
+// Reads the key from the X-API-Key header. A request without one fails,
+// which lets the next strategy (or the 401) take over.
+class HeaderApiKeyStrategy extends passport.Strategy {
+  name = 'api-key';
+
+  constructor(private readonly verify: VerifyCallback) {
+    super();
+  }
+
+  authenticate(req: Request) {
+    const key = req.headers['x-api-key'];
+    if (typeof key !== 'string' || !key) {
+      return this.fail('Missing API key', 401);
+    }
+
+    this.verify(req, key, (error, user) => {
+      if (error) {
+        return this.error(error);
+      }
+      if (!user) {
+        return this.fail('Invalid API key', 401);
+      }
+      this.success(user);
+    });
+  }
+}
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(
+  HeaderApiKeyStrategy,
+  'api-key',
+) {
+  constructor(private apiKeysService: ApiKeysService) {
+    super();
+  }
+
+  validate(req: Request, key: string): Promise<JwtUser> {
+    return this.apiKeysService.authenticate(key, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+}
@@ -0,0 +1,62 @@
+// src/api-keys/api-keys.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Request,
+  HttpCode,
+  ParseIntPipe,
+  ValidationPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from 'src/auth/jwt-auth-guard';
+import { RolesGuard } from 'src/auth/roles-guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { UserRole } from 'src/users/enums/user-role.enum';
+import type { JwtUser } from 'src/auth/interfaces/jwt-user.interface';
+import { ActiveOrganization } from 'src/organizations/active-organization.decorator';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+// Only reachable with an access token; keys cannot manage keys. Every route
+// acts in the caller's active organization; see ActiveOrganization
+@Controller('api-keys')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  create(
+    @ActiveOrganization() organizationId: number,
+    @Body(ValidationPipe) createDto: CreateApiKeyDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.apiKeysService.create(organizationId, createDto, req.user);
+  }
+
+  @Get()
+  findAll(@ActiveOrganization() organizationId: number) {
+    return this.apiKeysService.findAll(organizationId);
+  }
+
+  @Get(':id')
+  findOne(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.apiKeysService.findOne(organizationId, id);
+  }
+
+  @Post(':id/revoke')
+  @HttpCode(200)
+  revoke(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.apiKeysService.revoke(organizationId, id, req.user);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PassportModule } from '@nestjs/passport';
+import { ApiKey } from './entities/api-key.entity';
+import { User } from '../users/entities/user.entity';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeyStrategy } from './api-key.strategy';
+import { AuditModule } from '../audit/audit.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ApiKey, User]),
+    PassportModule,
+    AuditModule,
+    OrganizationsModule,
+  ],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, ApiKeyStrategy],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,204 @@
+import { ApiKeysService } from './api-keys.service';
+import { ApiKey } from './entities/api-key.entity';
+import { UserRole } from '../users/enums/user-role.enum';
+import { AuthEventType } from '../audit/enums/auth-event-type.enum';
+import { AuthErrorCode } from '../auth/enums/auth-error-code.enum';
+
+describe('ApiKeysService', () => {
+  const setup = () => {
+    const stored: ApiKey[] = [];
+    const apiKeysRepository = {
+      create: jest.fn((values: Partial<ApiKey>) => values),
+      save: jest.fn((apiKey: ApiKey) => {
+        stored.push({ ...apiKey, id: stored.length + 1 });
+        return Promise.resolve(stored[stored.length - 1]);
+      }),
+      findOne: jest.fn(({ where }: { where: Partial<ApiKey> }) =>
+        Promise.resolve(
+          stored.find((apiKey) =>
+            Object.entries(where).every(
+              ([key, value]) => apiKey[key as keyof ApiKey] === value,
+            ),
+          ) ?? null,
+        ),
+      ),
+      find: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    const usersRepository = {
+      exists: jest.fn().mockResolvedValue(true),
+      findOne: jest.fn().mockResolvedValue({
+        id: 7,
+        username: 'nightly-export',
+        role: UserRole.VIEWER,
+      }),
+    };
+    const auditService = { recordAuthEvent: jest.fn() };
+    const organizationsService = {
+      isMember: jest.fn().mockResolvedValue(true),
+      resolveActiveOrganization: jest.fn().mockResolvedValue(2),
+    };
+    const service = new ApiKeysService(
+      apiKeysRepository as never,
+      usersRepository as never,
+      auditService as never,
+      organizationsService as never,
+    );
+
+    const createKey = () =>
+      service.create(3, {
+        name: 'Nightly export',
+        userId: 7,
+        scopes: ['payments:read'],
+      });
+
+    return {
+      service,
+      stored,
+      apiKeysRepository,
+      auditService,
+      organizationsService,
+      usersRepository,
+      createKey,
+    };
+  };
+
+  it('returns the full key once and stores only a hash of its secret', async () => {
+    const { stored, createKey } = setup();
+
+    const created = await createKey();
+
+    expect(created.key).toMatch(/^pdk_[0-9a-f]{8}_[A-Za-z0-9_-]{43}$/);
+    expect(created).not.toHaveProperty('secretHash');
+    expect(created.key.startsWith(`${stored[0].prefix}_`)).toBe(true);
+    expect(stored[0].secretHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(created.key).not.toContain(stored[0].secretHash);
+  });
+
+  it('authenticates as the key user with the key scopes', async () => {
+    const { service, createKey, apiKeysRepository, auditService } = setup();
+    const { key } = await createKey();
+
+    await expect(
+      service.authenticate(key, { ip: '10.0.0.1' }),
+    ).resolves.toEqual({
+      userId: 7,
+      username: 'nightly-export',
+      role: UserRole.VIEWER,
+      apiKeyId: 1,
+      scopes: ['payments:read'],
+      organizationId: 3,
+    });
+    expect(apiKeysRepository.update).toHaveBeenCalledWith(
+      { id: 1 },
+      { lastUsedAt: expect.any(Date) as Date, lastUsedIp: '10.0.0.1' },
+    );
+    expect(auditService.recordAuthEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: AuthEventType.API_KEY_USED,
+        userId: 7,
+        details: { apiKeyId: 1, prefix: key.slice(0, 12) },
+      }),
+      { ip: '10.0.0.1' },
+    );
+  });
+
+  it('acts in the key organization only while its user belongs to it', async () => {
+    const { service, stored, createKey, organizationsService } = setup();
+    const { key } = await createKey();
+
+    organizationsService.isMember.mockResolvedValueOnce(false);
+    await expect(service.authenticate(key)).resolves.toEqual(
+      expect.objectContaining({ organizationId: undefined }),
+    );
+
+    // Keys from before organizations use their user's first organization
+    stored[0].organizationId = null;
+    await expect(service.authenticate(key)).resolves.toEqual(
+      expect.objectContaining({ organizationId: 2 }),
+    );
+  });
+
+  it('refuses to create a key for an organization its user is not in', async () => {
+    const { createKey, organizationsService } = setup();
+    organizationsService.isMember.mockResolvedValueOnce(false);
+
+    await expect(createKey()).rejects.toThrow(
+      'User 7 does not belong to organization 3',
+    );
+  });
+
+  it('only records use again once the last use is a minute old', async () => {
+    const { service, stored, createKey, apiKeysRepository, auditService } =
+      setup();
+    const { key } = await createKey();
+    stored[0].lastUsedAt = new Date(Date.now() - 5000);
+
+    await service.authenticate(key);
+
+    expect(apiKeysRepository.update).not.toHaveBeenCalled();
+    expect(auditService.recordAuthEvent).not.toHaveBeenCalled();
+  });
+
+  it('only lists and revokes keys of the active organization', async () => {
+    const { service, stored, createKey, apiKeysRepository } = setup();
+    await createKey();
+
+    await service.findAll(3);
+    expect(apiKeysRepository.find).toHaveBeenCalledWith({
+      where: { organizationId: 3 },
+      order: { id: 'ASC' },
+    });
+
+    await expect(service.revoke(4, stored[0].id)).rejects.toThrow(
+      'API key with ID 1 not found',
+    );
+    expect(stored[0].revokedAt).toBeUndefined();
+    await expect(service.revoke(3, stored[0].id)).resolves.toEqual(
+      expect.objectContaining({ revokedAt: expect.any(Date) as Date }),
+    );
+  });
+
+  it('rejects a wrong secret, a revoked key and an expired key', async () => {
+    const { service, stored, createKey } = setup();
+    const { key } = await createKey();
+    const tampered = key.slice(0, -1) + (key.endsWith('A') ? 'B' : 'A');
+    const rejectedWith = (code: AuthErrorCode) => ({
+      status: 401,
+      response: expect.objectContaining({ code }) as unknown,
+    });
+
+    await expect(service.authenticate(tampered)).rejects.toMatchObject(
+      rejectedWith(AuthErrorCode.TOKEN_INVALID),
+    );
+    await expect(service.authenticate('not-a-key')).rejects.toThrow(
+      'Invalid API key',
+    );
+
+    stored[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(service.authenticate(key)).rejects.toMatchObject(
+      rejectedWith(AuthErrorCode.TOKEN_EXPIRED),
+    );
+
+    stored[0].revokedAt = new Date();
+    await expect(service.authenticate(key)).rejects.toMatchObject(
+      rejectedWith(AuthErrorCode.TOKEN_REVOKED),
+    );
+  });
+
+  it('rejects keys of disabled users', async () => {
+    const { service, createKey, usersRepository } = setup();
+    const { key } = await createKey();
+    usersRepository.findOne.mockResolvedValueOnce({
+      id: 7,
+      disabledAt: new Date(),
+    });
+
+    await expect(service.authenticate(key)).rejects.toMatchObject({
+      status: 401,
+      response: expect.objectContaining({
+        code: AuthErrorCode.ACCOUNT_DISABLED,
+      }) as unknown,
+    });
+  });
+});
@@ -0,0 +1,231 @@
+// src/api-keys/api-keys.service.ts
+import {
+  BadRequestException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { User } from '../users/entities/user.entity';
+import { JwtUser } from '../auth/interfaces/jwt-user.interface';
+import { AuthException } from '../auth/auth.exception';
+import { AuthErrorCode } from '../auth/enums/auth-error-code.enum';
+import { AuditService, RequestSource } from '../audit/audit.service';
+import { AuthEventType } from '../audit/enums/auth-event-type.enum';
+import { OrganizationsService } from '../organizations/organizations.service';
+
+// pdk_<8 hex digits>_<32 random bytes as base64url>
+const KEY_PATTERN = /^(pdk_[0-9a-f]{8})_([A-Za-z0-9_-]{43})$/;
+
+// lastUsedAt, and the api_key_used audit event, are only written again after
+// this long, not on every request
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private apiKeysRepository: Repository<ApiKey>,
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+    private auditService: AuditService,
+    private organizationsService: OrganizationsService,
+  ) {}
+
+  // The returned `key` is the only time the full key is available. Keys act
+  // in the creator's active organization, which their user must belong to.
+  async create(
+    organizationId: number,
+    createDto: CreateApiKeyDto,
+    actor?: JwtUser,
+  ): Promise<ApiKey & { key: string }> {
+    const expiresAt = createDto.expiresAt
+      ? new Date(createDto.expiresAt)
+      : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+    const userExists = await this.usersRepository.exists({
+      where: { id: createDto.userId },
+    });
+    if (!userExists) {
+      throw new BadRequestException(
+        `User with ID ${createDto.userId} not found`,
+      );
+    }
+    if (
+      !(await this.organizationsService.isMember(
+        createDto.userId,
+        organizationId,
+      ))
+    ) {
+      throw new BadRequestException(
+        `User ${createDto.userId} does not belong to organization ${organizationId}`,
+      );
+    }
+
+    const prefix = `pdk_${randomBytes(4).toString('hex')}`;
+    const secret = randomBytes(32).toString('base64url');
+    const apiKey = await this.apiKeysRepository.save(
+      this.apiKeysRepository.create({
+        name: createDto.name,
+        userId: createDto.userId,
+        organizationId,
+        scopes: createDto.scopes,
+        expiresAt,
+        prefix,
+        secretHash: hashSecret(secret),
+        createdByUsername: actor?.username,
+      }),
+    );
+
+    const result = { ...apiKey, key: `${prefix}_${secret}` };
+    delete (result as Partial<ApiKey>).secretHash;
+    return result;
+  }
+
+  async findAll(organizationId: number): Promise<ApiKey[]> {
+    return this.apiKeysRepository.find({
+      where: { organizationId },
+      order: { id: 'ASC' },
+    });
+  }
+
+  async findOne(organizationId: number, id: number): Promise<ApiKey> {
+    const apiKey = await this.apiKeysRepository.findOne({
+      where: { id, organizationId },
+    });
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+    return apiKey;
+  }
+
+  // Revoked keys are kept so their use stays traceable
+  async revoke(
+    organizationId: number,
+    id: number,
+    actor?: JwtUser,
+  ): Promise<ApiKey> {
+    const apiKey = await this.findOne(organizationId, id);
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      apiKey.revokedByUsername = actor?.username;
+      await this.apiKeysRepository.save(apiKey);
+    }
+    return apiKey;
+  }
+
+  // Resolves a presented key to the user it acts as, with its scopes and
+  // organization
+  async authenticate(
+    key: string,
+    source: RequestSource = {},
+  ): Promise<JwtUser> {
+    const match = KEY_PATTERN.exec(key);
+    const apiKey = match
+      ? await this.apiKeysRepository.findOne({
+          where: { prefix: match[1] },
+          select: [
+            'id',
+            'userId',
+            'organizationId',
+            'prefix',
+            'secretHash',
+            'scopes',
+            'expiresAt',
+            'lastUsedAt',
+            'revokedAt',
+          ],
+        })
+      : null;
+
+    const presented = Buffer.from(hashSecret(match?.[2] ?? ''));
+    const stored = Buffer.from(apiKey?.secretHash ?? '');
+    if (
+      !apiKey ||
+      presented.length !== stored.length ||
+      !timingSafeEqual(presented, stored)
+    ) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_INVALID,
+        'Invalid API key',
+      );
+    }
+    if (apiKey.revokedAt) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_REVOKED,
+        'API key has been revoked',
+      );
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_EXPIRED,
+        'API key has expired',
+      );
+    }
+
+    const user = await this.usersRepository.findOne({
+      where: { id: apiKey.userId },
+    });
+    if (!user || user.disabledAt) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.ACCOUNT_DISABLED,
+        'API key user is disabled or deleted',
+      );
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_PRECISION_MS
+    ) {
+      await this.apiKeysRepository.update(
+        { id: apiKey.id },
+        { lastUsedAt: now, lastUsedIp: source.ip },
+      );
+      await this.auditService.recordAuthEvent(
+        {
+          type: AuthEventType.API_KEY_USED,
+          userId: user.id,
+          username: user.username,
+          details: { apiKeyId: apiKey.id, prefix: apiKey.prefix },
+        },
+        source,
+      );
+    }
+
+    // Keys created before organizations act in their user's first one. A key
+    // whose user has left its organization loses access to payments.
+    let organizationId = apiKey.organizationId ?? null;
+    if (!organizationId) {
+      organizationId =
+        await this.organizationsService.resolveActiveOrganization(user.id);
+    } else if (
+      !(await this.organizationsService.isMember(user.id, organizationId))
+    ) {
+      organizationId = null;
+    }
+
+    return {
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+      organizationId: organizationId ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,35 @@
+// src/api-keys/dto/create-api-key.dto.ts
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { API_KEY_SCOPES } from '../api-key-scopes';
+import type { ApiKeyScope } from '../api-key-scopes';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  // User the key acts as, usually a dedicated service account
+  @IsInt()
+  userId: number;
+
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: ApiKeyScope[];
+
+  // Never expires when left out
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,68 @@
+// src/api-keys/entities/api-key.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import type { ApiKeyScope } from '../api-key-scopes';
+
+// Credential a service account sends in the X-API-Key header instead of
+// logging in. Requests made with it act as the account's user in the key's
+// organization, limited to the key's scopes.
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  // Service account the key acts as
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // Organization the key acts in. Null for keys created before
+  // organizations, which act in their user's first organization.
+  @Column({ type: 'int', nullable: true })
+  organizationId?: number | null;
+
+  // Public first part of the key, e.g. pdk_1a2b3c4d; identifies the key
+  @Column({ unique: true })
+  prefix: string;
+
+  // SHA-256 of the secret part; the full key is only returned on creation
+  @Column({ select: false })
+  secretHash: string;
+
+  @Column({ type: 'jsonb' })
+  scopes: ApiKeyScope[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt?: Date | null;
+
+  @Column({ nullable: true })
+  lastUsedIp?: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt?: Date | null;
+
+  @Column({ nullable: true })
+  revokedByUsername?: string;
+
+  @Column({ nullable: true })
+  createdByUsername?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,55 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { API_KEY_RESOURCE_KEY } from './api-key-resource.decorator';
+import type { ApiKeyResourceName } from './api-key-scopes';
+import { JwtUser } from '../auth/interfaces/jwt-user.interface';
+import { handleAuthResult } from '../auth/jwt-auth-guard';
+
+const READ_METHODS = ['GET', 'HEAD'];
+
+// Accepts a bearer access token or an X-API-Key header. API keys also need
+// the read or write scope of the route's @ApiKeyResource(); RolesGuard then
+// applies to the key's user as usual.
+@Injectable()
+export class JwtOrApiKeyAuthGuard extends AuthGuard(['jwt', 'api-key']) {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (!((await super.canActivate(context)) as boolean)) {
+      return false;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<{ method: string; user: JwtUser }>();
+    const { user } = request;
+    if (user.apiKeyId === undefined) {
+      return true;
+    }
+
+    const resource = this.reflector.getAllAndOverride<ApiKeyResourceName>(
+      API_KEY_RESOURCE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!resource) {
+      throw new ForbiddenException('API keys cannot be used for this route');
+    }
+    const scope = `${resource}:${READ_METHODS.includes(request.method) ? 'read' : 'write'}`;
+    if (!user.scopes?.some((granted) => granted === scope)) {
+      throw new ForbiddenException(`This API key lacks the ${scope} scope`);
+    }
+
+    return true;
+  }
+
+  handleRequest<TUser>(err: unknown, user: TUser | false, info: unknown) {
+    return handleAuthResult(err, user, info);
+  }
+}
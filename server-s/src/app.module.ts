@@ -8,8 +8,15 @@ import { databaseConfig } from './config/database.config';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { SeedService } from './database/seed.service';
+import { SearchIndexService } from './database/search-index.service';
 import { Payment } from './payments/entities/payment.entity';
 import { PaymentsModule } from './payments/payments.module';
+import { ReconciliationModule } from './reconciliation/reconciliation.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { WebhookSubscriptionsModule } from './webhook-subscriptions/webhook-subscriptions.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { AuditModule } from './audit/audit.module';
+import { OrganizationsModule } from './organizations/organizations.module';
 
 @Module({
   imports: [
@@ -25,8 +32,14 @@ import { PaymentsModule } from './payments/payments.module';
     }),
     AuthModule,
     PaymentsModule,
+    ReconciliationModule,
+    WebhooksModule,
+    WebhookSubscriptionsModule,
+    ApiKeysModule,
+    AuditModule,
+    OrganizationsModule,
     UsersModule,
   ],
-  providers: [SeedService],
+  providers: [SeedService, SearchIndexService],
 })
 export class AppModule {}
\ No newline at end of file
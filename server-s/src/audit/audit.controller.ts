@@ -0,0 +1,26 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { JwtAuthGuard } from 'src/auth/jwt-auth-guard';
+import { RolesGuard } from 'src/auth/roles-guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { UserRole } from 'src/users/enums/user-role.enum';
+import { AuditService } from './audit.service';
+import { AuthEventQueryDto } from './dto/auth-event-query.dto';
+
+@Controller('audit')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  // Logins, logouts, refreshes, password and role changes, API key use
+  @Get('auth-events')
+  findAuthEvents(@Query(ValidationPipe) query: AuthEventQueryDto) {
+    return this.auditService.findAuthEvents(query);
+  }
+}
@@ -0,0 +1,89 @@
+import { Between, MoreThanOrEqual } from 'typeorm';
+import { AuditService } from './audit.service';
+import { AuthEventType } from './enums/auth-event-type.enum';
+
+describe('AuditService', () => {
+  const setup = () => {
+    const authEventsRepository = {
+      create: jest.fn((values: object) => values),
+      save: jest.fn((event: object) => Promise.resolve(event)),
+      findAndCount: jest.fn().mockResolvedValue([[], 120]),
+    };
+    const service = new AuditService(authEventsRepository as never);
+    return { service, authEventsRepository };
+  };
+
+  it('stores the request source with the event', async () => {
+    const { service, authEventsRepository } = setup();
+
+    await service.recordAuthEvent(
+      { type: AuthEventType.LOGOUT, userId: 1, username: 'admin' },
+      { ip: '10.0.0.1', userAgent: 'x'.repeat(300) },
+    );
+
+    expect(authEventsRepository.save).toHaveBeenCalledWith({
+      type: AuthEventType.LOGOUT,
+      userId: 1,
+      username: 'admin',
+      ip: '10.0.0.1',
+      userAgent: 'x'.repeat(255),
+    });
+  });
+
+  it('does not fail the audited request when the event cannot be stored', async () => {
+    const { service, authEventsRepository } = setup();
+    authEventsRepository.save.mockRejectedValueOnce(new Error('db down'));
+
+    await expect(
+      service.recordAuthEvent({ type: AuthEventType.LOGIN_FAILED }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('filters and pages newest first', async () => {
+    const { service, authEventsRepository } = setup();
+
+    await expect(
+      service.findAuthEvents({
+        type: AuthEventType.LOGIN_FAILED,
+        from: '2026-01-01T00:00:00Z',
+        page: 3,
+        limit: 50,
+      }),
+    ).resolves.toEqual({
+      data: [],
+      total: 120,
+      page: 3,
+      limit: 50,
+      totalPages: 3,
+    });
+    await service.findAuthEvents({
+      from: '2026-01-01T00:00:00Z',
+      to: '2026-02-01T00:00:00Z',
+    });
+
+    expect(authEventsRepository.findAndCount.mock.calls).toEqual([
+      [
+        {
+          where: {
+            type: AuthEventType.LOGIN_FAILED,
+            createdAt: MoreThanOrEqual(new Date('2026-01-01T00:00:00Z')),
+          },
+          order: { createdAt: 'DESC', id: 'DESC' },
+          skip: 100,
+          take: 50,
+        },
+      ],
+      [
+        expect.objectContaining({
+          where: {
+            createdAt: Between(
+              new Date('2026-01-01T00:00:00Z'),
+              new Date('2026-02-01T00:00:00Z'),
+            ),
+          },
+          skip: 0,
+        }),
+      ],
+    ]);
+  });
+});
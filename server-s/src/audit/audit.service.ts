@@ -0,0 +1,85 @@
+// src/audit/audit.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  FindOptionsWhere,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { AuthEvent } from './entities/auth-event.entity';
+import { AuthEventType } from './enums/auth-event-type.enum';
+import { AuthEventQueryDto } from './dto/auth-event-query.dto';
+
+// Where a request came from
+export interface RequestSource {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AuthEventInput {
+  type: AuthEventType;
+  userId?: number;
+  username?: string;
+  actorUsername?: string;
+  details?: Record<string, unknown>;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectRepository(AuthEvent)
+    private authEventsRepository: Repository<AuthEvent>,
+  ) {}
+
+  // Never fails the request being audited; a lost event is only logged
+  async recordAuthEvent(
+    event: AuthEventInput,
+    source: RequestSource = {},
+  ): Promise<void> {
+    try {
+      await this.authEventsRepository.save(
+        this.authEventsRepository.create({
+          ...event,
+          ip: source.ip,
+          userAgent: source.userAgent?.slice(0, 255),
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Could not record ${event.type} for ${event.username ?? event.userId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  // Newest first
+  async findAuthEvents(query: AuthEventQueryDto = {}) {
+    const { page = 1, limit = 50, from, to, ...filters } = query;
+    const where: FindOptionsWhere<AuthEvent> = { ...filters };
+    if (from && to) {
+      where.createdAt = Between(new Date(from), new Date(to));
+    } else if (from) {
+      where.createdAt = MoreThanOrEqual(new Date(from));
+    } else if (to) {
+      where.createdAt = LessThanOrEqual(new Date(to));
+    }
+
+    const [data, total] = await this.authEventsRepository.findAndCount({
+      where,
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+}
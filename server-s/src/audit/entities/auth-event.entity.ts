@@ -0,0 +1,51 @@
+// src/audit/entities/auth-event.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { AuthEventType } from '../enums/auth-event-type.enum';
+
+// Append-only log of logins and other security-relevant account changes.
+// No foreign key to users, so the history outlives the accounts.
+@Entity('auth_events')
+@Index(['userId', 'createdAt'])
+@Index(['type', 'createdAt'])
+export class AuthEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({
+    type: 'enum',
+    enum: AuthEventType,
+  })
+  type: AuthEventType;
+
+  // The account the event is about; null for logins with unknown usernames
+  @Column({ nullable: true })
+  userId?: number;
+
+  @Column({ nullable: true })
+  username?: string;
+
+  // Who made the change, when it was not the user themselves (e.g. an admin
+  // changing a role)
+  @Column({ nullable: true })
+  actorUsername?: string;
+
+  @Column({ nullable: true })
+  ip?: string;
+
+  @Column({ nullable: true })
+  userAgent?: string;
+
+  // Event specific: failure reason, old and new role, API key id ...
+  @Column({ type: 'jsonb', nullable: true })
+  details?: Record<string, unknown>;
+
+  @Index()
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,14 @@
+// src/audit/enums/auth-event-type.enum.ts
+export enum AuthEventType {
+  LOGIN_SUCCEEDED = 'login_succeeded',
+  LOGIN_FAILED = 'login_failed',
+  LOGOUT = 'logout',
+  TOKEN_REFRESHED = 'token_refreshed',
+  PASSWORD_CHANGED = 'password_changed',
+  ROLE_CHANGED = 'role_changed',
+  USER_DISABLED = 'user_disabled',
+  USER_ENABLED = 'user_enabled',
+  USER_DELETED = 'user_deleted',
+  API_KEY_USED = 'api_key_used',
+  ORGANIZATION_SWITCHED = 'organization_switched',
+}
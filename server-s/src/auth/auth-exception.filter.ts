@@ -0,0 +1,46 @@
+// src/auth/auth-exception.filter.ts
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { AuthErrorResponse, AuthException } from './auth.exception';
+import { AuthErrorCode } from './enums/auth-error-code.enum';
+
+// Codes for errors raised without one, e.g. by ValidationPipe or RolesGuard
+const CODE_BY_STATUS: Partial<Record<number, AuthErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: AuthErrorCode.VALIDATION_FAILED,
+  [HttpStatus.UNAUTHORIZED]: AuthErrorCode.TOKEN_INVALID,
+  [HttpStatus.FORBIDDEN]: AuthErrorCode.FORBIDDEN,
+  [HttpStatus.NOT_FOUND]: AuthErrorCode.NOT_FOUND,
+  [HttpStatus.CONFLICT]: AuthErrorCode.CONFLICT,
+  [HttpStatus.TOO_MANY_REQUESTS]: AuthErrorCode.ACCOUNT_LOCKED,
+};
+
+// Makes sure every error from the auth routes has a `code`
+@Catch(HttpException)
+export class AuthExceptionFilter implements ExceptionFilter {
+  catch(exception: HttpException, host: ArgumentsHost) {
+    const status = exception.getStatus();
+    const response = exception.getResponse();
+    const body = (
+      typeof response === 'string' ? { message: response } : response
+    ) as Partial<AuthErrorResponse>;
+
+    const code = CODE_BY_STATUS[status];
+    const normalized =
+      body.code || !code
+        ? body
+        : new AuthException(
+            status,
+            code,
+            body.message ?? exception.message,
+            body,
+          ).getResponse();
+
+    host.switchToHttp().getResponse<Response>().status(status).json(normalized);
+  }
+}
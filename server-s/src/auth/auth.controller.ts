@@ -1,14 +1,79 @@
-import { Controller, Get, Post, Body, UseGuards, Request } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  ValidationPipe,
+  Ip,
+  Headers,
+  UseFilters,
+} from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { JwtAuthGuard } from './jwt-auth-guard';
+import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { MfaChallengeDto, MfaLoginDto } from './dto/mfa.dto';
+import {
+  ChangePasswordDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+} from './dto/password.dto';
+import { SwitchOrganizationDto } from './dto/switch-organization.dto';
+import { PasswordResetService } from './password-reset.service';
+import { JwtUser } from './interfaces/jwt-user.interface';
+import { AuthExceptionFilter } from './auth-exception.filter';
 
+// Errors carry an AuthErrorCode in `code`; see AuthExceptionFilter
 @Controller('auth')
+@UseFilters(AuthExceptionFilter)
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private passwordResetService: PasswordResetService,
+  ) {}
 
+  // Tokens, or an MFA_REQUIRED challenge; see LoginResponse
   @Post('login')
-  async login(@Body() loginDto: any) {
-    return this.authService.login(loginDto);
+  async login(
+    @Body(ValidationPipe) loginDto: LoginDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.login(loginDto, { ip, userAgent });
+  }
+
+  // Completes a login that returned mfa_required with a TOTP or recovery code
+  @Post('login/mfa')
+  loginWithMfa(
+    @Body(ValidationPipe) mfaLoginDto: MfaLoginDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.loginWithMfa(mfaLoginDto, { ip, userAgent });
+  }
+
+  // For a login that returned enrollment_required
+  @Post('login/mfa/enroll')
+  @HttpCode(200)
+  startMfaEnrollment(@Body(ValidationPipe) mfaChallengeDto: MfaChallengeDto) {
+    return this.authService.startMfaEnrollment(mfaChallengeDto.challengeToken);
+  }
+
+  // Each refresh token works once; the response carries its replacement
+  @Post('refresh')
+  @HttpCode(200)
+  refresh(
+    @Body(ValidationPipe) refreshTokenDto: RefreshTokenDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.refresh(refreshTokenDto.refreshToken, {
+      ip,
+      userAgent,
+    });
   }
 
   @UseGuards(JwtAuthGuard)
@@ -23,7 +88,72 @@ export class AuthController {
 
   @UseGuards(JwtAuthGuard)
   @Post('logout')
-  async logout() {
-    return { message: 'Logged out successfully' };
+  async logout(
+    @Request() req: { user: JwtUser },
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.logout(req.user, { ip, userAgent });
+  }
+
+  // Signs out every session; the response carries tokens for a new one
+  @UseGuards(JwtAuthGuard)
+  @Post('change-password')
+  @HttpCode(200)
+  changePassword(
+    @Request() req: { user: JwtUser },
+    @Body(ValidationPipe) changePasswordDto: ChangePasswordDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.changePassword(req.user, changePasswordDto, {
+      ip,
+      userAgent,
+    });
+  }
+
+  // Tokens for another of the caller's organizations; ends the current session
+  @UseGuards(JwtAuthGuard)
+  @Post('switch-organization')
+  @HttpCode(200)
+  switchOrganization(
+    @Request() req: { user: JwtUser },
+    @Body(ValidationPipe) switchOrganizationDto: SwitchOrganizationDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.switchOrganization(
+      req.user,
+      switchOrganizationDto.organizationId,
+      { ip, userAgent },
+    );
+  }
+
+  // Same answer whether or not the username exists
+  @Post('forgot-password')
+  @HttpCode(202)
+  forgotPassword(
+    @Body(ValidationPipe) forgotPasswordDto: ForgotPasswordDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.passwordResetService.requestReset(forgotPasswordDto.username, {
+      ip,
+      userAgent,
+    });
+  }
+
+  @Post('reset-password')
+  @HttpCode(200)
+  resetPassword(
+    @Body(ValidationPipe) resetPasswordDto: ResetPasswordDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.passwordResetService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword,
+      { ip, userAgent },
+    );
   }
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+// src/auth/auth.exception.ts
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { AuthErrorCode } from './enums/auth-error-code.enum';
+
+// Body of every error response from the auth routes
+export interface AuthErrorResponse {
+  statusCode: number;
+  error: string;
+  code: AuthErrorCode;
+  message: string | string[];
+  [detail: string]: unknown;
+}
+
+// An HttpException whose body carries an AuthErrorCode next to the usual
+// statusCode, error and message
+export class AuthException extends HttpException {
+  constructor(
+    status: HttpStatus,
+    code: AuthErrorCode,
+    message: string | string[],
+    details: Record<string, unknown> = {},
+  ) {
+    const body: AuthErrorResponse = {
+      statusCode: status,
+      error: HttpStatus[status]
+        .split('_')
+        .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+        .join(' '),
+      code,
+      message,
+      ...details,
+    };
+    super(body, status);
+  }
+}
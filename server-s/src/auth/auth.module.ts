@@ -7,18 +7,53 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './jwt.strategy';
 import { User } from '../users/entities/user.entity';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { LoginAttempt } from './entities/login-attempt.entity';
+import { LoginLockout } from './entities/login-lockout.entity';
+import { LoginThrottleService } from './login-throttle.service';
+import { MfaRecoveryCode } from './entities/mfa-recovery-code.entity';
+import { MfaRolePolicy } from './entities/mfa-role-policy.entity';
+import { MfaService } from './mfa/mfa.service';
+import { MfaController } from './mfa/mfa.controller';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { PasswordResetService } from './password-reset.service';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { AuditModule } from '../audit/audit.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([
+      User,
+      RefreshToken,
+      LoginAttempt,
+      LoginLockout,
+      MfaRecoveryCode,
+      MfaRolePolicy,
+      PasswordResetToken,
+    ]),
     PassportModule,
+    NotificationsModule,
+    AuditModule,
+    OrganizationsModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'e4d98cba7986da4064392aa822a1e1f5bf01bdaa008f7745349f2efc61fcd3a4e3abbbbe748c8c550b9ae5475492ec31ddb35f34f0a4382e468de6bae7e21ec8',
-      signOptions: { expiresIn: '24h' },
+      // Short-lived; clients renew them through POST /auth/refresh
+      signOptions: {
+        expiresIn: Number(process.env.JWT_ACCESS_TOKEN_TTL_SECONDS) || 900,
+      },
     }),
   ],
-  providers: [AuthService, JwtStrategy],
-  controllers: [AuthController],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    RefreshTokensService,
+    LoginThrottleService,
+    MfaService,
+    PasswordResetService,
+  ],
+  controllers: [AuthController, MfaController],
+  exports: [AuthService, RefreshTokensService, LoginThrottleService],
 })
 export class AuthModule {}
\ No newline at end of file
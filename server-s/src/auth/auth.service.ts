@@ -1,11 +1,26 @@
 // src/auth/auth.service.ts
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { HttpStatus, Injectable } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
 import { User } from '../users/entities/user.entity';
 import { LoginDto } from './dto/login.dto';
+import { MfaLoginDto } from './dto/mfa.dto';
+import { ChangePasswordDto } from './dto/password.dto';
+import { LoginResponse, TokenResponse } from './dto/auth-response.dto';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { LoginSource, LoginThrottleService } from './login-throttle.service';
+import { LoginLockedException } from './login-locked.exception';
+import { AuthException } from './auth.exception';
+import { AuthErrorCode } from './enums/auth-error-code.enum';
+import { JwtUser } from './interfaces/jwt-user.interface';
+import { JwtPayload } from './interfaces/jwt-payload.interface';
+import { MfaService } from './mfa/mfa.service';
+import { assertPasswordPolicy } from './password-policy';
+import { AuditService, RequestSource } from '../audit/audit.service';
+import { AuthEventType } from '../audit/enums/auth-event-type.enum';
+import { OrganizationsService } from '../organizations/organizations.service';
 
 @Injectable()
 export class AuthService {
@@ -13,9 +28,17 @@ export class AuthService {
     @InjectRepository(User)
     private usersRepository: Repository<User>,
     private jwtService: JwtService,
+    private refreshTokensService: RefreshTokensService,
+    private loginThrottleService: LoginThrottleService,
+    private mfaService: MfaService,
+    private auditService: AuditService,
+    private organizationsService: OrganizationsService,
   ) {}
 
-  async validateUser(username: string, password: string): Promise<any> {
+  async validateUser(
+    username: string,
+    password: string,
+  ): Promise<Omit<User, 'password'> | null> {
     const user = await this.usersRepository.findOne({ where: { username } });
     if (user && await bcrypt.compare(password, user.password)) {
       const { password, ...result } = user;
@@ -24,19 +47,337 @@ export class AuthService {
     return null;
   }
 
-  async login(loginDto: LoginDto) {
+  // Refused while the username or the client IP is locked out; each wrong
+  // password counts towards a lockout of both. Users with 2FA, or whose
+  // role requires it, get a challenge token instead of tokens.
+  async login(loginDto: LoginDto, source: LoginSource): Promise<LoginResponse> {
+    await this.loginThrottleService.assertNotLocked(loginDto.username, source);
+
     const user = await this.validateUser(loginDto.username, loginDto.password);
     if (!user) {
-      throw new UnauthorizedException('Invalid credentials');
+      const lockedUntil = await this.loginThrottleService.recordFailure(
+        loginDto.username,
+        source,
+      );
+      if (lockedUntil) {
+        throw new LoginLockedException(lockedUntil);
+      }
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.INVALID_CREDENTIALS,
+        'Invalid credentials',
+      );
+    }
+    if (user.disabledAt) {
+      await this.auditService.recordAuthEvent(
+        {
+          type: AuthEventType.LOGIN_FAILED,
+          userId: user.id,
+          username: user.username,
+          details: { reason: 'account_disabled' },
+        },
+        source,
+      );
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.ACCOUNT_DISABLED,
+        'Account is disabled',
+      );
+    }
+
+    const challenge = await this.mfaService.createChallenge(user);
+    if (challenge) {
+      return challenge;
+    }
+
+    await this.loginThrottleService.recordSuccess(
+      loginDto.username,
+      user.id,
+      source,
+    );
+
+    return this.issueTokens(
+      user,
+      await this.organizationsService.resolveActiveOrganization(user.id),
+    );
+  }
+
+  // Second login step. Users who still have to enroll confirm their new
+  // authenticator with this code and get their recovery codes back.
+  async loginWithMfa(
+    mfaLoginDto: MfaLoginDto,
+    source: LoginSource,
+  ): Promise<TokenResponse> {
+    const userId = this.mfaService.verifyChallenge(mfaLoginDto.challengeToken);
+    const user = await this.usersRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_INVALID,
+        'Invalid or expired challenge token',
+      );
+    }
+    await this.loginThrottleService.assertNotLocked(user.username, source);
+
+    let recoveryCodes: string[] | null = null;
+    let verified: boolean;
+    if (user.totpEnabled) {
+      verified = await this.mfaService.verifyCode(user.id, mfaLoginDto.code);
+    } else {
+      recoveryCodes = await this.mfaService.confirmEnrollment(
+        user.id,
+        mfaLoginDto.code,
+      );
+      verified = recoveryCodes !== null;
+    }
+
+    if (!verified) {
+      const lockedUntil = await this.loginThrottleService.recordFailure(
+        user.username,
+        source,
+        user.id,
+        'invalid_mfa_code',
+      );
+      if (lockedUntil) {
+        throw new LoginLockedException(lockedUntil);
+      }
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.INVALID_MFA_CODE,
+        'Invalid verification code',
+      );
+    }
+
+    await this.loginThrottleService.recordSuccess(
+      user.username,
+      user.id,
+      source,
+    );
+
+    const tokens = await this.issueTokens(
+      user,
+      await this.organizationsService.resolveActiveOrganization(user.id),
+    );
+    return recoveryCodes
+      ? { ...tokens, recovery_codes: recoveryCodes }
+      : tokens;
+  }
+
+  // Enrollment for users whose role requires 2FA before they can log in
+  async startMfaEnrollment(challengeToken: string) {
+    return this.mfaService.startEnrollment(
+      this.mfaService.verifyChallenge(challengeToken),
+    );
+  }
+
+  // Trades a refresh token for a new access token and refresh token. The
+  // session keeps its organization unless the user has left it.
+  async refresh(
+    refreshToken: string,
+    source: RequestSource = {},
+  ): Promise<TokenResponse> {
+    const { userId, issued } =
+      await this.refreshTokensService.rotate(refreshToken);
+    const user = await this.usersRepository.findOne({ where: { id: userId } });
+    if (!user || user.disabledAt) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_INVALID,
+        'Invalid refresh token',
+      );
+    }
+
+    const organizationId =
+      await this.organizationsService.resolveActiveOrganization(
+        user.id,
+        issued.organizationId,
+      );
+    if (organizationId !== issued.organizationId) {
+      await this.refreshTokensService.setSessionOrganization(
+        issued.familyId,
+        organizationId,
+      );
+    }
+
+    await this.auditService.recordAuthEvent(
+      {
+        type: AuthEventType.TOKEN_REFRESHED,
+        userId: user.id,
+        username: user.username,
+        details: { sessionId: issued.familyId },
+      },
+      source,
+    );
+    return this.issueTokens(user, organizationId, issued);
+  }
+
+  // Revokes the session the access token belongs to, so neither its
+  // refresh token nor the access token itself work any more
+  async logout(user: JwtUser, source: RequestSource = {}) {
+    if (user.sessionId) {
+      await this.refreshTokensService.revokeFamily(user.sessionId, 'logout');
     }
+    await this.auditService.recordAuthEvent(
+      {
+        type: AuthEventType.LOGOUT,
+        userId: user.userId,
+        username: user.username,
+        details: { sessionId: user.sessionId },
+      },
+      source,
+    );
+    return { message: 'Logged out successfully' };
+  }
+
+  // Ends every session of the user, including the one making the request,
+  // and returns tokens for a fresh one. A wrong current password counts
+  // towards a lockout like a failed login, so a stolen session cannot be
+  // used to guess it.
+  async changePassword(
+    user: JwtUser,
+    changePasswordDto: ChangePasswordDto,
+    source: LoginSource,
+  ): Promise<TokenResponse> {
+    const { currentPassword, newPassword } = changePasswordDto;
+    const existing = await this.usersRepository.findOne({
+      where: { id: user.userId },
+    });
+    if (!existing || existing.disabledAt) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.ACCOUNT_DISABLED,
+        'User is disabled or no longer exists',
+      );
+    }
+    await this.loginThrottleService.assertNotLocked(existing.username, source);
+    if (!(await bcrypt.compare(currentPassword, existing.password))) {
+      const lockedUntil = await this.loginThrottleService.recordFailure(
+        existing.username,
+        source,
+        existing.id,
+        'invalid_current_password',
+      );
+      if (lockedUntil) {
+        throw new LoginLockedException(lockedUntil);
+      }
+      throw new AuthException(
+        HttpStatus.BAD_REQUEST,
+        AuthErrorCode.INVALID_CREDENTIALS,
+        'Current password is incorrect',
+      );
+    }
+    if (newPassword === currentPassword) {
+      throw new AuthException(
+        HttpStatus.BAD_REQUEST,
+        AuthErrorCode.PASSWORD_POLICY_VIOLATION,
+        'New password must differ from the current one',
+      );
+    }
+    assertPasswordPolicy(newPassword, existing.username);
+
+    await this.usersRepository.update(
+      { id: existing.id },
+      { password: await bcrypt.hash(newPassword, 10) },
+    );
+    await this.refreshTokensService.revokeAllForUser(
+      existing.id,
+      'password_change',
+    );
+    await this.auditService.recordAuthEvent(
+      {
+        type: AuthEventType.PASSWORD_CHANGED,
+        userId: existing.id,
+        username: existing.username,
+        details: { method: 'change' },
+      },
+      source,
+    );
+    return this.issueTokens(
+      existing,
+      await this.organizationsService.resolveActiveOrganization(
+        existing.id,
+        user.organizationId,
+      ),
+    );
+  }
+
+  // Starts a session in another of the user's organizations and ends the
+  // current one, so its tokens stop working for the previous organization
+  async switchOrganization(
+    user: JwtUser,
+    organizationId: number,
+    source: RequestSource = {},
+  ): Promise<TokenResponse> {
+    const existing = await this.usersRepository.findOne({
+      where: { id: user.userId },
+    });
+    if (!existing || existing.disabledAt) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.ACCOUNT_DISABLED,
+        'User is disabled or no longer exists',
+      );
+    }
+    if (
+      !(await this.organizationsService.isMember(existing.id, organizationId))
+    ) {
+      throw new AuthException(
+        HttpStatus.FORBIDDEN,
+        AuthErrorCode.FORBIDDEN,
+        'You do not belong to this organization',
+      );
+    }
+
+    if (user.sessionId) {
+      await this.refreshTokensService.revokeFamily(
+        user.sessionId,
+        'organization_switch',
+      );
+    }
+    await this.auditService.recordAuthEvent(
+      {
+        type: AuthEventType.ORGANIZATION_SWITCHED,
+        userId: existing.id,
+        username: existing.username,
+        details: { from: user.organizationId ?? null, to: organizationId },
+      },
+      source,
+    );
+    return this.issueTokens(existing, organizationId);
+  }
+
+  // Access tokens carry the refresh token family as `sid`, which ties them
+  // to the session they were issued for, and the session's organization as
+  // `org`
+  private async issueTokens(
+    user: Pick<User, 'id' | 'username' | 'role'>,
+    organizationId: number | null,
+    refresh?: { token: string; familyId: string },
+  ): Promise<TokenResponse> {
+    const { token, familyId } =
+      refresh ??
+      (await this.refreshTokensService.issue(user.id, organizationId));
+    const payload: JwtPayload = {
+      username: user.username,
+      sub: user.id,
+      role: user.role,
+      sid: familyId,
+      ...(organizationId && { org: organizationId }),
+    };
+    const accessToken = this.jwtService.sign(payload);
+    const { exp, iat } = this.jwtService.decode<{ exp: number; iat: number }>(
+      accessToken,
+    );
 
-    const payload = { username: user.username, sub: user.id, role: user.role };
     return {
-      access_token: this.jwtService.sign(payload),
+      access_token: accessToken,
+      refresh_token: token,
+      expires_in: exp - iat,
       user: {
         id: user.id,
         username: user.username,
         role: user.role,
+        organizationId,
       },
     };
   }
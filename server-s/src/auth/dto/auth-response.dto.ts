@@ -0,0 +1,27 @@
+// src/auth/dto/auth-response.dto.ts
+import { UserRole } from '../../users/enums/user-role.enum';
+import type { MfaChallenge } from '../mfa/mfa.service';
+
+// Response of POST /auth/login, /auth/login/mfa, /auth/refresh,
+// /auth/change-password and /auth/switch-organization
+export interface TokenResponse {
+  // Bearer token for the Authorization header
+  access_token: string;
+  // Single use; trade it at POST /auth/refresh for a new pair
+  refresh_token: string;
+  // Lifetime of access_token in seconds
+  expires_in: number;
+  user: {
+    id: number;
+    username: string;
+    role: UserRole;
+    // Organization the access token acts in; null when the user has none
+    organizationId: number | null;
+  };
+  // Only from /auth/login/mfa when the user enrolled during the login
+  recovery_codes?: string[];
+}
+
+// POST /auth/login answers with tokens, or with a challenge when a second
+// factor is needed (`code: 'MFA_REQUIRED'`)
+export type LoginResponse = TokenResponse | MfaChallenge;
@@ -0,0 +1,26 @@
+import { IsBoolean, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+// A 6-digit TOTP code or a recovery code
+export class MfaCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
+
+export class MfaChallengeDto {
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
+
+export class MfaLoginDto extends MfaCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
+
+export class MfaRolePolicyDto {
+  @IsBoolean()
+  required: boolean;
+}
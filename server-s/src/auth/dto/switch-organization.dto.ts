@@ -0,0 +1,7 @@
+// src/auth/dto/switch-organization.dto.ts
+import { IsInt } from 'class-validator';
+
+export class SwitchOrganizationDto {
+  @IsInt()
+  organizationId: number;
+}
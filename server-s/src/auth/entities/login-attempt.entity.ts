@@ -0,0 +1,46 @@
+// src/auth/entities/login-attempt.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type LoginFailureReason =
+  | 'invalid_credentials'
+  | 'invalid_mfa_code'
+  | 'invalid_current_password'
+  | 'locked';
+
+// Every POST /auth/login, successful or not, and every wrong current
+// password given to POST /auth/change-password, with where it came from
+@Entity('login_attempts')
+@Index(['username', 'createdAt'])
+@Index(['ip', 'createdAt'])
+export class LoginAttempt {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // As submitted, so attempts against unknown usernames are kept too
+  @Column()
+  username: string;
+
+  @Column({ nullable: true })
+  userId?: number;
+
+  @Column()
+  ip: string;
+
+  @Column({ nullable: true })
+  userAgent?: string;
+
+  @Column()
+  succeeded: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  failureReason?: LoginFailureReason | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,29 @@
+// src/auth/entities/login-lockout.entity.ts
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+export type LockoutScope = 'user' | 'ip';
+
+// Failed-login counter for one username or one client IP
+@Entity('login_lockouts')
+export class LoginLockout {
+  @PrimaryColumn({ type: 'varchar' })
+  scope: LockoutScope;
+
+  // Lower-cased username, or the IP address
+  @PrimaryColumn()
+  key: string;
+
+  // Failures since the last lockout or success
+  @Column({ default: 0 })
+  failedCount: number;
+
+  // Lockouts so far; each one lasts twice as long as the one before
+  @Column({ default: 0 })
+  lockouts: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lockedUntil?: Date | null;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,36 @@
+// src/auth/entities/mfa-recovery-code.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+// One-time code that stands in for a TOTP code when the authenticator is lost
+@Entity('mfa_recovery_codes')
+export class MfaRecoveryCode {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // SHA-256 of the code; the codes themselves are shown once at enrollment
+  @Column()
+  codeHash: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt?: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,20 @@
+// src/auth/entities/mfa-role-policy.entity.ts
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+import { UserRole } from '../../users/enums/user-role.enum';
+
+// Whether users of a role must use two-factor authentication; roles without
+// a row do not have to
+@Entity('mfa_role_policies')
+export class MfaRolePolicy {
+  @PrimaryColumn({ type: 'enum', enum: UserRole })
+  role: UserRole;
+
+  @Column({ default: false })
+  required: boolean;
+
+  @Column({ nullable: true })
+  updatedByUsername?: string;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
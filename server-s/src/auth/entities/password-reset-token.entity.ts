@@ -0,0 +1,43 @@
+// src/auth/entities/password-reset-token.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+// Single-use token from POST /auth/forgot-password
+@Entity('password_reset_tokens')
+export class PasswordResetToken {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // SHA-256 of the token; the token itself is only sent to the user
+  @Column({ unique: true })
+  tokenHash: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  // Set when the token is used, or replaced by a newer one
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt?: Date | null;
+
+  @Column({ nullable: true })
+  requestedIp?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,54 @@
+// src/auth/entities/refresh-token.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+// One refresh token. Every refresh replaces the token with a new one in the
+// same family; a family is one login session and is revoked as a whole.
+@Entity('refresh_tokens')
+export class RefreshToken {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Index()
+  @Column('uuid')
+  familyId: string;
+
+  // Active organization of the session, carried over on every refresh
+  @Column({ type: 'int', nullable: true })
+  organizationId?: number | null;
+
+  // SHA-256 of the token; the token itself is only ever sent to the client
+  @Column({ unique: true })
+  tokenHash: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  // Set when the token is exchanged; presenting it again means it leaked
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt?: Date | null;
+
+  @Column({ nullable: true })
+  revokedReason?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,17 @@
+// Machine-readable `code` carried by every error from the auth routes, so
+// clients can branch without parsing messages
+export enum AuthErrorCode {
+  INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  ACCOUNT_DISABLED = 'ACCOUNT_DISABLED',
+  TOKEN_EXPIRED = 'TOKEN_EXPIRED',
+  TOKEN_INVALID = 'TOKEN_INVALID',
+  TOKEN_REVOKED = 'TOKEN_REVOKED',
+  MFA_REQUIRED = 'MFA_REQUIRED',
+  INVALID_MFA_CODE = 'INVALID_MFA_CODE',
+  PASSWORD_POLICY_VIOLATION = 'PASSWORD_POLICY_VIOLATION',
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  FORBIDDEN = 'FORBIDDEN',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+}
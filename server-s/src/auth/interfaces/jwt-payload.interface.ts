@@ -0,0 +1,14 @@
+import { UserRole } from '../../users/enums/user-role.enum';
+
+// Claims of the access tokens AuthService signs
+export interface JwtPayload {
+  sub: number;
+  username: string;
+  role: UserRole;
+  // Refresh token family of the login session
+  sid?: string;
+  // Active organization; absent for users who belong to none
+  org?: number;
+  // Only set on MFA challenge tokens, which JwtStrategy refuses
+  purpose?: 'mfa_challenge';
+}
@@ -0,0 +1,16 @@
+import { UserRole } from '../../users/enums/user-role.enum';
+import type { ApiKeyScope } from '../../api-keys/api-key-scopes';
+
+// Shape of req.user once JwtStrategy has validated the token
+export interface JwtUser {
+  userId: number;
+  username: string;
+  role: UserRole;
+  // Refresh token family of the login session, when the token has one
+  sessionId?: string;
+  // Organization the request acts in; payments are scoped to it
+  organizationId?: number;
+  // Set when the request authenticated with an API key instead
+  apiKeyId?: number;
+  scopes?: ApiKeyScope[];
+}
@@ -1,5 +1,42 @@
-import { Injectable } from '@nestjs/common';
+import { HttpStatus, Injectable } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
+import { AuthException } from './auth.exception';
+import { AuthErrorCode } from './enums/auth-error-code.enum';
+
+// Turns a failed passport authentication into an AuthException. passport-jwt
+// reports an expired token as `info`, which clients need to tell apart from
+// a bad one to know when to refresh.
+export function handleAuthResult<TUser>(
+  err: unknown,
+  user: TUser | false,
+  info: unknown,
+): TUser {
+  if (err) {
+    throw err as Error;
+  }
+  if (user) {
+    return user;
+  }
+  const failures = (Array.isArray(info) ? info : [info]) as (
+    { name?: string } | undefined
+  )[];
+  if (failures.some((failure) => failure?.name === 'TokenExpiredError')) {
+    throw new AuthException(
+      HttpStatus.UNAUTHORIZED,
+      AuthErrorCode.TOKEN_EXPIRED,
+      'Access token has expired',
+    );
+  }
+  throw new AuthException(
+    HttpStatus.UNAUTHORIZED,
+    AuthErrorCode.TOKEN_INVALID,
+    'Missing or invalid credentials',
+  );
+}
 
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
\ No newline at end of file
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser>(err: unknown, user: TUser | false, info: unknown) {
+    return handleAuthResult(err, user, info);
+  }
+}
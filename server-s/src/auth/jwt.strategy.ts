@@ -1,10 +1,24 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
-import { Injectable } from '@nestjs/common';
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { User } from '../users/entities/user.entity';
+import { JwtUser } from './interfaces/jwt-user.interface';
+import { JwtPayload } from './interfaces/jwt-payload.interface';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { AuthException } from './auth.exception';
+import { AuthErrorCode } from './enums/auth-error-code.enum';
+import { OrganizationsService } from '../organizations/organizations.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor() {
+  constructor(
+    private refreshTokensService: RefreshTokensService,
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+    private organizationsService: OrganizationsService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -12,11 +26,58 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: any) {
+  async validate(payload: JwtPayload): Promise<JwtUser> {
+    // A challenge token only proves the password, not the second factor
+    if (payload.purpose) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_INVALID,
+        'Not an access token',
+      );
+    }
+
+    // Tokens of a session that logged out stop working before they expire
+    if (
+      payload.sid &&
+      !(await this.refreshTokensService.isSessionActive(payload.sid))
+    ) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_REVOKED,
+        'Session has been revoked',
+      );
+    }
+
+    // Disabled and deleted users lose access before their tokens expire
+    const active = await this.usersRepository.exists({
+      where: { id: payload.sub, disabledAt: IsNull() },
+    });
+    if (!active) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.ACCOUNT_DISABLED,
+        'User is disabled or no longer exists',
+      );
+    }
+
+    // Users removed from an organization lose access to it at once
+    if (
+      payload.org &&
+      !(await this.organizationsService.isMember(payload.sub, payload.org))
+    ) {
+      throw new AuthException(
+        HttpStatus.FORBIDDEN,
+        AuthErrorCode.FORBIDDEN,
+        'You no longer belong to this organization; refresh or switch organizations',
+      );
+    }
+
     return { 
       userId: payload.sub, 
       username: payload.username, 
-      role: payload.role 
+      role: payload.role,
+      sessionId: payload.sid,
+      organizationId: payload.org,
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+// src/auth/login-locked.exception.ts
+import { HttpStatus } from '@nestjs/common';
+import { AuthException } from './auth.exception';
+import { AuthErrorCode } from './enums/auth-error-code.enum';
+
+// 429 with the time the client has to wait before trying again
+export class LoginLockedException extends AuthException {
+  constructor(lockedUntil: Date) {
+    const retryAfterSeconds = Math.max(
+      1,
+      Math.ceil((lockedUntil.getTime() - Date.now()) / 1000),
+    );
+    super(
+      HttpStatus.TOO_MANY_REQUESTS,
+      AuthErrorCode.ACCOUNT_LOCKED,
+      `Too many failed login attempts. Try again in ${formatWait(retryAfterSeconds)}.`,
+      { lockedUntil: lockedUntil.toISOString(), retryAfterSeconds },
+    );
+  }
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
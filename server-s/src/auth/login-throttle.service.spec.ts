@@ -0,0 +1,70 @@
+import { LoginThrottleService } from './login-throttle.service';
+import { LoginLockout } from './entities/login-lockout.entity';
+
+describe('LoginThrottleService', () => {
+  const source = { ip: '10.0.0.1' };
+
+  const setup = () => {
+    const counters = new Map<string, LoginLockout>();
+    const manager = {
+      findOneOrFail: jest.fn(
+        (_entity: unknown, { where }: { where: LoginLockout }) =>
+          Promise.resolve({ ...counters.get(`${where.scope}:${where.key}`)! }),
+      ),
+      save: jest.fn((lockout: LoginLockout) => {
+        counters.set(`${lockout.scope}:${lockout.key}`, lockout);
+        return Promise.resolve(lockout);
+      }),
+    };
+    const lockoutsRepository = {
+      // Every failure sees no row yet, as if they all arrived at once
+      exists: jest.fn().mockResolvedValue(false),
+      insert: jest.fn((lockout: LoginLockout) => {
+        const id = `${lockout.scope}:${lockout.key}`;
+        if (counters.has(id)) {
+          return Promise.reject(Object.assign(new Error(), { code: '23505' }));
+        }
+        counters.set(id, lockout);
+        return Promise.resolve({});
+      }),
+      delete: jest.fn().mockResolvedValue({}),
+      update: jest.fn(),
+      manager: {
+        transaction: (work: (m: typeof manager) => Promise<unknown>) =>
+          work(manager),
+      },
+    };
+    const service = new LoginThrottleService(
+      { insert: jest.fn() } as never,
+      lockoutsRepository as never,
+      { recordAuthEvent: jest.fn() } as never,
+    );
+    return { service, counters, manager, lockoutsRepository };
+  };
+
+  it('counts each failure on a locked counter row', async () => {
+    const { service, counters, manager } = setup();
+
+    await service.recordFailure('Viewer', source);
+    await service.recordFailure('Viewer', source);
+
+    expect(manager.findOneOrFail).toHaveBeenCalledWith(LoginLockout, {
+      where: { scope: 'user', key: 'viewer' },
+      lock: { mode: 'pessimistic_write' },
+    });
+    expect(counters.get('user:viewer')?.failedCount).toBe(2);
+    expect(counters.get('ip:10.0.0.1')?.failedCount).toBe(2);
+  });
+
+  it('only clears the username on a successful login', async () => {
+    const { service, lockoutsRepository } = setup();
+
+    await service.recordSuccess('Viewer', 2, source);
+
+    expect(lockoutsRepository.delete).toHaveBeenCalledWith({
+      scope: 'user',
+      key: 'viewer',
+    });
+    expect(lockoutsRepository.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,214 @@
+// src/auth/login-throttle.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  LoginAttempt,
+  LoginFailureReason,
+} from './entities/login-attempt.entity';
+import { LockoutScope, LoginLockout } from './entities/login-lockout.entity';
+import { LoginLockedException } from './login-locked.exception';
+import { AuditService } from '../audit/audit.service';
+import { AuthEventType } from '../audit/enums/auth-event-type.enum';
+
+const DEFAULT_MAX_FAILURES: Record<LockoutScope, number> = {
+  user: 5,
+  ip: 20,
+};
+
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+// Failures older than this no longer count towards a lockout
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// A day without failures starts the backoff over
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// 1m, 2m, 4m ... for the first, second, third lockout, capped at a day
+export function lockoutDurationMs(lockouts: number): number {
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (lockouts - 1), MAX_LOCKOUT_MS);
+}
+
+// Where a login attempt came from
+export interface LoginSource {
+  ip: string;
+  userAgent?: string;
+}
+
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+
+  constructor(
+    @InjectRepository(LoginAttempt)
+    private loginAttemptsRepository: Repository<LoginAttempt>,
+    @InjectRepository(LoginLockout)
+    private lockoutsRepository: Repository<LoginLockout>,
+    private auditService: AuditService,
+  ) {}
+
+  // LOGIN_MAX_FAILURES_PER_USER / LOGIN_MAX_FAILURES_PER_IP
+  maxFailures(scope: LockoutScope): number {
+    const max = Number(
+      process.env[`LOGIN_MAX_FAILURES_PER_${scope.toUpperCase()}`],
+    );
+    return max > 0 ? max : DEFAULT_MAX_FAILURES[scope];
+  }
+
+  // Throws LoginLockedException while the username or the IP is locked out.
+  // The refused attempt is recorded but does not extend the lockout.
+  async assertNotLocked(username: string, source: LoginSource): Promise<void> {
+    const lockouts = await this.lockoutsRepository.find({
+      where: [
+        { scope: 'user', key: username.toLowerCase() },
+        { scope: 'ip', key: source.ip },
+      ],
+    });
+    const now = Date.now();
+    const lockedUntil = lockouts
+      .map((lockout) => lockout.lockedUntil?.getTime() ?? 0)
+      .filter((until) => until > now)
+      .sort((a, b) => b - a)[0];
+
+    if (lockedUntil) {
+      await this.recordAttempt(username, source, false, 'locked');
+      throw new LoginLockedException(new Date(lockedUntil));
+    }
+  }
+
+  // Counts a wrong password or MFA code against the username and the IP.
+  // Returns the end of the lockout this failure started, if any.
+  async recordFailure(
+    username: string,
+    source: LoginSource,
+    userId?: number,
+    reason: LoginFailureReason = 'invalid_credentials',
+  ): Promise<Date | null> {
+    await this.recordAttempt(username, source, false, reason, userId);
+
+    const [userLock, ipLock] = await Promise.all([
+      this.countFailure('user', username.toLowerCase()),
+      this.countFailure('ip', source.ip),
+    ]);
+    return userLock ?? ipLock;
+  }
+
+  // Clears the username's failures. The IP's failures are left to expire
+  // with the window, or logging into an account of one's own between guesses
+  // would keep an IP under its limit forever.
+  async recordSuccess(
+    username: string,
+    userId: number,
+    source: LoginSource,
+  ): Promise<void> {
+    await this.recordAttempt(username, source, true, null, userId);
+    await this.lockoutsRepository.delete({
+      scope: 'user',
+      key: username.toLowerCase(),
+    });
+  }
+
+  // Lifts a lockout and forgets earlier ones, for admins
+  async unlockUser(username: string): Promise<void> {
+    await this.lockoutsRepository.delete({
+      scope: 'user',
+      key: username.toLowerCase(),
+    });
+  }
+
+  // The counter row is locked while it is updated, so parallel failures
+  // each count instead of overwriting one another
+  private async countFailure(
+    scope: LockoutScope,
+    key: string,
+  ): Promise<Date | null> {
+    await this.ensureCounter(scope, key);
+
+    return this.lockoutsRepository.manager.transaction(async (manager) => {
+      const now = new Date();
+      const lockout = await manager.findOneOrFail(LoginLockout, {
+        where: { scope, key },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const idleMs = lockout.updatedAt
+        ? now.getTime() - lockout.updatedAt.getTime()
+        : 0;
+      if (idleMs > FAILURE_WINDOW_MS) {
+        lockout.failedCount = 0;
+      }
+      if (idleMs > LOCKOUT_MEMORY_MS) {
+        lockout.lockouts = 0;
+      }
+      lockout.failedCount += 1;
+
+      let lockedUntil: Date | null = null;
+      if (lockout.failedCount >= this.maxFailures(scope)) {
+        lockout.lockouts += 1;
+        lockout.failedCount = 0;
+        lockedUntil = new Date(
+          now.getTime() + lockoutDurationMs(lockout.lockouts),
+        );
+        lockout.lockedUntil = lockedUntil;
+        this.logger.warn(
+          `Locked out ${scope} ${key} until ${lockedUntil.toISOString()}`,
+        );
+      }
+
+      await manager.save(lockout);
+      return lockedUntil;
+    });
+  }
+
+  // Creates the counter on a first failure. Of two first failures at once,
+  // one inserts and the other finds the row already there.
+  private async ensureCounter(scope: LockoutScope, key: string) {
+    if (await this.lockoutsRepository.exists({ where: { scope, key } })) {
+      return;
+    }
+    try {
+      await this.lockoutsRepository.insert({
+        scope,
+        key,
+        failedCount: 0,
+        lockouts: 0,
+      });
+    } catch (error) {
+      if ((error as { code?: string })?.code !== UNIQUE_VIOLATION) {
+        throw error;
+      }
+    }
+  }
+
+  private async recordAttempt(
+    username: string,
+    source: LoginSource,
+    succeeded: boolean,
+    failureReason: LoginAttempt['failureReason'],
+    userId?: number,
+  ): Promise<void> {
+    await this.loginAttemptsRepository.insert({
+      username,
+      userId,
+      ip: source.ip,
+      userAgent: source.userAgent?.slice(0, 255),
+      succeeded,
+      failureReason,
+    });
+    await this.auditService.recordAuthEvent(
+      {
+        type: succeeded
+          ? AuthEventType.LOGIN_SUCCEEDED
+          : AuthEventType.LOGIN_FAILED,
+        userId,
+        username,
+        details: failureReason ? { reason: failureReason } : undefined,
+      },
+      source,
+    );
+  }
+}
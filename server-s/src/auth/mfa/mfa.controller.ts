@@ -0,0 +1,94 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Put,
+  Request,
+  UseFilters,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { JwtAuthGuard } from 'src/auth/jwt-auth-guard';
+import { RolesGuard } from 'src/auth/roles-guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { JwtUser } from 'src/auth/interfaces/jwt-user.interface';
+import { MfaCodeDto, MfaRolePolicyDto } from 'src/auth/dto/mfa.dto';
+import { UserRole } from 'src/users/enums/user-role.enum';
+import { AuthExceptionFilter } from 'src/auth/auth-exception.filter';
+import { MfaService } from './mfa.service';
+
+// Two-factor settings of the logged-in user, and which roles require 2FA
+@Controller('auth/mfa')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@UseFilters(AuthExceptionFilter)
+export class MfaController {
+  constructor(private readonly mfaService: MfaService) {}
+
+  @Get()
+  getStatus(@Request() req: { user: JwtUser }) {
+    return this.mfaService.getStatus(req.user);
+  }
+
+  // Returns the secret and otpauth:// URI to add to an authenticator app
+  @Post('enroll')
+  @HttpCode(200)
+  enroll(@Request() req: { user: JwtUser }) {
+    return this.mfaService.startEnrollment(req.user.userId);
+  }
+
+  // Enables 2FA; the recovery codes in the response are not shown again
+  @Post('verify')
+  @HttpCode(200)
+  async verify(
+    @Request() req: { user: JwtUser },
+    @Body(ValidationPipe) dto: MfaCodeDto,
+  ) {
+    const recoveryCodes = await this.mfaService.enable(
+      req.user.userId,
+      dto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('recovery-codes')
+  @HttpCode(200)
+  async regenerateRecoveryCodes(
+    @Request() req: { user: JwtUser },
+    @Body(ValidationPipe) dto: MfaCodeDto,
+  ) {
+    const recoveryCodes = await this.mfaService.regenerateRecoveryCodes(
+      req.user.userId,
+      dto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('disable')
+  @HttpCode(200)
+  disable(
+    @Request() req: { user: JwtUser },
+    @Body(ValidationPipe) dto: MfaCodeDto,
+  ) {
+    return this.mfaService.disable(req.user, dto.code);
+  }
+
+  @Get('policies')
+  @Roles(UserRole.ADMIN)
+  getPolicies() {
+    return this.mfaService.getPolicies();
+  }
+
+  @Put('policies/:role')
+  @Roles(UserRole.ADMIN)
+  setPolicy(
+    @Param('role', new ParseEnumPipe(UserRole)) role: UserRole,
+    @Body(ValidationPipe) dto: MfaRolePolicyDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.mfaService.setPolicy(role, dto.required, req.user);
+  }
+}
@@ -0,0 +1,314 @@
+// src/auth/mfa/mfa.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { MfaRecoveryCode } from '../entities/mfa-recovery-code.entity';
+import { MfaRolePolicy } from '../entities/mfa-role-policy.entity';
+import { JwtPayload } from '../interfaces/jwt-payload.interface';
+import { JwtUser } from '../interfaces/jwt-user.interface';
+import { generateTotpSecret, otpauthUri, verifyTotp } from './totp';
+import { AuthException } from '../auth.exception';
+import { AuthErrorCode } from '../enums/auth-error-code.enum';
+
+const RECOVERY_CODE_COUNT = 10;
+const DEFAULT_CHALLENGE_TTL_SECONDS = 300;
+const DEFAULT_ISSUER = 'Payment Dashboard';
+
+// Returned by POST /auth/login instead of tokens while the second factor is
+// outstanding
+export interface MfaChallenge {
+  code: AuthErrorCode.MFA_REQUIRED;
+  mfa_required: true;
+  // The user has no authenticator yet and has to enroll one to log in
+  enrollment_required: boolean;
+  challenge_token: string;
+  expires_in: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  // Payload for the QR code authenticator apps scan
+  otpauthUri: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+}
+
+// Two groups of five hex digits, e.g. 3f9a1-c07d2
+function generateRecoveryCode(): string {
+  const hex = randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+@Injectable()
+export class MfaService {
+  constructor(
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+    @InjectRepository(MfaRecoveryCode)
+    private recoveryCodesRepository: Repository<MfaRecoveryCode>,
+    @InjectRepository(MfaRolePolicy)
+    private policiesRepository: Repository<MfaRolePolicy>,
+    private jwtService: JwtService,
+  ) {}
+
+  async isRequiredForRole(role: UserRole): Promise<boolean> {
+    return this.policiesRepository.exists({ where: { role, required: true } });
+  }
+
+  async getPolicies(): Promise<{ role: UserRole; required: boolean }[]> {
+    const policies = await this.policiesRepository.find({ where: {} });
+    return Object.values(UserRole).map((role) => ({
+      role,
+      required: policies.some(
+        (policy) => policy.role === role && policy.required,
+      ),
+    }));
+  }
+
+  // Takes effect at the next login of each user of the role
+  async setPolicy(
+    role: UserRole,
+    required: boolean,
+    actor: JwtUser,
+  ): Promise<{ role: UserRole; required: boolean }> {
+    const policy =
+      (await this.policiesRepository.findOne({ where: { role } })) ??
+      this.policiesRepository.create({ role });
+    policy.required = required;
+    policy.updatedByUsername = actor.username;
+    await this.policiesRepository.save(policy);
+    return { role, required };
+  }
+
+  // A short-lived token standing for "password checked", or null when the
+  // user can log in with the password alone
+  async createChallenge(
+    user: Pick<User, 'id' | 'username' | 'role' | 'totpEnabled'>,
+  ): Promise<MfaChallenge | null> {
+    if (!user.totpEnabled && !(await this.isRequiredForRole(user.role))) {
+      return null;
+    }
+
+    const expiresIn =
+      Number(process.env.MFA_CHALLENGE_TTL_SECONDS) ||
+      DEFAULT_CHALLENGE_TTL_SECONDS;
+    const payload: JwtPayload = {
+      sub: user.id,
+      username: user.username,
+      role: user.role,
+      purpose: 'mfa_challenge',
+    };
+
+    return {
+      code: AuthErrorCode.MFA_REQUIRED,
+      mfa_required: true,
+      enrollment_required: !user.totpEnabled,
+      challenge_token: this.jwtService.sign(payload, { expiresIn }),
+      expires_in: expiresIn,
+    };
+  }
+
+  // Returns the id of the user the challenge was issued to
+  verifyChallenge(challengeToken: string): number {
+    let payload: JwtPayload;
+    try {
+      payload = this.jwtService.verify<JwtPayload>(challengeToken);
+    } catch (error) {
+      const expired = (error as Error).name === 'TokenExpiredError';
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        expired ? AuthErrorCode.TOKEN_EXPIRED : AuthErrorCode.TOKEN_INVALID,
+        'Invalid or expired challenge token',
+      );
+    }
+    if (payload.purpose !== 'mfa_challenge') {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_INVALID,
+        'Invalid or expired challenge token',
+      );
+    }
+    return payload.sub;
+  }
+
+  async getStatus(user: JwtUser): Promise<MfaStatus> {
+    const { totpEnabled } = await this.findUser(user.userId);
+    const unusedCodes = await this.recoveryCodesRepository.find({
+      where: { userId: user.userId, usedAt: IsNull() },
+    });
+    return {
+      enabled: totpEnabled,
+      required: await this.isRequiredForRole(user.role),
+      recoveryCodesRemaining: unusedCodes.length,
+    };
+  }
+
+  // Stores a new secret that only counts once a code from it is confirmed;
+  // starting again replaces the secret
+  async startEnrollment(userId: number): Promise<MfaEnrollment> {
+    const user = await this.findUser(userId);
+    if (user.totpEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.usersRepository.update({ id: userId }, { totpSecret: secret });
+
+    const issuer = process.env.MFA_ISSUER || DEFAULT_ISSUER;
+    return { secret, otpauthUri: otpauthUri(secret, user.username, issuer) };
+  }
+
+  // Turns 2FA on once the code matches the enrolled secret and returns the
+  // new recovery codes, or null when the code is wrong
+  async confirmEnrollment(
+    userId: number,
+    code: string,
+  ): Promise<string[] | null> {
+    const user = await this.findUser(userId);
+    if (user.totpEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestException('Start enrollment first');
+    }
+
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === null) {
+      return null;
+    }
+
+    await this.usersRepository.update(
+      { id: userId },
+      { totpEnabled: true, totpLastUsedStep: step },
+    );
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  async enable(userId: number, code: string): Promise<string[]> {
+    const recoveryCodes = await this.confirmEnrollment(userId, code);
+    if (!recoveryCodes) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.INVALID_MFA_CODE,
+        'Invalid verification code',
+      );
+    }
+    return recoveryCodes;
+  }
+
+  // Accepts a current TOTP code, or an unused recovery code which is then
+  // spent
+  async verifyCode(userId: number, code: string): Promise<boolean> {
+    const user = await this.findUser(userId);
+    if (!user.totpEnabled || !user.totpSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.totpSecret, code);
+    if (step !== null) {
+      if (user.totpLastUsedStep != null && step <= user.totpLastUsedStep) {
+        return false;
+      }
+      await this.usersRepository.update(
+        { id: userId },
+        { totpLastUsedStep: step },
+      );
+      return true;
+    }
+
+    const { affected } = await this.recoveryCodesRepository.update(
+      { userId, codeHash: hashRecoveryCode(code), usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    return (affected ?? 0) > 0;
+  }
+
+  // Invalidates the old recovery codes
+  async regenerateRecoveryCodes(
+    userId: number,
+    code: string,
+  ): Promise<string[]> {
+    await this.assertCode(userId, code);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  // Not allowed while the user's role requires 2FA
+  async disable(user: JwtUser, code: string): Promise<{ message: string }> {
+    if (await this.isRequiredForRole(user.role)) {
+      throw new AuthException(
+        HttpStatus.FORBIDDEN,
+        AuthErrorCode.MFA_REQUIRED,
+        `Two-factor authentication is required for the ${user.role} role`,
+      );
+    }
+    await this.assertCode(user.userId, code);
+
+    await this.usersRepository.update(
+      { id: user.userId },
+      { totpEnabled: false, totpSecret: null, totpLastUsedStep: null },
+    );
+    await this.recoveryCodesRepository.delete({ userId: user.userId });
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  private async assertCode(userId: number, code: string): Promise<void> {
+    if (!(await this.verifyCode(userId, code))) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.INVALID_MFA_CODE,
+        'Invalid verification code',
+      );
+    }
+  }
+
+  private async replaceRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      generateRecoveryCode(),
+    );
+    await this.recoveryCodesRepository.delete({ userId });
+    await this.recoveryCodesRepository.insert(
+      codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    );
+    return codes;
+  }
+
+  private async findUser(id: number): Promise<User> {
+    const user = await this.usersRepository.findOne({
+      where: { id },
+      select: [
+        'id',
+        'username',
+        'role',
+        'totpEnabled',
+        'totpSecret',
+        'totpLastUsedStep',
+      ],
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return user;
+  }
+}
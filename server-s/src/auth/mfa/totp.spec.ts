@@ -0,0 +1,50 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  otpauthUri,
+  totpStep,
+  verifyTotp,
+} from './totp';
+
+// Secret of the RFC 6238 SHA-1 test vectors
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('any bytes at all');
+
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [2000000000, '69279037'],
+  ])('matches the RFC 6238 vector at %i', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, totpStep(seconds * 1000), 8)).toBe(code);
+  });
+
+  it('accepts codes from the neighbouring steps only', () => {
+    const now = 1700000000000;
+    const step = totpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), now)).toBe(
+      step,
+    );
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now),
+    ).toBe(step - 1);
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now),
+    ).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+  });
+
+  it('builds an otpauth URI for authenticator apps', () => {
+    expect(otpauthUri('JBSWY3DPEHPK3PXP', 'admin', 'Payment Dashboard')).toBe(
+      'otpauth://totp/Payment%20Dashboard%3Aadmin?secret=JBSWY3DPEHPK3PXP&issuer=Payment+Dashboard&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
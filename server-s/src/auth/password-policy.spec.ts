@@ -0,0 +1,41 @@
+import { PasswordPolicy, passwordPolicyViolations } from './password-policy';
+
+describe('passwordPolicyViolations', () => {
+  const lenient: PasswordPolicy = {
+    minLength: 8,
+    requireUppercase: false,
+    requireLowercase: false,
+    requireDigit: false,
+    requireSymbol: false,
+  };
+  const strict: PasswordPolicy = {
+    minLength: 12,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireDigit: true,
+    requireSymbol: true,
+  };
+
+  it('accepts a password that meets every rule', () => {
+    expect(passwordPolicyViolations('Correct-Horse-9', strict)).toEqual([]);
+    expect(passwordPolicyViolations('longenough', lenient)).toEqual([]);
+  });
+
+  it('lists every rule that is broken', () => {
+    expect(passwordPolicyViolations('short', strict)).toEqual([
+      'password must be at least 12 characters long',
+      'password must contain an uppercase letter',
+      'password must contain a digit',
+      'password must contain a symbol',
+    ]);
+  });
+
+  it('refuses the username and passwords bcrypt would truncate', () => {
+    expect(passwordPolicyViolations('Operator1', lenient, 'operator1')).toEqual(
+      ['password must not be the username'],
+    );
+    expect(passwordPolicyViolations('é'.repeat(40), lenient)).toEqual([
+      'password must be at most 72 bytes long',
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+// src/auth/password-policy.ts
+import { HttpStatus } from '@nestjs/common';
+import { AuthException } from './auth.exception';
+import { AuthErrorCode } from './enums/auth-error-code.enum';
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+}
+
+const DEFAULT_MIN_LENGTH = 8;
+
+// bcrypt ignores everything after the first 72 bytes
+const MAX_PASSWORD_BYTES = 72;
+
+// PASSWORD_MIN_LENGTH and PASSWORD_REQUIRE_{UPPERCASE,LOWERCASE,DIGIT,SYMBOL}
+export function passwordPolicyFromEnv(): PasswordPolicy {
+  const flag = (name: string) => process.env[name] === 'true';
+  const minLength = Number(process.env.PASSWORD_MIN_LENGTH);
+  return {
+    minLength: minLength > 0 ? minLength : DEFAULT_MIN_LENGTH,
+    requireUppercase: flag('PASSWORD_REQUIRE_UPPERCASE'),
+    requireLowercase: flag('PASSWORD_REQUIRE_LOWERCASE'),
+    requireDigit: flag('PASSWORD_REQUIRE_DIGIT'),
+    requireSymbol: flag('PASSWORD_REQUIRE_SYMBOL'),
+  };
+}
+
+// Every rule the password breaks, as messages for the client
+export function passwordPolicyViolations(
+  password: string,
+  policy: PasswordPolicy,
+  username?: string,
+): string[] {
+  const violations: string[] = [];
+  if (password.length < policy.minLength) {
+    violations.push(
+      `password must be at least ${policy.minLength} characters long`,
+    );
+  }
+  if (Buffer.byteLength(password) > MAX_PASSWORD_BYTES) {
+    violations.push(
+      `password must be at most ${MAX_PASSWORD_BYTES} bytes long`,
+    );
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('password must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('password must contain a lowercase letter');
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push('password must contain a digit');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('password must contain a symbol');
+  }
+  if (username && password.toLowerCase() === username.toLowerCase()) {
+    violations.push('password must not be the username');
+  }
+  return violations;
+}
+
+// Throws a 400 listing the violations, shaped like ValidationPipe errors
+export function assertPasswordPolicy(password: string, username?: string) {
+  const violations = passwordPolicyViolations(
+    password,
+    passwordPolicyFromEnv(),
+    username,
+  );
+  if (violations.length > 0) {
+    throw new AuthException(
+      HttpStatus.BAD_REQUEST,
+      AuthErrorCode.PASSWORD_POLICY_VIOLATION,
+      violations,
+    );
+  }
+}
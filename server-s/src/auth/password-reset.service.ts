@@ -0,0 +1,150 @@
+// src/auth/password-reset.service.ts
+import { HttpStatus, Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { User } from '../users/entities/user.entity';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { LoginSource, LoginThrottleService } from './login-throttle.service';
+import { assertPasswordPolicy } from './password-policy';
+import { AuditService, RequestSource } from '../audit/audit.service';
+import { AuthEventType } from '../audit/enums/auth-event-type.enum';
+import { AuthException } from './auth.exception';
+import { AuthErrorCode } from './enums/auth-error-code.enum';
+import { NOTIFIER } from '../notifications/notifier.interface';
+import type { Notifier } from '../notifications/notifier.interface';
+
+const DEFAULT_TOKEN_TTL_MINUTES = 30;
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+const invalidResetToken = () =>
+  new AuthException(
+    HttpStatus.BAD_REQUEST,
+    AuthErrorCode.TOKEN_INVALID,
+    'Invalid or expired reset token',
+  );
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    @InjectRepository(PasswordResetToken)
+    private resetTokensRepository: Repository<PasswordResetToken>,
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+    private refreshTokensService: RefreshTokensService,
+    private loginThrottleService: LoginThrottleService,
+    @Inject(NOTIFIER)
+    private notifier: Notifier,
+    private auditService: AuditService,
+  ) {}
+
+  get ttlMinutes(): number {
+    const minutes = Number(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES);
+    return minutes > 0 ? minutes : DEFAULT_TOKEN_TTL_MINUTES;
+  }
+
+  // Sends a reset token to the user. Answers the same whether or not the
+  // username exists, so it cannot be used to find accounts.
+  async requestReset(
+    username: string,
+    source: LoginSource,
+  ): Promise<{ message: string }> {
+    const response = {
+      message: 'If the account exists, reset instructions have been sent',
+    };
+    const user = await this.usersRepository.findOne({ where: { username } });
+    if (!user || user.disabledAt) {
+      return response;
+    }
+
+    // Only the newest token works
+    await this.resetTokensRepository.update(
+      { userId: user.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.ttlMinutes * 60 * 1000);
+    await this.resetTokensRepository.insert({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt,
+      requestedIp: source.ip,
+    });
+
+    const link = process.env.PASSWORD_RESET_URL
+      ? `${process.env.PASSWORD_RESET_URL}?token=${token}`
+      : `Reset token: ${token}`;
+    try {
+      await this.notifier.send({
+        userId: user.id,
+        username: user.username,
+        subject: 'Reset your password',
+        text: `${link}\nThe link works once and expires at ${expiresAt.toISOString()}. If you did not ask for it, ignore this message.`,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Could not send the password reset for ${user.username} through ${this.notifier.name}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+    return response;
+  }
+
+  // Spends the token, sets the new password, ends every session and lifts
+  // any login lockout
+  async resetPassword(
+    token: string,
+    newPassword: string,
+    source: RequestSource = {},
+  ): Promise<{ message: string }> {
+    const resetToken = await this.resetTokensRepository.findOne({
+      where: { tokenHash: hashToken(token), usedAt: IsNull() },
+    });
+    if (!resetToken || resetToken.expiresAt.getTime() <= Date.now()) {
+      throw invalidResetToken();
+    }
+    const user = await this.usersRepository.findOne({
+      where: { id: resetToken.userId },
+    });
+    if (!user || user.disabledAt) {
+      throw invalidResetToken();
+    }
+    assertPasswordPolicy(newPassword, user.username);
+
+    // Conditional so two requests racing with one token cannot both win
+    const { affected } = await this.resetTokensRepository.update(
+      { id: resetToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      throw invalidResetToken();
+    }
+
+    await this.usersRepository.update(
+      { id: user.id },
+      { password: await bcrypt.hash(newPassword, 10) },
+    );
+    await this.refreshTokensService.revokeAllForUser(
+      user.id,
+      'password_change',
+    );
+    await this.loginThrottleService.unlockUser(user.username);
+    await this.auditService.recordAuthEvent(
+      {
+        type: AuthEventType.PASSWORD_CHANGED,
+        userId: user.id,
+        username: user.username,
+        details: { method: 'reset_token' },
+      },
+      source,
+    );
+    return { message: 'Password has been reset' };
+  }
+}
@@ -0,0 +1,158 @@
+// src/auth/refresh-tokens.service.ts
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { AuthException } from './auth.exception';
+import { AuthErrorCode } from './enums/auth-error-code.enum';
+
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 7;
+
+export type RevocationReason =
+  | 'logout'
+  | 'password_change'
+  | 'reuse_detected'
+  | 'admin'
+  | 'organization_switch';
+
+export interface IssuedRefreshToken {
+  token: string;
+  familyId: string;
+  expiresAt: Date;
+  organizationId: number | null;
+}
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+@Injectable()
+export class RefreshTokensService {
+  private readonly logger = new Logger(RefreshTokensService.name);
+
+  constructor(
+    @InjectRepository(RefreshToken)
+    private refreshTokensRepository: Repository<RefreshToken>,
+  ) {}
+
+  get ttlDays(): number {
+    const days = Number(process.env.REFRESH_TOKEN_TTL_DAYS);
+    return days > 0 ? days : DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+  }
+
+  // Starts a new family unless one is given
+  async issue(
+    userId: number,
+    organizationId: number | null,
+    familyId: string = randomUUID(),
+  ): Promise<IssuedRefreshToken> {
+    const token = randomBytes(48).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.ttlDays * 24 * 60 * 60 * 1000);
+
+    await this.refreshTokensRepository.insert({
+      userId,
+      familyId,
+      organizationId,
+      tokenHash: hashToken(token),
+      expiresAt,
+    });
+
+    return { token, familyId, expiresAt, organizationId };
+  }
+
+  // Exchanges a refresh token for a new one in the same family. A token
+  // that was already exchanged has been copied, so its whole family is
+  // revoked and both holders have to log in again.
+  async rotate(
+    token: string,
+  ): Promise<{ userId: number; issued: IssuedRefreshToken }> {
+    const record = await this.refreshTokensRepository.findOne({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!record || record.revokedAt) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_INVALID,
+        'Invalid refresh token',
+      );
+    }
+    if (record.usedAt) {
+      await this.reuseDetected(record);
+    }
+    if (record.expiresAt.getTime() <= Date.now()) {
+      throw new AuthException(
+        HttpStatus.UNAUTHORIZED,
+        AuthErrorCode.TOKEN_EXPIRED,
+        'Refresh token has expired',
+      );
+    }
+
+    // Only one of two concurrent exchanges of the same token wins
+    const { affected } = await this.refreshTokensRepository.update(
+      { id: record.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      await this.reuseDetected(record);
+    }
+
+    return {
+      userId: record.userId,
+      issued: await this.issue(
+        record.userId,
+        record.organizationId ?? null,
+        record.familyId,
+      ),
+    };
+  }
+
+  // Moves a session to another organization, e.g. when the user has left
+  // the one it was acting in
+  async setSessionOrganization(
+    familyId: string,
+    organizationId: number | null,
+  ): Promise<void> {
+    await this.refreshTokensRepository.update({ familyId }, { organizationId });
+  }
+
+  async revokeFamily(
+    familyId: string,
+    reason: RevocationReason,
+  ): Promise<void> {
+    await this.refreshTokensRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+  }
+
+  // Ends every session of a user, e.g. after a password change
+  async revokeAllForUser(
+    userId: number,
+    reason: RevocationReason,
+  ): Promise<void> {
+    await this.refreshTokensRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+  }
+
+  // Whether the session an access token belongs to is still alive
+  async isSessionActive(familyId: string): Promise<boolean> {
+    return this.refreshTokensRepository.exists({
+      where: { familyId, revokedAt: IsNull() },
+    });
+  }
+
+  private async reuseDetected(record: RefreshToken): Promise<never> {
+    this.logger.warn(
+      `Refresh token reuse for user ${record.userId}; revoking session ${record.familyId}`,
+    );
+    await this.revokeFamily(record.familyId, 'reuse_detected');
+    throw new AuthException(
+      HttpStatus.UNAUTHORIZED,
+      AuthErrorCode.TOKEN_REVOKED,
+      'Refresh token has already been used',
+    );
+  }
+}
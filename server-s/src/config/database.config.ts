@@ -1,7 +1,26 @@
 // src/config/database.config.ts
 import { TypeOrmModuleOptions } from '@nestjs/typeorm';
 import { User } from '../users/entities/user.entity';
+import { RefreshToken } from '../auth/entities/refresh-token.entity';
+import { LoginAttempt } from '../auth/entities/login-attempt.entity';
+import { LoginLockout } from '../auth/entities/login-lockout.entity';
+import { MfaRecoveryCode } from '../auth/entities/mfa-recovery-code.entity';
+import { MfaRolePolicy } from '../auth/entities/mfa-role-policy.entity';
+import { PasswordResetToken } from '../auth/entities/password-reset-token.entity';
+import { ApiKey } from '../api-keys/entities/api-key.entity';
+import { AuthEvent } from '../audit/entities/auth-event.entity';
+import { Organization } from '../organizations/entities/organization.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
 import { Payment } from '../payments/entities/payment.entity';
+import { Refund } from '../payments/entities/refund.entity';
+import { PaymentEvent } from '../payments/entities/payment-event.entity';
+import { PaymentImportJob } from '../payments/entities/payment-import-job.entity';
+import { IdempotencyKey } from '../idempotency/entities/idempotency-key.entity';
+import { BankStatement } from '../reconciliation/entities/bank-statement.entity';
+import { StatementLine } from '../reconciliation/entities/statement-line.entity';
+import { WebhookEvent } from '../webhooks/entities/webhook-event.entity';
+import { WebhookSubscription } from '../webhook-subscriptions/entities/webhook-subscription.entity';
+import { WebhookDelivery } from '../webhook-subscriptions/entities/webhook-delivery.entity';
 
 export const databaseConfig: TypeOrmModuleOptions = {
   type: 'postgres',
@@ -10,7 +29,29 @@ export const databaseConfig: TypeOrmModuleOptions = {
   username: process.env.DB_USERNAME || 'postgres',
   password: process.env.DB_PASSWORD || 'simplepassword',
   database: process.env.DB_DATABASE || 'payment_dashboard',
-  entities: [User, Payment],
+  entities: [
+    User,
+    RefreshToken,
+    LoginAttempt,
+    LoginLockout,
+    MfaRecoveryCode,
+    MfaRolePolicy,
+    PasswordResetToken,
+    ApiKey,
+    AuthEvent,
+    Organization,
+    OrganizationMembership,
+    Payment,
+    Refund,
+    PaymentEvent,
+    PaymentImportJob,
+    IdempotencyKey,
+    BankStatement,
+    StatementLine,
+    WebhookEvent,
+    WebhookSubscription,
+    WebhookDelivery,
+  ],
   synchronize: true, // Set to false in production
   logging: process.env.NODE_ENV === 'development',
 };
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { streamRawRows } from './query-cursor';
+
+describe('streamRawRows', () => {
+  const createQuery = (batches: unknown[][]) => {
+    const queryRunner = {
+      isTransactionActive: false,
+      connect: jest.fn(),
+      startTransaction: jest.fn(() => {
+        queryRunner.isTransactionActive = true;
+      }),
+      commitTransaction: jest.fn(() => {
+        queryRunner.isTransactionActive = false;
+      }),
+      rollbackTransaction: jest.fn(() => {
+        queryRunner.isTransactionActive = false;
+      }),
+      release: jest.fn(),
+      query: jest.fn((sql: string) =>
+        sql.startsWith('FETCH') ? (batches.shift() ?? []) : undefined,
+      ),
+    };
+    const query = {
+      getQueryAndParameters: () => [
+        'SELECT * FROM payments WHERE id > $1',
+        [0],
+      ],
+      connection: { createQueryRunner: () => queryRunner },
+    } as unknown as SelectQueryBuilder<ObjectLiteral>;
+
+    return { query, queryRunner };
+  };
+
+  it('declares a cursor for the query and fetches until it is drained', async () => {
+    const { query, queryRunner } = createQuery([
+      [{ id: 1 }, { id: 2 }],
+      [{ id: 3 }],
+    ]);
+    const batches: unknown[][] = [];
+
+    for await (const rows of streamRawRows(query, 2)) {
+      batches.push(rows);
+    }
+
+    expect(batches).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+    expect(queryRunner.query).toHaveBeenCalledWith(
+      'DECLARE row_cursor NO SCROLL CURSOR FOR SELECT * FROM payments WHERE id > $1',
+      [0],
+    );
+    expect(queryRunner.query).toHaveBeenCalledWith(
+      'FETCH FORWARD 2 FROM row_cursor',
+    );
+    expect(queryRunner.commitTransaction).toHaveBeenCalled();
+    expect(queryRunner.release).toHaveBeenCalled();
+  });
+
+  it('rolls back and releases the connection when abandoned early', async () => {
+    const { query, queryRunner } = createQuery([[{ id: 1 }], [{ id: 2 }]]);
+
+    for await (const rows of streamRawRows(query, 1)) {
+      expect(rows).toEqual([{ id: 1 }]);
+      break;
+    }
+
+    expect(queryRunner.commitTransaction).not.toHaveBeenCalled();
+    expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    expect(queryRunner.release).toHaveBeenCalled();
+  });
+});
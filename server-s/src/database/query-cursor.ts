@@ -0,0 +1,40 @@
+// src/database/query-cursor.ts
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+// Reads a query's raw rows in batches through a server-side cursor, so memory
+// use stays flat however many rows match. The cursor lives in its own
+// transaction, which is closed when iteration finishes or is abandoned.
+export async function* streamRawRows<T = Record<string, unknown>>(
+  query: SelectQueryBuilder<ObjectLiteral>,
+  batchSize = 1000,
+): AsyncGenerator<T[]> {
+  const [sql, parameters] = query.getQueryAndParameters();
+  const queryRunner = query.connection.createQueryRunner();
+
+  await queryRunner.connect();
+  try {
+    // A repeatable-read snapshot keeps long exports consistent
+    await queryRunner.startTransaction('REPEATABLE READ');
+    await queryRunner.query(
+      `DECLARE row_cursor NO SCROLL CURSOR FOR ${sql}`,
+      parameters,
+    );
+
+    while (true) {
+      const rows = (await queryRunner.query(
+        `FETCH FORWARD ${batchSize} FROM row_cursor`,
+      )) as T[];
+      if (rows.length === 0) {
+        break;
+      }
+      yield rows;
+    }
+
+    await queryRunner.commitTransaction();
+  } finally {
+    if (queryRunner.isTransactionActive) {
+      await queryRunner.rollbackTransaction();
+    }
+    await queryRunner.release();
+  }
+}
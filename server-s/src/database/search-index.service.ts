@@ -0,0 +1,29 @@
+// src/database/search-index.service.ts
+import { Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import {
+  PAYMENT_SEARCH_DOCUMENT,
+  PAYMENT_SEARCH_FIELDS,
+} from '../payments/payment-search.query';
+
+// Creates the search indexes `synchronize` cannot express: a full-text index
+// over receiver and description, and trigram indexes for fragment matches.
+// The entity declares them with `synchronize: false` so TypeORM leaves them be.
+@Injectable()
+export class SearchIndexService {
+  constructor(private dataSource: DataSource) {}
+
+  async ensurePaymentSearchIndexes(): Promise<void> {
+    await this.dataSource.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+
+    await this.dataSource.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_payments_search_document" ON "payments" USING gin (${PAYMENT_SEARCH_DOCUMENT('"payments"')})`,
+    );
+
+    for (const field of PAYMENT_SEARCH_FIELDS) {
+      await this.dataSource.query(
+        `CREATE INDEX IF NOT EXISTS "IDX_payments_${field}_trgm" ON "payments" USING gin ("${field}" gin_trgm_ops)`,
+      );
+    }
+  }
+}
@@ -1,9 +1,12 @@
 // src/database/seed.service.ts
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 import { Payment, PaymentStatus, PaymentMethod } from '../payments/entities/payment.entity';
 import { UsersService } from '../users/users.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { BankStatement } from '../reconciliation/entities/bank-statement.entity';
+import { WebhookSubscription } from '../webhook-subscriptions/entities/webhook-subscription.entity';
 
 @Injectable()
 export class SeedService {
@@ -11,6 +14,7 @@ export class SeedService {
     @InjectRepository(Payment)
     private paymentsRepository: Repository<Payment>,
     private usersService: UsersService,
+    private organizationsService: OrganizationsService,
   ) {}
 
   async seedDatabase(): Promise<void> {
@@ -19,6 +23,17 @@ export class SeedService {
     // Seed users
     await this.usersService.seedDefaultUsers();
 
+    // Data from before organizations existed moves to the default one
+    const organization =
+      await this.organizationsService.ensureDefaultOrganization();
+    for (const entity of [Payment, BankStatement, WebhookSubscription]) {
+      await this.paymentsRepository.manager.update(
+        entity,
+        { organizationId: IsNull() },
+        { organizationId: organization.id },
+      );
+    }
+
     // Check if payments already exist
     const paymentCount = await this.paymentsRepository.count();
     if (paymentCount > 0) {
@@ -27,11 +42,11 @@ export class SeedService {
     }
 
     // Seed sample payments
-    await this.seedPayments();
+    await this.seedPayments(organization.id);
     console.log('✅ Database seeding completed!');
   }
 
-  private async seedPayments(): Promise<void> {
+  private async seedPayments(organizationId: number): Promise<void> {
     const samplePayments = [
       {
         amount: 1500.00,
@@ -77,7 +92,10 @@ export class SeedService {
 
     // Create payments with different dates for better trends
     for (let i = 0; i < samplePayments.length; i++) {
-      const payment = this.paymentsRepository.create(samplePayments[i]);
+      const payment = this.paymentsRepository.create({
+        ...samplePayments[i],
+        organizationId,
+      });
       
       // Set different creation dates for trend visualization
       const daysAgo = Math.floor(Math.random() * 7);
@@ -91,6 +109,7 @@ export class SeedService {
     // Create additional random payments for better data
     for (let i = 0; i < 15; i++) {
       const payment = this.paymentsRepository.create({
+        organizationId,
         amount: Math.floor(Math.random() * 5000) + 100,
         receiver: `Customer ${i + 6}`,
         status: [PaymentStatus.SUCCESS, PaymentStatus.FAILED, PaymentStatus.PENDING][
@@ -0,0 +1,55 @@
+// src/idempotency/entities/idempotency-key.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// A stored Idempotency-Key and the response it produced. responseStatus is
+// null while the original request is still being processed, or until
+// lockedUntil when that request died without finishing.
+// Postgres treats NULLs as distinct, so keys of requests without a user need
+// their own unique index.
+@Entity('idempotency_keys')
+@Index(['scope', 'userId', 'key'], {
+  unique: true,
+  where: '"userId" IS NOT NULL',
+})
+@Index(['scope', 'key'], { unique: true, where: '"userId" IS NULL' })
+export class IdempotencyKey {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  key: string;
+
+  // Route the key was used on, e.g. "POST /payments"
+  @Column()
+  scope: string;
+
+  @Column({ nullable: true })
+  userId?: number;
+
+  // SHA-256 of the request body
+  @Column()
+  requestHash: string;
+
+  @Column({ type: 'int', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  responseBody: unknown;
+
+  @Column()
+  expiresAt: Date;
+
+  // Lease of the request that holds the claim, renewed while it runs; a
+  // later request with the same key may take over once it has passed
+  @Column({ default: () => 'CURRENT_TIMESTAMP' })
+  lockedUntil: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
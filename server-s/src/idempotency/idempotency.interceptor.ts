@@ -0,0 +1,83 @@
+// src/idempotency/idempotency.interceptor.ts
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Observable, of, from } from 'rxjs';
+import { catchError, finalize, mergeMap } from 'rxjs/operators';
+import type { Request, Response } from 'express';
+import { IdempotencyService, IdempotencyScope } from './idempotency.service';
+import { JwtUser } from '../auth/interfaces/jwt-user.interface';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+// Makes a route safe to retry: a repeated Idempotency-Key replays the original
+// response instead of running the handler again
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private idempotencyService: IdempotencyService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { user?: JwtUser }>();
+    const response = http.getResponse<Response>();
+
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+    if (!key) {
+      return next.handle();
+    }
+    if (key.length > 255) {
+      throw new BadRequestException(
+        'Idempotency-Key must be at most 255 characters',
+      );
+    }
+
+    // A key reused in another organization starts a new request there
+    const organizationId = request.user?.organizationId;
+    const scope: IdempotencyScope = {
+      key,
+      scope: `${request.method} ${(request.route as { path?: string } | undefined)?.path ?? request.path}${organizationId ? ` org:${organizationId}` : ''}`,
+      userId: request.user?.userId,
+    };
+    const requestHash = this.idempotencyService.hashRequest(request.body);
+
+    const existing = await this.idempotencyService.claim(scope, requestHash);
+    if (existing) {
+      if (existing.responseStatus === null) {
+        throw new ConflictException(
+          'A request with this Idempotency-Key is already being processed',
+        );
+      }
+      response.status(existing.responseStatus);
+      response.setHeader('Idempotent-Replayed', 'true');
+      return of(existing.responseBody);
+    }
+
+    const stopRenewing = this.idempotencyService.holdLease(scope);
+    return next.handle().pipe(
+      mergeMap(async (body: unknown) => {
+        await this.idempotencyService.complete(
+          scope,
+          response.statusCode,
+          body,
+        );
+        return body;
+      }),
+      catchError((error: unknown) =>
+        from(
+          this.idempotencyService.release(scope).then(() => {
+            throw error;
+          }),
+        ),
+      ),
+      finalize(stopRenewing),
+    );
+  }
+}
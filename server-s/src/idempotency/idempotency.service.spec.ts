@@ -0,0 +1,116 @@
+import { UnprocessableEntityException } from '@nestjs/common';
+import { IsNull } from 'typeorm';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyKey } from './entities/idempotency-key.entity';
+
+describe('IdempotencyService', () => {
+  const scope = { key: 'abc', scope: 'POST /payments org:1', userId: 1 };
+
+  const setup = (existing: Partial<IdempotencyKey> | null) => {
+    const idempotencyKeysRepository = {
+      findOne: jest.fn().mockResolvedValue(
+        existing && {
+          id: 7,
+          requestHash: 'hash',
+          expiresAt: new Date(Date.now() + 60_000),
+          ...existing,
+        },
+      ),
+      insert: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      delete: jest.fn().mockResolvedValue({}),
+    };
+    const service = new IdempotencyService(idempotencyKeysRepository as never);
+    return { service, idempotencyKeysRepository };
+  };
+
+  it('leases a new claim', async () => {
+    const { service, idempotencyKeysRepository } = setup(null);
+
+    await expect(service.claim(scope, 'hash')).resolves.toBeNull();
+
+    const [values] = idempotencyKeysRepository.insert.mock.calls[0] as [
+      IdempotencyKey,
+    ];
+    expect(values.responseStatus).toBeNull();
+    expect(values.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('reports a claim within its lease as in progress', async () => {
+    const pending = {
+      responseStatus: null,
+      lockedUntil: new Date(Date.now() + 30_000),
+    };
+    const { service, idempotencyKeysRepository } = setup(pending);
+
+    await expect(service.claim(scope, 'hash')).resolves.toEqual(
+      expect.objectContaining(pending),
+    );
+    expect(idempotencyKeysRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('lets a retry take over a claim whose request never finished', async () => {
+    const { service, idempotencyKeysRepository } = setup({
+      responseStatus: null,
+      lockedUntil: new Date(Date.now() - 1000),
+    });
+
+    await expect(service.claim(scope, 'hash')).resolves.toBeNull();
+    expect(idempotencyKeysRepository.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 7 }),
+      { lockedUntil: expect.any(Date) as Date },
+    );
+
+    // Another retry renewed the lease first
+    idempotencyKeysRepository.update.mockResolvedValueOnce({ affected: 0 });
+    await expect(service.claim(scope, 'hash')).resolves.toEqual(
+      expect.objectContaining({ id: 7, responseStatus: null }),
+    );
+  });
+
+  it('never takes over a stale claim with a different body', async () => {
+    const { service, idempotencyKeysRepository } = setup({
+      responseStatus: null,
+      lockedUntil: new Date(Date.now() - 1000),
+    });
+
+    await expect(service.claim(scope, 'other')).rejects.toThrow(
+      UnprocessableEntityException,
+    );
+    expect(idempotencyKeysRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('replays finished requests after their lease', async () => {
+    const { service, idempotencyKeysRepository } = setup({
+      responseStatus: 201,
+      responseBody: { id: 1 },
+      lockedUntil: new Date(Date.now() - 1000),
+    });
+
+    await expect(service.claim(scope, 'hash')).resolves.toEqual(
+      expect.objectContaining({ responseStatus: 201 }),
+    );
+    expect(idempotencyKeysRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('renews the lease of a claim until its request finished', () => {
+    jest.useFakeTimers();
+    try {
+      const { service, idempotencyKeysRepository } = setup(null);
+
+      const stopRenewing = service.holdLease(scope);
+      jest.advanceTimersByTime(60_000);
+      expect(idempotencyKeysRepository.update).toHaveBeenCalledTimes(3);
+      expect(idempotencyKeysRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'abc', responseStatus: IsNull() }),
+        { lockedUntil: expect.any(Date) as Date },
+      );
+
+      stopRenewing();
+      jest.advanceTimersByTime(60_000);
+      expect(idempotencyKeysRepository.update).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
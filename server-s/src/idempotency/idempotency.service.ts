@@ -0,0 +1,177 @@
+// src/idempotency/idempotency.service.ts
+import {
+  Injectable,
+  ConflictException,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { IdempotencyKey } from './entities/idempotency-key.entity';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export interface IdempotencyScope {
+  key: string;
+  scope: string;
+  userId?: number;
+}
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  // How long a key is remembered, configurable through IDEMPOTENCY_TTL_HOURS
+  private readonly ttlMs =
+    parseFloat(process.env.IDEMPOTENCY_TTL_HOURS ?? '24') * 60 * 60 * 1000;
+  // Lease of a pending claim, configurable through IDEMPOTENCY_LOCK_SECONDS.
+  // The request holding it renews it; a retry may take over once it ran out.
+  private readonly lockMs =
+    parseFloat(process.env.IDEMPOTENCY_LOCK_SECONDS ?? '60') * 1000;
+
+  constructor(
+    @InjectRepository(IdempotencyKey)
+    private idempotencyKeysRepository: Repository<IdempotencyKey>,
+  ) {}
+
+  hashRequest(body: unknown): string {
+    return createHash('sha256')
+      .update(this.stableStringify(body))
+      .digest('hex');
+  }
+
+  // Claims the key for a new request. Returns the stored record instead when
+  // the key was already used with the same body within the window, unless
+  // the request holding it died: see holdLease.
+  async claim(
+    scope: IdempotencyScope,
+    requestHash: string,
+  ): Promise<IdempotencyKey | null> {
+    const existing = await this.idempotencyKeysRepository.findOne({
+      where: this.whereScope(scope),
+    });
+
+    if (existing && existing.expiresAt > new Date()) {
+      if (existing.requestHash !== requestHash) {
+        throw new UnprocessableEntityException(
+          'Idempotency-Key has already been used with a different request body',
+        );
+      }
+      if (
+        existing.responseStatus === null &&
+        existing.lockedUntil <= new Date() &&
+        (await this.takeOver(existing))
+      ) {
+        return null;
+      }
+      return existing;
+    }
+
+    if (existing) {
+      await this.idempotencyKeysRepository.delete(existing.id);
+    }
+    await this.purgeExpired();
+
+    try {
+      await this.idempotencyKeysRepository.insert({
+        ...scope,
+        requestHash,
+        responseStatus: null,
+        expiresAt: new Date(Date.now() + this.ttlMs),
+        lockedUntil: new Date(Date.now() + this.lockMs),
+      });
+    } catch (error) {
+      // A concurrent request claimed the same key first
+      if ((error as { code?: string })?.code === UNIQUE_VIOLATION) {
+        throw new ConflictException(
+          'A request with this Idempotency-Key is already being processed',
+        );
+      }
+      throw error;
+    }
+
+    return null;
+  }
+
+  // Renews the claim's lease while its request runs, so the lease only runs
+  // out when the process handling the request died. Call the returned
+  // function once the request has finished either way.
+  holdLease(scope: IdempotencyScope): () => void {
+    const timer = setInterval(() => {
+      this.idempotencyKeysRepository
+        .update(
+          { ...this.whereScope(scope), responseStatus: IsNull() },
+          { lockedUntil: new Date(Date.now() + this.lockMs) },
+        )
+        .catch((error: Error) =>
+          this.logger.warn(
+            `Renewing the lease of Idempotency-Key ${scope.key} failed: ${error.message}`,
+          ),
+        );
+    }, this.lockMs / 3);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  async complete(
+    scope: IdempotencyScope,
+    responseStatus: number,
+    responseBody: unknown,
+  ): Promise<void> {
+    await this.idempotencyKeysRepository.update(this.whereScope(scope), {
+      responseStatus,
+      responseBody: responseBody as object,
+    });
+  }
+
+  // Failed requests free their key so the client can retry
+  async release(scope: IdempotencyScope): Promise<void> {
+    await this.idempotencyKeysRepository.delete(this.whereScope(scope));
+  }
+
+  async purgeExpired(): Promise<void> {
+    await this.idempotencyKeysRepository.delete({
+      expiresAt: LessThan(new Date()),
+    });
+  }
+
+  // Renews the lease of a stale pending claim. Only one of several
+  // concurrent retries gets the row; the others see it as in progress.
+  private async takeOver(existing: IdempotencyKey): Promise<boolean> {
+    const result = await this.idempotencyKeysRepository.update(
+      {
+        id: existing.id,
+        responseStatus: IsNull(),
+        lockedUntil: LessThanOrEqual(new Date()),
+      },
+      { lockedUntil: new Date(Date.now() + this.lockMs) },
+    );
+    return (result?.affected ?? 0) > 0;
+  }
+
+  private whereScope(scope: IdempotencyScope) {
+    return {
+      key: scope.key,
+      scope: scope.scope,
+      userId: scope.userId ?? IsNull(),
+    };
+  }
+
+  // JSON with sorted object keys, so key order does not change the hash
+  private stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .sort()
+        .map(
+          (key) =>
+            `${JSON.stringify(key)}:${this.stableStringify((value as Record<string, unknown>)[key])}`,
+        );
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
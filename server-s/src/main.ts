@@ -3,9 +3,11 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { AppModule } from './app.module';
 import { SeedService } from './database/seed.service';
+import { SearchIndexService } from './database/search-index.service';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody keeps the exact request bytes for webhook signature checks
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   
   // Enable CORS for React Native
   app.enableCors({
@@ -21,6 +23,9 @@ async function bootstrap() {
     transform: true,
   }));
 
+  // Create the search indexes synchronize can't manage
+  await app.get(SearchIndexService).ensurePaymentSearchIndexes();
+
   // Seed database
   const seedService = app.get(SeedService);
   await seedService.seedDatabase();
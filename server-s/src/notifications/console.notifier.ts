@@ -0,0 +1,16 @@
+// src/notifications/console.notifier.ts
+import { Logger } from '@nestjs/common';
+import { Notification, Notifier } from './notifier.interface';
+
+// Logs every message; the default for local development
+export class ConsoleNotifier implements Notifier {
+  readonly name = 'console';
+  private readonly logger = new Logger(ConsoleNotifier.name);
+
+  send(notification: Notification): Promise<void> {
+    this.logger.log(
+      `To ${notification.username}: ${notification.subject}\n${notification.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,40 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileNotifier } from './file.notifier';
+
+describe('FileNotifier', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'notifier-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per message, creating the directory', async () => {
+    const path = join(dir, 'nested', 'notifications.log');
+    const notifier = new FileNotifier(path);
+
+    await notifier.send({
+      userId: 1,
+      username: 'a',
+      subject: 'One',
+      text: '1',
+    });
+    await notifier.send({
+      userId: 2,
+      username: 'b',
+      subject: 'Two',
+      text: '2',
+    });
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line) as object)).toEqual([
+      expect.objectContaining({ username: 'a', subject: 'One' }),
+      expect.objectContaining({ username: 'b', subject: 'Two' }),
+    ]);
+  });
+});
@@ -0,0 +1,19 @@
+// src/notifications/file.notifier.ts
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { Notification, Notifier } from './notifier.interface';
+
+// Appends each message as a JSON line, so tests and scripts can read them
+export class FileNotifier implements Notifier {
+  readonly name = 'file';
+
+  constructor(private readonly path: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(
+      this.path,
+      `${JSON.stringify({ ...notification, sentAt: new Date().toISOString() })}\n`,
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { NOTIFIER, Notifier } from './notifier.interface';
+import { ConsoleNotifier } from './console.notifier';
+import { FileNotifier } from './file.notifier';
+
+// Inside the git-ignored .tmp directory
+const DEFAULT_FILE_PATH = '.tmp/notifications.log';
+
+@Module({
+  providers: [
+    // NOTIFIER picks the sink; add real channels here
+    {
+      provide: NOTIFIER,
+      useFactory: (): Notifier =>
+        process.env.NOTIFIER === 'file'
+          ? new FileNotifier(
+              process.env.NOTIFIER_FILE_PATH || DEFAULT_FILE_PATH,
+            )
+          : new ConsoleNotifier(),
+    },
+  ],
+  exports: [NOTIFIER],
+})
+export class NotificationsModule {}
@@ -0,0 +1,20 @@
+// src/notifications/notifier.interface.ts
+
+// Injection token for the Notifier picked by NOTIFIER
+export const NOTIFIER = 'NOTIFIER';
+
+// A message for one user
+export interface Notification {
+  userId: number;
+  username: string;
+  subject: string;
+  text: string;
+}
+
+// Delivers messages to users. Dev setups write them to the console or a
+// file; a real deployment plugs in email or chat here.
+export interface Notifier {
+  readonly name: string;
+
+  send(notification: Notification): Promise<void>;
+}
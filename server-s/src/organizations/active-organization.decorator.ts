@@ -0,0 +1,22 @@
+// src/organizations/active-organization.decorator.ts
+import {
+  createParamDecorator,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { JwtUser } from '../auth/interfaces/jwt-user.interface';
+
+// The organization the request acts in: the `org` claim of the access
+// token, or the organization of the API key. Routes that take it refuse
+// requests without one rather than run unscoped.
+export const ActiveOrganization = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): number => {
+    const { user } = context.switchToHttp().getRequest<{ user?: JwtUser }>();
+    if (!user?.organizationId) {
+      throw new ForbiddenException(
+        'No active organization; ask an admin to add you to one',
+      );
+    }
+    return user.organizationId;
+  },
+);
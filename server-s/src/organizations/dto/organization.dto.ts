@@ -0,0 +1,14 @@
+// src/organizations/dto/organization.dto.ts
+import { IsInt, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateOrganizationDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
+
+export class AddOrganizationMemberDto {
+  @IsInt()
+  userId: number;
+}
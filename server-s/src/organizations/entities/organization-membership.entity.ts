@@ -0,0 +1,38 @@
+// src/organizations/entities/organization-membership.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from '../../users/entities/user.entity';
+
+// A user belonging to an organization
+@Entity('organization_memberships')
+@Index(['userId', 'organizationId'], { unique: true })
+export class OrganizationMembership {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Index()
+  @Column()
+  organizationId: number;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,21 @@
+// src/organizations/entities/organization.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+// A business unit. Payments belong to exactly one; users to any number,
+// and act in one of theirs at a time (the `org` claim of their token).
+@Entity('organizations')
+export class Organization {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  name: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,82 @@
+// src/organizations/organizations.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Request,
+  HttpCode,
+  ParseIntPipe,
+  ValidationPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from 'src/auth/jwt-auth-guard';
+import { RolesGuard } from 'src/auth/roles-guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { UserRole } from 'src/users/enums/user-role.enum';
+import type { JwtUser } from 'src/auth/interfaces/jwt-user.interface';
+import { OrganizationsService } from './organizations.service';
+import {
+  AddOrganizationMemberDto,
+  CreateOrganizationDto,
+} from './dto/organization.dto';
+
+// Switching the active organization is POST /auth/switch-organization
+@Controller('organizations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  // The caller's organizations and the one their token acts in
+  @Get('mine')
+  async findMine(@Request() req: { user: JwtUser }) {
+    return {
+      activeOrganizationId: req.user.organizationId ?? null,
+      organizations: await this.organizationsService.findForUser(
+        req.user.userId,
+      ),
+    };
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN)
+  findAll() {
+    return this.organizationsService.findAll();
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  create(
+    @Body(ValidationPipe) createDto: CreateOrganizationDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.organizationsService.create(createDto, req.user.userId);
+  }
+
+  @Post(':id/members')
+  @Roles(UserRole.ADMIN)
+  addMember(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(ValidationPipe) addMemberDto: AddOrganizationMemberDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.organizationsService.addMember(
+      id,
+      addMemberDto.userId,
+      req.user.userId,
+    );
+  }
+
+  @Delete(':id/members/:userId')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(204)
+  removeMember(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.organizationsService.removeMember(id, userId, req.user.userId);
+  }
+}
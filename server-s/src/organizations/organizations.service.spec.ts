@@ -0,0 +1,150 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { OrganizationsService } from './organizations.service';
+import { Organization } from './entities/organization.entity';
+import { OrganizationMembership } from './entities/organization-membership.entity';
+
+describe('OrganizationsService', () => {
+  const setup = () => {
+    const organizations: Organization[] = [
+      { id: 1, name: 'Retail', createdAt: new Date() },
+      { id: 2, name: 'Wholesale', createdAt: new Date() },
+    ];
+    const memberships: Partial<OrganizationMembership>[] = [];
+    const matches = (row: object, where: object) =>
+      Object.entries(where).every(
+        ([key, value]) => row[key as keyof typeof row] === value,
+      );
+
+    const organizationsRepository = {
+      create: jest.fn((values: object) => values),
+      save: jest.fn((values: Organization) => {
+        organizations.push({ ...values, id: organizations.length + 1 });
+        return Promise.resolve(organizations[organizations.length - 1]);
+      }),
+      exists: jest.fn(({ where }: { where: object }) =>
+        Promise.resolve(organizations.some((row) => matches(row, where))),
+      ),
+      findOne: jest.fn(({ where }: { where: object }) =>
+        Promise.resolve(
+          organizations.find((row) => matches(row, where)) ?? null,
+        ),
+      ),
+      find: jest.fn(({ where }: { where: object[] }) =>
+        Promise.resolve(
+          organizations.filter((row) =>
+            where.some((condition) => matches(row, condition)),
+          ),
+        ),
+      ),
+    };
+    const membershipsRepository = {
+      create: jest.fn((values: object) => values),
+      insert: jest.fn((values: Partial<OrganizationMembership>) => {
+        memberships.push(values);
+        return Promise.resolve({});
+      }),
+      save: jest.fn((values: Partial<OrganizationMembership>) => {
+        memberships.push(values);
+        return Promise.resolve(values);
+      }),
+      exists: jest.fn(({ where }: { where: object }) =>
+        Promise.resolve(memberships.some((row) => matches(row, where))),
+      ),
+      // Rows are kept in join order
+      find: jest.fn(({ where }: { where: object }) =>
+        Promise.resolve(memberships.filter((row) => matches(row, where))),
+      ),
+      findOne: jest.fn(({ where }: { where: object }) =>
+        Promise.resolve(memberships.find((row) => matches(row, where)) ?? null),
+      ),
+    };
+    const usersRepository = {
+      exists: jest.fn().mockResolvedValue(true),
+      find: jest.fn().mockResolvedValue([{ id: 5 }, { id: 6 }]),
+    };
+    const service = new OrganizationsService(
+      organizationsRepository as never,
+      membershipsRepository as never,
+      usersRepository as never,
+    );
+
+    return { service, organizations, memberships, membershipsRepository };
+  };
+
+  it('lists a user organizations in the order they joined them', async () => {
+    const { service, memberships } = setup();
+    memberships.push(
+      { userId: 5, organizationId: 2 },
+      { userId: 6, organizationId: 1 },
+      { userId: 5, organizationId: 1 },
+    );
+
+    const organizations = await service.findForUser(5);
+
+    expect(organizations.map(({ name }) => name)).toEqual([
+      'Wholesale',
+      'Retail',
+    ]);
+    await expect(service.findForUser(9)).resolves.toEqual([]);
+  });
+
+  it('keeps the requested organization only while the user belongs to it', async () => {
+    const { service, memberships } = setup();
+    memberships.push(
+      { userId: 5, organizationId: 2 },
+      { userId: 5, organizationId: 1 },
+    );
+
+    await expect(service.resolveActiveOrganization(5, 1)).resolves.toBe(1);
+    await expect(service.resolveActiveOrganization(5, 3)).resolves.toBe(2);
+    await expect(service.resolveActiveOrganization(5)).resolves.toBe(2);
+    await expect(service.resolveActiveOrganization(9, 1)).resolves.toBeNull();
+  });
+
+  it('adds a member once', async () => {
+    const { service, memberships } = setup();
+    memberships.push({ userId: 1, organizationId: 1 });
+
+    await service.addMember(1, 5, 1);
+
+    await expect(service.addMember(1, 5, 1)).rejects.toThrow(ConflictException);
+    await expect(service.isMember(5, 1)).resolves.toBe(true);
+    await expect(service.isMember(5, 2)).resolves.toBe(false);
+  });
+
+  it('only lets members manage the members of an organization', async () => {
+    const { service, memberships, membershipsRepository } = setup();
+    memberships.push({ userId: 1, organizationId: 1 });
+
+    await expect(service.addMember(2, 1, 1)).rejects.toThrow(
+      new ForbiddenException('You do not belong to organization 2'),
+    );
+    await expect(service.addMember(2, 5, 1)).rejects.toThrow(
+      ForbiddenException,
+    );
+    await expect(service.removeMember(2, 5, 1)).rejects.toThrow(
+      ForbiddenException,
+    );
+    await expect(service.isMember(1, 2)).resolves.toBe(false);
+    expect(membershipsRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('puts users without an organization into the default one', async () => {
+    const { service, memberships } = setup();
+    memberships.push({ userId: 6, organizationId: 1 });
+
+    const organization = await service.ensureDefaultOrganization();
+
+    expect(organization).toEqual(
+      expect.objectContaining({ id: 3, name: 'Default' }),
+    );
+    expect(memberships).toEqual([
+      { userId: 6, organizationId: 1 },
+      { userId: 5, organizationId: 3 },
+    ]);
+    await expect(service.ensureDefaultOrganization()).resolves.toEqual(
+      organization,
+    );
+    expect(memberships).toHaveLength(2);
+  });
+});
@@ -0,0 +1,179 @@
+// src/organizations/organizations.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Organization } from './entities/organization.entity';
+import { OrganizationMembership } from './entities/organization-membership.entity';
+import { CreateOrganizationDto } from './dto/organization.dto';
+import { User } from '../users/entities/user.entity';
+
+// Created on startup for data that predates organizations
+export const DEFAULT_ORGANIZATION_NAME = 'Default';
+
+@Injectable()
+export class OrganizationsService {
+  constructor(
+    @InjectRepository(Organization)
+    private organizationsRepository: Repository<Organization>,
+    @InjectRepository(OrganizationMembership)
+    private membershipsRepository: Repository<OrganizationMembership>,
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+  ) {}
+
+  async findAll(): Promise<Organization[]> {
+    return this.organizationsRepository.find({ order: { name: 'ASC' } });
+  }
+
+  async findOne(id: number): Promise<Organization> {
+    const organization = await this.organizationsRepository.findOne({
+      where: { id },
+    });
+    if (!organization) {
+      throw new NotFoundException(`Organization with ID ${id} not found`);
+    }
+    return organization;
+  }
+
+  // The creator joins the new organization so they can switch to it
+  async create(
+    createDto: CreateOrganizationDto,
+    creatorId?: number,
+  ): Promise<Organization> {
+    const name = createDto.name.trim();
+    if (await this.organizationsRepository.exists({ where: { name } })) {
+      throw new ConflictException(`Organization ${name} already exists`);
+    }
+
+    const organization = await this.organizationsRepository.save(
+      this.organizationsRepository.create({ name }),
+    );
+    if (creatorId) {
+      await this.membershipsRepository.insert({
+        userId: creatorId,
+        organizationId: organization.id,
+      });
+    }
+    return organization;
+  }
+
+  // Organizations the user belongs to, in the order they joined them
+  async findForUser(userId: number): Promise<Organization[]> {
+    const memberships = await this.membershipsRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+    if (memberships.length === 0) {
+      return [];
+    }
+
+    const organizations = await this.organizationsRepository.find({
+      where: memberships.map(({ organizationId }) => ({ id: organizationId })),
+    });
+    return memberships
+      .map(({ organizationId }) =>
+        organizations.find(({ id }) => id === organizationId),
+      )
+      .filter((organization) => !!organization);
+  }
+
+  async isMember(userId: number, organizationId: number): Promise<boolean> {
+    return this.membershipsRepository.exists({
+      where: { userId, organizationId },
+    });
+  }
+
+  // The organization a session acts in: the requested one while the user
+  // still belongs to it, otherwise the first one they joined. Null for users
+  // without any, who cannot see payments.
+  async resolveActiveOrganization(
+    userId: number,
+    requested?: number | null,
+  ): Promise<number | null> {
+    if (requested && (await this.isMember(userId, requested))) {
+      return requested;
+    }
+    const first = await this.membershipsRepository.findOne({
+      where: { userId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+    return first?.organizationId ?? null;
+  }
+
+  // Only members manage an organization's members, so an admin cannot let
+  // themselves or anyone else into an organization they are not part of
+  async addMember(
+    organizationId: number,
+    userId: number,
+    actorId: number,
+  ): Promise<OrganizationMembership> {
+    await this.findOne(organizationId);
+    await this.assertMember(actorId, organizationId);
+    if (!(await this.usersRepository.exists({ where: { id: userId } }))) {
+      throw new BadRequestException(`User with ID ${userId} not found`);
+    }
+    if (await this.isMember(userId, organizationId)) {
+      throw new ConflictException(
+        `User ${userId} already belongs to organization ${organizationId}`,
+      );
+    }
+
+    return this.membershipsRepository.save(
+      this.membershipsRepository.create({ userId, organizationId }),
+    );
+  }
+
+  // Tokens the user holds for this organization stop working; see JwtStrategy
+  async removeMember(
+    organizationId: number,
+    userId: number,
+    actorId: number,
+  ): Promise<void> {
+    await this.assertMember(actorId, organizationId);
+    await this.membershipsRepository.delete({ userId, organizationId });
+  }
+
+  private async assertMember(
+    userId: number,
+    organizationId: number,
+  ): Promise<void> {
+    if (!(await this.isMember(userId, organizationId))) {
+      throw new ForbiddenException(
+        `You do not belong to organization ${organizationId}`,
+      );
+    }
+  }
+
+  // Makes sure the default organization exists and that every user belongs
+  // to at least one organization. Returns the default organization.
+  async ensureDefaultOrganization(): Promise<Organization> {
+    const organization =
+      (await this.organizationsRepository.findOne({
+        where: { name: DEFAULT_ORGANIZATION_NAME },
+      })) ??
+      (await this.organizationsRepository.save(
+        this.organizationsRepository.create({
+          name: DEFAULT_ORGANIZATION_NAME,
+        }),
+      ));
+
+    const users = await this.usersRepository.find({ select: { id: true } });
+    for (const { id } of users) {
+      if (
+        !(await this.membershipsRepository.exists({ where: { userId: id } }))
+      ) {
+        await this.membershipsRepository.insert({
+          userId: id,
+          organizationId: organization.id,
+        });
+      }
+    }
+    return organization;
+  }
+}
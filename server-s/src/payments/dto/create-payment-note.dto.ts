@@ -0,0 +1,9 @@
+// src/payments/dto/create-payment-note.dto.ts
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class CreatePaymentNoteDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note: string;
+}
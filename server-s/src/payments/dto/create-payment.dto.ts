@@ -1,7 +1,8 @@
 // src/payments/dto/create-payment.dto.ts
 import { IsNumber, IsString, IsEnum, IsOptional, Min } from 'class-validator';
-import { PaymentStatus, PaymentMethod } from '../entities/payment.entity';
+import { PaymentMethod } from '../entities/payment.entity';
 
+// New payments always start pending; the payment provider decides the outcome
 export class CreatePaymentDto {
   @IsNumber()
   @Min(0.01)
@@ -10,9 +11,6 @@ export class CreatePaymentDto {
   @IsString()
   receiver: string;
 
-  @IsEnum(PaymentStatus)
-  status: PaymentStatus;
-
   @IsEnum(PaymentMethod)
   method: PaymentMethod;
 
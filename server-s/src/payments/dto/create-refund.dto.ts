@@ -0,0 +1,14 @@
+// src/payments/dto/create-refund.dto.ts
+import { IsNumber, IsString, IsOptional, Min } from 'class-validator';
+
+export class CreateRefundDto {
+  // Omit to refund whatever is still refundable
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
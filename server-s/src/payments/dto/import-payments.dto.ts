@@ -0,0 +1,36 @@
+// src/payments/dto/import-payments.dto.ts
+import {
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { CreatePaymentDto } from './create-payment.dto';
+import { PaymentStatus } from '../entities/payment.entity';
+import { INITIAL_PAYMENT_STATUSES } from '../payment-status-transitions';
+import { toBoolean } from './query-transforms';
+
+export class ImportPaymentsQueryDto {
+  // Validate only, without inserting anything
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+// One CSV row. Historical payments keep their own status, and may keep their
+// own reference and date; they are recorded, not sent to a provider.
+export class ImportPaymentRowDto extends CreatePaymentDto {
+  @IsIn(INITIAL_PAYMENT_STATUSES)
+  status: PaymentStatus;
+
+  @IsOptional()
+  @IsString()
+  transactionId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  createdAt?: string;
+}
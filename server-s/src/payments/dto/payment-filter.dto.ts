@@ -1,5 +1,27 @@
-import { IsOptional, IsString, IsEnum, IsDateString } from 'class-validator';
-import { Transform } from 'class-transformer';
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsDateString,
+  IsNumber,
+  IsInt,
+  IsIn,
+  IsBoolean,
+  IsNotEmpty,
+  ArrayNotEmpty,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { PaymentStatus } from '../entities/payment.entity';
+import { PAYMENT_SORT_FIELDS, SORT_ORDERS } from '../payment-pagination';
+import type { PaymentSortField, SortOrder } from '../payment-pagination';
+import { EXPORT_COLUMN_KEYS } from '../export/export-columns';
+import type { ExportColumn } from '../export/export-columns';
+import { EXPORT_FORMAT_KEYS } from '../export/export-formats';
+import type { ExportFormat } from '../export/export-formats';
+import { toBoolean } from './query-transforms';
 
 export class PaymentFilterDto {
   @IsOptional()
@@ -7,8 +29,8 @@ export class PaymentFilterDto {
   receiver?: string;
 
   @IsOptional()
-  @IsEnum(['success', 'pending', 'failed'])
-  status?: 'success' | 'pending' | 'failed';
+  @IsEnum(PaymentStatus)
+  status?: PaymentStatus;
 
   @IsOptional()
   @IsString()
@@ -24,9 +46,95 @@ export class PaymentFilterDto {
 
   @IsOptional()
   @Transform(({ value }) => parseFloat(value))
+  @IsNumber()
+  @Min(0)
   minAmount?: number;
 
   @IsOptional()
   @Transform(({ value }) => parseFloat(value))
+  @IsNumber()
+  @Min(0)
   maxAmount?: number;
+}
+
+export class SuccessRateTrendQueryDto extends PaymentFilterDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days?: number;
+}
+
+export class PaymentListQueryDto extends PaymentFilterDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @IsIn(PAYMENT_SORT_FIELDS)
+  sortBy?: PaymentSortField;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsIn(SORT_ORDERS)
+  sortOrder?: SortOrder;
+
+  // Opaque token from a previous response's nextCursor/prevCursor
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class PaymentSearchQueryDto extends PaymentFilterDto {
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  q: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class PaymentExportQueryDto extends PaymentFilterDto {
+  @IsOptional()
+  @IsIn(EXPORT_FORMAT_KEYS)
+  format?: ExportFormat;
+
+  // Comma-separated, e.g. columns=id,amount,receiver
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((column) => column.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @ArrayNotEmpty()
+  @IsIn(EXPORT_COLUMN_KEYS, { each: true })
+  columns?: ExportColumn[];
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  gzip?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,10 @@
+// src/payments/dto/query-transforms.ts
+
+// Query strings carry booleans as text; leaves anything else for the
+// validator to reject
+export const toBoolean = ({ value }: { value: unknown }) =>
+  value === 'true' || value === '1'
+    ? true
+    : value === 'false' || value === '0'
+      ? false
+      : value;
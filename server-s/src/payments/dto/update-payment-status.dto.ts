@@ -1,6 +1,14 @@
-import { IsEnum } from 'class-validator';
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { PaymentStatus } from '../entities/payment.entity';
+import { MANUAL_PAYMENT_STATUSES } from '../payment-status-transitions';
 
 export class UpdatePaymentStatusDto {
-  @IsEnum(['success', 'pending', 'failed'])
-  status: 'success' | 'pending' | 'failed';
+  @IsIn(MANUAL_PAYMENT_STATUSES)
+  status: PaymentStatus;
+
+  // Recorded in the payment history
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
 }
\ No newline at end of file
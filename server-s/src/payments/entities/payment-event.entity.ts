@@ -0,0 +1,53 @@
+// src/payments/entities/payment-event.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Payment } from './payment.entity';
+import { PaymentEventType } from '../enums/payment-event-type.enum';
+
+// Append-only history of everything that happened to a payment
+@Entity('payment_events')
+@Index(['paymentId', 'createdAt'])
+export class PaymentEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  paymentId: number;
+
+  @ManyToOne(() => Payment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'paymentId' })
+  payment: Payment;
+
+  @Column({
+    type: 'enum',
+    enum: PaymentEventType,
+  })
+  type: PaymentEventType;
+
+  // Null for changes not made by a logged in user (e.g. seeding)
+  @Column({ nullable: true })
+  actorId?: number;
+
+  @Column({ nullable: true })
+  actorUsername?: string;
+
+  @Column({ nullable: true })
+  oldValue?: string;
+
+  @Column({ nullable: true })
+  newValue?: string;
+
+  // Why a change was made, or the text of a note
+  @Column({ type: 'text', nullable: true })
+  reason?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,66 @@
+// src/payments/entities/payment-import-job.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+import { ImportJobStatus } from '../enums/import-job-status.enum';
+
+// A row of the uploaded file that failed validation, kept so it can be fixed
+// and uploaded again
+export interface RejectedImportRow {
+  line: number;
+  values: string[];
+  errors: string[];
+}
+
+// One CSV upload to POST /payments/import, dry run or not
+@Entity('payment_import_jobs')
+export class PaymentImportJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Organization the payments were imported into
+  @Column({ type: 'int', nullable: true })
+  organizationId: number | null;
+
+  @Column()
+  filename: string;
+
+  @Column({
+    type: 'enum',
+    enum: ImportJobStatus,
+  })
+  status: ImportJobStatus;
+
+  @Column({ default: 0 })
+  totalRows: number;
+
+  // Rows that passed validation (and, unless a dry run, were inserted)
+  @Column({ default: 0 })
+  acceptedCount: number;
+
+  @Column({ default: 0 })
+  rejectedCount: number;
+
+  // Header row of the upload, used to rebuild the rejected-rows file
+  @Column({ type: 'jsonb', default: [] })
+  headers: string[];
+
+  @Column({ type: 'jsonb', default: [] })
+  rejectedRows: RejectedImportRow[];
+
+  // Why the insert failed, when status is failed
+  @Column({ type: 'text', nullable: true })
+  failureReason?: string | null;
+
+  @Column({ nullable: true })
+  createdById?: number;
+
+  @Column({ nullable: true })
+  createdByUsername?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
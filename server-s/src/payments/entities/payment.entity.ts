@@ -1,10 +1,14 @@
 // src/payments/entities/payment.entity.ts - Make sure these enums exist
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, OneToMany, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Refund } from './refund.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
 
 export enum PaymentStatus {
   SUCCESS = 'success',
   FAILED = 'failed',
   PENDING = 'pending',
+  REFUNDED = 'refunded',
+  PARTIALLY_REFUNDED = 'partially_refunded',
 }
 
 export enum PaymentMethod {
@@ -16,10 +20,31 @@ export enum PaymentMethod {
 }
 
 @Entity('payments')
+// One index per sortable column, with id as the tie-breaker used by cursors
+@Index(['createdAt', 'id'])
+@Index(['amount', 'id'])
+@Index(['receiver', 'id'])
+@Index(['status', 'id'])
+// Every PaymentsService query starts from the organization
+@Index(['organizationId', 'createdAt', 'id'])
+// Search indexes are created by SearchIndexService; synchronize must not drop them
+@Index('IDX_payments_search_document', { synchronize: false })
+@Index('IDX_payments_receiver_trgm', { synchronize: false })
+@Index('IDX_payments_description_trgm', { synchronize: false })
+@Index('IDX_payments_transactionId_trgm', { synchronize: false })
 export class Payment {
   @PrimaryGeneratedColumn()
   id: number;
 
+  // Business unit the payment belongs to. Null only for rows written before
+  // organizations existed, until SeedService moves them to the default one.
+  @Column({ type: 'int', nullable: true })
+  organizationId: number | null;
+
+  @ManyToOne(() => Organization)
+  @JoinColumn({ name: 'organizationId' })
+  organization?: Organization;
+
   @Column('decimal', { precision: 10, scale: 2 })
   amount: number;
 
@@ -45,6 +70,25 @@ export class Payment {
   @Column({ unique: true })
   transactionId: string;
 
+  // Gateway that processed the payment and its id there. Null for payments
+  // recorded without one (seeded or imported).
+  @Column({ nullable: true })
+  provider?: string;
+
+  @Column({ nullable: true })
+  providerReference?: string;
+
+  // Why the gateway declined the payment
+  @Column({ type: 'text', nullable: true })
+  failureReason?: string | null;
+
+  // Running total of refunds issued against this payment
+  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  refundedAmount: number;
+
+  @OneToMany(() => Refund, (refund) => refund.payment)
+  refunds: Refund[];
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,52 @@
+// src/payments/entities/refund.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Payment } from './payment.entity';
+import { RefundStatus } from '../enums/refund-status.enum';
+
+@Entity('refunds')
+export class Refund {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  paymentId: number;
+
+  @ManyToOne(() => Payment, (payment) => payment.refunds, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'paymentId' })
+  payment: Payment;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  amount: number;
+
+  @Column({ nullable: true })
+  reason?: string;
+
+  // Pending refunds already count towards the payment's refundedAmount, so
+  // the balance cannot be refunded twice while the gateway answers
+  @Column({
+    type: 'enum',
+    enum: RefundStatus,
+    default: RefundStatus.SUCCEEDED,
+  })
+  status: RefundStatus;
+
+  // Why the gateway declined the refund
+  @Column({ nullable: true })
+  failureReason?: string;
+
+  // The gateway's id for the refund, when the payment went through one
+  @Column({ nullable: true })
+  providerReference?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,6 @@
+// src/payments/enums/import-job-status.enum.ts
+export enum ImportJobStatus {
+  DRY_RUN = 'dry_run',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
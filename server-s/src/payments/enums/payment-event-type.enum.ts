@@ -0,0 +1,7 @@
+// src/payments/enums/payment-event-type.enum.ts
+export enum PaymentEventType {
+  CREATED = 'created',
+  STATUS_CHANGED = 'status_changed',
+  REFUNDED = 'refunded',
+  NOTE = 'note',
+}
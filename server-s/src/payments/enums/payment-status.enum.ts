@@ -3,4 +3,6 @@ export enum PaymentStatus {
   SUCCESS = 'success',
   FAILED = 'failed',
   PENDING = 'pending',
+  REFUNDED = 'refunded',
+  PARTIALLY_REFUNDED = 'partially_refunded',
 }
\ No newline at end of file
@@ -0,0 +1,7 @@
+// src/payments/enums/refund-status.enum.ts
+export enum RefundStatus {
+  // Reserved against the payment while the gateway is asked
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
@@ -0,0 +1,19 @@
+import { escapeCsvField, toCsvLine } from './csv';
+
+describe('csv', () => {
+  it('leaves plain values unquoted', () => {
+    expect(toCsvLine([1, 'John Doe', 2500.5])).toBe('1,John Doe,2500.5\r\n');
+  });
+
+  it('quotes values containing commas, quotes or line breaks', () => {
+    expect(escapeCsvField('Doe, John')).toBe('"Doe, John"');
+    expect(escapeCsvField('The "best" shop')).toBe('"The ""best"" shop"');
+    expect(escapeCsvField('line one\nline two')).toBe('"line one\nline two"');
+  });
+
+  it('writes empty fields for missing values and ISO timestamps for dates', () => {
+    expect(
+      toCsvLine([null, undefined, new Date('2024-01-15T10:30:00.000Z')]),
+    ).toBe(',,2024-01-15T10:30:00.000Z\r\n');
+  });
+});
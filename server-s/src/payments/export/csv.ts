@@ -0,0 +1,19 @@
+// src/payments/export/csv.ts
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Quotes a field when RFC 4180 requires it (commas, quotes or line breaks),
+// doubling any embedded quotes
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One CSV record, terminated with CRLF as RFC 4180 specifies
+export function toCsvLine(values: CsvValue[]): string {
+  return `${values.map(escapeCsvField).join(',')}\r\n`;
+}
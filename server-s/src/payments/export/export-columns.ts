@@ -0,0 +1,67 @@
+// src/payments/export/export-columns.ts
+import { CsvValue } from './csv';
+
+// How a column's value is typed in formats that keep types (JSON, XLSX)
+export type ExportColumnType = 'integer' | 'money' | 'date' | 'text';
+
+// Payment columns that can be exported, in their default order, with the
+// header each one gets in the file
+export const EXPORT_COLUMNS = {
+  id: { header: 'ID', type: 'integer' },
+  transactionId: { header: 'Transaction ID', type: 'text' },
+  amount: { header: 'Amount', type: 'money' },
+  refundedAmount: { header: 'Refunded Amount', type: 'money' },
+  status: { header: 'Status', type: 'text' },
+  method: { header: 'Method', type: 'text' },
+  receiver: { header: 'Receiver', type: 'text' },
+  description: { header: 'Description', type: 'text' },
+  createdAt: { header: 'Created At', type: 'date' },
+  updatedAt: { header: 'Updated At', type: 'date' },
+} as const satisfies Record<string, { header: string; type: ExportColumnType }>;
+
+export type ExportColumn = keyof typeof EXPORT_COLUMNS;
+
+export type ExportRow = Record<ExportColumn, CsvValue>;
+
+export const EXPORT_COLUMN_KEYS = Object.keys(EXPORT_COLUMNS) as ExportColumn[];
+
+// Used when the request doesn't pick columns; matches the original export
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  'id',
+  'transactionId',
+  'amount',
+  'status',
+  'method',
+  'receiver',
+  'createdAt',
+  'updatedAt',
+];
+
+// Postgres returns decimals as strings; typed formats want numbers
+export function toTypedValue(
+  value: CsvValue,
+  type: ExportColumnType,
+): string | number | boolean | Date | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (type === 'integer' || type === 'money') {
+    return Number(value);
+  }
+  if (type === 'date') {
+    return value instanceof Date ? value : new Date(String(value));
+  }
+  return value;
+}
+
+// Picks the requested columns from a raw row, typed
+export function toTypedRecord(
+  row: ExportRow,
+  columns: ExportColumn[],
+): Record<string, string | number | boolean | Date | null> {
+  const record: Record<string, string | number | boolean | Date | null> = {};
+  for (const column of columns) {
+    record[column] = toTypedValue(row[column], EXPORT_COLUMNS[column].type);
+  }
+  return record;
+}
@@ -0,0 +1,101 @@
+import { Readable } from 'stream';
+import { ExportColumn, ExportRow } from './export-columns';
+import { csvChunks, jsonChunks, ndjsonChunks } from './export-formats';
+
+describe('export formats', () => {
+  const columns: ExportColumn[] = ['id', 'amount', 'receiver', 'createdAt'];
+  const rows = [
+    {
+      id: 1,
+      amount: '1500.00',
+      receiver: 'Doe, John',
+      createdAt: new Date('2024-01-15T10:30:00.000Z'),
+    },
+    {
+      id: 2,
+      amount: '20.50',
+      receiver: 'Jane',
+      createdAt: new Date('2024-01-16T08:00:00.000Z'),
+    },
+  ] as ExportRow[];
+
+  // Two batches, as the database cursor would deliver them
+  async function* batches() {
+    yield await Promise.resolve(rows.slice(0, 1));
+    yield rows.slice(1);
+  }
+
+  const read = async (chunks: AsyncIterable<string>) => {
+    let text = '';
+    for await (const chunk of Readable.from(chunks)) {
+      text += chunk as string;
+    }
+    return text;
+  };
+
+  it('writes CSV with a header row and quoted values', async () => {
+    expect(await read(csvChunks(batches(), columns))).toBe(
+      'ID,Amount,Receiver,Created At\r\n' +
+        '1,1500.00,"Doe, John",2024-01-15T10:30:00.000Z\r\n' +
+        '2,20.50,Jane,2024-01-16T08:00:00.000Z\r\n',
+    );
+  });
+
+  it('writes one typed JSON object per NDJSON line', async () => {
+    const lines = (await read(ndjsonChunks(batches(), columns)))
+      .trim()
+      .split('\n');
+
+    expect(lines.map((line) => JSON.parse(line) as unknown)).toEqual([
+      {
+        id: 1,
+        amount: 1500,
+        receiver: 'Doe, John',
+        createdAt: '2024-01-15T10:30:00.000Z',
+      },
+      {
+        id: 2,
+        amount: 20.5,
+        receiver: 'Jane',
+        createdAt: '2024-01-16T08:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('writes a single JSON array', async () => {
+    const parsed = JSON.parse(
+      await read(jsonChunks(batches(), columns)),
+    ) as unknown[];
+
+    expect(parsed).toHaveLength(2);
+    expect(parsed[1]).toEqual(expect.objectContaining({ amount: 20.5 }));
+  });
+
+  it('closes the batches when the output is destroyed', async () => {
+    let closed = false;
+    async function* endless(): AsyncGenerator<ExportRow[]> {
+      try {
+        while (true) {
+          yield await Promise.resolve(rows);
+        }
+      } finally {
+        closed = true;
+      }
+    }
+
+    const output = Readable.from(csvChunks(endless(), columns));
+    const reader = output[Symbol.asyncIterator]();
+    await reader.next();
+    await reader.next();
+    output.destroy();
+    await new Promise((resolve) => output.once('close', resolve));
+
+    expect(closed).toBe(true);
+  });
+
+  it('writes an empty JSON array when nothing matches', async () => {
+    async function* empty(): AsyncGenerator<ExportRow[]> {}
+
+    expect(await read(jsonChunks(empty(), columns))).toBe('[]');
+  });
+});
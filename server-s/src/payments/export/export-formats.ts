@@ -0,0 +1,66 @@
+// src/payments/export/export-formats.ts
+import { toCsvLine } from './csv';
+import {
+  EXPORT_COLUMNS,
+  ExportColumn,
+  ExportRow,
+  toTypedRecord,
+} from './export-columns';
+
+export const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: {
+    contentType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export const EXPORT_FORMAT_KEYS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+// The text formats are serialized chunk by chunk as batches arrive; XLSX has
+// its own writer in xlsx.ts
+
+export async function* csvChunks(
+  batches: AsyncIterable<ExportRow[]>,
+  columns: ExportColumn[],
+) {
+  yield toCsvLine(columns.map((column) => EXPORT_COLUMNS[column].header));
+  for await (const rows of batches) {
+    yield rows
+      .map((row) => toCsvLine(columns.map((column) => row[column])))
+      .join('');
+  }
+}
+
+// One JSON object per line
+export async function* ndjsonChunks(
+  batches: AsyncIterable<ExportRow[]>,
+  columns: ExportColumn[],
+) {
+  for await (const rows of batches) {
+    yield rows
+      .map((row) => `${JSON.stringify(toTypedRecord(row, columns))}\n`)
+      .join('');
+  }
+}
+
+// A single JSON array, written incrementally
+export async function* jsonChunks(
+  batches: AsyncIterable<ExportRow[]>,
+  columns: ExportColumn[],
+) {
+  let separator = '';
+  yield '[';
+  for await (const rows of batches) {
+    for (const row of rows) {
+      yield `${separator}${JSON.stringify(toTypedRecord(row, columns))}`;
+      separator = ',';
+    }
+  }
+  yield ']';
+}
@@ -0,0 +1,105 @@
+import * as ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { setTimeout as sleep } from 'timers/promises';
+import { ExportRow } from './export-columns';
+import { writePaymentsWorkbook } from './xlsx';
+
+describe('writePaymentsWorkbook', () => {
+  async function* batches() {
+    yield await Promise.resolve([
+      {
+        id: 7,
+        amount: '1500.25',
+        receiver: 'John Doe',
+        createdAt: new Date('2024-01-15T10:30:00.000Z'),
+      },
+    ] as ExportRow[]);
+  }
+
+  const readWorkbook = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(
+      Buffer.concat(chunks) as unknown as ExcelJS.Buffer,
+    );
+    return workbook;
+  };
+
+  it('writes typed payment cells and a summary sheet', async () => {
+    const workbook = await readWorkbook(
+      writePaymentsWorkbook(
+        batches(),
+        ['id', 'amount', 'receiver', 'createdAt'],
+        () =>
+          Promise.resolve([
+            {
+              title: 'By Status',
+              columns: [
+                { header: 'Status', key: 'status' },
+                { header: 'Count', key: 'count', type: 'integer' },
+              ],
+              rows: [{ status: 'success', count: 1 }],
+            },
+          ]),
+      ),
+    );
+
+    const payments = workbook.getWorksheet('Payments')!;
+    expect(payments.getRow(1).values).toEqual([
+      undefined,
+      'ID',
+      'Amount',
+      'Receiver',
+      'Created At',
+    ]);
+    expect(payments.getCell('A2').value).toBe(7);
+    expect(payments.getCell('B2').value).toBe(1500.25);
+    expect(payments.getCell('D2').value).toEqual(
+      new Date('2024-01-15T10:30:00.000Z'),
+    );
+
+    const summary = workbook.getWorksheet('Summary')!;
+    expect(summary.getCell('A1').value).toBe('By Status');
+    expect(summary.getRow(3).values).toEqual([undefined, 'success', 1]);
+  });
+
+  it('stops reading batches while the reader is behind or gone', async () => {
+    let read = 0;
+    let closed = false;
+    async function* many() {
+      try {
+        for (let batch = 0; batch < 1000; batch++) {
+          // Each FETCH is a round trip to the database
+          await new Promise((resolve) => setImmediate(resolve));
+          read++;
+          yield Array.from({ length: 100 }, (_, index) => ({
+            id: batch * 100 + index,
+            amount: String((batch * 7919 + index * 104729) % 100000),
+            receiver: `Receiver ${(batch * 31 + index * 17) % 9973}`,
+          })) as ExportRow[];
+        }
+      } finally {
+        closed = true;
+      }
+    }
+
+    const output = writePaymentsWorkbook(
+      many(),
+      ['id', 'amount', 'receiver'],
+      () => Promise.resolve([]),
+    );
+    await sleep(500);
+    const readWhileStalled = read;
+    await sleep(200);
+
+    expect(read).toBe(readWhileStalled);
+    expect(read).toBeLessThan(1000);
+
+    output.destroy();
+    await sleep(50);
+    expect(closed).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+// src/payments/export/xlsx.ts
+import * as ExcelJS from 'exceljs';
+import { PassThrough, Readable, Writable } from 'stream';
+import {
+  EXPORT_COLUMNS,
+  ExportColumn,
+  ExportColumnType,
+  ExportRow,
+  toTypedRecord,
+} from './export-columns';
+
+const NUMBER_FORMATS: Partial<Record<ExportColumnType, string>> = {
+  money: '#,##0.00',
+  date: 'yyyy-mm-dd hh:mm:ss',
+};
+
+// A titled table on the summary sheet
+export interface SummaryTable {
+  title: string;
+  columns: { header: string; key: string; type?: ExportColumnType }[];
+  rows: Record<string, string | number>[];
+}
+
+// Resolves once the reader has caught up, or has gone away
+function drained(stream: Writable): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      stream.off('drain', done);
+      stream.off('close', done);
+      resolve();
+    };
+    stream.on('drain', done);
+    stream.on('close', done);
+  });
+}
+
+// Streams a workbook with a "Payments" sheet of typed cells, written row by
+// row as batches arrive, followed by a "Summary" sheet. The summary is only
+// loaded once the payments are written. The next batch is only read once
+// the output has drained, and destroying the output stops the export.
+export function writePaymentsWorkbook(
+  batches: AsyncIterable<ExportRow[]>,
+  columns: ExportColumn[],
+  loadSummary: () => Promise<SummaryTable[]>,
+): Readable {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+  });
+
+  const write = async () => {
+    const payments = workbook.addWorksheet('Payments');
+    payments.columns = columns.map((column) => {
+      const { header, type } = EXPORT_COLUMNS[column];
+      const numFmt = NUMBER_FORMATS[type];
+      return {
+        header,
+        key: column,
+        width: type === 'text' ? 24 : 18,
+        style: numFmt ? { numFmt } : {},
+      };
+    });
+    payments.getRow(1).font = { bold: true };
+
+    for await (const rows of batches) {
+      for (const row of rows) {
+        payments.addRow(toTypedRecord(row, columns)).commit();
+      }
+      if (output.writableNeedDrain) {
+        await drained(output);
+      }
+      // Leaving the loop closes the batches, and with them the cursor
+      if (output.destroyed) {
+        return;
+      }
+    }
+    payments.commit();
+
+    const summary = workbook.addWorksheet('Summary');
+    summary.getColumn(1).width = 24;
+    for (const table of await loadSummary()) {
+      summary.addRow([table.title]).font = { bold: true, size: 13 };
+      summary.addRow(table.columns.map((column) => column.header)).font = {
+        bold: true,
+      };
+      for (const values of table.rows) {
+        const row = summary.addRow(
+          table.columns.map((column) => values[column.key]),
+        );
+        table.columns.forEach((column, index) => {
+          const numFmt = column.type && NUMBER_FORMATS[column.type];
+          if (numFmt) {
+            row.getCell(index + 1).numFmt = numFmt;
+          }
+        });
+      }
+      summary.addRow([]);
+    }
+    summary.commit();
+
+    await workbook.commit();
+  };
+
+  write().catch((error: Error) => output.destroy(error));
+  return output;
+}
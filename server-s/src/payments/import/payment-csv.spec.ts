@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { parsePaymentCsv, validatePaymentRow } from './payment-csv';
+
+describe('payment CSV import', () => {
+  describe('parsePaymentCsv', () => {
+    it('maps headers case-insensitively and records line numbers', () => {
+      const parsed = parsePaymentCsv(
+        '﻿Transaction ID,Amount,Receiver,Status,Method\r\n' +
+          'TXN1,100,"Doe, John",pending,upi\r\n' +
+          '\r\n' +
+          'TXN2,50,Jane,success,wallet\r\n',
+      );
+
+      expect(parsed.fields).toEqual({
+        transactionId: 0,
+        amount: 1,
+        receiver: 2,
+        status: 3,
+        method: 4,
+      });
+      expect(parsed.rows).toEqual([
+        { line: 2, values: ['TXN1', '100', 'Doe, John', 'pending', 'upi'] },
+        { line: 4, values: ['TXN2', '50', 'Jane', 'success', 'wallet'] },
+      ]);
+    });
+
+    it('rejects files without the required columns', () => {
+      expect(() => parsePaymentCsv('amount,receiver\n100,John\n')).toThrow(
+        'The CSV file is missing required columns: status, method',
+      );
+    });
+
+    it('rejects malformed CSV', () => {
+      expect(() =>
+        parsePaymentCsv('amount,receiver,status,method\n"100,John\n'),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('validatePaymentRow', () => {
+    const fields = { amount: 0, receiver: 1, status: 2, method: 3 };
+
+    it('accepts rows that satisfy the CreatePaymentDto rules', async () => {
+      const { payment, errors } = await validatePaymentRow(
+        ['250.50', 'John Doe', 'SUCCESS', 'UPI'],
+        fields,
+      );
+
+      expect(errors).toEqual([]);
+      expect(payment).toEqual(
+        expect.objectContaining({
+          amount: 250.5,
+          receiver: 'John Doe',
+          status: 'success',
+          method: 'upi',
+        }),
+      );
+    });
+
+    it('reports every problem with a row', async () => {
+      const { errors } = await validatePaymentRow(
+        ['abc', '', 'refunded', 'cash'],
+        fields,
+      );
+
+      expect(errors).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('amount'),
+          expect.stringContaining('receiver'),
+          expect.stringContaining('status'),
+          expect.stringContaining('method'),
+        ]),
+      );
+    });
+  });
+});
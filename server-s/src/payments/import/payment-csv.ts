@@ -0,0 +1,128 @@
+// src/payments/import/payment-csv.ts
+import { BadRequestException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, validate } from 'class-validator';
+import { parse } from 'csv-parse/sync';
+import { ImportPaymentRowDto } from '../dto/import-payments.dto';
+
+// Columns the importer reads, keyed by their normalized header. Headers are
+// matched case-insensitively ignoring spaces, dashes and underscores, so the
+// files GET /payments/export writes can be imported again.
+const IMPORT_COLUMNS = {
+  amount: 'amount',
+  receiver: 'receiver',
+  status: 'status',
+  method: 'method',
+  description: 'description',
+  transactionid: 'transactionId',
+  createdat: 'createdAt',
+} as const;
+
+type ImportField = (typeof IMPORT_COLUMNS)[keyof typeof IMPORT_COLUMNS];
+
+const REQUIRED_FIELDS: ImportField[] = [
+  'amount',
+  'receiver',
+  'status',
+  'method',
+];
+
+export interface ParsedCsvRow {
+  line: number;
+  values: string[];
+}
+
+export interface ParsedPaymentCsv {
+  headers: string[];
+  // Index of each known field's column in the file
+  fields: Partial<Record<ImportField, number>>;
+  rows: ParsedCsvRow[];
+}
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[\s_-]/g, '');
+
+// Splits an upload into its header and data rows, rejecting the whole file
+// when it isn't valid CSV or lacks a required column
+export function parsePaymentCsv(input: Buffer | string): ParsedPaymentCsv {
+  let records: { record: string[]; info: { lines: number } }[];
+  try {
+    records = parse(input, {
+      bom: true,
+      info: true,
+      trim: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+    }) as { record: string[]; info: { lines: number } }[];
+  } catch (error) {
+    throw new BadRequestException(
+      `Could not parse CSV: ${(error as Error).message}`,
+    );
+  }
+
+  if (records.length === 0) {
+    throw new BadRequestException('The CSV file is empty');
+  }
+
+  const [{ record: headers }, ...data] = records;
+  const fields: ParsedPaymentCsv['fields'] = {};
+  headers.forEach((header, index) => {
+    const field: ImportField | undefined =
+      IMPORT_COLUMNS[normalizeHeader(header) as keyof typeof IMPORT_COLUMNS];
+    if (field && fields[field] === undefined) {
+      fields[field] = index;
+    }
+  });
+
+  const missing = REQUIRED_FIELDS.filter(
+    (field) => fields[field] === undefined,
+  );
+  if (missing.length > 0) {
+    throw new BadRequestException(
+      `The CSV file is missing required columns: ${missing.join(', ')}`,
+    );
+  }
+
+  return {
+    headers,
+    fields,
+    rows: data.map(({ record, info }) => ({
+      line: info.lines,
+      values: record,
+    })),
+  };
+}
+
+// Flattens nested validation errors into their messages
+function errorMessages(errors: ValidationError[]): string[] {
+  return errors.flatMap((error) => [
+    ...Object.values(error.constraints ?? {}),
+    ...errorMessages(error.children ?? []),
+  ]);
+}
+
+// Builds a payment from one row and checks it against the CreatePaymentDto
+// rules. Empty cells count as missing values.
+export async function validatePaymentRow(
+  values: string[],
+  fields: ParsedPaymentCsv['fields'],
+): Promise<{ payment: ImportPaymentRowDto; errors: string[] }> {
+  const cell = (field: ImportField) => {
+    const index = fields[field];
+    const value = index === undefined ? '' : (values[index] ?? '');
+    return value === '' ? undefined : value;
+  };
+
+  const amount = cell('amount');
+  const payment = plainToInstance(ImportPaymentRowDto, {
+    amount: amount === undefined ? undefined : Number(amount),
+    receiver: cell('receiver'),
+    status: cell('status')?.toLowerCase(),
+    method: cell('method')?.toLowerCase(),
+    description: cell('description'),
+    transactionId: cell('transactionId'),
+    createdAt: cell('createdAt'),
+  });
+
+  return { payment, errors: errorMessages(await validate(payment)) };
+}
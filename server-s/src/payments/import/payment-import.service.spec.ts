@@ -0,0 +1,142 @@
+import { PaymentImportService } from './payment-import.service';
+import { ImportJobStatus } from '../enums/import-job-status.enum';
+import { PaymentImportJob } from '../entities/payment-import-job.entity';
+
+const ORG = 1;
+
+describe('PaymentImportService', () => {
+  const csv = (rows: string[]) => ({
+    originalname: 'payments.csv',
+    buffer: Buffer.from(
+      ['transactionId,amount,receiver,status,method', ...rows].join('\n'),
+    ),
+  });
+
+  const setup = (existingTransactionIds: string[] = []) => {
+    const manager = {
+      insert: jest.fn((_entity: unknown, rows: unknown[]) =>
+        Promise.resolve({
+          identifiers: rows.map((_row, index) => ({ id: index + 1 })),
+        }),
+      ),
+      save: jest.fn((job: PaymentImportJob) => Promise.resolve(job)),
+    };
+    const importJobsRepository = {
+      create: jest.fn((job: Partial<PaymentImportJob>) => job),
+      save: jest.fn((job: PaymentImportJob) =>
+        Promise.resolve({ ...job, id: 1 }),
+      ),
+      findOne: jest.fn(),
+    };
+    const paymentsRepository = {
+      find: jest.fn(() =>
+        Promise.resolve(
+          existingTransactionIds.map((transactionId) => ({ transactionId })),
+        ),
+      ),
+      manager: {
+        transaction: jest.fn(
+          (work: (entityManager: typeof manager) => Promise<unknown>) =>
+            work(manager),
+        ),
+      },
+    };
+    const paymentStream = { publish: jest.fn() };
+    const service = new PaymentImportService(
+      importJobsRepository as never,
+      paymentsRepository as never,
+      { publishAll: jest.fn() } as never,
+      paymentStream as never,
+    );
+
+    return { service, manager, importJobsRepository, paymentStream };
+  };
+
+  it('validates without inserting on a dry run', async () => {
+    const { service, manager } = setup();
+
+    const job = await service.importCsv(
+      ORG,
+      csv(['TXN1,100,John,pending,upi', 'TXN2,-5,Jane,pending,upi']),
+      true,
+    );
+
+    expect(job).toEqual(
+      expect.objectContaining({
+        status: ImportJobStatus.DRY_RUN,
+        totalRows: 2,
+        acceptedCount: 1,
+        rejectedCount: 1,
+      }),
+    );
+    expect(job.rejectedRows[0].line).toBe(3);
+    expect(manager.insert).not.toHaveBeenCalled();
+  });
+
+  it('inserts valid rows and their history events in one transaction', async () => {
+    const { service, manager, paymentStream } = setup();
+
+    const job = await service.importCsv(
+      ORG,
+      csv(['TXN1,100,John,pending,upi', 'TXN2,200,Jane,success,wallet']),
+      false,
+      { userId: 1, username: 'admin', role: 'admin' as never },
+    );
+
+    expect(job.status).toBe(ImportJobStatus.COMPLETED);
+    expect(manager.insert).toHaveBeenCalledTimes(2);
+    expect(manager.insert.mock.calls[0][1]).toEqual([
+      expect.objectContaining({
+        organizationId: ORG,
+        transactionId: 'TXN1',
+        amount: 100,
+      }),
+      expect.objectContaining({ transactionId: 'TXN2', amount: 200 }),
+    ]);
+    expect(manager.insert.mock.calls[1][1]).toEqual([
+      expect.objectContaining({ paymentId: 1, actorUsername: 'admin' }),
+      expect.objectContaining({ paymentId: 2, newValue: 'success' }),
+    ]);
+    expect(paymentStream.publish).toHaveBeenCalledWith({
+      type: 'payments.imported',
+      organizationId: ORG,
+      count: 2,
+    });
+  });
+
+  it('rejects transaction ids that already exist or repeat', async () => {
+    const { service } = setup(['TXN1']);
+
+    const job = await service.importCsv(
+      ORG,
+      csv([
+        'TXN1,100,John,pending,upi',
+        'TXN2,100,John,pending,upi',
+        'TXN2,100,John,pending,upi',
+      ]),
+      true,
+    );
+
+    expect(job.rejectedRows.map(({ errors }) => errors)).toEqual([
+      ['transactionId TXN1 already exists'],
+      ['transactionId TXN2 appears more than once'],
+    ]);
+  });
+
+  it('builds a rejected-rows file that can be corrected and re-uploaded', async () => {
+    const { service, importJobsRepository } = setup();
+    importJobsRepository.findOne.mockResolvedValue({
+      id: 1,
+      headers: ['amount', 'receiver'],
+      rejectedRows: [
+        { line: 2, values: ['-5', 'Doe, John'], errors: ['a', 'b'] },
+      ],
+    });
+
+    const file = await service.getRejectedRowsCsv(ORG, 1);
+
+    expect(file.toString()).toBe(
+      'amount,receiver,line,errors\r\n-5,"Doe, John",2,a; b\r\n',
+    );
+  });
+});
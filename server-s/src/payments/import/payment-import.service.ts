@@ -0,0 +1,218 @@
+// src/payments/import/payment-import.service.ts
+import {
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Payment } from '../entities/payment.entity';
+import { PaymentEvent } from '../entities/payment-event.entity';
+import {
+  PaymentImportJob,
+  RejectedImportRow,
+} from '../entities/payment-import-job.entity';
+import { ImportPaymentRowDto } from '../dto/import-payments.dto';
+import { ImportJobStatus } from '../enums/import-job-status.enum';
+import { PaymentEventType } from '../enums/payment-event-type.enum';
+import { JwtUser } from '../../auth/interfaces/jwt-user.interface';
+import { generateTransactionId } from '../transaction-id';
+import { toCsvLine } from '../export/csv';
+import { parsePaymentCsv, validatePaymentRow } from './payment-csv';
+import { WebhookPublisher } from '../../webhook-subscriptions/webhook-publisher';
+import { PaymentStream } from '../payment-stream';
+
+// Rows per INSERT statement
+const INSERT_BATCH_SIZE = 500;
+
+export interface UploadedCsv {
+  originalname: string;
+  buffer: Buffer;
+}
+
+@Injectable()
+export class PaymentImportService {
+  constructor(
+    @InjectRepository(PaymentImportJob)
+    private importJobsRepository: Repository<PaymentImportJob>,
+    @InjectRepository(Payment)
+    private paymentsRepository: Repository<Payment>,
+    private webhookPublisher: WebhookPublisher,
+    private paymentStream: PaymentStream,
+  ) {}
+
+  // Validates every row of the upload and, unless this is a dry run, inserts
+  // the valid ones into the organization in batches inside a single
+  // transaction. Either way the outcome is saved as a job so rejected rows
+  // can be downloaded later.
+  async importCsv(
+    organizationId: number,
+    file: UploadedCsv,
+    dryRun: boolean,
+    actor?: JwtUser,
+  ): Promise<PaymentImportJob> {
+    const { headers, fields, rows } = parsePaymentCsv(file.buffer);
+
+    const accepted: ImportPaymentRowDto[] = [];
+    const rejectedRows: RejectedImportRow[] = [];
+    const seenTransactionIds = new Set<string>();
+    const existingTransactionIds = await this.findExistingTransactionIds(
+      rows.map(({ values }) =>
+        fields.transactionId === undefined ? '' : values[fields.transactionId],
+      ),
+    );
+
+    for (const { line, values } of rows) {
+      const { payment, errors } = await validatePaymentRow(values, fields);
+
+      const { transactionId } = payment;
+      if (transactionId) {
+        if (existingTransactionIds.has(transactionId)) {
+          errors.push(`transactionId ${transactionId} already exists`);
+        } else if (seenTransactionIds.has(transactionId)) {
+          errors.push(`transactionId ${transactionId} appears more than once`);
+        }
+        seenTransactionIds.add(transactionId);
+      }
+
+      if (errors.length > 0) {
+        rejectedRows.push({ line, values, errors });
+      } else {
+        accepted.push(payment);
+      }
+    }
+
+    const job = this.importJobsRepository.create({
+      organizationId,
+      filename: file.originalname,
+      status: dryRun ? ImportJobStatus.DRY_RUN : ImportJobStatus.COMPLETED,
+      totalRows: rows.length,
+      acceptedCount: accepted.length,
+      rejectedCount: rejectedRows.length,
+      headers,
+      rejectedRows,
+      createdById: actor?.userId,
+      createdByUsername: actor?.username,
+    });
+
+    if (dryRun || accepted.length === 0) {
+      return this.importJobsRepository.save(job);
+    }
+
+    let savedJob: PaymentImportJob;
+    try {
+      savedJob = await this.paymentsRepository.manager.transaction(
+        async (manager) => {
+          for (
+            let start = 0;
+            start < accepted.length;
+            start += INSERT_BATCH_SIZE
+          ) {
+            const batch = accepted.slice(start, start + INSERT_BATCH_SIZE);
+            const rows = batch.map(
+              ({ createdAt, transactionId, ...payment }) => ({
+                ...payment,
+                organizationId,
+                transactionId: transactionId ?? generateTransactionId(),
+                ...(createdAt && { createdAt: new Date(createdAt) }),
+              }),
+            );
+            const { identifiers } = await manager.insert(Payment, rows);
+
+            await manager.insert(
+              PaymentEvent,
+              identifiers.map(({ id }: { id: number }, index) => ({
+                paymentId: id,
+                type: PaymentEventType.CREATED,
+                actorId: actor?.userId,
+                actorUsername: actor?.username,
+                newValue: batch[index].status,
+                reason: `Imported from ${file.originalname}`,
+              })),
+            );
+            await this.webhookPublisher.publishAll(
+              manager,
+              organizationId,
+              'payment.created',
+              identifiers.map(({ id }: { id: number }, index) => ({
+                payment: { ...rows[index], id },
+              })),
+            );
+          }
+
+          return manager.save(job);
+        },
+      );
+    } catch (error) {
+      // Nothing was inserted; keep a record of the attempt
+      job.status = ImportJobStatus.FAILED;
+      job.acceptedCount = 0;
+      job.failureReason = (error as Error).message;
+      const failedJob = await this.importJobsRepository.save(job);
+
+      throw new InternalServerErrorException({
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: 'Import failed; no payments were inserted',
+        jobId: failedJob.id,
+      });
+    }
+
+    this.paymentStream.publish({
+      type: 'payments.imported',
+      organizationId,
+      count: savedJob.acceptedCount,
+    });
+    return savedJob;
+  }
+
+  async findJob(organizationId: number, id: number): Promise<PaymentImportJob> {
+    const job = await this.importJobsRepository.findOne({
+      where: { id, organizationId },
+    });
+    if (!job) {
+      throw new NotFoundException(`Import job with ID ${id} not found`);
+    }
+    return job;
+  }
+
+  // The rejected rows as uploaded, plus their line number and errors, so
+  // they can be corrected and imported again
+  async getRejectedRowsCsv(
+    organizationId: number,
+    id: number,
+  ): Promise<Buffer> {
+    const job = await this.findJob(organizationId, id);
+    const lines = [
+      toCsvLine([...job.headers, 'line', 'errors']),
+      ...job.rejectedRows.map(({ line, values, errors }) =>
+        toCsvLine([
+          ...job.headers.map((_, index) => values[index] ?? ''),
+          line,
+          errors.join('; '),
+        ]),
+      ),
+    ];
+    return Buffer.from(lines.join(''), 'utf-8');
+  }
+
+  // Transaction ids from the file that are already taken
+  private async findExistingTransactionIds(
+    transactionIds: string[],
+  ): Promise<Set<string>> {
+    const candidates = [...new Set(transactionIds.filter(Boolean))];
+    const existing = new Set<string>();
+
+    for (let start = 0; start < candidates.length; start += INSERT_BATCH_SIZE) {
+      const payments = await this.paymentsRepository.find({
+        select: { transactionId: true },
+        where: {
+          transactionId: In(candidates.slice(start, start + INSERT_BATCH_SIZE)),
+        },
+      });
+      payments.forEach(({ transactionId }) => existing.add(transactionId));
+    }
+
+    return existing;
+  }
+}
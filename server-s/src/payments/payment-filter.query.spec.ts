@@ -0,0 +1,93 @@
+import { SelectQueryBuilder } from 'typeorm';
+import { Payment, PaymentStatus } from './entities/payment.entity';
+import { PaymentFilterDto } from './dto/payment-filter.dto';
+import { applyPaymentFilters } from './payment-filter.query';
+
+// Records the conditions applyPaymentFilters adds
+class FakeQueryBuilder {
+  alias = 'payment';
+  conditions: string[] = [];
+  parameters: Record<string, unknown> = {};
+
+  andWhere(condition: string, parameters: Record<string, unknown> = {}) {
+    this.conditions.push(condition);
+    Object.assign(this.parameters, parameters);
+    return this;
+  }
+}
+
+describe('applyPaymentFilters', () => {
+  const build = (filters: PaymentFilterDto) => {
+    const query = new FakeQueryBuilder();
+    applyPaymentFilters(
+      query as unknown as SelectQueryBuilder<Payment>,
+      filters,
+    );
+    return query;
+  };
+
+  it('adds no conditions without filters', () => {
+    expect(build({}).conditions).toEqual([]);
+  });
+
+  it('matches receivers case-insensitively and partially', () => {
+    const query = build({ receiver: 'doe' });
+
+    expect(query.conditions).toEqual([
+      'payment.receiver ILIKE :filterReceiver',
+    ]);
+    expect(query.parameters).toEqual({ filterReceiver: '%doe%' });
+  });
+
+  it('escapes LIKE wildcards in the receiver', () => {
+    expect(build({ receiver: '50%_off' }).parameters.filterReceiver).toBe(
+      '%50\\%\\_off%',
+    );
+  });
+
+  it('supports open-ended date ranges', () => {
+    expect(build({ startDate: '2024-01-01' }).conditions).toEqual([
+      'payment.createdAt >= :filterStartDate',
+    ]);
+    expect(build({ endDate: '2024-01-31T12:00:00.000Z' }).conditions).toEqual([
+      'payment.createdAt <= :filterEndDate',
+    ]);
+  });
+
+  it('includes the whole end day for date-only end dates', () => {
+    const query = build({ endDate: '2024-01-31' });
+
+    expect(query.conditions).toEqual(['payment.createdAt < :filterEndDate']);
+    expect(query.parameters.filterEndDate).toEqual(
+      new Date('2024-02-01T00:00:00.000Z'),
+    );
+  });
+
+  it('filters by status, method and amount range', () => {
+    const query = build({
+      status: PaymentStatus.SUCCESS,
+      method: 'upi',
+      minAmount: 100,
+      maxAmount: 500,
+    });
+
+    expect(query.conditions).toEqual([
+      'payment.status = :filterStatus',
+      'payment.method = :filterMethod',
+      'payment.amount >= :filterMinAmount',
+      'payment.amount <= :filterMaxAmount',
+    ]);
+    expect(query.parameters).toEqual({
+      filterStatus: PaymentStatus.SUCCESS,
+      filterMethod: 'upi',
+      filterMinAmount: 100,
+      filterMaxAmount: 500,
+    });
+  });
+
+  it('keeps a zero minimum amount', () => {
+    expect(build({ minAmount: 0 }).conditions).toEqual([
+      'payment.amount >= :filterMinAmount',
+    ]);
+  });
+});
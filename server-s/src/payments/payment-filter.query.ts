@@ -0,0 +1,76 @@
+// src/payments/payment-filter.query.ts
+import { SelectQueryBuilder } from 'typeorm';
+import { Payment } from './entities/payment.entity';
+import { PaymentFilterDto } from './dto/payment-filter.dto';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Escapes LIKE wildcards so user input only ever matches literally
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Applies every PaymentFilterDto field to a payments query. Used by the list,
+// export and analytics queries so filtering behaves the same everywhere.
+// Conditions are added with andWhere, so call this after any .where().
+export function applyPaymentFilters<T extends SelectQueryBuilder<Payment>>(
+  query: T,
+  filters: PaymentFilterDto = {},
+): T {
+  const alias = query.alias;
+
+  if (filters.status) {
+    query.andWhere(`${alias}.status = :filterStatus`, {
+      filterStatus: filters.status,
+    });
+  }
+
+  if (filters.method) {
+    query.andWhere(`${alias}.method = :filterMethod`, {
+      filterMethod: filters.method,
+    });
+  }
+
+  // Case-insensitive partial match
+  if (filters.receiver) {
+    query.andWhere(`${alias}.receiver ILIKE :filterReceiver`, {
+      filterReceiver: `%${escapeLike(filters.receiver)}%`,
+    });
+  }
+
+  // Either end of the date range may be left open
+  if (filters.startDate) {
+    query.andWhere(`${alias}.createdAt >= :filterStartDate`, {
+      filterStartDate: new Date(filters.startDate),
+    });
+  }
+
+  if (filters.endDate) {
+    if (DATE_ONLY.test(filters.endDate)) {
+      // A plain date includes the whole of that day
+      const endExclusive = new Date(filters.endDate);
+      endExclusive.setUTCDate(endExclusive.getUTCDate() + 1);
+      query.andWhere(`${alias}.createdAt < :filterEndDate`, {
+        filterEndDate: endExclusive,
+      });
+    } else {
+      query.andWhere(`${alias}.createdAt <= :filterEndDate`, {
+        filterEndDate: new Date(filters.endDate),
+      });
+    }
+  }
+
+  if (filters.minAmount !== undefined) {
+    query.andWhere(`${alias}.amount >= :filterMinAmount`, {
+      filterMinAmount: filters.minAmount,
+    });
+  }
+
+  if (filters.maxAmount !== undefined) {
+    query.andWhere(`${alias}.amount <= :filterMaxAmount`, {
+      filterMaxAmount: filters.maxAmount,
+    });
+  }
+
+  return query;
+}
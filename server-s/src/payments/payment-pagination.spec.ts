@@ -0,0 +1,119 @@
+import { BadRequestException } from '@nestjs/common';
+import { SelectQueryBuilder } from 'typeorm';
+import { Payment } from './entities/payment.entity';
+import {
+  CURSOR_VALUE_ALIAS,
+  PaymentCursor,
+  PaymentSortField,
+  SortOrder,
+  applyPaymentSort,
+  decodeCursor,
+  encodeCursor,
+} from './payment-pagination';
+
+// Records the clauses applyPaymentSort adds
+class FakeQueryBuilder {
+  alias = 'payment';
+  conditions: string[] = [];
+  parameters: Record<string, unknown> = {};
+  selections: [string, string][] = [];
+  orderings: [string, string][] = [];
+
+  andWhere(condition: string, parameters: Record<string, unknown> = {}) {
+    this.conditions.push(condition);
+    Object.assign(this.parameters, parameters);
+    return this;
+  }
+
+  addSelect(selection: string, alias: string) {
+    this.selections.push([selection, alias]);
+    return this;
+  }
+
+  orderBy(sort: string, order: string) {
+    this.orderings = [[sort, order]];
+    return this;
+  }
+
+  addOrderBy(sort: string, order: string) {
+    this.orderings.push([sort, order]);
+    return this;
+  }
+}
+
+describe('payment pagination', () => {
+  const cursor: PaymentCursor = {
+    sortBy: 'amount',
+    sortOrder: 'DESC',
+    direction: 'next',
+    value: '2500.00',
+    id: 42,
+  };
+
+  const build = (
+    sortBy: PaymentSortField,
+    sortOrder: SortOrder,
+    withCursor?: PaymentCursor,
+  ) => {
+    const query = new FakeQueryBuilder();
+    applyPaymentSort(
+      query as unknown as SelectQueryBuilder<Payment>,
+      sortBy,
+      sortOrder,
+      withCursor,
+    );
+    return query;
+  };
+
+  it('round-trips cursors through an opaque token', () => {
+    const token = encodeCursor(cursor);
+
+    expect(token).not.toContain('amount');
+    expect(decodeCursor(token)).toEqual(cursor);
+  });
+
+  it('rejects malformed or tampered cursors', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(BadRequestException);
+    expect(() =>
+      decodeCursor(encodeCursor({ ...cursor, sortBy: 'id' as never })),
+    ).toThrow(BadRequestException);
+  });
+
+  it('orders by the sort column with id as tie-breaker', () => {
+    const query = build('receiver', 'ASC');
+
+    expect(query.conditions).toEqual([]);
+    expect(query.orderings).toEqual([
+      ['payment.receiver', 'ASC'],
+      ['payment.id', 'ASC'],
+    ]);
+    expect(query.selections).toEqual([
+      ['CAST(payment.receiver AS text)', CURSOR_VALUE_ALIAS],
+    ]);
+  });
+
+  it('seeks past the cursor row when paging forwards', () => {
+    const query = build('amount', 'DESC', cursor);
+
+    expect(query.conditions).toEqual([
+      '(payment.amount, payment.id) < (:cursorValue, :cursorId)',
+    ]);
+    expect(query.parameters).toEqual({ cursorValue: '2500.00', cursorId: 42 });
+    expect(query.orderings).toEqual([
+      ['payment.amount', 'DESC'],
+      ['payment.id', 'DESC'],
+    ]);
+  });
+
+  it('walks the sort backwards when paging to the previous page', () => {
+    const query = build('amount', 'DESC', { ...cursor, direction: 'prev' });
+
+    expect(query.conditions).toEqual([
+      '(payment.amount, payment.id) > (:cursorValue, :cursorId)',
+    ]);
+    expect(query.orderings).toEqual([
+      ['payment.amount', 'ASC'],
+      ['payment.id', 'ASC'],
+    ]);
+  });
+});
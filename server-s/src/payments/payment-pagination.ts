@@ -0,0 +1,88 @@
+// src/payments/payment-pagination.ts
+import { BadRequestException } from '@nestjs/common';
+import { SelectQueryBuilder } from 'typeorm';
+import { Payment } from './entities/payment.entity';
+
+export const PAYMENT_SORT_FIELDS = [
+  'createdAt',
+  'amount',
+  'receiver',
+  'status',
+] as const;
+
+export type PaymentSortField = (typeof PAYMENT_SORT_FIELDS)[number];
+
+export const SORT_ORDERS = ['ASC', 'DESC'] as const;
+
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+export type CursorDirection = 'next' | 'prev';
+
+// Position of a row in a given sort, plus which way to page from it.
+// `value` is the sort column rendered as text by Postgres so timestamps keep
+// their full precision.
+export interface PaymentCursor {
+  sortBy: PaymentSortField;
+  sortOrder: SortOrder;
+  direction: CursorDirection;
+  value: string;
+  id: number;
+}
+
+// Alias of the raw column holding the sort value of each row
+export const CURSOR_VALUE_ALIAS = 'cursor_value';
+
+export function encodeCursor(cursor: PaymentCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(token: string): PaymentCursor {
+  let cursor: Partial<PaymentCursor>;
+  try {
+    cursor = JSON.parse(
+      Buffer.from(token, 'base64url').toString('utf8'),
+    ) as Partial<PaymentCursor>;
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (
+    !cursor ||
+    !PAYMENT_SORT_FIELDS.includes(cursor.sortBy as PaymentSortField) ||
+    !SORT_ORDERS.includes(cursor.sortOrder as SortOrder) ||
+    (cursor.direction !== 'next' && cursor.direction !== 'prev') ||
+    typeof cursor.value !== 'string' ||
+    !Number.isInteger(cursor.id)
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  return cursor as PaymentCursor;
+}
+
+// Orders the query by the sort column with the id as a tie-breaker, so every
+// row has a unique position, and selects the sort value for building cursors.
+// A `prev` cursor walks the sort backwards; callers reverse the rows again.
+export function applyPaymentSort<T extends SelectQueryBuilder<Payment>>(
+  query: T,
+  sortBy: PaymentSortField,
+  sortOrder: SortOrder,
+  cursor?: PaymentCursor,
+): T {
+  const alias = query.alias;
+  const backwards = cursor?.direction === 'prev';
+  const order: SortOrder = backwards === (sortOrder === 'ASC') ? 'DESC' : 'ASC';
+
+  if (cursor) {
+    const comparison = order === 'ASC' ? '>' : '<';
+    query.andWhere(
+      `(${alias}.${sortBy}, ${alias}.id) ${comparison} (:cursorValue, :cursorId)`,
+      { cursorValue: cursor.value, cursorId: cursor.id },
+    );
+  }
+
+  return query
+    .addSelect(`CAST(${alias}.${sortBy} AS text)`, CURSOR_VALUE_ALIAS)
+    .orderBy(`${alias}.${sortBy}`, order)
+    .addOrderBy(`${alias}.id`, order);
+}
@@ -0,0 +1,70 @@
+import { SelectQueryBuilder } from 'typeorm';
+import { Payment } from './entities/payment.entity';
+import {
+  SEARCH_RANK_ALIAS,
+  applyPaymentSearch,
+  matchedFieldAlias,
+} from './payment-search.query';
+
+// Records the clauses applyPaymentSearch adds
+class FakeQueryBuilder {
+  alias = 'payment';
+  conditions: string[] = [];
+  parameters: Record<string, unknown> = {};
+  selections: Record<string, string> = {};
+  orderings: [string, string][] = [];
+
+  andWhere(condition: string, parameters: Record<string, unknown> = {}) {
+    this.conditions.push(condition);
+    Object.assign(this.parameters, parameters);
+    return this;
+  }
+
+  addSelect(selection: string, alias: string) {
+    this.selections[alias] = selection;
+    return this;
+  }
+
+  orderBy(sort: string, order: string) {
+    this.orderings = [[sort, order]];
+    return this;
+  }
+}
+
+describe('applyPaymentSearch', () => {
+  const build = (text: string) => {
+    const query = new FakeQueryBuilder();
+    applyPaymentSearch(query as unknown as SelectQueryBuilder<Payment>, text);
+    return query;
+  };
+
+  it('matches whole words or fragments of any searchable field', () => {
+    const [condition] = build('john').conditions;
+
+    expect(condition).toContain('@@ plainto_tsquery');
+    expect(condition).toContain('"payment"."receiver" ILIKE :searchPattern');
+    expect(condition).toContain('"payment"."description" ILIKE :searchPattern');
+    expect(condition).toContain(
+      '"payment"."transactionId" ILIKE :searchPattern',
+    );
+  });
+
+  it('passes the text as parameters with LIKE wildcards escaped', () => {
+    expect(build('50%_off').parameters).toEqual({
+      searchText: '50%_off',
+      searchPattern: '%50\\%\\_off%',
+    });
+  });
+
+  it('ranks results and flags each matched field', () => {
+    const query = build('TXN123');
+
+    expect(Object.keys(query.selections)).toEqual([
+      SEARCH_RANK_ALIAS,
+      matchedFieldAlias('receiver'),
+      matchedFieldAlias('description'),
+      matchedFieldAlias('transactionId'),
+    ]);
+    expect(query.orderings).toEqual([[SEARCH_RANK_ALIAS, 'DESC']]);
+  });
+});
@@ -0,0 +1,61 @@
+// src/payments/payment-search.query.ts
+import { SelectQueryBuilder } from 'typeorm';
+import { Payment } from './entities/payment.entity';
+import { escapeLike } from './payment-filter.query';
+
+export const PAYMENT_SEARCH_FIELDS = [
+  'receiver',
+  'description',
+  'transactionId',
+] as const;
+
+export type PaymentSearchField = (typeof PAYMENT_SEARCH_FIELDS)[number];
+
+// Words of the receiver and description. The expression must stay identical
+// to the one indexed in SearchIndexService for Postgres to use the index.
+export const PAYMENT_SEARCH_DOCUMENT = (table: string) =>
+  `to_tsvector('simple', coalesce(${table}."receiver", '') || ' ' || coalesce(${table}."description", ''))`;
+
+export const SEARCH_RANK_ALIAS = 'search_rank';
+
+export const matchedFieldAlias = (field: PaymentSearchField) =>
+  `matched_${field}`;
+
+// Restricts a payments query to rows matching the search text, either as
+// whole words (full-text) or as a fragment of any searchable field (trigram),
+// and selects a relevance rank plus one flag per field that matched.
+export function applyPaymentSearch<T extends SelectQueryBuilder<Payment>>(
+  query: T,
+  text: string,
+): T {
+  const table = `"${query.alias}"`;
+  const tsQuery = `plainto_tsquery('simple', :searchText)`;
+  const column = (field: PaymentSearchField) => `${table}."${field}"`;
+  const fragmentMatch = (field: PaymentSearchField) =>
+    `${column(field)} ILIKE :searchPattern`;
+
+  const fieldMatches: Record<PaymentSearchField, string> = {
+    receiver: `(${fragmentMatch('receiver')} OR to_tsvector('simple', ${column('receiver')}) @@ ${tsQuery})`,
+    description: `(${fragmentMatch('description')} OR to_tsvector('simple', coalesce(${column('description')}, '')) @@ ${tsQuery})`,
+    transactionId: `(${fragmentMatch('transactionId')})`,
+  };
+
+  query
+    .andWhere(
+      `(${PAYMENT_SEARCH_DOCUMENT(table)} @@ ${tsQuery} OR ${PAYMENT_SEARCH_FIELDS.map(fragmentMatch).join(' OR ')})`,
+      { searchText: text, searchPattern: `%${escapeLike(text)}%` },
+    )
+    .addSelect(
+      `ts_rank(${PAYMENT_SEARCH_DOCUMENT(table)}, ${tsQuery}) + GREATEST(${PAYMENT_SEARCH_FIELDS.map(
+        (field) =>
+          `word_similarity(:searchText, coalesce(${column(field)}, ''))`,
+      ).join(', ')})`,
+      SEARCH_RANK_ALIAS,
+    );
+
+  for (const field of PAYMENT_SEARCH_FIELDS) {
+    query.addSelect(fieldMatches[field], matchedFieldAlias(field));
+  }
+
+  return query.orderBy(SEARCH_RANK_ALIAS, 'DESC');
+}
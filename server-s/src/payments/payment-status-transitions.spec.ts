@@ -0,0 +1,71 @@
+import { PaymentStatus } from './entities/payment.entity';
+import {
+  PAYMENT_STATUS_TRANSITIONS,
+  canTransition,
+  describeInvalidTransition,
+  getManualTransitions,
+  getAllowedTransitions,
+  isPaymentStatus,
+} from './payment-status-transitions';
+
+describe('payment status transitions', () => {
+  it('defines transitions for every status', () => {
+    expect(Object.keys(PAYMENT_STATUS_TRANSITIONS).sort()).toEqual(
+      Object.values(PaymentStatus).sort(),
+    );
+  });
+
+  it.each([
+    [PaymentStatus.PENDING, PaymentStatus.SUCCESS],
+    [PaymentStatus.PENDING, PaymentStatus.FAILED],
+    [PaymentStatus.SUCCESS, PaymentStatus.REFUNDED],
+    [PaymentStatus.SUCCESS, PaymentStatus.PARTIALLY_REFUNDED],
+    [PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.PARTIALLY_REFUNDED],
+    [PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED],
+  ])('allows %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each([
+    [PaymentStatus.FAILED, PaymentStatus.SUCCESS],
+    [PaymentStatus.SUCCESS, PaymentStatus.PENDING],
+    [PaymentStatus.SUCCESS, PaymentStatus.FAILED],
+    [PaymentStatus.PENDING, PaymentStatus.REFUNDED],
+    [PaymentStatus.REFUNDED, PaymentStatus.SUCCESS],
+    [PaymentStatus.PENDING, PaymentStatus.PENDING],
+  ])('rejects %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+
+  it('treats failed and refunded as final', () => {
+    expect(getAllowedTransitions(PaymentStatus.FAILED)).toEqual([]);
+    expect(getAllowedTransitions(PaymentStatus.REFUNDED)).toEqual([]);
+  });
+
+  it('lists the allowed transitions in the rejection message', () => {
+    expect(
+      describeInvalidTransition(PaymentStatus.PENDING, PaymentStatus.REFUNDED),
+    ).toBe(
+      'Cannot change payment status from pending to refunded. Allowed transitions: success, failed.',
+    );
+    expect(
+      describeInvalidTransition(PaymentStatus.FAILED, PaymentStatus.SUCCESS),
+    ).toBe(
+      'Cannot change payment status from failed to success. failed is a final status.',
+    );
+  });
+
+  it('points refund statuses to the refunds endpoint', () => {
+    expect(getManualTransitions(PaymentStatus.SUCCESS)).toEqual([]);
+    expect(
+      describeInvalidTransition(PaymentStatus.SUCCESS, PaymentStatus.PENDING),
+    ).toBe(
+      'Cannot change payment status from success to pending. Refund statuses are reached through POST /payments/:id/refunds.',
+    );
+  });
+
+  it('recognises valid status values', () => {
+    expect(isPaymentStatus('partially_refunded')).toBe(true);
+    expect(isPaymentStatus('cancelled')).toBe(false);
+  });
+});
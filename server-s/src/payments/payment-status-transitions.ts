@@ -0,0 +1,81 @@
+// src/payments/payment-status-transitions.ts
+import { PaymentStatus } from './entities/payment.entity';
+
+// Allowed status changes, keyed by the current status.
+// FAILED and REFUNDED are terminal.
+export const PAYMENT_STATUS_TRANSITIONS: Readonly<
+  Record<PaymentStatus, readonly PaymentStatus[]>
+> = {
+  [PaymentStatus.PENDING]: [PaymentStatus.SUCCESS, PaymentStatus.FAILED],
+  [PaymentStatus.SUCCESS]: [
+    PaymentStatus.PARTIALLY_REFUNDED,
+    PaymentStatus.REFUNDED,
+  ],
+  [PaymentStatus.PARTIALLY_REFUNDED]: [
+    PaymentStatus.PARTIALLY_REFUNDED,
+    PaymentStatus.REFUNDED,
+  ],
+  [PaymentStatus.FAILED]: [],
+  [PaymentStatus.REFUNDED]: [],
+};
+
+// Statuses a payment may be created with
+export const INITIAL_PAYMENT_STATUSES: readonly PaymentStatus[] = [
+  PaymentStatus.PENDING,
+  PaymentStatus.SUCCESS,
+  PaymentStatus.FAILED,
+];
+
+// Refund statuses are only reached through the refunds endpoint,
+// since they need an amount to go with them
+export const MANUAL_PAYMENT_STATUSES: readonly PaymentStatus[] = [
+  PaymentStatus.PENDING,
+  PaymentStatus.SUCCESS,
+  PaymentStatus.FAILED,
+];
+
+export function isPaymentStatus(value: string): value is PaymentStatus {
+  return (Object.values(PaymentStatus) as string[]).includes(value);
+}
+
+export function getAllowedTransitions(
+  from: PaymentStatus,
+): readonly PaymentStatus[] {
+  return PAYMENT_STATUS_TRANSITIONS[from] ?? [];
+}
+
+// Transitions PATCH /payments/:id/status may make
+export function getManualTransitions(
+  from: PaymentStatus,
+): readonly PaymentStatus[] {
+  return getAllowedTransitions(from).filter((to) =>
+    MANUAL_PAYMENT_STATUSES.includes(to),
+  );
+}
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return getAllowedTransitions(from).includes(to);
+}
+
+// Human readable reason for a rejected transition. Only lists the statuses
+// that can be set directly; refund statuses are pointed to their endpoint.
+export function describeInvalidTransition(
+  from: PaymentStatus,
+  to: PaymentStatus,
+): string {
+  const allowed = getManualTransitions(from);
+  const refundable = getAllowedTransitions(from).length > allowed.length;
+  const reasons = [`Cannot change payment status from ${from} to ${to}.`];
+  if (allowed.length > 0) {
+    reasons.push(`Allowed transitions: ${allowed.join(', ')}.`);
+  }
+  if (refundable) {
+    reasons.push(
+      'Refund statuses are reached through POST /payments/:id/refunds.',
+    );
+  }
+  if (allowed.length === 0 && !refundable) {
+    reasons.push(`${from} is a final status.`);
+  }
+  return reasons.join(' ');
+}
@@ -0,0 +1,60 @@
+// src/payments/payment-stream.ts
+import { Injectable, MessageEvent } from '@nestjs/common';
+import {
+  Observable,
+  Subject,
+  filter,
+  interval,
+  map,
+  merge,
+  startWith,
+} from 'rxjs';
+import { Payment, PaymentStatus } from './entities/payment.entity';
+
+// Sent on a connection that carries no payment changes, so proxies do not
+// close it as idle
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export type PaymentStreamEvent =
+  | { type: 'payment.created'; payment: Payment }
+  | {
+      type: 'payment.status_changed';
+      payment: Payment;
+      previousStatus: PaymentStatus;
+    }
+  // Bulk imports send one event instead of one per row
+  | { type: 'payments.imported'; organizationId: number; count: number };
+
+// Fans committed payment changes out to the clients connected to
+// GET /payments/stream. Events only reach clients of this server process,
+// and only those acting in the payment's organization.
+@Injectable()
+export class PaymentStream {
+  private readonly events = new Subject<PaymentStreamEvent>();
+
+  publish(event: PaymentStreamEvent): void {
+    this.events.next(event);
+  }
+
+  // Server-sent events for one client: "ready" once connected, then every
+  // change in its organization, named after its type
+  messages(
+    organizationId: number,
+    heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS,
+  ): Observable<MessageEvent> {
+    return merge(
+      this.events.pipe(
+        filter(
+          (event) =>
+            ('payment' in event
+              ? event.payment.organizationId
+              : event.organizationId) === organizationId,
+        ),
+        map((event): MessageEvent => ({ type: event.type, data: event })),
+      ),
+      interval(heartbeatIntervalMs).pipe(
+        map((): MessageEvent => ({ type: 'heartbeat', data: {} })),
+      ),
+    ).pipe(startWith<MessageEvent>({ type: 'ready', data: {} }));
+  }
+}
@@ -122,42 +122,106 @@ import {
   ParseIntPipe,
   Patch,
   Res,
-  StreamableFile
+  StreamableFile,
+  Request,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { FileInterceptor } from '@nestjs/platform-express';
 import type { Response } from 'express'; // Fixed: import as type
 import { PaymentsService } from './payments.service';
 import { CreatePaymentDto } from './dto/create-payment.dto';
-import { JwtAuthGuard } from 'src/auth/jwt-auth-guard';
-import { PaymentFilterDto } from './dto/payment-filter.dto';
+import { JwtOrApiKeyAuthGuard } from 'src/api-keys/jwt-or-api-key-auth-guard';
+import { ApiKeyResource } from 'src/api-keys/api-key-resource.decorator';
+import { RolesGuard } from 'src/auth/roles-guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { UserRole } from 'src/users/enums/user-role.enum';
+import {
+  PaymentFilterDto,
+  PaymentListQueryDto,
+  PaymentSearchQueryDto,
+  PaymentExportQueryDto,
+  SuccessRateTrendQueryDto,
+} from './dto/payment-filter.dto';
 import { UpdatePaymentStatusDto } from './dto/update-payment-status.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { CreatePaymentNoteDto } from './dto/create-payment-note.dto';
+import { JwtUser } from 'src/auth/interfaces/jwt-user.interface';
+import { IdempotencyInterceptor } from 'src/idempotency/idempotency.interceptor';
+import { EXPORT_FORMATS } from './export/export-formats';
+import { ImportPaymentsQueryDto } from './dto/import-payments.dto';
+import { PaymentImportService } from './import/payment-import.service';
+import { PaymentStream } from './payment-stream';
+import { ActiveOrganization } from 'src/organizations/active-organization.decorator';
 
+// Largest CSV accepted by POST /payments/import
+const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+
+// Every route acts in the caller's active organization; see ActiveOrganization
 @Controller('payments')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtOrApiKeyAuthGuard, RolesGuard)
+@ApiKeyResource('payments')
 export class PaymentsController {
-  constructor(private readonly paymentsService: PaymentsService) {}
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly paymentImportService: PaymentImportService,
+    private readonly paymentStream: PaymentStream,
+  ) {}
 
+  // Accepts an Idempotency-Key header so clients can safely retry
   @Post()
-  create(@Body(ValidationPipe) createPaymentDto: CreatePaymentDto) {
-    return this.paymentsService.create(createPaymentDto);
+  @Roles(UserRole.ADMIN)
+  @UseInterceptors(IdempotencyInterceptor)
+  create(
+    @ActiveOrganization() organizationId: number,
+    @Body(ValidationPipe) createPaymentDto: CreatePaymentDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.paymentsService.create(
+      organizationId,
+      createPaymentDto,
+      req.user,
+    );
   }
 
   @Get()
   findAll(
-    @Query(ValidationPipe) filters: PaymentFilterDto,
-    @Query('page', ParseIntPipe) page: number = 1,
-    @Query('limit', ParseIntPipe) limit: number = 10,
+    @ActiveOrganization() organizationId: number,
+    @Query(ValidationPipe) query: PaymentListQueryDto,
   ) {
-    return this.paymentsService.findAll(filters, page, limit);
+    return this.paymentsService.findAll(organizationId, query);
   }
 
   // Enhanced stats endpoint with comprehensive data
   @Get('stats')
-  async getStats() {
-    const stats = await this.paymentsService.getStats();
-    const paymentMethods = await this.paymentsService.getPaymentMethodsBreakdown();
-    const statusBreakdown = await this.paymentsService.getStatusBreakdown();
-    const recentTransactions = await this.paymentsService.getRecentTransactions(5);
-    const revenueTrend = await this.paymentsService.getRevenueTrend(7);
+  async getStats(
+    @ActiveOrganization() organizationId: number,
+    @Query(ValidationPipe) filters: PaymentFilterDto,
+  ) {
+    const stats = await this.paymentsService.getStats(organizationId, filters);
+    const paymentMethods =
+      await this.paymentsService.getPaymentMethodsBreakdown(
+        organizationId,
+        filters,
+      );
+    const statusBreakdown = await this.paymentsService.getStatusBreakdown(
+      organizationId,
+      filters,
+    );
+    const recentTransactions = await this.paymentsService.getRecentTransactions(
+      organizationId,
+      5,
+      filters,
+    );
+    const revenueTrend = await this.paymentsService.getRevenueTrend(
+      organizationId,
+      7,
+      filters,
+    );
 
     return {
       ...stats,
@@ -170,54 +234,243 @@ export class PaymentsController {
 
   // Quick stats for additional metrics
   @Get('quick-stats')
-  getQuickStats() {
-    return this.paymentsService.getQuickStats();
+  getQuickStats(
+    @ActiveOrganization() organizationId: number,
+    @Query(ValidationPipe) filters: PaymentFilterDto,
+  ) {
+    return this.paymentsService.getQuickStats(organizationId, filters);
+  }
+
+  // Server-sent events for payment creates and status changes. Uses the
+  // same bearer token as every other route, so clients read it with fetch
+  // rather than EventSource, which cannot send headers.
+  @Sse('stream')
+  stream(
+    @ActiveOrganization() organizationId: number,
+  ): Observable<MessageEvent> {
+    return this.paymentStream.messages(organizationId);
+  }
+
+  // Ranked search over receiver, description and transaction id
+  @Get('search')
+  search(
+    @ActiveOrganization() organizationId: number,
+    @Query(ValidationPipe) query: PaymentSearchQueryDto,
+  ) {
+    return this.paymentsService.search(organizationId, query);
+  }
+
+  // Status transition rules, so clients only offer valid status changes
+  @Get('status-transitions')
+  getStatusTransitions() {
+    return this.paymentsService.getStatusTransitions();
   }
 
-  // Export transactions to CSV
+  // Export transactions as CSV, XLSX, JSON or NDJSON
   @Get('export')
-  async exportTransactions(
-    @Query(ValidationPipe) filters: PaymentFilterDto,
+  exportTransactions(
+    @ActiveOrganization() organizationId: number,
+    @Query(ValidationPipe) query: PaymentExportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): StreamableFile {
+    const file = this.paymentsService.exportPayments(organizationId, query);
+    const { contentType, extension } = EXPORT_FORMATS[query.format ?? 'csv'];
+    const filename = `transactions_${new Date().toISOString().split('T')[0]}.${extension}`;
+
+    res.set(
+      query.gzip
+        ? {
+            'Content-Type': 'application/gzip',
+            'Content-Disposition': `attachment; filename="${filename}.gz"`,
+          }
+        : {
+            'Content-Type': contentType,
+            'Content-Disposition': `attachment; filename="${filename}"`,
+          },
+    );
+
+    // pipe() only pauses the export when the client goes away; destroying it
+    // stops the writers and closes the database cursor
+    res.once('close', () => file.destroy());
+
+    return new StreamableFile(file);
+  }
+
+  // Bulk import from a CSV upload in the "file" field; ?dryRun=true only validates
+  @Post('import')
+  @Roles(UserRole.ADMIN)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }),
+  )
+  importPayments(
+    @ActiveOrganization() organizationId: number,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query(ValidationPipe) query: ImportPaymentsQueryDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    if (!file) {
+      throw new BadRequestException('Upload a CSV file in the "file" field');
+    }
+    return this.paymentImportService.importCsv(
+      organizationId,
+      file,
+      query.dryRun ?? false,
+      req.user,
+    );
+  }
+
+  @Get('import/:jobId')
+  @Roles(UserRole.ADMIN)
+  getImportJob(
+    @ActiveOrganization() organizationId: number,
+    @Param('jobId', ParseIntPipe) jobId: number,
+  ) {
+    return this.paymentImportService.findJob(organizationId, jobId);
+  }
+
+  // The rows an import rejected, with their errors, as CSV
+  @Get('import/:jobId/rejected')
+  @Roles(UserRole.ADMIN)
+  async downloadRejectedRows(
+    @ActiveOrganization() organizationId: number,
+    @Param('jobId', ParseIntPipe) jobId: number,
     @Res({ passthrough: true }) res: Response,
   ): Promise<StreamableFile> {
-    const csvBuffer = await this.paymentsService.exportToCSV(filters);
-    
+    const csv = await this.paymentImportService.getRejectedRowsCsv(
+      organizationId,
+      jobId,
+    );
+
     res.set({
-      'Content-Type': 'text/csv',
-      'Content-Disposition': `attachment; filename="transactions_${new Date().toISOString().split('T')[0]}.csv"`,
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="import_${jobId}_rejected.csv"`,
     });
 
-    return new StreamableFile(csvBuffer);
+    return new StreamableFile(csv);
   }
 
   // Get transaction details
   @Get(':id')
-  findOne(@Param('id', ParseIntPipe) id: number) {
-    return this.paymentsService.findOne(id);
+  findOne(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.paymentsService.findOne(organizationId, id);
   }
 
   // Update payment status
   @Patch(':id/status')
+  @Roles(UserRole.ADMIN)
   updateStatus(
+    @ActiveOrganization() organizationId: number,
     @Param('id', ParseIntPipe) id: number,
     @Body(ValidationPipe) updateStatusDto: UpdatePaymentStatusDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.paymentsService.updateStatus(
+      organizationId,
+      id,
+      updateStatusDto.status,
+      req.user,
+      updateStatusDto.reason,
+    );
+  }
+
+  // Status changes, refunds and notes, oldest first
+  @Get(':id/history')
+  getHistory(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.paymentsService.getHistory(organizationId, id);
+  }
+
+  @Post(':id/notes')
+  @Roles(UserRole.ADMIN)
+  addNote(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body(ValidationPipe) createNoteDto: CreatePaymentNoteDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.paymentsService.addNote(
+      organizationId,
+      id,
+      createNoteDto,
+      req.user,
+    );
+  }
+
+  // Refund a payment (full refund when no amount is given)
+  @Post(':id/refunds')
+  @Roles(UserRole.ADMIN)
+  createRefund(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body(ValidationPipe) createRefundDto: CreateRefundDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.paymentsService.createRefund(
+      organizationId,
+      id,
+      createRefundDto,
+      req.user,
+    );
+  }
+
+  // Ask the gateway again about a refund left pending without an answer
+  @Post(':id/refunds/:refundId/retry')
+  @Roles(UserRole.ADMIN)
+  retryRefund(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('refundId', ParseIntPipe) refundId: number,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.paymentsService.retryRefund(
+      organizationId,
+      id,
+      refundId,
+      req.user,
+    );
+  }
+
+  // List refunds for a payment
+  @Get(':id/refunds')
+  findRefunds(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
   ) {
-    return this.paymentsService.updateStatus(id, updateStatusDto.status);
+    return this.paymentsService.findRefunds(organizationId, id);
   }
 
   // Get payment analytics
   @Get('analytics/revenue-by-method')
-  getRevenueByMethod() {
-    return this.paymentsService.getRevenueByMethod();
+  getRevenueByMethod(
+    @ActiveOrganization() organizationId: number,
+    @Query(ValidationPipe) filters: PaymentFilterDto,
+  ) {
+    return this.paymentsService.getRevenueByMethod(organizationId, filters);
   }
 
   @Get('analytics/hourly-distribution')
-  getHourlyDistribution() {
-    return this.paymentsService.getHourlyDistribution();
+  getHourlyDistribution(
+    @ActiveOrganization() organizationId: number,
+    @Query(ValidationPipe) filters: PaymentFilterDto,
+  ) {
+    return this.paymentsService.getHourlyDistribution(organizationId, filters);
   }
 
   @Get('analytics/success-rate-trend')
-  getSuccessRateTrend(@Query('days', ParseIntPipe) days: number = 30) {
-    return this.paymentsService.getSuccessRateTrend(days);
+  getSuccessRateTrend(
+    @ActiveOrganization() organizationId: number,
+    @Query(ValidationPipe) query: SuccessRateTrendQueryDto,
+  ) {
+    const { days, ...filters } = query;
+    return this.paymentsService.getSuccessRateTrend(
+      organizationId,
+      days,
+      filters,
+    );
   }
 }
\ No newline at end of file
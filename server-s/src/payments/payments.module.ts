@@ -3,10 +3,37 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { PaymentsService } from './payments.service';
 import { PaymentsController } from './payments.controller';
 import { Payment } from './entities/payment.entity';
+import { Refund } from './entities/refund.entity';
+import { PaymentEvent } from './entities/payment-event.entity';
+import { PaymentImportJob } from './entities/payment-import-job.entity';
+import { PaymentImportService } from './import/payment-import.service';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { PAYMENT_PROVIDERS } from './providers/payment-provider.interface';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { MockPaymentProvider } from './providers/mock-payment.provider';
+import { PaymentStatusPoller } from './providers/payment-status-poller';
+import { WebhookSubscriptionsModule } from '../webhook-subscriptions/webhook-subscriptions.module';
+import { PaymentStream } from './payment-stream';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Payment])],
+  imports: [
+    TypeOrmModule.forFeature([Payment, Refund, PaymentEvent, PaymentImportJob]),
+    IdempotencyModule,
+    WebhookSubscriptionsModule,
+  ],
   controllers: [PaymentsController],
-  providers: [PaymentsService],
+  providers: [
+    PaymentsService,
+    PaymentImportService,
+    PaymentProviderRegistry,
+    PaymentStatusPoller,
+    PaymentStream,
+    // Add real gateways to this list; PAYMENT_PROVIDER picks the default
+    {
+      provide: PAYMENT_PROVIDERS,
+      useFactory: () => [new MockPaymentProvider()],
+    },
+  ],
+  exports: [PaymentsService, PaymentProviderRegistry],
 })
 export class PaymentsModule {}
\ No newline at end of file
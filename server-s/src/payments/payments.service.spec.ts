@@ -0,0 +1,596 @@
+import { PaymentsService } from './payments.service';
+import {
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+} from './entities/payment.entity';
+import { Refund } from './entities/refund.entity';
+import { RefundStatus } from './enums/refund-status.enum';
+import { PaymentEventType } from './enums/payment-event-type.enum';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import {
+  MockOutcome,
+  MockPaymentProvider,
+} from './providers/mock-payment.provider';
+
+const ORG = 1;
+
+describe('PaymentsService provider lifecycle', () => {
+  const setup = (outcome: MockOutcome) => {
+    const rows = new Map<number, Payment>();
+    const events: { type: PaymentEventType; newValue?: string }[] = [];
+    const refunds: Refund[] = [];
+    let inTransaction = false;
+
+    const findOne = (
+      entity: unknown,
+      { where }: { where: Partial<Payment> },
+    ) => {
+      const row =
+        entity === Refund ? refunds[where.id! - 1] : rows.get(where.id!);
+      return Promise.resolve(
+        row &&
+          Object.entries(where).every(
+            ([key, value]) => row[key as keyof Payment] === value,
+          )
+          ? { ...row }
+          : null,
+      ) as Promise<Payment | null>;
+    };
+    const manager = {
+      // Mirrors the column default Postgres returns on insert
+      create: (_entity: unknown, values: object) => ({
+        refundedAmount: 0,
+        ...values,
+      }),
+      save: jest.fn((entity: Payment & { type?: PaymentEventType }) => {
+        if (entity.type) {
+          events.push(entity as never);
+        } else if ('paymentId' in entity) {
+          const refund = { ...entity, id: entity.id ?? refunds.length + 1 };
+          refunds[refund.id - 1] = refund as never;
+          return Promise.resolve({ ...refund });
+        } else {
+          const id = entity.id ?? rows.size + 1;
+          rows.set(id, { ...entity, id });
+        }
+        return Promise.resolve({ ...entity, id: entity.id ?? rows.size });
+      }),
+      findOne: jest.fn(findOne),
+      findOneOrFail: jest.fn(findOne),
+      sum: jest.fn(
+        (_entity: unknown, column: 'amount', where: Partial<Refund>) =>
+          Promise.resolve(
+            refunds
+              .filter((refund) =>
+                Object.entries(where).every(
+                  ([key, value]) => refund[key as keyof Refund] === value,
+                ),
+              )
+              .reduce((sum, refund) => sum + refund[column], 0),
+          ),
+      ),
+    };
+    const paymentsRepository = {
+      manager: {
+        // Rolls the rows back when the work fails
+        transaction: async (work: (m: typeof manager) => Promise<unknown>) => {
+          const saved = {
+            rows: new Map([...rows].map(([id, row]) => [id, { ...row }])),
+            refunds: refunds.map((refund) => ({ ...refund })),
+          };
+          inTransaction = true;
+          try {
+            return await work(manager);
+          } catch (error) {
+            rows.clear();
+            saved.rows.forEach((row, id) => rows.set(id, row));
+            refunds.splice(0, refunds.length, ...saved.refunds);
+            throw error;
+          } finally {
+            inTransaction = false;
+          }
+        },
+      },
+      find: jest.fn(() =>
+        Promise.resolve(
+          [...rows.values()].filter(
+            (row) => row.status === PaymentStatus.PENDING,
+          ),
+        ),
+      ),
+      // Matches any of the OR-ed conditions
+      findOne: jest.fn(
+        ({ where }: { where: Partial<Payment> | Partial<Payment>[] }) =>
+          Promise.resolve(
+            [...rows.values()].find((row) =>
+              [where]
+                .flat()
+                .some((condition) =>
+                  Object.entries(condition).every(
+                    ([key, value]) => row[key as keyof Payment] === value,
+                  ),
+                ),
+            ) ?? null,
+          ),
+      ),
+    };
+    const webhookPublisher = { publish: jest.fn() };
+    const paymentStream = { publish: jest.fn() };
+    const provider = new MockPaymentProvider({ outcome, delayMs: 0 });
+    const refundsRepository = {
+      findOne: ({ where }: { where: Partial<Refund> }) =>
+        findOne(Refund, { where } as never),
+    };
+    const service = new PaymentsService(
+      paymentsRepository as never,
+      refundsRepository as never,
+      {} as never,
+      new PaymentProviderRegistry([provider]),
+      webhookPublisher as never,
+      paymentStream as never,
+    );
+
+    return {
+      service,
+      provider,
+      rows,
+      events,
+      refunds,
+      inTransaction: () => inTransaction,
+      paymentsRepository,
+      webhookPublisher,
+      paymentStream,
+    };
+  };
+
+  const dto = {
+    amount: 250,
+    receiver: 'John Doe',
+    method: PaymentMethod.UPI,
+  };
+
+  it('creates the payment pending and settles it as captured', async () => {
+    const { service, events } = setup('success');
+
+    const payment = await service.create(ORG, dto);
+
+    expect(payment).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.SUCCESS,
+        provider: 'mock',
+        providerReference: expect.stringMatching(/^mock_/) as string,
+      }),
+    );
+    expect(events.map(({ type, newValue }) => [type, newValue])).toEqual([
+      [PaymentEventType.CREATED, PaymentStatus.PENDING],
+      [PaymentEventType.STATUS_CHANGED, PaymentStatus.SUCCESS],
+    ]);
+  });
+
+  it('queues webhooks in the same transaction as each change', async () => {
+    const { service, webhookPublisher } = setup('success');
+
+    const payment = await service.create(ORG, dto);
+    await service.createRefund(ORG, payment.id, { amount: 100 });
+
+    expect(
+      webhookPublisher.publish.mock.calls.map(
+        ([, organizationId, type]: unknown[]) => [organizationId, type],
+      ),
+    ).toEqual([
+      [ORG, 'payment.created'],
+      [ORG, 'payment.status_changed'],
+      [ORG, 'refund.created'],
+      [ORG, 'payment.status_changed'],
+    ]);
+    expect(webhookPublisher.publish).toHaveBeenLastCalledWith(
+      expect.anything(),
+      ORG,
+      'payment.status_changed',
+      {
+        payment: expect.objectContaining({
+          status: PaymentStatus.PARTIALLY_REFUNDED,
+        }) as Payment,
+        previousStatus: PaymentStatus.SUCCESS,
+      },
+    );
+  });
+
+  it('streams each change once its transaction commits', async () => {
+    const { service, paymentStream } = setup('fail');
+
+    await service.create(ORG, dto);
+
+    expect(paymentStream.publish.mock.calls).toEqual([
+      [expect.objectContaining({ type: 'payment.created' })],
+      [
+        expect.objectContaining({
+          type: 'payment.status_changed',
+          previousStatus: PaymentStatus.PENDING,
+        }),
+      ],
+    ]);
+
+    paymentStream.publish.mockClear();
+    await expect(
+      service.updateStatus(ORG, 1, PaymentStatus.PENDING),
+    ).rejects.toThrow();
+    expect(paymentStream.publish).not.toHaveBeenCalled();
+  });
+
+  it('marks declined payments as failed with the reason', async () => {
+    const { service } = setup('fail');
+
+    const payment = await service.create(ORG, dto);
+
+    expect(payment.status).toBe(PaymentStatus.FAILED);
+    expect(payment.failureReason).toBe('Declined by mock provider');
+  });
+
+  it('leaves pending payments for the poller to settle', async () => {
+    const { service, provider, rows } = setup('pending');
+
+    const payment = await service.create(ORG, dto);
+    expect(payment.status).toBe(PaymentStatus.PENDING);
+
+    expect(await service.syncPendingPayments()).toBe(0);
+
+    jest.spyOn(provider, 'getStatus').mockResolvedValue({
+      providerReference: payment.providerReference!,
+      status: 'captured',
+    });
+    expect(await service.syncPendingPayments()).toBe(1);
+    expect(rows.get(payment.id)?.status).toBe(PaymentStatus.SUCCESS);
+  });
+
+  it('applies updates reported by the provider on its own', async () => {
+    const { service, paymentsRepository } = setup('pending');
+    const payment = await service.create(ORG, dto);
+
+    const result = await service.applyProviderUpdate('mock', {
+      reference: payment.transactionId,
+      status: 'failed',
+      failureReason: 'Card declined',
+    });
+
+    expect(paymentsRepository.findOne).toHaveBeenCalledWith({
+      where: [{ provider: 'mock', transactionId: payment.transactionId }],
+    });
+    expect(result?.previousStatus).toBe(PaymentStatus.PENDING);
+    expect(result?.payment).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.FAILED,
+        failureReason: 'Card declined',
+      }),
+    );
+  });
+
+  it('refunds through the provider that took the payment', async () => {
+    const { service, provider, refunds } = setup('success');
+    const payment = await service.create(ORG, dto);
+    const refund = jest.spyOn(provider, 'refund');
+
+    await service.createRefund(ORG, payment.id, { amount: 100 });
+
+    expect(refund).toHaveBeenCalledWith(
+      payment.providerReference,
+      100,
+      'refund_1',
+    );
+    expect(refunds).toEqual([
+      expect.objectContaining({
+        amount: 100,
+        status: RefundStatus.SUCCEEDED,
+        providerReference: expect.stringMatching(/^mock_refund_/) as string,
+      }),
+    ]);
+  });
+
+  it('gives a declined refund back to the refundable balance', async () => {
+    const { service, provider, rows, refunds } = setup('success');
+    const payment = await service.create(ORG, dto);
+    jest.spyOn(provider, 'refund').mockResolvedValueOnce({
+      providerRefundReference: 'mock_refund_declined',
+      status: 'failed',
+      failureReason: 'Insufficient balance',
+    });
+
+    await expect(
+      service.createRefund(ORG, payment.id, { amount: 50 }),
+    ).rejects.toThrow('Refund declined by mock: Insufficient balance');
+
+    expect(refunds).toEqual([
+      expect.objectContaining({
+        status: RefundStatus.FAILED,
+        failureReason: 'Insufficient balance',
+      }),
+    ]);
+    expect(rows.get(payment.id)).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.SUCCESS,
+        refundedAmount: 0,
+      }),
+    );
+  });
+
+  it('asks the gateway outside any transaction, with the amount reserved', async () => {
+    const { service, provider, rows, refunds, inTransaction } =
+      setup('success');
+    const payment = await service.create(ORG, dto);
+    const refund = jest.spyOn(provider, 'refund').mockImplementation(() => {
+      expect(inTransaction()).toBe(false);
+      expect(rows.get(payment.id)?.refundedAmount).toBe(100);
+      expect(refunds).toEqual([
+        expect.objectContaining({ status: RefundStatus.PENDING }),
+      ]);
+      return Promise.resolve({
+        providerRefundReference: 'mock_refund_1',
+        status: 'succeeded',
+      });
+    });
+
+    await service.createRefund(ORG, payment.id, { amount: 100 });
+
+    expect(refund).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the refund reserved when its outcome is unknown', async () => {
+    const { service, provider, webhookPublisher, rows, refunds } =
+      setup('success');
+    const payment = await service.create(ORG, dto);
+
+    jest
+      .spyOn(provider, 'refund')
+      .mockRejectedValueOnce(new Error('socket hang up'));
+    await expect(
+      service.createRefund(ORG, payment.id, { amount: 100 }),
+    ).rejects.toThrow('Refund 1 is pending: mock did not answer');
+
+    // The gateway refunded, but settling it failed
+    webhookPublisher.publish.mockRejectedValueOnce(new Error('db down'));
+    await expect(
+      service.createRefund(ORG, payment.id, { amount: 50 }),
+    ).rejects.toThrow('db down');
+
+    expect(refunds).toEqual([
+      expect.objectContaining({ amount: 100, status: RefundStatus.PENDING }),
+      expect.objectContaining({ amount: 50, status: RefundStatus.PENDING }),
+    ]);
+    expect(rows.get(payment.id)).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.SUCCESS,
+        refundedAmount: 150,
+      }),
+    );
+    await expect(
+      service.createRefund(ORG, payment.id, { amount: 150 }),
+    ).rejects.toThrow('exceeds the refundable balance of 100.00');
+  });
+
+  it('settles a pending refund once the gateway answers a retry', async () => {
+    const { service, provider, rows, refunds } = setup('success');
+    const payment = await service.create(ORG, dto);
+    const refund = jest
+      .spyOn(provider, 'refund')
+      .mockRejectedValueOnce(new Error('socket hang up'));
+    await expect(
+      service.createRefund(ORG, payment.id, { amount: 100 }),
+    ).rejects.toThrow('Refund 1 is pending');
+
+    await expect(service.retryRefund(ORG + 1, payment.id, 1)).rejects.toThrow(
+      `Payment with ID ${payment.id} not found`,
+    );
+    const settled = await service.retryRefund(ORG, payment.id, 1);
+
+    expect(refund).toHaveBeenLastCalledWith(
+      payment.providerReference,
+      100,
+      'refund_1',
+    );
+    expect(settled.status).toBe(RefundStatus.SUCCEEDED);
+    expect(rows.get(payment.id)).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.PARTIALLY_REFUNDED,
+        refundedAmount: 100,
+      }),
+    );
+    await expect(service.retryRefund(ORG, payment.id, 1)).rejects.toThrow(
+      'Refund 1 is already succeeded',
+    );
+    expect(refunds).toHaveLength(1);
+  });
+
+  it('releases a pending refund the gateway declines on retry', async () => {
+    const { service, provider, rows, refunds } = setup('success');
+    const payment = await service.create(ORG, dto);
+    jest
+      .spyOn(provider, 'refund')
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce({
+        providerRefundReference: 'mock_refund_declined',
+        status: 'failed',
+        failureReason: 'Insufficient balance',
+      });
+    await expect(service.createRefund(ORG, payment.id, {})).rejects.toThrow(
+      'Refund 1 is pending',
+    );
+
+    await expect(service.retryRefund(ORG, payment.id, 1)).rejects.toThrow(
+      'Refund declined by mock: Insufficient balance',
+    );
+
+    expect(refunds[0].status).toBe(RefundStatus.FAILED);
+    expect(rows.get(payment.id)?.refundedAmount).toBe(0);
+    await service.createRefund(ORG, payment.id, {});
+    expect(rows.get(payment.id)?.status).toBe(PaymentStatus.REFUNDED);
+  });
+
+  it('refuses to refund a balance that pending refunds already hold', async () => {
+    const { service, provider, webhookPublisher, rows, refunds } =
+      setup('success');
+    const payment = await service.create(ORG, dto);
+    jest
+      .spyOn(provider, 'refund')
+      .mockRejectedValueOnce(new Error('socket hang up'));
+    await expect(service.createRefund(ORG, payment.id, {})).rejects.toThrow(
+      'Refund 1 is pending',
+    );
+    webhookPublisher.publish.mockClear();
+
+    await expect(service.createRefund(ORG, payment.id, {})).rejects.toThrow(
+      'The payment has nothing left to refund',
+    );
+    expect(refunds).toHaveLength(1);
+    expect(rows.get(payment.id)?.status).toBe(PaymentStatus.SUCCESS);
+    expect(webhookPublisher.publish).not.toHaveBeenCalled();
+  });
+
+  it('refuses refunds above the refundable balance', async () => {
+    const { service, rows, refunds } = setup('success');
+    const payment = await service.create(ORG, dto);
+
+    await expect(
+      service.createRefund(ORG, payment.id, { amount: 250.01 }),
+    ).rejects.toThrow('exceeds the refundable balance of 250.00');
+
+    await service.createRefund(ORG, payment.id, { amount: 100 });
+    await expect(
+      service.createRefund(ORG, payment.id, { amount: 200 }),
+    ).rejects.toThrow('exceeds the refundable balance of 150.00');
+    expect(refunds).toHaveLength(1);
+    expect(rows.get(payment.id)?.refundedAmount).toBe(100);
+  });
+
+  it('marks partial refunds until the whole amount is refunded', async () => {
+    const { service, rows, refunds } = setup('success');
+    const payment = await service.create(ORG, dto);
+
+    await service.createRefund(ORG, payment.id, { amount: 100 });
+    expect(rows.get(payment.id)).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.PARTIALLY_REFUNDED,
+        refundedAmount: 100,
+      }),
+    );
+
+    await service.createRefund(ORG, payment.id, { amount: 50 });
+    expect(rows.get(payment.id)).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.PARTIALLY_REFUNDED,
+        refundedAmount: 150,
+      }),
+    );
+
+    // Without an amount the rest of the balance is refunded
+    await service.createRefund(ORG, payment.id, {});
+    expect(rows.get(payment.id)).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.REFUNDED,
+        refundedAmount: 250,
+      }),
+    );
+    expect(refunds.map((refund) => refund.amount)).toEqual([100, 50, 100]);
+  });
+
+  it('adds refunds up in cents', async () => {
+    const { service, rows } = setup('success');
+    const payment = await service.create(ORG, { ...dto, amount: 0.3 });
+
+    await service.createRefund(ORG, payment.id, { amount: 0.1 });
+    await service.createRefund(ORG, payment.id, { amount: 0.2 });
+
+    expect(rows.get(payment.id)).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.REFUNDED,
+        refundedAmount: 0.3,
+      }),
+    );
+  });
+
+  it('treats payments of another organization as missing', async () => {
+    const { service, refunds } = setup('success');
+    const payment = await service.create(ORG, dto);
+
+    await expect(
+      service.createRefund(ORG + 1, payment.id, { amount: 100 }),
+    ).rejects.toThrow(`Payment with ID ${payment.id} not found`);
+    await expect(
+      service.updateStatus(ORG + 1, payment.id, PaymentStatus.REFUNDED),
+    ).rejects.toThrow(`Payment with ID ${payment.id} not found`);
+    expect(refunds).toHaveLength(0);
+  });
+});
+
+// Records how each analytics query is built
+class FakeQueryBuilder {
+  alias = 'payment';
+  wheres: [string, Record<string, unknown>?][] = [];
+  andWheres: string[] = [];
+
+  where(condition: string, parameters?: Record<string, unknown>) {
+    this.wheres.push([condition, parameters]);
+    return this;
+  }
+
+  andWhere(condition: string) {
+    this.andWheres.push(condition);
+    return this;
+  }
+
+  select = () => this;
+  addSelect = () => this;
+  groupBy = () => this;
+  orderBy = () => this;
+  addOrderBy = () => this;
+  setParameter = () => this;
+  limit = () => this;
+  offset = () => this;
+  take = () => this;
+  getCount = () => Promise.resolve(0);
+  getRawOne = () => Promise.resolve(undefined);
+  getRawMany = () => Promise.resolve([]);
+  getMany = () => Promise.resolve([]);
+  getRawAndEntities = () => Promise.resolve({ entities: [], raw: [] });
+}
+
+describe('PaymentsService organization scope', () => {
+  it('limits every list and analytics query to the organization', async () => {
+    const builders: FakeQueryBuilder[] = [];
+    const paymentsRepository = {
+      createQueryBuilder: () => {
+        builders.push(new FakeQueryBuilder());
+        return builders[builders.length - 1];
+      },
+    };
+    const service = new PaymentsService(
+      paymentsRepository as never,
+      {} as never,
+      {} as never,
+      new PaymentProviderRegistry([new MockPaymentProvider()]),
+      {} as never,
+      {} as never,
+    );
+    const filters = { status: PaymentStatus.SUCCESS };
+
+    await service.findAll(7, { ...filters, page: 2 });
+    await service.search(7, { ...filters, q: 'doe' });
+    await service.getStats(7, filters);
+    await service.getQuickStats(7, filters);
+    await service.getPaymentMethodsBreakdown(7, filters);
+    await service.getStatusBreakdown(7, filters);
+    await service.getRecentTransactions(7, 5, filters);
+    await service.getRevenueByMethod(7, filters);
+    await service.getHourlyDistribution(7, filters);
+    await service.getSuccessRateTrend(7, 30, filters);
+
+    expect(builders.length).toBeGreaterThan(10);
+    for (const builder of builders) {
+      // Filters are and-ed onto the organization, never replacing it
+      expect(builder.wheres).toEqual([
+        ['payment.organizationId = :organizationId', { organizationId: 7 }],
+      ]);
+      expect(builder.andWheres).toContain('payment.status = :filterStatus');
+    }
+  });
+});
@@ -1,62 +1,359 @@
 // src/payments/payments.service.ts
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, BadGatewayException, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between, FindManyOptions } from 'typeorm';
+import { Repository, EntityManager, IsNull, Not } from 'typeorm';
+import { Readable, pipeline } from 'stream';
+import { createGzip } from 'zlib';
 import { Payment, PaymentStatus } from './entities/payment.entity';
+import { Refund } from './entities/refund.entity';
+import { RefundStatus } from './enums/refund-status.enum';
+import { PaymentEvent } from './entities/payment-event.entity';
+import { PaymentEventType } from './enums/payment-event-type.enum';
 import { CreatePaymentDto } from './dto/create-payment.dto';
-import { PaymentFilterDto } from './dto/payment-filter.dto';
+import {
+  PaymentFilterDto,
+  PaymentListQueryDto,
+  PaymentSearchQueryDto,
+  PaymentExportQueryDto,
+} from './dto/payment-filter.dto';
+import { applyPaymentFilters } from './payment-filter.query';
+import { generateTransactionId } from './transaction-id';
+import {
+  CURSOR_VALUE_ALIAS,
+  CursorDirection,
+  PaymentSortField,
+  SortOrder,
+  applyPaymentSort,
+  decodeCursor,
+  encodeCursor,
+} from './payment-pagination';
+import { streamRawRows } from '../database/query-cursor';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  ExportColumn,
+  ExportRow,
+} from './export/export-columns';
+import { csvChunks, jsonChunks, ndjsonChunks } from './export/export-formats';
+import { SummaryTable, writePaymentsWorkbook } from './export/xlsx';
+import {
+  PAYMENT_SEARCH_FIELDS,
+  SEARCH_RANK_ALIAS,
+  applyPaymentSearch,
+  matchedFieldAlias,
+} from './payment-search.query';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { CreatePaymentNoteDto } from './dto/create-payment-note.dto';
+import { JwtUser } from '../auth/interfaces/jwt-user.interface';
+import {
+  PAYMENT_STATUS_TRANSITIONS,
+  INITIAL_PAYMENT_STATUSES,
+  MANUAL_PAYMENT_STATUSES,
+  canTransition,
+  describeInvalidTransition,
+  getManualTransitions,
+  isPaymentStatus,
+} from './payment-status-transitions';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import {
+  PaymentProvider,
+  ProviderPaymentResult,
+  ProviderPaymentStatus,
+  ProviderRefundResult,
+  ProviderWebhookEvent,
+} from './providers/payment-provider.interface';
+import { WebhookPublisher } from '../webhook-subscriptions/webhook-publisher';
+import { PaymentStream, PaymentStreamEvent } from './payment-stream';
+
+// Statuses whose (net) amount counts towards revenue
+const REVENUE_STATUSES = [
+  PaymentStatus.SUCCESS,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+// Gateway states that settle a pending payment; the rest leave it pending
+const SETTLED_BY_PROVIDER: Partial<
+  Record<ProviderPaymentStatus, PaymentStatus>
+> = {
+  captured: PaymentStatus.SUCCESS,
+  failed: PaymentStatus.FAILED,
+};
+
+// Pending payments re-checked per polling round
+const PENDING_SYNC_BATCH_SIZE = 100;
 
 @Injectable()
 export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
   constructor(
     @InjectRepository(Payment)
     private paymentsRepository: Repository<Payment>,
+    @InjectRepository(Refund)
+    private refundsRepository: Repository<Refund>,
+    @InjectRepository(PaymentEvent)
+    private paymentEventsRepository: Repository<PaymentEvent>,
+    private providerRegistry: PaymentProviderRegistry,
+    private webhookPublisher: WebhookPublisher,
+    private paymentStream: PaymentStream,
   ) {}
 
-  async create(createPaymentDto: CreatePaymentDto): Promise<Payment> {
-    const payment = this.paymentsRepository.create({
-      ...createPaymentDto,
-      transactionId: this.generateTransactionId(),
+  // Records the payment as pending, then has the default provider authorize
+  // and capture it. The returned payment carries the outcome: success,
+  // failed, or still pending when the gateway settles later.
+  async create(
+    organizationId: number,
+    createPaymentDto: CreatePaymentDto,
+    actor?: JwtUser,
+  ): Promise<Payment> {
+    const provider = this.providerRegistry.defaultProvider;
+
+    const payment = await this.withStreamEvents(
+      async (manager, streamEvents) => {
+        const savedPayment = await manager.save(
+          manager.create(Payment, {
+            ...createPaymentDto,
+            organizationId,
+            status: PaymentStatus.PENDING,
+            provider: provider.name,
+            transactionId: generateTransactionId(),
+          }),
+        );
+
+        await this.recordEvent(
+          manager,
+          savedPayment.id,
+          PaymentEventType.CREATED,
+          actor,
+          { newValue: savedPayment.status },
+        );
+        await this.webhookPublisher.publish(
+          manager,
+          savedPayment.organizationId,
+          'payment.created',
+          { payment: savedPayment },
+        );
+        streamEvents.push({ type: 'payment.created', payment: savedPayment });
+
+        return savedPayment;
+      },
+    );
+
+    return this.processWithProvider(payment, provider);
+  }
+
+  // Re-checks payments a gateway left pending. Returns how many settled.
+  // Runs for every organization and returns nothing of the payments, like
+  // applyProviderUpdate: gateways know payments by their own ids only.
+  async syncPendingPayments(): Promise<number> {
+    const pending = await this.paymentsRepository.find({
+      where: {
+        status: PaymentStatus.PENDING,
+        providerReference: Not(IsNull()),
+      },
+      order: { createdAt: 'ASC' },
+      take: PENDING_SYNC_BATCH_SIZE,
     });
-    return this.paymentsRepository.save(payment);
+
+    let settled = 0;
+    for (const payment of pending) {
+      try {
+        const provider = this.providerRegistry.get(payment.provider!);
+        let result = await provider.getStatus(payment.providerReference!);
+        if (result.status === 'authorized') {
+          result = await provider.capture(
+            result.providerReference,
+            Number(payment.amount),
+          );
+        }
+
+        const updated = await this.applyProviderResult(payment.id, result);
+        if (updated.status !== PaymentStatus.PENDING) {
+          settled++;
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Could not check payment ${payment.id} with ${payment.provider}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return settled;
   }
 
-  async findAll(filters: PaymentFilterDto, page: number = 1, limit: number = 10) {
-    const where: any = {};
-    
-    if (filters.status) {
-      where.status = filters.status;
+  // Applies a status a gateway reported on its own, e.g. through a webhook.
+  // The payment is found by the gateway's id, or by our transactionId when
+  // the event beats the authorize response. Null when no payment matches.
+  async applyProviderUpdate(
+    providerName: string,
+    update: Omit<ProviderWebhookEvent, 'eventId' | 'type'> & {
+      status: ProviderPaymentStatus;
+    },
+  ): Promise<{ payment: Payment; previousStatus: PaymentStatus } | null> {
+    const where = [
+      update.providerReference && {
+        provider: providerName,
+        providerReference: update.providerReference,
+      },
+      update.reference && {
+        provider: providerName,
+        transactionId: update.reference,
+      },
+    ].filter((condition) => !!condition);
+    if (where.length === 0) {
+      return null;
     }
-    
-    if (filters.method) {
-      where.method = filters.method;
+
+    const existing = await this.paymentsRepository.findOne({ where });
+    if (!existing) {
+      return null;
     }
-    
-    if (filters.startDate && filters.endDate) {
-      where.createdAt = Between(new Date(filters.startDate), new Date(filters.endDate));
+
+    const payment = await this.applyProviderResult(existing.id, update);
+    return { payment, previousStatus: existing.status };
+  }
+
+  // Lists payments in one of two modes. Without a cursor it pages by offset
+  // and returns the page/total shape; with a cursor it seeks past the cursor's
+  // row, which stays stable while new payments arrive. Both modes return
+  // nextCursor/prevCursor so a client can switch to cursors after any page.
+  async findAll(organizationId: number, query: PaymentListQueryDto = {}) {
+    const {
+      page = 1,
+      limit = 10,
+      sortBy: requestedSortBy,
+      sortOrder: requestedSortOrder,
+      cursor: token,
+      ...filters
+    } = query;
+    const cursor = token ? decodeCursor(token) : undefined;
+
+    // A cursor only makes sense in the sort it was issued for
+    if (cursor && requestedSortBy && requestedSortBy !== cursor.sortBy) {
+      throw new BadRequestException('Cursor was issued for a different sortBy');
+    }
+    if (
+      cursor &&
+      requestedSortOrder &&
+      requestedSortOrder !== cursor.sortOrder
+    ) {
+      throw new BadRequestException(
+        'Cursor was issued for a different sortOrder',
+      );
     }
 
-    const [payments, total] = await this.paymentsRepository.findAndCount({
-      where,
-      order: { createdAt: 'DESC' },
-      skip: (page - 1) * limit,
-      take: limit,
-    });
+    const sortBy = cursor?.sortBy ?? requestedSortBy ?? 'createdAt';
+    const order = cursor?.sortOrder ?? requestedSortOrder ?? 'DESC';
+    const listQuery = applyPaymentSort(
+      this.filteredQuery(organizationId, filters),
+      sortBy,
+      order,
+      cursor,
+    );
+
+    if (!cursor) {
+      const total = await listQuery.getCount();
+      const { entities, raw } = await listQuery
+        .offset((page - 1) * limit)
+        .limit(limit)
+        .getRawAndEntities<Record<string, string>>();
+      const totalPages = Math.ceil(total / limit);
+      const last = entities.length - 1;
+
+      return {
+        data: entities,
+        total,
+        page,
+        limit,
+        totalPages,
+        sortBy,
+        sortOrder: order,
+        nextCursor:
+          page < totalPages && entities.length
+            ? this.cursorFor(raw[last], entities[last], sortBy, order, 'next')
+            : null,
+        prevCursor:
+          page > 1 && entities.length
+            ? this.cursorFor(raw[0], entities[0], sortBy, order, 'prev')
+            : null,
+      };
+    }
+
+    // Fetch one extra row to learn whether there is more in this direction
+    const { entities, raw } = await listQuery
+      .limit(limit + 1)
+      .getRawAndEntities<Record<string, string>>();
+    const hasMore = entities.length > limit;
+    const rows = entities.slice(0, limit);
+    const values = raw.slice(0, limit);
+    if (cursor.direction === 'prev') {
+      rows.reverse();
+      values.reverse();
+    }
+
+    const last = rows.length - 1;
+    const hasNext = cursor.direction === 'prev' || hasMore;
+    const hasPrev = cursor.direction === 'next' || hasMore;
 
     return {
-      data: payments,
-      total,
-      page,
+      data: rows,
       limit,
-      totalPages: Math.ceil(total / limit),
+      sortBy,
+      sortOrder: order,
+      nextCursor:
+        hasNext && rows.length
+          ? this.cursorFor(values[last], rows[last], sortBy, order, 'next')
+          : null,
+      prevCursor:
+        hasPrev && rows.length
+          ? this.cursorFor(values[0], rows[0], sortBy, order, 'prev')
+          : null,
     };
   }
 
-  async findOne(id: number): Promise<Payment | null> {
-    return this.paymentsRepository.findOne({ where: { id } });
+  private cursorFor(
+    raw: Record<string, string>,
+    payment: Payment,
+    sortBy: PaymentSortField,
+    sortOrder: SortOrder,
+    direction: CursorDirection,
+  ): string {
+    return encodeCursor({
+      sortBy,
+      sortOrder,
+      direction,
+      value: raw[CURSOR_VALUE_ALIAS],
+      id: payment.id,
+    });
   }
 
-  async getStats() {
+  // Best matches first, each with its rank and the fields the text was found in
+  async search(organizationId: number, query: PaymentSearchQueryDto) {
+    const { q, limit = 20, ...filters } = query;
+    const { entities, raw } = await applyPaymentSearch(
+      this.filteredQuery(organizationId, filters),
+      q,
+    )
+      .limit(limit)
+      .getRawAndEntities<Record<string, unknown>>();
+
+    return {
+      query: q,
+      data: entities.map((payment, index) => ({
+        payment,
+        rank: Number(raw[index][SEARCH_RANK_ALIAS]),
+        matchedFields: PAYMENT_SEARCH_FIELDS.filter(
+          (field) => raw[index][matchedFieldAlias(field)] === true,
+        ),
+      })),
+    };
+  }
+
+  async findOne(organizationId: number, id: number): Promise<Payment | null> {
+    return this.paymentsRepository.findOne({ where: { id, organizationId } });
+  }
+
+  async getStats(organizationId: number, filters: PaymentFilterDto = {}) {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
@@ -64,41 +361,46 @@ export class PaymentsService {
     weekAgo.setDate(weekAgo.getDate() - 7);
 
     // Today's payments
-    const todayPayments = await this.paymentsRepository.count({
-      where: { createdAt: Between(today, new Date()) }
-    });
+    const todayPayments = await this.filteredQuery(organizationId, filters)
+      .andWhere('payment.createdAt BETWEEN :start AND :end', { start: today, end: new Date() })
+      .getCount();
 
     // This week's payments
-    const weekPayments = await this.paymentsRepository.count({
-      where: { createdAt: Between(weekAgo, new Date()) }
-    });
+    const weekPayments = await this.filteredQuery(organizationId, filters)
+      .andWhere('payment.createdAt BETWEEN :start AND :end', { start: weekAgo, end: new Date() })
+      .getCount();
 
-    // Total revenue
-    const totalRevenue = await this.paymentsRepository
-      .createQueryBuilder('payment')
-      .select('SUM(payment.amount)', 'total')
-      .where('payment.status = :status', { status: PaymentStatus.SUCCESS })
+    // Total revenue, net of refunds
+    const totalRevenue = await this.filteredQuery(organizationId, filters)
+      .select('SUM(payment.amount - payment.refundedAmount)', 'total')
+      .addSelect('SUM(payment.refundedAmount)', 'refunded')
+      .andWhere('payment.status IN (:...statuses)', { statuses: REVENUE_STATUSES })
       .getRawOne();
 
     // Failed transactions
-    const failedTransactions = await this.paymentsRepository.count({
-      where: { status: PaymentStatus.FAILED }
-    });
+    const failedTransactions = await this.filteredQuery(organizationId, filters)
+      .andWhere('payment.status = :status', { status: PaymentStatus.FAILED })
+      .getCount();
 
     // Revenue trend (last 7 days)
-    const revenueTrend = await this.getRevenueTrend();
+    const revenueTrend = await this.getRevenueTrend(organizationId, 7, filters);
 
     return {
       todayPayments,
       weekPayments,
       totalRevenue: parseFloat(totalRevenue?.total || '0'),
+      totalRefunded: parseFloat(totalRevenue?.refunded || '0'),
       failedTransactions,
       revenueTrend,
     };
   }
 
   // FIXED: Made public and accepts days parameter
-  async getRevenueTrend(days: number = 7): Promise<{ date: string; revenue: number }[]> {
+  async getRevenueTrend(
+    organizationId: number,
+    days: number = 7,
+    filters: PaymentFilterDto = {},
+  ): Promise<{ date: string; revenue: number }[]> {
     const trendData: { date: string; revenue: number }[] = [];
 
     for (let i = days - 1; i >= 0; i--) {
@@ -109,10 +411,9 @@ export class PaymentsService {
       const nextDay = new Date(date);
       nextDay.setDate(nextDay.getDate() + 1);
 
-      const revenue = await this.paymentsRepository
-        .createQueryBuilder('payment')
-        .select('SUM(payment.amount)', 'total')
-        .where('payment.status = :status', { status: PaymentStatus.SUCCESS })
+      const revenue = await this.filteredQuery(organizationId, filters)
+        .select('SUM(payment.amount - payment.refundedAmount)', 'total')
+        .andWhere('payment.status IN (:...statuses)', { statuses: REVENUE_STATUSES })
         .andWhere('payment.createdAt >= :start', { start: date })
         .andWhere('payment.createdAt < :end', { end: nextDay })
         .getRawOne<{ total: string | null }>();
@@ -129,9 +430,11 @@ export class PaymentsService {
   // NEW METHODS - All the missing ones from the controller
 
   // Payment methods breakdown
-  async getPaymentMethodsBreakdown() {
-    const result = await this.paymentsRepository
-      .createQueryBuilder('payment')
+  async getPaymentMethodsBreakdown(
+    organizationId: number,
+    filters: PaymentFilterDto = {},
+  ) {
+    const result = await this.filteredQuery(organizationId, filters)
       .select('payment.method', 'method')
       .addSelect('COUNT(*)', 'count')
       .addSelect('SUM(payment.amount)', 'total')
@@ -150,9 +453,11 @@ export class PaymentsService {
   }
 
   // Status breakdown
-  async getStatusBreakdown() {
-    const result = await this.paymentsRepository
-      .createQueryBuilder('payment')
+  async getStatusBreakdown(
+    organizationId: number,
+    filters: PaymentFilterDto = {},
+  ) {
+    const result = await this.filteredQuery(organizationId, filters)
       .select('payment.status', 'status')
       .addSelect('COUNT(*)', 'count')
       .addSelect('SUM(payment.amount)', 'amount')
@@ -167,15 +472,19 @@ export class PaymentsService {
   }
 
   // Recent transactions
-  async getRecentTransactions(limit: number = 5) {
-    return this.paymentsRepository.find({
-      order: { createdAt: 'DESC' },
-      take: limit,
-    });
+  async getRecentTransactions(
+    organizationId: number,
+    limit: number = 5,
+    filters: PaymentFilterDto = {},
+  ) {
+    return this.filteredQuery(organizationId, filters)
+      .orderBy('payment.createdAt', 'DESC')
+      .take(limit)
+      .getMany();
   }
 
   // Quick stats
-  async getQuickStats() {
+  async getQuickStats(organizationId: number, filters: PaymentFilterDto = {}) {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
@@ -183,42 +492,44 @@ export class PaymentsService {
     yesterday.setDate(yesterday.getDate() - 1);
 
     // Today's stats
-    const todayStats = await this.paymentsRepository
-      .createQueryBuilder('payment')
+    const todayStats = await this.filteredQuery(organizationId, filters)
       .select('COUNT(*)', 'count')
       .addSelect('SUM(payment.amount)', 'revenue')
-      .where('payment.createdAt >= :today', { today })
+      .andWhere('payment.createdAt >= :today', { today })
       .andWhere('payment.status = :status', { status: PaymentStatus.SUCCESS })
       .getRawOne();
 
     // Yesterday's stats
-    const yesterdayStats = await this.paymentsRepository
-      .createQueryBuilder('payment')
+    const yesterdayStats = await this.filteredQuery(organizationId, filters)
       .select('COUNT(*)', 'count')
       .addSelect('SUM(payment.amount)', 'revenue')
-      .where('payment.createdAt >= :yesterday', { yesterday })
+      .andWhere('payment.createdAt >= :yesterday', { yesterday })
       .andWhere('payment.createdAt < :today', { today })
       .andWhere('payment.status = :status', { status: PaymentStatus.SUCCESS })
       .getRawOne();
 
     // Overall stats
-    const totalTransactions = await this.paymentsRepository.count();
-    const successfulTransactions = await this.paymentsRepository.count({ 
-      where: { status: PaymentStatus.SUCCESS } 
-    });
+    const totalTransactions = await this.filteredQuery(
+      organizationId,
+      filters,
+    ).getCount();
+    const successfulTransactions = await this.filteredQuery(
+      organizationId,
+      filters,
+    )
+      .andWhere('payment.status = :status', { status: PaymentStatus.SUCCESS })
+      .getCount();
     
-    const avgAmountResult = await this.paymentsRepository
-      .createQueryBuilder('payment')
+    const avgAmountResult = await this.filteredQuery(organizationId, filters)
       .select('AVG(payment.amount)', 'avg')
-      .where('payment.status = :status', { status: PaymentStatus.SUCCESS })
+      .andWhere('payment.status = :status', { status: PaymentStatus.SUCCESS })
       .getRawOne();
 
     // Calculate peak hour (simplified - you can enhance this)
-    const hourlyStats = await this.paymentsRepository
-      .createQueryBuilder('payment')
+    const hourlyStats = await this.filteredQuery(organizationId, filters)
       .select('EXTRACT(HOUR FROM payment.createdAt)', 'hour')
       .addSelect('COUNT(*)', 'count')
-      .where('payment.status = :status', { status: PaymentStatus.SUCCESS })
+      .andWhere('payment.status = :status', { status: PaymentStatus.SUCCESS })
       .groupBy('EXTRACT(HOUR FROM payment.createdAt)')
       .orderBy('count', 'DESC')
       .limit(1)
@@ -244,81 +555,498 @@ export class PaymentsService {
     };
   }
 
-  // Export to CSV
-  async exportToCSV(filters: PaymentFilterDto): Promise<Buffer> {
-    const where: any = {};
-    
-    if (filters.status) {
-      where.status = filters.status;
+  // Export in the requested format, streamed straight from a database cursor
+  // one batch at a time so large exports never sit in memory
+  exportPayments(
+    organizationId: number,
+    query: PaymentExportQueryDto = {},
+  ): Readable {
+    const {
+      columns = DEFAULT_EXPORT_COLUMNS,
+      format = 'csv',
+      gzip,
+      ...filters
+    } = query;
+
+    if (gzip && format === 'xlsx') {
+      throw new BadRequestException('XLSX exports are already compressed');
     }
-    
-    if (filters.method) {
-      where.method = filters.method;
+
+    const batches = this.streamExportRows(organizationId, filters, columns);
+    let output: Readable;
+    switch (format) {
+      case 'xlsx':
+        output = writePaymentsWorkbook(batches, columns, () =>
+          this.getExportSummary(organizationId, filters),
+        );
+        break;
+      case 'json':
+        output = Readable.from(jsonChunks(batches, columns));
+        break;
+      case 'ndjson':
+        output = Readable.from(ndjsonChunks(batches, columns));
+        break;
+      default:
+        output = Readable.from(csvChunks(batches, columns));
     }
-    
-    if (filters.startDate && filters.endDate) {
-      where.createdAt = Between(new Date(filters.startDate), new Date(filters.endDate));
+
+    // pipeline destroys the returned stream on failure, which ends the response
+    return gzip ? pipeline(output, createGzip(), () => undefined) : output;
+  }
+
+  // Status and method breakdowns for the XLSX summary sheet
+  private async getExportSummary(
+    organizationId: number,
+    filters: PaymentFilterDto,
+  ): Promise<SummaryTable[]> {
+    const [statuses, methods] = await Promise.all([
+      this.getStatusBreakdown(organizationId, filters),
+      this.getPaymentMethodsBreakdown(organizationId, filters),
+    ]);
+
+    return [
+      {
+        title: 'By Status',
+        columns: [
+          { header: 'Status', key: 'status' },
+          { header: 'Count', key: 'count', type: 'integer' },
+          { header: 'Amount', key: 'amount', type: 'money' },
+        ],
+        rows: statuses,
+      },
+      {
+        title: 'By Payment Method',
+        columns: [
+          { header: 'Method', key: 'method' },
+          { header: 'Count', key: 'count', type: 'integer' },
+          { header: 'Total', key: 'total', type: 'money' },
+          { header: 'Share (%)', key: 'percentage', type: 'integer' },
+        ],
+        rows: methods,
+      },
+    ];
+  }
+
+  // Raw rows keyed by column name, newest first
+  private streamExportRows(
+    organizationId: number,
+    filters: PaymentFilterDto,
+    columns: ExportColumn[],
+  ) {
+    const query = this.filteredQuery(organizationId, filters).select([]);
+    for (const column of columns) {
+      query.addSelect(`payment.${column}`, column);
     }
 
-    const payments = await this.paymentsRepository.find({
-      where,
-      order: { createdAt: 'DESC' }
-    });
-    
-    // Create CSV content
-    const header = 'ID,Transaction ID,Amount,Status,Method,Receiver,Created At,Updated At\n';
-    const rows = payments.map(payment => 
-      `${payment.id},${payment.transactionId || ''},${payment.amount},${payment.status},${payment.method || ''},${payment.receiver || ''},${payment.createdAt},${payment.updatedAt}`
-    ).join('\n');
-    
-    return Buffer.from(header + rows, 'utf-8');
+    return streamRawRows<ExportRow>(
+      query.orderBy('payment.createdAt', 'DESC').addOrderBy('payment.id', 'DESC'),
+    );
   }
 
   // Update payment status
-  async updateStatus(id: number, status: string) {
-    const payment = await this.paymentsRepository.findOne({ where: { id } });
-    
+  async updateStatus(
+    organizationId: number,
+    id: number,
+    status: string,
+    actor?: JwtUser,
+    reason?: string,
+  ) {
+    return this.withStreamEvents(async (manager, streamEvents) => {
+      const payment = await manager.findOne(Payment, {
+        where: { id, organizationId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!payment) {
+        throw new NotFoundException(`Payment with ID ${id} not found`);
+      }
+
+      if (!isPaymentStatus(status)) {
+        throw new BadRequestException(`Invalid status: ${status}`);
+      }
+
+      this.assertTransition(payment.status, status);
+
+      const previousStatus = payment.status;
+      payment.status = status;
+      payment.updatedAt = new Date();
+      const savedPayment = await manager.save(payment);
+
+      await this.recordEvent(
+        manager,
+        payment.id,
+        PaymentEventType.STATUS_CHANGED,
+        actor,
+        { oldValue: previousStatus, newValue: status, reason },
+      );
+      await this.webhookPublisher.publish(
+        manager,
+        savedPayment.organizationId,
+        'payment.status_changed',
+        { payment: savedPayment, previousStatus },
+      );
+      streamEvents.push({
+        type: 'payment.status_changed',
+        payment: savedPayment,
+        previousStatus,
+      });
+
+      return savedPayment;
+    });
+  }
+
+  // Attach a free-text note to a payment's history
+  async addNote(
+    organizationId: number,
+    id: number,
+    createNoteDto: CreatePaymentNoteDto,
+    actor?: JwtUser,
+  ) {
+    const payment = await this.paymentsRepository.findOne({
+      where: { id, organizationId },
+    });
+
     if (!payment) {
       throw new NotFoundException(`Payment with ID ${id} not found`);
     }
 
-    // Validate status if you have enum values
-    if (!Object.values(PaymentStatus).includes(status as PaymentStatus)) {
-      throw new Error(`Invalid status: ${status}`);
+    return this.recordEvent(
+      this.paymentEventsRepository.manager,
+      payment.id,
+      PaymentEventType.NOTE,
+      actor,
+      { reason: createNoteDto.note },
+    );
+  }
+
+  // Full history of a payment, oldest first
+  async getHistory(
+    organizationId: number,
+    id: number,
+  ): Promise<PaymentEvent[]> {
+    const payment = await this.paymentsRepository.findOne({
+      where: { id, organizationId },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${id} not found`);
     }
 
-    payment.status = status as PaymentStatus;
-    payment.updatedAt = new Date();
-    
-    return this.paymentsRepository.save(payment);
+    return this.paymentEventsRepository.find({
+      where: { paymentId: id },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
   }
 
-  // Revenue by payment method
-  async getRevenueByMethod() {
-    const result = await this.paymentsRepository
-      .createQueryBuilder('payment')
+  // Transition table shared with clients
+  getStatusTransitions() {
+    return {
+      transitions: PAYMENT_STATUS_TRANSITIONS,
+      initialStatuses: INITIAL_PAYMENT_STATUSES,
+      manualStatuses: MANUAL_PAYMENT_STATUSES,
+    };
+  }
+
+  // Refund a payment, fully or partially. The amount is reserved in one
+  // transaction and settled or released in another, with the gateway call in
+  // between, so no row lock is held while the gateway answers and money it
+  // returned is never left without a Refund row.
+  async createRefund(
+    organizationId: number,
+    id: number,
+    createRefundDto: CreateRefundDto,
+    actor?: JwtUser,
+  ): Promise<Refund> {
+    const { payment, refund } = await this.reserveRefund(
+      organizationId,
+      id,
+      createRefundDto,
+    );
+
+    return this.refundWithProvider(payment, refund, actor);
+  }
+
+  // Asks the gateway again about a refund it left without an answer, then
+  // settles or releases it. The gateway recognises the refund by its
+  // reference, so one it already made is not made twice.
+  async retryRefund(
+    organizationId: number,
+    id: number,
+    refundId: number,
+    actor?: JwtUser,
+  ): Promise<Refund> {
+    const payment = await this.paymentsRepository.findOne({
+      where: { id, organizationId },
+    });
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${id} not found`);
+    }
+
+    const refund = await this.refundsRepository.findOne({
+      where: { id: refundId, paymentId: id },
+    });
+    if (!refund) {
+      throw new NotFoundException(`Refund with ID ${refundId} not found`);
+    }
+    if (refund.status !== RefundStatus.PENDING) {
+      throw new ConflictException(
+        `Refund ${refundId} is already ${refund.status}`,
+      );
+    }
+
+    return this.refundWithProvider(payment, refund, actor);
+  }
+
+  // Money goes back through the gateway that took it
+  private async refundWithProvider(
+    payment: Payment,
+    refund: Refund,
+    actor?: JwtUser,
+  ): Promise<Refund> {
+    if (!payment.provider || !payment.providerReference) {
+      return this.settleRefund(refund, actor);
+    }
+
+    let result: ProviderRefundResult;
+    try {
+      result = await this.providerRegistry
+        .get(payment.provider)
+        .refund(
+          payment.providerReference,
+          Number(refund.amount),
+          `refund_${refund.id}`,
+        );
+    } catch (error) {
+      // The gateway may have refunded anyway, so the refund stays pending and
+      // keeps its share of the balance until it is retried
+      this.logger.error(
+        `Refund ${refund.id} of payment ${payment.id} has no answer from ${payment.provider}: ${(error as Error).message}`,
+      );
+      throw new BadGatewayException(
+        `Refund ${refund.id} is pending: ${payment.provider} did not answer`,
+      );
+    }
+
+    if (result.status === 'failed') {
+      await this.releaseRefund(refund, result.failureReason);
+      throw new BadGatewayException(
+        `Refund declined by ${payment.provider}: ${result.failureReason ?? 'no reason given'}`,
+      );
+    }
+    return this.settleRefund(refund, actor, result.providerRefundReference);
+  }
+
+  // Holds the refund amount against the payment's refundable balance
+  private reserveRefund(
+    organizationId: number,
+    id: number,
+    createRefundDto: CreateRefundDto,
+  ): Promise<{ payment: Payment; refund: Refund }> {
+    return this.paymentsRepository.manager.transaction(async (manager) => {
+      // Lock the payment row so concurrent refunds cannot over-refund it
+      const payment = await manager.findOne(Payment, {
+        where: { id, organizationId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!payment) {
+        throw new NotFoundException(`Payment with ID ${id} not found`);
+      }
+
+      // Work in cents to avoid floating point drift on decimals
+      const amountCents = this.toCents(payment.amount);
+      const refundedCents = this.toCents(payment.refundedAmount);
+      const refundableCents = amountCents - refundedCents;
+      const refundCents =
+        createRefundDto.amount !== undefined
+          ? this.toCents(createRefundDto.amount)
+          : refundableCents;
+
+      // Left out, the amount is whatever pending and settled refunds have
+      // not already taken, which may be nothing
+      if (refundCents <= 0) {
+        throw new BadRequestException('The payment has nothing left to refund');
+      }
+      if (refundCents > refundableCents) {
+        throw new BadRequestException(
+          `Refund amount exceeds the refundable balance of ${(refundableCents / 100).toFixed(2)}`,
+        );
+      }
+
+      this.assertTransition(
+        payment.status,
+        refundedCents + refundCents === amountCents
+          ? PaymentStatus.REFUNDED
+          : PaymentStatus.PARTIALLY_REFUNDED,
+      );
+
+      payment.refundedAmount = (refundedCents + refundCents) / 100;
+      await manager.save(payment);
+
+      const refund = await manager.save(
+        manager.create(Refund, {
+          paymentId: payment.id,
+          amount: refundCents / 100,
+          reason: createRefundDto.reason,
+          status: RefundStatus.PENDING,
+        }),
+      );
+
+      return { payment, refund };
+    });
+  }
+
+  // Marks the refund done and moves the payment to the status its settled
+  // refunds add up to; refunds still pending do not count yet
+  private settleRefund(
+    refund: Refund,
+    actor?: JwtUser,
+    providerReference?: string,
+  ): Promise<Refund> {
+    return this.withStreamEvents(async (manager, streamEvents) => {
+      const payment = await manager.findOneOrFail(Payment, {
+        where: { id: refund.paymentId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      // A retry running at the same time may have settled it already
+      const current = await manager.findOneOrFail(Refund, {
+        where: { id: refund.id },
+      });
+      if (current.status !== RefundStatus.PENDING) {
+        return current;
+      }
+
+      const savedRefund = await manager.save(
+        Object.assign(refund, {
+          status: RefundStatus.SUCCEEDED,
+          providerReference,
+        }),
+      );
+      const settledCents = this.toCents(
+        (await manager.sum(Refund, 'amount', {
+          paymentId: payment.id,
+          status: RefundStatus.SUCCEEDED,
+        })) ?? 0,
+      );
+
+      const previousStatus = payment.status;
+      const nextStatus =
+        settledCents === this.toCents(payment.amount)
+          ? PaymentStatus.REFUNDED
+          : PaymentStatus.PARTIALLY_REFUNDED;
+      this.assertTransition(previousStatus, nextStatus);
+      payment.status = nextStatus;
+      const savedPayment = await manager.save(payment);
+
+      await this.recordEvent(
+        manager,
+        payment.id,
+        PaymentEventType.REFUNDED,
+        actor,
+        {
+          oldValue: previousStatus,
+          newValue: nextStatus,
+          reason: refund.reason,
+        },
+      );
+
+      await this.webhookPublisher.publish(
+        manager,
+        savedPayment.organizationId,
+        'refund.created',
+        { refund: savedRefund, payment: savedPayment },
+      );
+      await this.webhookPublisher.publish(
+        manager,
+        savedPayment.organizationId,
+        'payment.status_changed',
+        { payment: savedPayment, previousStatus },
+      );
+      streamEvents.push({
+        type: 'payment.status_changed',
+        payment: savedPayment,
+        previousStatus,
+      });
+
+      return savedRefund;
+    });
+  }
+
+  // Gives a declined refund's amount back to the refundable balance
+  private async releaseRefund(
+    refund: Refund,
+    failureReason?: string,
+  ): Promise<void> {
+    await this.paymentsRepository.manager.transaction(async (manager) => {
+      const payment = await manager.findOneOrFail(Payment, {
+        where: { id: refund.paymentId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const current = await manager.findOneOrFail(Refund, {
+        where: { id: refund.id },
+      });
+      if (current.status !== RefundStatus.PENDING) {
+        return;
+      }
+
+      payment.refundedAmount =
+        (this.toCents(payment.refundedAmount) - this.toCents(refund.amount)) /
+        100;
+      await manager.save(payment);
+      await manager.save(
+        Object.assign(refund, { status: RefundStatus.FAILED, failureReason }),
+      );
+    });
+  }
+
+  // Refunds issued against a payment
+  async findRefunds(organizationId: number, id: number): Promise<Refund[]> {
+    const payment = await this.paymentsRepository.findOne({
+      where: { id, organizationId },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${id} not found`);
+    }
+
+    return this.refundsRepository.find({
+      where: { paymentId: id },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  // Revenue by payment method, net of refunds
+  async getRevenueByMethod(
+    organizationId: number,
+    filters: PaymentFilterDto = {},
+  ) {
+    const result = await this.filteredQuery(organizationId, filters)
       .select('payment.method', 'method')
-      .addSelect('SUM(payment.amount)', 'revenue')
+      .addSelect('SUM(payment.amount - payment.refundedAmount)', 'revenue')
+      .addSelect('SUM(payment.refundedAmount)', 'refunded')
       .addSelect('COUNT(*)', 'transactions')
-      .where('payment.status = :status', { status: PaymentStatus.SUCCESS })
+      .andWhere('payment.status IN (:...statuses)', { statuses: REVENUE_STATUSES })
       .groupBy('payment.method')
       .getRawMany();
 
     return result.map(item => ({
       method: item.method,
       revenue: parseFloat(item.revenue || '0'),
+      refunded: parseFloat(item.refunded || '0'),
       transactions: parseInt(item.transactions)
     }));
   }
 
   // Hourly distribution
-  async getHourlyDistribution() {
-    const result = await this.paymentsRepository
-      .createQueryBuilder('payment')
+  async getHourlyDistribution(
+    organizationId: number,
+    filters: PaymentFilterDto = {},
+  ) {
+    const result = await this.filteredQuery(organizationId, filters)
       .select('EXTRACT(HOUR FROM payment.createdAt)', 'hour')
       .addSelect('COUNT(*)', 'count')
       .addSelect('SUM(payment.amount)', 'revenue')
-      .where('payment.status = :status', { status: PaymentStatus.SUCCESS })
+      .andWhere('payment.status = :status', { status: PaymentStatus.SUCCESS })
       .groupBy('EXTRACT(HOUR FROM payment.createdAt)')
       .orderBy('hour', 'ASC')
       .getRawMany();
@@ -331,16 +1059,19 @@ export class PaymentsService {
   }
 
   // Success rate trend
-  async getSuccessRateTrend(days: number = 30) {
+  async getSuccessRateTrend(
+    organizationId: number,
+    days: number = 30,
+    filters: PaymentFilterDto = {},
+  ) {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
-    const result = await this.paymentsRepository
-      .createQueryBuilder('payment')
+    const result = await this.filteredQuery(organizationId, filters)
       .select('DATE(payment.createdAt)', 'date')
       .addSelect('COUNT(*)', 'total')
       .addSelect('SUM(CASE WHEN payment.status = :successStatus THEN 1 ELSE 0 END)', 'successful')
-      .where('payment.createdAt >= :startDate', { startDate })
+      .andWhere('payment.createdAt >= :startDate', { startDate })
       .setParameter('successStatus', PaymentStatus.SUCCESS)
       .groupBy('DATE(payment.createdAt)')
       .orderBy('date', 'ASC')
@@ -354,7 +1085,171 @@ export class PaymentsService {
     }));
   }
 
-  private generateTransactionId(): string {
-    return 'TXN' + Date.now() + Math.random().toString(36).substr(2, 5).toUpperCase();
+  private async processWithProvider(
+    payment: Payment,
+    provider: PaymentProvider,
+  ): Promise<Payment> {
+    let result: ProviderPaymentResult | undefined;
+    try {
+      result = await provider.authorize({
+        reference: payment.transactionId,
+        amount: Number(payment.amount),
+        method: payment.method,
+        description: payment.description,
+      });
+      if (result.status === 'authorized') {
+        result = await provider.capture(
+          result.providerReference,
+          Number(payment.amount),
+        );
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.warn(
+        `${provider.name} failed on payment ${payment.id}: ${message}`,
+      );
+
+      // Without a reference nothing was charged. With one, the poller asks
+      // the gateway again later.
+      if (!result) {
+        return this.applyProviderResult(payment.id, {
+          status: 'failed',
+          failureReason: `Provider error: ${message}`,
+        });
+      }
+    }
+
+    return this.applyProviderResult(payment.id, result);
+  }
+
+  // Stores what the gateway reported. Captured and failed settle a pending
+  // payment, recorded as a status change without an actor.
+  private applyProviderResult(
+    id: number,
+    result: Omit<ProviderPaymentResult, 'providerReference'> & {
+      providerReference?: string;
+    },
+  ): Promise<Payment> {
+    return this.withStreamEvents(async (manager, streamEvents) => {
+      const payment = await manager.findOne(Payment, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!payment) {
+        throw new NotFoundException(`Payment with ID ${id} not found`);
+      }
+
+      payment.providerReference =
+        result.providerReference ?? payment.providerReference;
+      const nextStatus = SETTLED_BY_PROVIDER[result.status];
+
+      // An admin may have settled the payment by hand in the meantime
+      if (!nextStatus || payment.status !== PaymentStatus.PENDING) {
+        return manager.save(payment);
+      }
+
+      payment.status = nextStatus;
+      payment.failureReason = result.failureReason ?? null;
+      const savedPayment = await manager.save(payment);
+
+      await this.recordEvent(
+        manager,
+        payment.id,
+        PaymentEventType.STATUS_CHANGED,
+        undefined,
+        {
+          oldValue: PaymentStatus.PENDING,
+          newValue: nextStatus,
+          reason: [
+            `${payment.provider} reported ${result.status}`,
+            result.failureReason,
+          ]
+            .filter(Boolean)
+            .join(': '),
+        },
+      );
+      await this.webhookPublisher.publish(
+        manager,
+        savedPayment.organizationId,
+        'payment.status_changed',
+        { payment: savedPayment, previousStatus: PaymentStatus.PENDING },
+      );
+      streamEvents.push({
+        type: 'payment.status_changed',
+        payment: savedPayment,
+        previousStatus: PaymentStatus.PENDING,
+      });
+
+      return savedPayment;
+    });
+  }
+
+  // Runs `work` in a transaction and publishes the stream events it queued
+  // once that transaction has committed
+  private async withStreamEvents<T>(
+    work: (
+      manager: EntityManager,
+      streamEvents: PaymentStreamEvent[],
+    ) => Promise<T>,
+  ): Promise<T> {
+    const streamEvents: PaymentStreamEvent[] = [];
+    const result = await this.paymentsRepository.manager.transaction(
+      (manager) => work(manager, streamEvents),
+    );
+    streamEvents.forEach((event) => this.paymentStream.publish(event));
+    return result;
+  }
+
+  // Base query for every list, export and analytics method. It is limited
+  // to the organization before any filter is added, and callers only add
+  // conditions with andWhere, so no result can include another
+  // organization's payments.
+  private filteredQuery(
+    organizationId: number,
+    filters: PaymentFilterDto = {},
+  ) {
+    return applyPaymentFilters(
+      this.paymentsRepository
+        .createQueryBuilder('payment')
+        .where('payment.organizationId = :organizationId', { organizationId }),
+      filters,
+    );
+  }
+
+  // Events are written with the caller's manager so they commit or roll back
+  // together with the change they describe
+  private recordEvent(
+    manager: EntityManager,
+    paymentId: number,
+    type: PaymentEventType,
+    actor: JwtUser | undefined,
+    values: { oldValue?: string; newValue?: string; reason?: string },
+  ): Promise<PaymentEvent> {
+    const event = manager.create(PaymentEvent, {
+      paymentId,
+      type,
+      actorId: actor?.userId,
+      actorUsername: actor?.username,
+      ...values,
+    });
+    return manager.save(event);
+  }
+
+  // Rejects status changes not allowed by the transition table with a 409
+  private assertTransition(from: PaymentStatus, to: PaymentStatus): void {
+    if (!canTransition(from, to)) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message: describeInvalidTransition(from, to),
+        allowedTransitions: getManualTransitions(from),
+      });
+    }
+  }
+
+  // Decimal columns come back from pg as strings
+  private toCents(value: number | string): number {
+    return Math.round(Number(value) * 100);
   }
 }
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { PaymentMethod } from '../entities/payment.entity';
+import {
+  MockPaymentProvider,
+  mockProviderOptionsFromEnv,
+} from './mock-payment.provider';
+
+describe('MockPaymentProvider', () => {
+  const request = (amount = 100) => ({
+    reference: 'TXN1',
+    amount,
+    method: PaymentMethod.UPI,
+  });
+
+  it('authorizes and captures when configured to succeed', async () => {
+    const provider = new MockPaymentProvider({
+      outcome: 'success',
+      delayMs: 0,
+    });
+
+    const authorized = await provider.authorize(request());
+    const captured = await provider.capture(authorized.providerReference, 100);
+
+    expect(authorized.status).toBe('authorized');
+    expect(captured).toEqual({
+      providerReference: authorized.providerReference,
+      status: 'captured',
+      failureReason: undefined,
+    });
+  });
+
+  it('declines when configured to fail, and amounts ending in .13', async () => {
+    const failing = new MockPaymentProvider({ outcome: 'fail', delayMs: 0 });
+    const succeeding = new MockPaymentProvider({
+      outcome: 'success',
+      delayMs: 0,
+    });
+
+    expect((await failing.authorize(request())).status).toBe('failed');
+    expect(await succeeding.authorize(request(20.13))).toEqual(
+      expect.objectContaining({
+        status: 'failed',
+        failureReason: 'Declined by mock provider',
+      }),
+    );
+  });
+
+  it('keeps pending payments pending until they settle', async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const provider = new MockPaymentProvider({
+        outcome: 'pending',
+        delayMs: 0,
+        settleAfterMs: 5000,
+      });
+      const { providerReference, status } = await provider.authorize(request());
+
+      expect(status).toBe('pending');
+      expect((await provider.getStatus(providerReference)).status).toBe(
+        'pending',
+      );
+
+      jest.setSystemTime(5000);
+      expect((await provider.getStatus(providerReference)).status).toBe(
+        'captured',
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('refunds up to the captured amount', async () => {
+    const provider = new MockPaymentProvider({
+      outcome: 'success',
+      delayMs: 0,
+    });
+    const { providerReference } = await provider.authorize(request());
+    await provider.capture(providerReference, 100);
+
+    expect(
+      (await provider.refund(providerReference, 60, 'refund_1')).status,
+    ).toBe('succeeded');
+    expect(await provider.refund(providerReference, 50, 'refund_2')).toEqual(
+      expect.objectContaining({
+        status: 'failed',
+        failureReason: 'Refund exceeds the captured amount',
+      }),
+    );
+  });
+
+  it('answers a repeated refund reference without refunding again', async () => {
+    const provider = new MockPaymentProvider({
+      outcome: 'success',
+      delayMs: 0,
+    });
+    const { providerReference } = await provider.authorize(request());
+    await provider.capture(providerReference, 100);
+
+    const first = await provider.refund(providerReference, 60, 'refund_1');
+    expect(await provider.refund(providerReference, 60, 'refund_1')).toEqual(
+      first,
+    );
+    expect(
+      (await provider.refund(providerReference, 40, 'refund_2')).status,
+    ).toBe('succeeded');
+  });
+
+  it('reads its options from the environment', () => {
+    expect(
+      mockProviderOptionsFromEnv({
+        MOCK_PROVIDER_OUTCOME: 'pending',
+        MOCK_PROVIDER_DELAY_MS: '250',
+        MOCK_PROVIDER_SETTLE_AFTER_MS: '0',
+      }),
+    ).toEqual({ outcome: 'pending', delayMs: 250, settleAfterMs: 0 });
+    expect(
+      mockProviderOptionsFromEnv({ MOCK_PROVIDER_OUTCOME: 'maybe' }),
+    ).toEqual({ outcome: 'success', delayMs: 0, settleAfterMs: undefined });
+  });
+});
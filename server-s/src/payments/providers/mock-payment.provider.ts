@@ -0,0 +1,244 @@
+// src/payments/providers/mock-payment.provider.ts
+import { BadRequestException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  AuthorizeRequest,
+  PaymentProvider,
+  ProviderPaymentResult,
+  ProviderPaymentStatus,
+  ProviderRefundResult,
+  ProviderWebhookEvent,
+} from './payment-provider.interface';
+
+export type MockOutcome = 'success' | 'fail' | 'pending';
+
+export interface MockProviderOptions {
+  // What authorization does with every payment
+  outcome: MockOutcome;
+  // Simulated latency of every call
+  delayMs: number;
+  // With outcome "pending", how long until the payment settles as captured.
+  // Unset means it stays pending until the outcome is changed.
+  settleAfterMs?: number;
+}
+
+interface MockPayment {
+  amount: number;
+  refunded: number;
+  status: ProviderPaymentStatus;
+  createdAt: number;
+  failureReason?: string;
+}
+
+const MOCK_OUTCOMES: MockOutcome[] = ['success', 'fail', 'pending'];
+
+// Webhook event types the mock gateway sends, and the status each reports
+export const MOCK_WEBHOOK_EVENT_TYPES: Record<string, ProviderPaymentStatus> = {
+  'payment.pending': 'pending',
+  'payment.authorized': 'authorized',
+  'payment.captured': 'captured',
+  'payment.failed': 'failed',
+};
+
+export interface MockWebhookEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: {
+    providerReference?: string;
+    reference?: string;
+    failureReason?: string;
+  };
+}
+
+// Builds an event in the mock gateway's format, for tests and the signing tool
+export function createMockWebhookEvent(
+  type: string,
+  data: MockWebhookEvent['data'],
+  id = `evt_${randomUUID()}`,
+): MockWebhookEvent {
+  return { id, type, created: Math.floor(Date.now() / 1000), data };
+}
+
+// Reads MOCK_PROVIDER_OUTCOME, MOCK_PROVIDER_DELAY_MS and
+// MOCK_PROVIDER_SETTLE_AFTER_MS
+export function mockProviderOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): MockProviderOptions {
+  const outcome = env.MOCK_PROVIDER_OUTCOME as MockOutcome;
+  const settleAfterMs = Number(env.MOCK_PROVIDER_SETTLE_AFTER_MS);
+  return {
+    outcome: MOCK_OUTCOMES.includes(outcome) ? outcome : 'success',
+    delayMs: Number(env.MOCK_PROVIDER_DELAY_MS) || 0,
+    settleAfterMs:
+      env.MOCK_PROVIDER_SETTLE_AFTER_MS && settleAfterMs >= 0
+        ? settleAfterMs
+        : undefined,
+  };
+}
+
+// In-memory gateway for development and tests. Amounts ending in .13 are
+// always declined, so a failure can be produced without reconfiguring it.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+  private readonly payments = new Map<string, MockPayment>();
+  // Results by our refund reference
+  private readonly refunds = new Map<string, ProviderRefundResult>();
+
+  constructor(
+    private readonly options: MockProviderOptions = mockProviderOptionsFromEnv(),
+  ) {}
+
+  async authorize(request: AuthorizeRequest): Promise<ProviderPaymentResult> {
+    await this.delay();
+
+    const providerReference = `mock_${randomUUID()}`;
+    const declined =
+      this.options.outcome === 'fail' ||
+      Math.round(request.amount * 100) % 100 === 13;
+    const payment: MockPayment = {
+      amount: request.amount,
+      refunded: 0,
+      createdAt: Date.now(),
+      status: declined
+        ? 'failed'
+        : this.options.outcome === 'pending'
+          ? 'pending'
+          : 'authorized',
+      failureReason: declined ? 'Declined by mock provider' : undefined,
+    };
+    this.payments.set(providerReference, payment);
+
+    return this.toResult(providerReference, payment);
+  }
+
+  async capture(
+    providerReference: string,
+    amount: number,
+  ): Promise<ProviderPaymentResult> {
+    await this.delay();
+    const payment = this.find(providerReference);
+
+    if (payment.status === 'authorized') {
+      if (Math.round(amount * 100) > Math.round(payment.amount * 100)) {
+        payment.status = 'failed';
+        payment.failureReason = 'Capture exceeds the authorized amount';
+      } else {
+        payment.status = 'captured';
+        payment.amount = amount;
+      }
+    }
+
+    return this.toResult(providerReference, payment);
+  }
+
+  async refund(
+    providerReference: string,
+    amount: number,
+    reference: string,
+  ): Promise<ProviderRefundResult> {
+    await this.delay();
+    const known = this.refunds.get(reference);
+    if (known) {
+      return known;
+    }
+
+    const payment = this.find(providerReference);
+    const refundable = payment.amount - payment.refunded;
+    let result: ProviderRefundResult;
+    if (payment.status !== 'captured' || amount > refundable + 0.001) {
+      result = {
+        providerRefundReference: `mock_refund_${randomUUID()}`,
+        status: 'failed',
+        failureReason:
+          payment.status !== 'captured'
+            ? `Cannot refund a ${payment.status} payment`
+            : 'Refund exceeds the captured amount',
+      };
+    } else {
+      payment.refunded += amount;
+      result = {
+        providerRefundReference: `mock_refund_${randomUUID()}`,
+        status: 'succeeded',
+      };
+    }
+
+    this.refunds.set(reference, result);
+    return result;
+  }
+
+  async getStatus(providerReference: string): Promise<ProviderPaymentResult> {
+    await this.delay();
+    const payment = this.find(providerReference);
+
+    // Pending payments settle once their time is up, as if the customer
+    // finished paying on the gateway's page
+    const { settleAfterMs } = this.options;
+    if (
+      payment.status === 'pending' &&
+      settleAfterMs !== undefined &&
+      Date.now() - payment.createdAt >= settleAfterMs
+    ) {
+      payment.status = 'captured';
+    }
+
+    return this.toResult(providerReference, payment);
+  }
+
+  parseWebhookEvent(payload: unknown): ProviderWebhookEvent {
+    const event = payload as Partial<MockWebhookEvent> | null;
+    if (
+      typeof event?.id !== 'string' ||
+      typeof event.type !== 'string' ||
+      typeof event.data !== 'object' ||
+      event.data === null ||
+      (!event.data.providerReference && !event.data.reference)
+    ) {
+      throw new BadRequestException(
+        'Expected a mock event with id, type and data.providerReference or data.reference',
+      );
+    }
+
+    return {
+      eventId: event.id,
+      type: event.type,
+      providerReference: event.data.providerReference,
+      reference: event.data.reference,
+      status: MOCK_WEBHOOK_EVENT_TYPES[event.type],
+      failureReason: event.data.failureReason,
+    };
+  }
+
+  // State is lost on restart; payments it no longer knows are treated as
+  // captured so they can still be refunded in development
+  private find(providerReference: string): MockPayment {
+    let payment = this.payments.get(providerReference);
+    if (!payment) {
+      payment = {
+        amount: Number.MAX_SAFE_INTEGER,
+        refunded: 0,
+        status: 'captured',
+        createdAt: Date.now(),
+      };
+      this.payments.set(providerReference, payment);
+    }
+    return payment;
+  }
+
+  private toResult(
+    providerReference: string,
+    payment: MockPayment,
+  ): ProviderPaymentResult {
+    return {
+      providerReference,
+      status: payment.status,
+      failureReason: payment.failureReason,
+    };
+  }
+
+  private delay(): Promise<void> {
+    return this.options.delayMs > 0
+      ? new Promise((resolve) => setTimeout(resolve, this.options.delayMs))
+      : Promise.resolve();
+  }
+}
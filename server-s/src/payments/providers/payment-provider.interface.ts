@@ -0,0 +1,73 @@
+// src/payments/providers/payment-provider.interface.ts
+import { PaymentMethod } from '../entities/payment.entity';
+
+// Injection token for the list of available gateways
+export const PAYMENT_PROVIDERS = 'PAYMENT_PROVIDERS';
+
+// Where a payment stands at the gateway. Only captured and failed are final
+// from our side; refunds are tracked per refund.
+export type ProviderPaymentStatus =
+  'pending' | 'authorized' | 'captured' | 'failed';
+
+export interface AuthorizeRequest {
+  // Our transactionId, sent as the merchant reference
+  reference: string;
+  amount: number;
+  method: PaymentMethod;
+  description?: string;
+}
+
+export interface ProviderPaymentResult {
+  // The gateway's id for the payment, used for every later call
+  providerReference: string;
+  status: ProviderPaymentStatus;
+  failureReason?: string;
+}
+
+export interface ProviderRefundResult {
+  providerRefundReference: string;
+  status: 'succeeded' | 'failed';
+  failureReason?: string;
+}
+
+// A webhook event translated from the gateway's format
+export interface ProviderWebhookEvent {
+  // The gateway's event id, unique per provider; used to drop redeliveries
+  eventId: string;
+  type: string;
+  // The payment it concerns, by the gateway's id and/or our transactionId
+  providerReference?: string;
+  reference?: string;
+  // Left out for events that do not change the payment's status
+  status?: ProviderPaymentStatus;
+  failureReason?: string;
+}
+
+// A payment gateway. Implementations talk to one gateway's API and translate
+// its responses to these shapes; PaymentsService never sees gateway specifics.
+export interface PaymentProvider {
+  // Stored on each payment so later calls go to the same gateway
+  readonly name: string;
+
+  authorize(request: AuthorizeRequest): Promise<ProviderPaymentResult>;
+
+  capture(
+    providerReference: string,
+    amount: number,
+  ): Promise<ProviderPaymentResult>;
+
+  // `reference` is our id for the refund. A gateway answers a reference it
+  // has seen with the first result instead of refunding again, so a refund
+  // whose answer was lost can be asked for again.
+  refund(
+    providerReference: string,
+    amount: number,
+    reference: string,
+  ): Promise<ProviderRefundResult>;
+
+  getStatus(providerReference: string): Promise<ProviderPaymentResult>;
+
+  // Reads a verified webhook body. Throws BadRequestException when the body
+  // is not an event of this gateway.
+  parseWebhookEvent(payload: unknown): ProviderWebhookEvent;
+}
@@ -0,0 +1,33 @@
+// src/payments/providers/payment-provider.registry.ts
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  PAYMENT_PROVIDERS,
+  PaymentProvider,
+} from './payment-provider.interface';
+
+// Looks gateways up by name. New payments go to PAYMENT_PROVIDER (the mock
+// gateway by default); existing ones stay with the gateway that took them.
+@Injectable()
+export class PaymentProviderRegistry {
+  private readonly providers: Map<string, PaymentProvider>;
+
+  constructor(@Inject(PAYMENT_PROVIDERS) providers: PaymentProvider[]) {
+    this.providers = new Map(
+      providers.map((provider) => [provider.name, provider]),
+    );
+  }
+
+  get defaultProvider(): PaymentProvider {
+    return this.get(process.env.PAYMENT_PROVIDER || 'mock');
+  }
+
+  get(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new NotFoundException(
+        `Payment provider "${name}" is not configured`,
+      );
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,52 @@
+// src/payments/providers/payment-status-poller.ts
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PaymentsService } from '../payments.service';
+
+// Asks the gateways about payments they left pending, every
+// PAYMENT_STATUS_POLL_INTERVAL_MS (10s by default; 0 turns polling off)
+@Injectable()
+export class PaymentStatusPoller implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PaymentStatusPoller.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  onModuleInit() {
+    const interval = Number(
+      process.env.PAYMENT_STATUS_POLL_INTERVAL_MS ?? 10000,
+    );
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.poll(), interval);
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  // Skips a tick while the previous one is still running
+  async poll(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const settled = await this.paymentsService.syncPendingPayments();
+      if (settled > 0) {
+        this.logger.log(`Settled ${settled} pending payments`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Polling pending payments failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,8 @@
+// src/payments/transaction-id.ts
+
+// Public reference for a payment, e.g. TXN1705314600000K3F9Q
+export function generateTransactionId(): string {
+  return (
+    'TXN' + Date.now() + Math.random().toString(36).substr(2, 5).toUpperCase()
+  );
+}
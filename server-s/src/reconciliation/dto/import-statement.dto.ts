@@ -0,0 +1,10 @@
+// src/reconciliation/dto/import-statement.dto.ts
+import { IsEnum, IsOptional } from 'class-validator';
+import { StatementFormat } from '../enums/statement-format.enum';
+
+export class ImportStatementQueryDto {
+  // Detected from the file contents when left out
+  @IsOptional()
+  @IsEnum(StatementFormat)
+  format?: StatementFormat;
+}
@@ -0,0 +1,22 @@
+// src/reconciliation/dto/review-line.dto.ts
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+export class ConfirmLineDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class OverrideLineDto extends ConfirmLineDto {
+  // The payment the line really belongs to, or null when it has none
+  @ValidateIf((dto: OverrideLineDto) => dto.paymentId !== null)
+  @IsInt()
+  paymentId: number | null;
+}
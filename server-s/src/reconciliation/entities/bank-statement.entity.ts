@@ -0,0 +1,59 @@
+// src/reconciliation/entities/bank-statement.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  OneToMany,
+  Index,
+} from 'typeorm';
+import { StatementFormat } from '../enums/statement-format.enum';
+import { StatementLine } from './statement-line.entity';
+
+// One uploaded bank statement file
+@Entity('bank_statements')
+@Index(['organizationId', 'createdAt'])
+export class BankStatement {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Organization whose payments the lines are matched against. Null only for
+  // statements uploaded before organizations existed, until SeedService
+  // moves them to the default one.
+  @Column({ type: 'int', nullable: true })
+  organizationId: number | null;
+
+  @Column()
+  filename: string;
+
+  @Column({
+    type: 'enum',
+    enum: StatementFormat,
+  })
+  format: StatementFormat;
+
+  @Column({ nullable: true })
+  currency?: string;
+
+  // Booking dates covered by the statement's lines
+  @Column({ type: 'date', nullable: true })
+  fromDate?: string | null;
+
+  @Column({ type: 'date', nullable: true })
+  toDate?: string | null;
+
+  @Column({ default: 0 })
+  lineCount: number;
+
+  @OneToMany(() => StatementLine, (line) => line.statement)
+  lines: StatementLine[];
+
+  @Column({ nullable: true })
+  importedById?: number;
+
+  @Column({ nullable: true })
+  importedByUsername?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
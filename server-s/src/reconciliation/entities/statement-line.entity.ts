@@ -0,0 +1,91 @@
+// src/reconciliation/entities/statement-line.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Payment } from '../../payments/entities/payment.entity';
+import { ReconciliationStatus } from '../enums/reconciliation-status.enum';
+import { MatchMethod } from '../enums/match-method.enum';
+import { BankStatement } from './bank-statement.entity';
+
+// A single booking on a bank statement and the payment it was matched to
+@Entity('statement_lines')
+@Index(['statementId', 'status'])
+@Index(['paymentId'])
+export class StatementLine {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  statementId: number;
+
+  @ManyToOne(() => BankStatement, (statement) => statement.lines, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'statementId' })
+  statement: BankStatement;
+
+  @Column({ type: 'date' })
+  bookingDate: string;
+
+  // Signed as booked: credits are positive, debits negative
+  @Column('decimal', { precision: 12, scale: 2 })
+  amount: number;
+
+  @Column({ nullable: true })
+  currency?: string;
+
+  @Column({ nullable: true })
+  reference?: string;
+
+  @Column({ nullable: true })
+  counterparty?: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  @Column({
+    type: 'enum',
+    enum: ReconciliationStatus,
+    default: ReconciliationStatus.UNMATCHED,
+  })
+  status: ReconciliationStatus;
+
+  @Column({ nullable: true })
+  paymentId?: number | null;
+
+  @ManyToOne(() => Payment, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'paymentId' })
+  payment?: Payment | null;
+
+  @Column({
+    type: 'enum',
+    enum: MatchMethod,
+    nullable: true,
+  })
+  matchMethod?: MatchMethod | null;
+
+  // Why the line is mismatched or unmatched
+  @Column({ type: 'jsonb', default: [] })
+  reasons: string[];
+
+  // Set once a person has confirmed or overridden the result
+  @Column({ default: false })
+  reviewed: boolean;
+
+  @Column({ nullable: true })
+  reviewedById?: number;
+
+  @Column({ nullable: true })
+  reviewedByUsername?: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt?: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  note?: string | null;
+}
@@ -0,0 +1,6 @@
+// src/reconciliation/enums/match-method.enum.ts
+export enum MatchMethod {
+  REFERENCE = 'reference',
+  AMOUNT_DATE = 'amount_date',
+  MANUAL = 'manual',
+}
@@ -0,0 +1,9 @@
+// src/reconciliation/enums/reconciliation-status.enum.ts
+export enum ReconciliationStatus {
+  // Linked to a payment that agrees with the bank line
+  MATCHED = 'matched',
+  // No payment could be found for the bank line
+  UNMATCHED = 'unmatched',
+  // Linked by reference, but amount, date or status disagree
+  MISMATCHED = 'mismatched',
+}
@@ -0,0 +1,6 @@
+// src/reconciliation/enums/statement-format.enum.ts
+export enum StatementFormat {
+  CSV = 'csv',
+  MT940 = 'mt940',
+  CAMT053 = 'camt053',
+}
@@ -0,0 +1,94 @@
+// src/reconciliation/parsers/camt053.parser.ts
+import { BadRequestException } from '@nestjs/common';
+import { XMLParser } from 'fast-xml-parser';
+import { ParsedStatementLine, toIsoDate } from './parsed-statement-line';
+
+// The subset of a camt.053 entry that reconciliation reads
+interface CamtParty {
+  Nm?: string;
+  Pty?: { Nm?: string };
+}
+
+interface CamtEntry {
+  Amt?: { '#text'?: string; '@_Ccy'?: string } | string;
+  CdtDbtInd?: string;
+  BookgDt?: { Dt?: string; DtTm?: string };
+  ValDt?: { Dt?: string; DtTm?: string };
+  AcctSvcrRef?: string;
+  NtryDtls?: {
+    TxDtls?: {
+      Refs?: { EndToEndId?: string; InstrId?: string };
+      RltdPties?: { Dbtr?: CamtParty; Cdtr?: CamtParty };
+      RmtInf?: { Ustrd?: string[] };
+    }[];
+  }[];
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  isArray: (name) =>
+    ['Stmt', 'Ntry', 'NtryDtls', 'TxDtls', 'Ustrd'].includes(name),
+});
+
+const partyName = (party?: CamtParty) => party?.Pty?.Nm ?? party?.Nm;
+
+// ISO 20022 camt.053 bank-to-customer statement. Each <Ntry> becomes a
+// booking, described by its first transaction's details.
+export function parseCamt053Statement(
+  input: Buffer | string,
+): ParsedStatementLine[] {
+  let document: {
+    Document?: { BkToCstmrStmt?: { Stmt?: { Ntry?: CamtEntry[] }[] } };
+  };
+  try {
+    document = parser.parse(input.toString()) as typeof document;
+  } catch (error) {
+    throw new BadRequestException(
+      `Could not parse camt.053 statement: ${(error as Error).message}`,
+    );
+  }
+
+  const statements = document.Document?.BkToCstmrStmt?.Stmt;
+  if (!statements) {
+    throw new BadRequestException(
+      'Not a camt.053 statement: missing BkToCstmrStmt/Stmt',
+    );
+  }
+
+  return statements.flatMap((statement) =>
+    (statement.Ntry ?? []).map((entry, index) => {
+      const amount =
+        typeof entry.Amt === 'string' ? entry.Amt : entry.Amt?.['#text'];
+      const date = entry.BookgDt ?? entry.ValDt;
+      const bookingDate = toIsoDate(date?.Dt ?? date?.DtTm ?? '');
+      if (!amount || Number.isNaN(Number(amount)) || !bookingDate) {
+        throw new BadRequestException(
+          `Invalid amount or booking date in camt.053 entry ${index + 1}`,
+        );
+      }
+
+      const credit = entry.CdtDbtInd !== 'DBIT';
+      const details = entry.NtryDtls?.[0]?.TxDtls?.[0];
+      const endToEndId = details?.Refs?.EndToEndId;
+
+      return {
+        bookingDate,
+        amount: (credit ? 1 : -1) * Number(amount),
+        currency:
+          typeof entry.Amt === 'string' ? undefined : entry.Amt?.['@_Ccy'],
+        reference:
+          endToEndId && endToEndId !== 'NOTPROVIDED'
+            ? endToEndId
+            : entry.AcctSvcrRef,
+        // The other side of the booking: who paid us, or who we paid
+        counterparty: partyName(
+          credit ? details?.RltdPties?.Dbtr : details?.RltdPties?.Cdtr,
+        ),
+        description: details?.RmtInf?.Ustrd?.join(' '),
+      };
+    }),
+  );
+}
@@ -0,0 +1,96 @@
+// src/reconciliation/parsers/csv-statement.parser.ts
+import { BadRequestException } from '@nestjs/common';
+import { parse } from 'csv-parse/sync';
+import { ParsedStatementLine, toIsoDate } from './parsed-statement-line';
+
+// Header names banks commonly use for each field, normalized (lower case,
+// no spaces, dashes or underscores). The first matching column wins.
+const HEADER_ALIASES = {
+  date: ['bookingdate', 'date', 'valuedate', 'transactiondate', 'postingdate'],
+  amount: ['amount', 'value'],
+  credit: ['credit', 'paidin', 'moneyin'],
+  debit: ['debit', 'paidout', 'moneyout'],
+  currency: ['currency', 'ccy'],
+  reference: ['reference', 'ref', 'transactionid', 'endtoendid'],
+  counterparty: ['counterparty', 'name', 'payer', 'payee'],
+  description: ['description', 'details', 'narrative', 'memo'],
+};
+
+type StatementField = keyof typeof HEADER_ALIASES;
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[\s_-]/g, '');
+
+// Tolerates currency symbols and thousands separators, e.g. "₹1,500.00"
+const toAmount = (value: string | undefined) =>
+  value ? Number(value.replace(/[^\d.-]/g, '')) : undefined;
+
+export function parseCsvStatement(
+  input: Buffer | string,
+): ParsedStatementLine[] {
+  let records: string[][];
+  try {
+    records = parse(input, {
+      bom: true,
+      trim: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+    }) as string[][];
+  } catch (error) {
+    throw new BadRequestException(
+      `Could not parse CSV statement: ${(error as Error).message}`,
+    );
+  }
+
+  const [headers = [], ...rows] = records;
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<StatementField, number>> = {};
+  for (const field of Object.keys(HEADER_ALIASES) as StatementField[]) {
+    const index = HEADER_ALIASES[field]
+      .map((alias) => normalized.indexOf(alias))
+      .find((position) => position !== -1);
+    if (index !== undefined) {
+      columns[field] = index;
+    }
+  }
+
+  if (
+    columns.date === undefined ||
+    (columns.amount === undefined &&
+      columns.credit === undefined &&
+      columns.debit === undefined)
+  ) {
+    throw new BadRequestException(
+      'A CSV statement needs a date column and an amount (or credit/debit) column',
+    );
+  }
+
+  return rows.map((values, index) => {
+    const cell = (field: StatementField) => {
+      const position = columns[field];
+      const value = position === undefined ? '' : (values[position] ?? '');
+      return value === '' ? undefined : value;
+    };
+
+    const bookingDate = toIsoDate(cell('date') ?? '');
+    const amount =
+      toAmount(cell('amount')) ??
+      (toAmount(cell('credit')) ?? 0) - Math.abs(toAmount(cell('debit')) ?? 0);
+
+    if (!bookingDate || Number.isNaN(amount)) {
+      // Header is line 1
+      throw new BadRequestException(
+        `Invalid date or amount on line ${index + 2} of the statement`,
+      );
+    }
+
+    return {
+      bookingDate,
+      amount,
+      currency: cell('currency'),
+      reference: cell('reference'),
+      counterparty: cell('counterparty'),
+      description: cell('description'),
+    };
+  });
+}
@@ -0,0 +1,34 @@
+// src/reconciliation/parsers/index.ts
+import { StatementFormat } from '../enums/statement-format.enum';
+import { parseCamt053Statement } from './camt053.parser';
+import { parseCsvStatement } from './csv-statement.parser';
+import { parseMt940Statement } from './mt940.parser';
+import { ParsedStatementLine } from './parsed-statement-line';
+
+export type { ParsedStatementLine } from './parsed-statement-line';
+
+// Guesses the format from the file contents
+export function detectStatementFormat(input: Buffer | string): StatementFormat {
+  const head = input.toString().slice(0, 2000).trimStart();
+  if (head.startsWith('<?xml') || head.includes('<Document')) {
+    return StatementFormat.CAMT053;
+  }
+  if (/^:20:/m.test(head) || /^:61:/m.test(head)) {
+    return StatementFormat.MT940;
+  }
+  return StatementFormat.CSV;
+}
+
+export function parseStatement(
+  input: Buffer | string,
+  format: StatementFormat,
+): ParsedStatementLine[] {
+  switch (format) {
+    case StatementFormat.CAMT053:
+      return parseCamt053Statement(input);
+    case StatementFormat.MT940:
+      return parseMt940Statement(input);
+    default:
+      return parseCsvStatement(input);
+  }
+}
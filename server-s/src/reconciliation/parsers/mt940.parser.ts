@@ -0,0 +1,67 @@
+// src/reconciliation/parsers/mt940.parser.ts
+import { BadRequestException } from '@nestjs/common';
+import { ParsedStatementLine } from './parsed-statement-line';
+
+// :61: value date, optional entry date, debit/credit mark (with R for
+// reversals), optional funds code, amount, transaction type, then the
+// customer reference and an optional //bank reference
+const STATEMENT_LINE =
+  /^(\d{2})(\d{2})(\d{2})(?:\d{4})?(R?[CD])[A-Z]?(\d+,\d*)[A-Z][A-Z0-9]{3}([^/\r\n]*)(?:\/\/(\S*))?/;
+
+// :60F: / :60M: opening balance, e.g. C240115EUR1234,56
+const OPENING_BALANCE = /^[CD]\d{6}([A-Z]{3})/;
+
+// Splits the message into its :tag: fields, joining continuation lines
+function readFields(text: string): { tag: string; value: string }[] {
+  const fields: { tag: string; value: string }[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const field = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (field) {
+      fields.push({ tag: field[1], value: field[2] });
+    } else if (fields.length > 0 && line.trim() && !line.startsWith('-}')) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+// SWIFT MT940 customer statement. Each :61: line becomes a booking; the :86:
+// that follows it is used as its description.
+export function parseMt940Statement(
+  input: Buffer | string,
+): ParsedStatementLine[] {
+  const lines: ParsedStatementLine[] = [];
+  let currency: string | undefined;
+
+  for (const { tag, value } of readFields(input.toString())) {
+    if (tag === '60F' || tag === '60M') {
+      currency = OPENING_BALANCE.exec(value)?.[1] ?? currency;
+    } else if (tag === '61') {
+      const match = STATEMENT_LINE.exec(value);
+      if (!match) {
+        throw new BadRequestException(`Invalid MT940 :61: line "${value}"`);
+      }
+      const [, year, month, day, mark, amount, reference, bankReference] =
+        match;
+      const magnitude = Number(amount.replace(',', '.'));
+      // Debits and reversed credits take money out of the account
+      const sign = mark === 'D' || mark === 'RC' ? -1 : 1;
+      const customerReference = reference.trim();
+
+      lines.push({
+        bookingDate: `${Number(year) < 80 ? '20' : '19'}${year}-${month}-${day}`,
+        amount: sign * magnitude,
+        currency,
+        reference:
+          customerReference && customerReference !== 'NONREF'
+            ? customerReference
+            : bankReference || undefined,
+      });
+    } else if (tag === '86' && lines.length > 0) {
+      const last = lines[lines.length - 1];
+      last.description = value.replace(/\n/g, ' ').trim();
+    }
+  }
+
+  return lines;
+}
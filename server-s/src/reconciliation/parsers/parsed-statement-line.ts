@@ -0,0 +1,30 @@
+// src/reconciliation/parsers/parsed-statement-line.ts
+
+// A booking read from a statement file, before it is stored
+export interface ParsedStatementLine {
+  // YYYY-MM-DD
+  bookingDate: string;
+  // Credits positive, debits negative
+  amount: number;
+  currency?: string;
+  reference?: string;
+  counterparty?: string;
+  description?: string;
+}
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})/;
+const DAY_FIRST_DATE = /^(\d{2})[./](\d{2})[./](\d{4})$/;
+
+// Accepts ISO dates (optionally with a time) and day-first DD/MM/YYYY or
+// DD.MM.YYYY, which is how most banks write dates in exports
+export function toIsoDate(value: string): string | undefined {
+  const iso = ISO_DATE.exec(value);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+  const dayFirst = DAY_FIRST_DATE.exec(value);
+  if (dayFirst) {
+    return `${dayFirst[3]}-${dayFirst[2]}-${dayFirst[1]}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,143 @@
+import { BadRequestException } from '@nestjs/common';
+import { StatementFormat } from '../enums/statement-format.enum';
+import { detectStatementFormat, parseStatement } from '.';
+
+const MT940 = [
+  ':20:STMT20240116',
+  ':25:DE89370400440532013000',
+  ':28C:1/1',
+  ':60F:C240115EUR1000,00',
+  ':61:2401150115C150,25NTRFTXN1705314600000K3F9Q//BANKREF1',
+  ':86:Payment from Rahul',
+  'Sharma invoice 42',
+  ':61:240116D20,NMSCNONREF//FEE77',
+  ':86:Account fee',
+  ':62F:C240116EUR1130,25',
+  '-}',
+].join('\r\n');
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Ntry>
+        <Amt Ccy="INR">1500.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2024-01-15</Dt></BookgDt>
+        <AcctSvcrRef>BANK-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>TXN1705314600000K3F9Q</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Priya Patel</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Order 7</Ustrd><Ustrd>thank you</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="INR">99.5</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><DtTm>2024-01-16T09:00:00</DtTm></BookgDt>
+        <AcctSvcrRef>BANK-2</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Cdtr><Nm>Landlord</Nm></Cdtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('statement parsers', () => {
+  it('detects the format from the contents', () => {
+    expect(detectStatementFormat(MT940)).toBe(StatementFormat.MT940);
+    expect(detectStatementFormat(CAMT053)).toBe(StatementFormat.CAMT053);
+    expect(detectStatementFormat('Date,Amount\n')).toBe(StatementFormat.CSV);
+  });
+
+  it('parses CSV with an amount column and day-first dates', () => {
+    const csv = Buffer.from(
+      '\uFEFFBooking Date,Amount,Currency,Reference,Name,Details\r\n' +
+        '15/01/2024,"1,500.00",INR,TXN1,Priya,Order 7\r\n' +
+        '2024-01-16,-20,INR,,,Fee\r\n',
+    );
+
+    expect(parseStatement(csv, StatementFormat.CSV)).toEqual([
+      {
+        bookingDate: '2024-01-15',
+        amount: 1500,
+        currency: 'INR',
+        reference: 'TXN1',
+        counterparty: 'Priya',
+        description: 'Order 7',
+      },
+      {
+        bookingDate: '2024-01-16',
+        amount: -20,
+        currency: 'INR',
+        reference: undefined,
+        counterparty: undefined,
+        description: 'Fee',
+      },
+    ]);
+  });
+
+  it('parses CSV with separate credit and debit columns', () => {
+    const csv = 'Date,Paid In,Paid Out\n16.01.2024,,25.50\n17.01.2024,10,\n';
+
+    expect(
+      parseStatement(csv, StatementFormat.CSV).map(
+        ({ bookingDate, amount }) => [bookingDate, amount],
+      ),
+    ).toEqual([
+      ['2024-01-16', -25.5],
+      ['2024-01-17', 10],
+    ]);
+  });
+
+  it('rejects CSV without the required columns or with bad rows', () => {
+    expect(() => parseStatement('Reference\nx\n', StatementFormat.CSV)).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      parseStatement('Date,Amount\nyesterday,10\n', StatementFormat.CSV),
+    ).toThrow('Invalid date or amount on line 2 of the statement');
+  });
+
+  it('parses MT940 statement lines and their :86: details', () => {
+    expect(parseStatement(MT940, StatementFormat.MT940)).toEqual([
+      {
+        bookingDate: '2024-01-15',
+        amount: 150.25,
+        currency: 'EUR',
+        reference: 'TXN1705314600000K3F9Q',
+        description: 'Payment from Rahul Sharma invoice 42',
+      },
+      {
+        bookingDate: '2024-01-16',
+        amount: -20,
+        currency: 'EUR',
+        reference: 'FEE77',
+        description: 'Account fee',
+      },
+    ]);
+  });
+
+  it('parses camt.053 entries', () => {
+    expect(parseStatement(CAMT053, StatementFormat.CAMT053)).toEqual([
+      {
+        bookingDate: '2024-01-15',
+        amount: 1500,
+        currency: 'INR',
+        reference: 'TXN1705314600000K3F9Q',
+        counterparty: 'Priya Patel',
+        description: 'Order 7 thank you',
+      },
+      {
+        bookingDate: '2024-01-16',
+        amount: -99.5,
+        currency: 'INR',
+        reference: 'BANK-2',
+        counterparty: 'Landlord',
+        description: undefined,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import { PaymentStatus } from '../payments/entities/payment.entity';
+import { MatchMethod } from './enums/match-method.enum';
+import { ReconciliationStatus } from './enums/reconciliation-status.enum';
+import {
+  MatchablePayment,
+  matchStatementLines,
+  referenceTokens,
+} from './reconciliation-matcher';
+
+const payment = (
+  id: number,
+  overrides: Partial<MatchablePayment> = {},
+): MatchablePayment => ({
+  id,
+  transactionId: `TXN170000000000${id}ABCDE`,
+  amount: '100.00',
+  status: PaymentStatus.SUCCESS,
+  createdAt: new Date('2024-01-15T10:30:00Z'),
+  ...overrides,
+});
+
+describe('matchStatementLines', () => {
+  it('matches by transactionId found in the reference or description', () => {
+    const payments = [payment(1), payment(2)];
+
+    const [byReference, byDescription] = matchStatementLines(
+      [
+        {
+          bookingDate: '2024-01-16',
+          amount: 100,
+          reference: payments[1].transactionId,
+        },
+        {
+          bookingDate: '2024-01-15',
+          amount: '100.00',
+          description: `UPI credit ${payments[0].transactionId.toLowerCase()} thanks`,
+        },
+      ],
+      payments,
+      3,
+    );
+
+    expect(byReference).toEqual({
+      status: ReconciliationStatus.MATCHED,
+      paymentId: 2,
+      matchMethod: MatchMethod.REFERENCE,
+      reasons: [],
+    });
+    expect(byDescription.paymentId).toBe(1);
+  });
+
+  it('flags a referenced payment whose amount, date or status disagree', () => {
+    const [result] = matchStatementLines(
+      [
+        {
+          bookingDate: '2024-01-25',
+          amount: 90,
+          reference: payment(1).transactionId,
+        },
+      ],
+      [payment(1, { status: PaymentStatus.PENDING })],
+      3,
+    );
+
+    expect(result.status).toBe(ReconciliationStatus.MISMATCHED);
+    expect(result.paymentId).toBe(1);
+    expect(result.reasons).toEqual([
+      'Amount 90.00 differs from payment amount 100.00',
+      'Booked more than 3 days from the payment date 2024-01-15',
+      'Payment status is pending',
+    ]);
+  });
+
+  it('falls back to the closest settled payment with the same amount', () => {
+    const [result] = matchStatementLines(
+      [{ bookingDate: '2024-01-17', amount: 100 }],
+      [
+        payment(1),
+        payment(2, { createdAt: new Date('2024-01-16T08:00:00Z') }),
+        payment(3, {
+          createdAt: new Date('2024-01-17T08:00:00Z'),
+          status: PaymentStatus.FAILED,
+        }),
+        payment(4, {
+          createdAt: new Date('2024-01-17T08:00:00Z'),
+          amount: '100.01',
+        }),
+      ],
+      3,
+    );
+
+    expect(result).toEqual({
+      status: ReconciliationStatus.MATCHED,
+      paymentId: 2,
+      matchMethod: MatchMethod.AMOUNT_DATE,
+      reasons: [],
+    });
+  });
+
+  it('claims each payment only once', () => {
+    const results = matchStatementLines(
+      [
+        { bookingDate: '2024-01-15', amount: 100 },
+        {
+          bookingDate: '2024-01-15',
+          amount: 100,
+          reference: payment(1).transactionId,
+        },
+      ],
+      [payment(1), payment(2, { createdAt: new Date('2024-01-14T10:00:00Z') })],
+      3,
+    );
+
+    expect(results.map((result) => result.paymentId)).toEqual([2, 1]);
+  });
+
+  it('leaves ties and lines outside the window unmatched', () => {
+    const [tie, late] = matchStatementLines(
+      [
+        { bookingDate: '2024-01-15', amount: 100 },
+        { bookingDate: '2024-02-15', amount: 100 },
+      ],
+      [payment(1), payment(2)],
+      3,
+    );
+
+    expect(tie.status).toBe(ReconciliationStatus.UNMATCHED);
+    expect(tie.reasons[0]).toMatch(/^2 payments with this amount/);
+    expect(late).toEqual({
+      status: ReconciliationStatus.UNMATCHED,
+      paymentId: null,
+      matchMethod: null,
+      reasons: ['No payment with this reference or amount within 3 days'],
+    });
+  });
+});
+
+describe('referenceTokens', () => {
+  it('splits reference and description into upper-cased words', () => {
+    expect(
+      referenceTokens({
+        reference: 'ref:txn123456/x',
+        description: 'paid TXN99999999',
+      }),
+    ).toEqual(['TXN123456', 'TXN99999999']);
+  });
+});
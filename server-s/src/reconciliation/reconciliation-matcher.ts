@@ -0,0 +1,160 @@
+// src/reconciliation/reconciliation-matcher.ts
+import { PaymentStatus } from '../payments/entities/payment.entity';
+import { ReconciliationStatus } from './enums/reconciliation-status.enum';
+import { MatchMethod } from './enums/match-method.enum';
+
+// Statuses where the money should have reached the bank
+export const SETTLED_PAYMENT_STATUSES = [
+  PaymentStatus.SUCCESS,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+export interface MatchableLine {
+  bookingDate: string;
+  amount: number | string;
+  reference?: string | null;
+  description?: string | null;
+}
+
+export interface MatchablePayment {
+  id: number;
+  transactionId: string;
+  amount: number | string;
+  status: PaymentStatus;
+  createdAt: Date;
+}
+
+export interface LineMatch {
+  status: ReconciliationStatus;
+  paymentId: number | null;
+  matchMethod: MatchMethod | null;
+  reasons: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Decimals arrive as strings; compare whole cents to avoid float noise
+const toCents = (amount: number | string) => Math.round(Number(amount) * 100);
+
+// Days between the booking date and the day the payment was created
+const daysApart = (bookingDate: string, createdAt: Date) => {
+  const created = Date.UTC(
+    createdAt.getUTCFullYear(),
+    createdAt.getUTCMonth(),
+    createdAt.getUTCDate(),
+  );
+  return Math.abs(Date.parse(bookingDate) - created) / DAY_MS;
+};
+
+// Words in the reference and description that could be a transactionId
+export function referenceTokens(
+  line: Omit<MatchableLine, 'bookingDate' | 'amount'>,
+): string[] {
+  return `${line.reference ?? ''} ${line.description ?? ''}`
+    .toUpperCase()
+    .split(/[^A-Z0-9_-]+/)
+    .filter((token) => token.length >= 6);
+}
+
+// Matches each bank line to at most one payment, and each payment to at most
+// one line. A transactionId in the reference wins over everything else; the
+// linked payment is then checked and the line is mismatched if it disagrees.
+// Lines without a reference fall back to the settled payment with the same
+// amount closest in date, as long as exactly one is closest.
+export function matchStatementLines(
+  lines: MatchableLine[],
+  payments: MatchablePayment[],
+  windowDays: number,
+): LineMatch[] {
+  const byTransactionId = new Map(
+    payments.map((payment) => [payment.transactionId.toUpperCase(), payment]),
+  );
+  const claimed = new Set<number>();
+  const results: (LineMatch | undefined)[] = lines.map(() => undefined);
+
+  lines.forEach((line, index) => {
+    const payment = referenceTokens(line)
+      .map((token) => byTransactionId.get(token))
+      .find((candidate) => candidate && !claimed.has(candidate.id));
+    if (!payment) {
+      return;
+    }
+    claimed.add(payment.id);
+
+    const reasons: string[] = [];
+    if (toCents(line.amount) !== toCents(payment.amount)) {
+      reasons.push(
+        `Amount ${Number(line.amount).toFixed(2)} differs from payment amount ${Number(payment.amount).toFixed(2)}`,
+      );
+    }
+    if (daysApart(line.bookingDate, payment.createdAt) > windowDays) {
+      reasons.push(
+        `Booked more than ${windowDays} days from the payment date ${payment.createdAt.toISOString().slice(0, 10)}`,
+      );
+    }
+    if (!SETTLED_PAYMENT_STATUSES.includes(payment.status)) {
+      reasons.push(`Payment status is ${payment.status}`);
+    }
+
+    results[index] = {
+      status: reasons.length
+        ? ReconciliationStatus.MISMATCHED
+        : ReconciliationStatus.MATCHED,
+      paymentId: payment.id,
+      matchMethod: MatchMethod.REFERENCE,
+      reasons,
+    };
+  });
+
+  return lines.map((line, index) => {
+    const referenced = results[index];
+    if (referenced) {
+      return referenced;
+    }
+
+    const candidates = payments
+      .filter(
+        (payment) =>
+          !claimed.has(payment.id) &&
+          SETTLED_PAYMENT_STATUSES.includes(payment.status) &&
+          toCents(payment.amount) === toCents(line.amount) &&
+          daysApart(line.bookingDate, payment.createdAt) <= windowDays,
+      )
+      .map((payment) => ({
+        payment,
+        distance: daysApart(line.bookingDate, payment.createdAt),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+
+    const [closest, runnerUp] = candidates;
+    if (!closest) {
+      return {
+        status: ReconciliationStatus.UNMATCHED,
+        paymentId: null,
+        matchMethod: null,
+        reasons: [
+          `No payment with this reference or amount within ${windowDays} days`,
+        ],
+      };
+    }
+    if (runnerUp && runnerUp.distance === closest.distance) {
+      return {
+        status: ReconciliationStatus.UNMATCHED,
+        paymentId: null,
+        matchMethod: null,
+        reasons: [
+          `${candidates.filter((c) => c.distance === closest.distance).length} payments with this amount on the same day; choose one manually`,
+        ],
+      };
+    }
+
+    claimed.add(closest.payment.id);
+    return {
+      status: ReconciliationStatus.MATCHED,
+      paymentId: closest.payment.id,
+      matchMethod: MatchMethod.AMOUNT_DATE,
+      reasons: [],
+    };
+  });
+}
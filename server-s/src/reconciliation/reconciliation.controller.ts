@@ -0,0 +1,110 @@
+// src/reconciliation/reconciliation.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ValidationPipe,
+  UseGuards,
+  ParseIntPipe,
+  Request,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { JwtOrApiKeyAuthGuard } from 'src/api-keys/jwt-or-api-key-auth-guard';
+import { ApiKeyResource } from 'src/api-keys/api-key-resource.decorator';
+import { RolesGuard } from 'src/auth/roles-guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { UserRole } from 'src/users/enums/user-role.enum';
+import { JwtUser } from 'src/auth/interfaces/jwt-user.interface';
+import { ActiveOrganization } from 'src/organizations/active-organization.decorator';
+import { ReconciliationService } from './reconciliation.service';
+import { ImportStatementQueryDto } from './dto/import-statement.dto';
+import { ConfirmLineDto, OverrideLineDto } from './dto/review-line.dto';
+
+// Largest statement accepted by POST /reconciliation/statements
+const MAX_STATEMENT_FILE_SIZE = 10 * 1024 * 1024;
+
+// Every route acts in the caller's active organization; see ActiveOrganization
+@Controller('reconciliation')
+@UseGuards(JwtOrApiKeyAuthGuard, RolesGuard)
+@ApiKeyResource('reconciliation')
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  // Upload a CSV, MT940 or camt.053 statement and auto-match its lines
+  @Post('statements')
+  @Roles(UserRole.ADMIN)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_STATEMENT_FILE_SIZE } }),
+  )
+  importStatement(
+    @ActiveOrganization() organizationId: number,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query(ValidationPipe) query: ImportStatementQueryDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    if (!file) {
+      throw new BadRequestException(
+        'Upload a bank statement in the "file" field',
+      );
+    }
+    return this.reconciliationService.importStatement(
+      organizationId,
+      file,
+      query.format,
+      req.user,
+    );
+  }
+
+  @Get('statements')
+  listStatements(@ActiveOrganization() organizationId: number) {
+    return this.reconciliationService.listStatements(organizationId);
+  }
+
+  @Get('statements/:id')
+  getStatement(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.reconciliationService.getStatement(organizationId, id);
+  }
+
+  // Accept the automatic result for a line
+  @Post('lines/:id/confirm')
+  @Roles(UserRole.ADMIN)
+  confirmLine(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body(ValidationPipe) dto: ConfirmLineDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.reconciliationService.confirmLine(
+      organizationId,
+      id,
+      dto,
+      req.user,
+    );
+  }
+
+  // Link a line to another payment, or to none
+  @Post('lines/:id/override')
+  @Roles(UserRole.ADMIN)
+  overrideLine(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body(ValidationPipe) dto: OverrideLineDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.reconciliationService.overrideLine(
+      organizationId,
+      id,
+      dto,
+      req.user,
+    );
+  }
+}
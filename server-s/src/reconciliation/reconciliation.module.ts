@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Payment } from '../payments/entities/payment.entity';
+import { BankStatement } from './entities/bank-statement.entity';
+import { StatementLine } from './entities/statement-line.entity';
+import { ReconciliationService } from './reconciliation.service';
+import { ReconciliationController } from './reconciliation.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([BankStatement, StatementLine, Payment])],
+  controllers: [ReconciliationController],
+  providers: [ReconciliationService],
+})
+export class ReconciliationModule {}
@@ -0,0 +1,198 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ReconciliationService } from './reconciliation.service';
+import { StatementLine } from './entities/statement-line.entity';
+import { ReconciliationStatus } from './enums/reconciliation-status.enum';
+import { MatchMethod } from './enums/match-method.enum';
+
+describe('ReconciliationService', () => {
+  const admin = { userId: 1, username: 'admin' } as never;
+  const organizationId = 4;
+
+  const setup = (
+    line: Partial<StatementLine>,
+    matchedElsewhere?: Partial<StatementLine>,
+  ) => {
+    const saved: StatementLine[] = [];
+    const reload = {
+      innerJoin: jest.fn().mockReturnThis(),
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getOneOrFail: jest.fn(() => Promise.resolve(saved[saved.length - 1])),
+    };
+    const linesRepository = {
+      findOne: jest.fn(({ where }: { where: { id: unknown } }) =>
+        Promise.resolve(
+          typeof where.id === 'number' ? { ...line } : matchedElsewhere,
+        ),
+      ),
+      save: jest.fn((entity: StatementLine) => {
+        saved.push(entity);
+        return Promise.resolve(entity);
+      }),
+      createQueryBuilder: jest.fn(() => reload),
+    };
+    const paymentsRepository = {
+      findOne: jest.fn(
+        ({ where }: { where: { id: number; organizationId: number } }) =>
+          Promise.resolve(
+            where.organizationId === organizationId ? { id: where.id } : null,
+          ),
+      ),
+    };
+    const statementsRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+    };
+    const service = new ReconciliationService(
+      statementsRepository as never,
+      linesRepository as never,
+      paymentsRepository as never,
+    );
+
+    return {
+      service,
+      saved,
+      reload,
+      statementsRepository,
+      linesRepository,
+      paymentsRepository,
+    };
+  };
+
+  it('accepts a mismatched line as matched when confirmed', async () => {
+    const { service } = setup({
+      id: 5,
+      paymentId: 9,
+      status: ReconciliationStatus.MISMATCHED,
+      reasons: ['Payment status is pending'],
+    });
+
+    const line = await service.confirmLine(
+      organizationId,
+      5,
+      { note: 'Settled late' },
+      admin,
+    );
+
+    expect(line).toEqual(
+      expect.objectContaining({
+        status: ReconciliationStatus.MATCHED,
+        paymentId: 9,
+        reviewed: true,
+        reviewedByUsername: 'admin',
+        note: 'Settled late',
+      }),
+    );
+  });
+
+  it('links a line to a manually chosen payment', async () => {
+    const { service } = setup({
+      id: 5,
+      paymentId: null,
+      status: ReconciliationStatus.UNMATCHED,
+      reasons: ['No payment with this reference or amount within 3 days'],
+    });
+
+    const line = await service.overrideLine(
+      organizationId,
+      5,
+      { paymentId: 12 },
+      admin,
+    );
+
+    expect(line).toEqual(
+      expect.objectContaining({
+        status: ReconciliationStatus.MATCHED,
+        paymentId: 12,
+        matchMethod: MatchMethod.MANUAL,
+        reasons: [],
+        reviewed: true,
+      }),
+    );
+  });
+
+  it('refuses to match a payment that another line already matched', async () => {
+    const { service, saved } = setup(
+      { id: 5, status: ReconciliationStatus.UNMATCHED },
+      { id: 7, paymentId: 12, status: ReconciliationStatus.MATCHED },
+    );
+
+    await expect(
+      service.overrideLine(organizationId, 5, { paymentId: 12 }, admin),
+    ).rejects.toThrow(ConflictException);
+    expect(saved).toHaveLength(0);
+  });
+
+  it('unlinks a line when overridden with no payment', async () => {
+    const { service } = setup({
+      id: 5,
+      paymentId: 9,
+      status: ReconciliationStatus.MATCHED,
+      matchMethod: MatchMethod.AMOUNT_DATE,
+    });
+
+    const line = await service.overrideLine(
+      organizationId,
+      5,
+      { paymentId: null },
+      admin,
+    );
+
+    expect(line).toEqual(
+      expect.objectContaining({
+        status: ReconciliationStatus.UNMATCHED,
+        paymentId: null,
+        matchMethod: null,
+      }),
+    );
+  });
+
+  it("only reviews lines and payments of the caller's organization", async () => {
+    const { service, reload, linesRepository, paymentsRepository } = setup({
+      id: 5,
+      status: ReconciliationStatus.UNMATCHED,
+    });
+
+    await service.overrideLine(organizationId, 5, { paymentId: 12 }, admin);
+
+    expect(linesRepository.findOne).toHaveBeenCalledWith({
+      where: { id: 5, statement: { organizationId } },
+    });
+    expect(paymentsRepository.findOne).toHaveBeenCalledWith({
+      where: { id: 12, organizationId },
+    });
+    expect(reload.innerJoin).toHaveBeenCalledWith(
+      'line.statement',
+      'statement',
+      'statement.organizationId = :organizationId',
+      { organizationId },
+    );
+    expect(reload.leftJoinAndSelect).toHaveBeenCalledWith(
+      'line.payment',
+      'payment',
+      'payment.organizationId = :organizationId',
+    );
+  });
+
+  it('refuses to link a payment of another organization', async () => {
+    const { service, saved } = setup({
+      id: 5,
+      status: ReconciliationStatus.UNMATCHED,
+    });
+
+    await expect(
+      service.overrideLine(organizationId + 1, 5, { paymentId: 12 }, admin),
+    ).rejects.toThrow(NotFoundException);
+    expect(saved).toHaveLength(0);
+  });
+
+  it('hides statements of other organizations', async () => {
+    const { service, statementsRepository } = setup({});
+
+    await expect(service.getStatement(organizationId, 3)).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(statementsRepository.findOne).toHaveBeenCalledWith({
+      where: { id: 3, organizationId },
+    });
+  });
+});
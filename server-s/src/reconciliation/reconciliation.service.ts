@@ -0,0 +1,390 @@
+// src/reconciliation/reconciliation.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Not, Repository, SelectQueryBuilder } from 'typeorm';
+import { Payment } from '../payments/entities/payment.entity';
+import { JwtUser } from '../auth/interfaces/jwt-user.interface';
+import { BankStatement } from './entities/bank-statement.entity';
+import { StatementLine } from './entities/statement-line.entity';
+import { ReconciliationStatus } from './enums/reconciliation-status.enum';
+import { MatchMethod } from './enums/match-method.enum';
+import { StatementFormat } from './enums/statement-format.enum';
+import { ConfirmLineDto, OverrideLineDto } from './dto/review-line.dto';
+import {
+  ParsedStatementLine,
+  detectStatementFormat,
+  parseStatement,
+} from './parsers';
+import {
+  SETTLED_PAYMENT_STATUSES,
+  matchStatementLines,
+  referenceTokens,
+} from './reconciliation-matcher';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UploadedStatement {
+  originalname: string;
+  buffer: Buffer;
+}
+
+@Injectable()
+export class ReconciliationService {
+  constructor(
+    @InjectRepository(BankStatement)
+    private statementsRepository: Repository<BankStatement>,
+    @InjectRepository(StatementLine)
+    private linesRepository: Repository<StatementLine>,
+    @InjectRepository(Payment)
+    private paymentsRepository: Repository<Payment>,
+  ) {}
+
+  // How far a booking date may be from the payment date and still match
+  get dateWindowDays(): number {
+    const days = Number(process.env.RECONCILIATION_DATE_WINDOW_DAYS);
+    return Number.isInteger(days) && days >= 0 ? days : 3;
+  }
+
+  // Parses the statement, matches its lines against the organization's
+  // payments and stores the statement with the result of every line
+  async importStatement(
+    organizationId: number,
+    file: UploadedStatement,
+    format: StatementFormat | undefined,
+    actor?: JwtUser,
+  ) {
+    const statementFormat = format ?? detectStatementFormat(file.buffer);
+    const parsed = parseStatement(file.buffer, statementFormat);
+    if (parsed.length === 0) {
+      throw new BadRequestException('The statement has no lines');
+    }
+
+    const dates = parsed.map((line) => line.bookingDate).sort();
+    const fromDate = dates[0];
+    const toDate = dates[dates.length - 1];
+
+    const candidates = await this.findCandidatePayments(
+      organizationId,
+      parsed,
+      fromDate,
+      toDate,
+    );
+    const matches = matchStatementLines(
+      parsed,
+      candidates,
+      this.dateWindowDays,
+    );
+
+    const statementId = await this.statementsRepository.manager.transaction(
+      async (manager) => {
+        const statement = await manager.save(
+          manager.create(BankStatement, {
+            organizationId,
+            filename: file.originalname,
+            format: statementFormat,
+            currency: parsed.find((line) => line.currency)?.currency,
+            fromDate,
+            toDate,
+            lineCount: parsed.length,
+            importedById: actor?.userId,
+            importedByUsername: actor?.username,
+          }),
+        );
+
+        await manager.insert(
+          StatementLine,
+          parsed.map((line, index) => ({
+            ...line,
+            ...matches[index],
+            statementId: statement.id,
+          })),
+        );
+
+        return statement.id;
+      },
+    );
+
+    return this.getStatement(organizationId, statementId);
+  }
+
+  // Statements newest first, with how many lines ended up in each set
+  async listStatements(organizationId: number) {
+    const statements = await this.statementsRepository.find({
+      where: { organizationId },
+      order: { createdAt: 'DESC' },
+    });
+    if (statements.length === 0) {
+      return [];
+    }
+
+    const counts = await this.linesRepository
+      .createQueryBuilder('line')
+      .select('line.statementId', 'statementId')
+      .addSelect('line.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .where('line.statementId IN (:...ids)', {
+        ids: statements.map((statement) => statement.id),
+      })
+      .groupBy('line.statementId')
+      .addGroupBy('line.status')
+      .getRawMany<{
+        statementId: number;
+        status: ReconciliationStatus;
+        count: string;
+      }>();
+
+    return statements.map((statement) => ({
+      ...statement,
+      ...this.countByStatus(
+        counts.filter((count) => count.statementId === statement.id),
+      ),
+    }));
+  }
+
+  // The statement's lines split into matched, unmatched and mismatched, plus
+  // settled payments from the same period that no bank line accounts for
+  async getStatement(organizationId: number, id: number) {
+    const statement = await this.statementsRepository.findOne({
+      where: { id, organizationId },
+    });
+    if (!statement) {
+      throw new NotFoundException(`Bank statement with ID ${id} not found`);
+    }
+
+    const lines = await this.linesWithPayments(organizationId)
+      .where('line.statementId = :id', { id })
+      .orderBy('line.bookingDate', 'ASC')
+      .addOrderBy('line.id', 'ASC')
+      .getMany();
+    const unmatchedPayments = await this.findUnaccountedPayments(
+      organizationId,
+      statement,
+    );
+
+    const byStatus = (status: ReconciliationStatus) =>
+      lines.filter((line) => line.status === status);
+
+    return {
+      statement,
+      summary: {
+        total: lines.length,
+        matched: byStatus(ReconciliationStatus.MATCHED).length,
+        unmatched: byStatus(ReconciliationStatus.UNMATCHED).length,
+        mismatched: byStatus(ReconciliationStatus.MISMATCHED).length,
+        reviewed: lines.filter((line) => line.reviewed).length,
+        unmatchedPayments: unmatchedPayments.length,
+      },
+      matched: byStatus(ReconciliationStatus.MATCHED),
+      unmatched: byStatus(ReconciliationStatus.UNMATCHED),
+      mismatched: byStatus(ReconciliationStatus.MISMATCHED),
+      unmatchedPayments,
+    };
+  }
+
+  // Accepts the automatic result. A mismatched line is accepted as a match
+  // despite its differences; an unmatched line is acknowledged as having no
+  // payment (a fee, a transfer, ...).
+  async confirmLine(
+    organizationId: number,
+    id: number,
+    dto: ConfirmLineDto,
+    actor?: JwtUser,
+  ) {
+    const line = await this.findLine(organizationId, id);
+
+    if (line.status === ReconciliationStatus.MISMATCHED) {
+      await this.assertPaymentFree(line.paymentId!, line.id);
+      line.status = ReconciliationStatus.MATCHED;
+    }
+
+    return this.saveReview(organizationId, line, dto.note, actor);
+  }
+
+  // Replaces the automatic result with the payment chosen by a person, or
+  // with no payment at all
+  async overrideLine(
+    organizationId: number,
+    id: number,
+    dto: OverrideLineDto,
+    actor?: JwtUser,
+  ) {
+    const line = await this.findLine(organizationId, id);
+
+    if (dto.paymentId === null) {
+      line.paymentId = null;
+      line.status = ReconciliationStatus.UNMATCHED;
+      line.matchMethod = null;
+    } else {
+      const payment = await this.paymentsRepository.findOne({
+        where: { id: dto.paymentId, organizationId },
+      });
+      if (!payment) {
+        throw new NotFoundException(
+          `Payment with ID ${dto.paymentId} not found`,
+        );
+      }
+      await this.assertPaymentFree(payment.id, line.id);
+
+      line.paymentId = payment.id;
+      line.status = ReconciliationStatus.MATCHED;
+      line.matchMethod = MatchMethod.MANUAL;
+    }
+    line.reasons = [];
+
+    return this.saveReview(organizationId, line, dto.note, actor);
+  }
+
+  private async findLine(
+    organizationId: number,
+    id: number,
+  ): Promise<StatementLine> {
+    const line = await this.linesRepository.findOne({
+      where: { id, statement: { organizationId } },
+    });
+    if (!line) {
+      throw new NotFoundException(`Statement line with ID ${id} not found`);
+    }
+    return line;
+  }
+
+  private async saveReview(
+    organizationId: number,
+    line: StatementLine,
+    note: string | undefined,
+    actor?: JwtUser,
+  ): Promise<StatementLine> {
+    line.reviewed = true;
+    line.reviewedById = actor?.userId;
+    line.reviewedByUsername = actor?.username;
+    line.reviewedAt = new Date();
+    line.note = note ?? line.note;
+    await this.linesRepository.save(line);
+
+    return this.linesWithPayments(organizationId)
+      .where('line.id = :id', { id: line.id })
+      .getOneOrFail();
+  }
+
+  // Lines of the organization's statements, with their payment loaded only
+  // when it belongs to the same organization
+  private linesWithPayments(
+    organizationId: number,
+  ): SelectQueryBuilder<StatementLine> {
+    return this.linesRepository
+      .createQueryBuilder('line')
+      .innerJoin(
+        'line.statement',
+        'statement',
+        'statement.organizationId = :organizationId',
+        { organizationId },
+      )
+      .leftJoinAndSelect(
+        'line.payment',
+        'payment',
+        'payment.organizationId = :organizationId',
+      );
+  }
+
+  // A payment arrives at the bank once, so it can only be matched once
+  private async assertPaymentFree(paymentId: number, lineId: number) {
+    const existing = await this.linesRepository.findOne({
+      where: {
+        paymentId,
+        status: ReconciliationStatus.MATCHED,
+        id: Not(lineId),
+      },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `Payment ${paymentId} is already matched to statement line ${existing.id}`,
+      );
+    }
+  }
+
+  // Payments the lines could refer to: created within the date window of the
+  // statement, or named by a reference, and not already matched elsewhere
+  private findCandidatePayments(
+    organizationId: number,
+    lines: ParsedStatementLine[],
+    fromDate: string,
+    toDate: string,
+  ): Promise<Payment[]> {
+    const windowMs = this.dateWindowDays * DAY_MS;
+    const tokens = [...new Set(lines.flatMap(referenceTokens))];
+
+    const query = this.paymentsRepository
+      .createQueryBuilder('payment')
+      .where('payment.organizationId = :organizationId', { organizationId })
+      .andWhere(
+        new Brackets((where) => {
+          where.where('payment.createdAt BETWEEN :from AND :to', {
+            from: new Date(Date.parse(fromDate) - windowMs),
+            to: new Date(Date.parse(toDate) + DAY_MS + windowMs),
+          });
+          if (tokens.length > 0) {
+            where.orWhere('UPPER(payment.transactionId) IN (:...tokens)', {
+              tokens,
+            });
+          }
+        }),
+      );
+
+    return this.excludeMatchedPayments(query).getMany();
+  }
+
+  // Settled payments created during the statement period with no bank line
+  private findUnaccountedPayments(
+    organizationId: number,
+    statement: BankStatement,
+  ): Promise<Payment[]> {
+    if (!statement.fromDate || !statement.toDate) {
+      return Promise.resolve([]);
+    }
+
+    const query = this.paymentsRepository
+      .createQueryBuilder('payment')
+      .where('payment.organizationId = :organizationId', { organizationId })
+      .andWhere('payment.status IN (:...settled)', {
+        settled: SETTLED_PAYMENT_STATUSES,
+      })
+      .andWhere('payment.createdAt >= :from AND payment.createdAt < :to', {
+        from: new Date(statement.fromDate),
+        to: new Date(Date.parse(statement.toDate) + DAY_MS),
+      })
+      .orderBy('payment.createdAt', 'ASC');
+
+    return this.excludeMatchedPayments(query).getMany();
+  }
+
+  private excludeMatchedPayments(
+    query: SelectQueryBuilder<Payment>,
+  ): SelectQueryBuilder<Payment> {
+    return query.andWhere(
+      `NOT EXISTS ${query
+        .subQuery()
+        .select('1')
+        .from(StatementLine, 'matched_line')
+        .where('matched_line.paymentId = payment.id')
+        .andWhere('matched_line.status = :matchedStatus')
+        .getQuery()}`,
+      { matchedStatus: ReconciliationStatus.MATCHED },
+    );
+  }
+
+  private countByStatus(
+    counts: { status: ReconciliationStatus; count: string }[],
+  ) {
+    const count = (status: ReconciliationStatus) =>
+      Number(counts.find((row) => row.status === status)?.count ?? 0);
+    return {
+      matchedCount: count(ReconciliationStatus.MATCHED),
+      unmatchedCount: count(ReconciliationStatus.UNMATCHED),
+      mismatchedCount: count(ReconciliationStatus.MISMATCHED),
+    };
+  }
+}
@@ -0,0 +1,8 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { UserRole } from '../enums/user-role.enum';
+
+export class UpdateUserDto {
+  @IsEnum(UserRole)
+  @IsOptional()
+  role?: UserRole;
+}
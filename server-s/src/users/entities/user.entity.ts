@@ -1,4 +1,11 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+} from 'typeorm';
 import { UserRole } from '../enums/user-role.enum';
 
 @Entity('users')
@@ -19,9 +26,28 @@ export class User {
   })
   role: UserRole;
 
+  // Base32 TOTP secret; set at enrollment, only trusted once totpEnabled
+  @Column({ type: 'varchar', nullable: true, select: false })
+  totpSecret?: string | null;
+
+  @Column({ default: false })
+  totpEnabled: boolean;
+
+  // Time step of the last accepted code, so a code cannot be replayed
+  @Column({ type: 'int', nullable: true, select: false })
+  totpLastUsedStep?: number | null;
+
+  // Disabled users cannot log in and their tokens and API keys stop working
+  @Column({ type: 'timestamp', nullable: true })
+  disabledAt?: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
   @UpdateDateColumn()
   updatedAt: Date;
+
+  // Soft deletion; TypeORM leaves these rows out of every find
+  @DeleteDateColumn()
+  deletedAt?: Date | null;
 }
\ No newline at end of file
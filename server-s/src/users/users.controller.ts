@@ -1,20 +1,136 @@
-import { Controller, Get, Post, Body, UseGuards, ValidationPipe } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+  HttpCode,
+  UseGuards,
+  ValidationPipe,
+  Request,
+  Ip,
+  Headers,
+} from '@nestjs/common';
 import { JwtAuthGuard } from 'src/auth/jwt-auth-guard';
+import { RolesGuard } from 'src/auth/roles-guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { JwtUser } from 'src/auth/interfaces/jwt-user.interface';
+import { ActiveOrganization } from 'src/organizations/active-organization.decorator';
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { UserRole } from './enums/user-role.enum';
 
+// Admins see and manage the members of their active organization only; see
+// ActiveOrganization
 @Controller('users')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
   @Get()
-  findAll() {
-    return this.usersService.findAll();
+  findAll(@ActiveOrganization() organizationId: number) {
+    return this.usersService.findAll(organizationId);
   }
 
   @Post()
-  create(@Body(ValidationPipe) createUserDto: CreateUserDto) {
-    return this.usersService.create(createUserDto);
+  create(
+    @Body(ValidationPipe) createUserDto: CreateUserDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.usersService.create(createUserDto, req.user);
+  }
+
+  @Patch(':id')
+  update(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body(ValidationPipe) updateUserDto: UpdateUserDto,
+    @Request() req: { user: JwtUser },
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.usersService.update(
+      organizationId,
+      id,
+      updateUserDto,
+      req.user,
+      { ip, userAgent },
+    );
+  }
+
+  @Post(':id/disable')
+  @HttpCode(200)
+  disable(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: JwtUser },
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.usersService.disable(organizationId, id, req.user, {
+      ip,
+      userAgent,
+    });
+  }
+
+  @Post(':id/enable')
+  @HttpCode(200)
+  enable(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: JwtUser },
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.usersService.enable(organizationId, id, req.user, {
+      ip,
+      userAgent,
+    });
+  }
+
+  // The temporary password in the response is not shown again
+  @Post(':id/reset-password')
+  @HttpCode(200)
+  resetPassword(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: JwtUser },
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.usersService.resetPassword(organizationId, id, req.user, {
+      ip,
+      userAgent,
+    });
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  remove(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: { user: JwtUser },
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.usersService.remove(organizationId, id, req.user, {
+      ip,
+      userAgent,
+    });
+  }
+
+  // Lifts a login lockout before it runs out
+  @Post(':id/unlock')
+  @HttpCode(200)
+  unlock(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.usersService.unlock(organizationId, id);
   }
 }
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { UsersService } from './users.service';
+import { User } from './entities/user.entity';
+import { UserRole } from './enums/user-role.enum';
+import { AuthEventType } from '../audit/enums/auth-event-type.enum';
+
+describe('UsersService', () => {
+  const ORG = 3;
+  const admin = { userId: 2, username: 'root', role: UserRole.ADMIN };
+
+  const setup = (user: Partial<User>, otherActiveAdmins = 0) => {
+    const usersRepository = {
+      findOne: jest.fn().mockResolvedValue({ id: 1, username: 'ops', ...user }),
+      count: jest.fn().mockResolvedValue(otherActiveAdmins),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      softDelete: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    const loginThrottleService = { unlockUser: jest.fn() };
+    const refreshTokensService = { revokeAllForUser: jest.fn() };
+    const auditService = { recordAuthEvent: jest.fn() };
+    const organizationsService = {
+      isMember: jest.fn((_userId: number, organizationId: number) =>
+        Promise.resolve(organizationId === ORG),
+      ),
+    };
+    const service = new UsersService(
+      usersRepository as never,
+      loginThrottleService as never,
+      refreshTokensService as never,
+      auditService as never,
+      organizationsService as never,
+    );
+
+    return {
+      service,
+      usersRepository,
+      loginThrottleService,
+      refreshTokensService,
+      auditService,
+    };
+  };
+
+  it.each([
+    [
+      'demoted',
+      (service: UsersService) =>
+        service.update(ORG, 1, { role: UserRole.VIEWER }),
+    ],
+    ['disabled', (service: UsersService) => service.disable(ORG, 1)],
+    ['deleted', (service: UsersService) => service.remove(ORG, 1)],
+  ])('refuses to let the last active admin be %s', async (_, action) => {
+    const { service, usersRepository } = setup({ role: UserRole.ADMIN });
+
+    await expect(action(service)).rejects.toThrow(ConflictException);
+    expect(usersRepository.update).not.toHaveBeenCalled();
+    expect(usersRepository.softDelete).not.toHaveBeenCalled();
+  });
+
+  it('disables an admin while another admin is active and ends their sessions', async () => {
+    const { service, usersRepository, refreshTokensService } = setup(
+      { role: UserRole.ADMIN },
+      1,
+    );
+
+    await service.disable(ORG, 1);
+
+    expect(usersRepository.update).toHaveBeenCalledWith(
+      { id: 1 },
+      { disabledAt: expect.any(Date) as Date },
+    );
+    expect(refreshTokensService.revokeAllForUser).toHaveBeenCalledWith(
+      1,
+      'admin',
+    );
+  });
+
+  it('audits role changes with the admin who made them', async () => {
+    const { service, auditService } = setup({ role: UserRole.VIEWER });
+
+    await service.update(
+      ORG,
+      1,
+      { role: UserRole.ADMIN },
+      { userId: 2, username: 'root', role: UserRole.ADMIN },
+      { ip: '10.0.0.2' },
+    );
+
+    expect(auditService.recordAuthEvent).toHaveBeenCalledWith(
+      {
+        type: AuthEventType.ROLE_CHANGED,
+        userId: 1,
+        username: 'ops',
+        actorUsername: 'root',
+        details: { from: UserRole.VIEWER, to: UserRole.ADMIN },
+      },
+      { ip: '10.0.0.2' },
+    );
+  });
+
+  it.each([
+    [
+      AuthEventType.USER_DISABLED,
+      { disabledAt: null },
+      (service: UsersService) =>
+        service.disable(ORG, 1, admin, { ip: '10.0.0.2' }),
+    ],
+    [
+      AuthEventType.USER_ENABLED,
+      { disabledAt: new Date() },
+      (service: UsersService) =>
+        service.enable(ORG, 1, admin, { ip: '10.0.0.2' }),
+    ],
+    [
+      AuthEventType.USER_DELETED,
+      {},
+      (service: UsersService) =>
+        service.remove(ORG, 1, admin, { ip: '10.0.0.2' }),
+    ],
+    [
+      AuthEventType.PASSWORD_CHANGED,
+      {},
+      (service: UsersService) =>
+        service.resetPassword(ORG, 1, admin, { ip: '10.0.0.2' }),
+    ],
+  ])('audits %s with the admin who did it', async (type, user, action) => {
+    const { service, auditService } = setup({
+      role: UserRole.VIEWER,
+      ...user,
+    });
+
+    await action(service);
+
+    expect(auditService.recordAuthEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type,
+        userId: 1,
+        username: 'ops',
+        actorUsername: 'root',
+      }),
+      { ip: '10.0.0.2' },
+    );
+  });
+
+  it('lets viewers go without counting admins', async () => {
+    const { service, usersRepository } = setup({ role: UserRole.VIEWER });
+
+    await service.remove(ORG, 1);
+
+    expect(usersRepository.count).not.toHaveBeenCalled();
+    expect(usersRepository.softDelete).toHaveBeenCalledWith({ id: 1 });
+  });
+
+  it('resets the password to a temporary one and revokes every session', async () => {
+    const { service, usersRepository, refreshTokensService } = setup({
+      role: UserRole.VIEWER,
+    });
+
+    const { temporaryPassword } = await service.resetPassword(ORG, 1);
+
+    const [, { password }] = usersRepository.update.mock.calls[0] as [
+      unknown,
+      { password: string },
+    ];
+    await expect(bcrypt.compare(temporaryPassword, password)).resolves.toBe(
+      true,
+    );
+    expect(refreshTokensService.revokeAllForUser).toHaveBeenCalledWith(
+      1,
+      'password_change',
+    );
+  });
+
+  it.each([
+    ['changed', (service: UsersService) => service.update(ORG + 1, 1, {})],
+    ['disabled', (service: UsersService) => service.disable(ORG + 1, 1)],
+    ['enabled', (service: UsersService) => service.enable(ORG + 1, 1)],
+    ['reset', (service: UsersService) => service.resetPassword(ORG + 1, 1)],
+    ['deleted', (service: UsersService) => service.remove(ORG + 1, 1)],
+    ['unlocked', (service: UsersService) => service.unlock(ORG + 1, 1)],
+  ])(
+    'refuses to let users of another organization be %s',
+    async (_, action) => {
+      const { service, usersRepository, loginThrottleService } = setup({
+        role: UserRole.VIEWER,
+      });
+
+      await expect(action(service)).rejects.toThrow(
+        new NotFoundException('User with ID 1 not found'),
+      );
+      expect(usersRepository.update).not.toHaveBeenCalled();
+      expect(usersRepository.softDelete).not.toHaveBeenCalled();
+      expect(loginThrottleService.unlockUser).not.toHaveBeenCalled();
+    },
+  );
+});
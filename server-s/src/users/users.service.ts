@@ -1,29 +1,67 @@
 // src/users/users.service.ts - Updated with seed method
-import { Injectable, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
 import { User } from './entities/user.entity';
 import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
 import { UserRole } from './enums/user-role.enum';
 import * as bcrypt from 'bcrypt';
+import { LoginThrottleService } from '../auth/login-throttle.service';
+import { RefreshTokensService } from '../auth/refresh-tokens.service';
+import { JwtUser } from '../auth/interfaces/jwt-user.interface';
+import { AuditService, RequestSource } from '../audit/audit.service';
+import { AuthEventType } from '../audit/enums/auth-event-type.enum';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+
+const USER_FIELDS: (keyof User)[] = [
+  'id',
+  'username',
+  'role',
+  'totpEnabled',
+  'disabledAt',
+  'createdAt',
+  'updatedAt',
+];
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private usersRepository: Repository<User>,
+    private loginThrottleService: LoginThrottleService,
+    private refreshTokensService: RefreshTokensService,
+    private auditService: AuditService,
+    private organizationsService: OrganizationsService,
   ) {}
 
-  async findAll(): Promise<User[]> {
-    return this.usersRepository.find({
-      select: ['id', 'username', 'role', 'createdAt', 'updatedAt'], // Exclude password
-    });
+  // Members of the organization; the password and TOTP secret are left out
+  async findAll(organizationId: number): Promise<User[]> {
+    return this.usersRepository
+      .createQueryBuilder('user')
+      .select(USER_FIELDS.map((field) => `user.${field}`))
+      .innerJoin(
+        OrganizationMembership,
+        'membership',
+        'membership.userId = user.id AND membership.organizationId = :organizationId',
+        { organizationId },
+      )
+      .orderBy('user.id', 'ASC')
+      .getMany();
   }
 
-  async create(createUserDto: CreateUserDto): Promise<User> {
-    // Check if user already exists
+  // The new user joins the creator's active organization
+  async create(createUserDto: CreateUserDto, actor?: JwtUser): Promise<User> {
+    // Check if user already exists; deleted users keep their username
     const existingUser = await this.usersRepository.findOne({
       where: { username: createUserDto.username },
+      withDeleted: true,
     });
 
     if (existingUser) {
@@ -41,6 +79,13 @@ export class UsersService {
     });
 
     const savedUser = await this.usersRepository.save(user);
+    if (actor?.organizationId) {
+      await this.organizationsService.addMember(
+        actor.organizationId,
+        savedUser.id,
+        actor.userId,
+      );
+    }
     
     // Return user without password
     const { password, ...result } = savedUser;
@@ -50,10 +95,176 @@ export class UsersService {
   async findOne(id: number): Promise<User | null> {
     return this.usersRepository.findOne({ 
       where: { id },
-      select: ['id', 'username', 'role', 'createdAt', 'updatedAt']
+      select: USER_FIELDS,
     });
   }
 
+  // Access tokens carry the role, so a role change ends the user's sessions
+  async update(
+    organizationId: number,
+    id: number,
+    updateUserDto: UpdateUserDto,
+    actor?: JwtUser,
+    source: RequestSource = {},
+  ): Promise<User> {
+    const user = await this.findMember(organizationId, id);
+    if (updateUserDto.role && updateUserDto.role !== user.role) {
+      await this.assertNotLastActiveAdmin(user);
+      await this.usersRepository.update({ id }, { role: updateUserDto.role });
+      await this.refreshTokensService.revokeAllForUser(id, 'admin');
+      await this.auditService.recordAuthEvent(
+        {
+          type: AuthEventType.ROLE_CHANGED,
+          userId: id,
+          username: user.username,
+          actorUsername: actor?.username,
+          details: { from: user.role, to: updateUserDto.role },
+        },
+        source,
+      );
+    }
+    return this.findExisting(id);
+  }
+
+  // Ends the user's sessions; JwtStrategy refuses their remaining tokens
+  async disable(
+    organizationId: number,
+    id: number,
+    actor?: JwtUser,
+    source: RequestSource = {},
+  ): Promise<User> {
+    const user = await this.findMember(organizationId, id);
+    if (!user.disabledAt) {
+      await this.assertNotLastActiveAdmin(user);
+      await this.usersRepository.update({ id }, { disabledAt: new Date() });
+      await this.refreshTokensService.revokeAllForUser(id, 'admin');
+      await this.auditService.recordAuthEvent(
+        {
+          type: AuthEventType.USER_DISABLED,
+          userId: id,
+          username: user.username,
+          actorUsername: actor?.username,
+        },
+        source,
+      );
+    }
+    return this.findExisting(id);
+  }
+
+  async enable(
+    organizationId: number,
+    id: number,
+    actor?: JwtUser,
+    source: RequestSource = {},
+  ): Promise<User> {
+    const user = await this.findMember(organizationId, id);
+    if (user.disabledAt) {
+      await this.usersRepository.update({ id }, { disabledAt: null });
+      await this.auditService.recordAuthEvent(
+        {
+          type: AuthEventType.USER_ENABLED,
+          userId: id,
+          username: user.username,
+          actorUsername: actor?.username,
+        },
+        source,
+      );
+    }
+    return this.findExisting(id);
+  }
+
+  // Replaces the password with a random one that is returned only here, ends
+  // every session and lifts any lockout
+  async resetPassword(
+    organizationId: number,
+    id: number,
+    actor?: JwtUser,
+    source: RequestSource = {},
+  ): Promise<{ temporaryPassword: string }> {
+    const user = await this.findMember(organizationId, id);
+    const temporaryPassword = randomBytes(12).toString('base64url');
+
+    await this.usersRepository.update(
+      { id },
+      { password: await bcrypt.hash(temporaryPassword, 10) },
+    );
+    await this.refreshTokensService.revokeAllForUser(id, 'password_change');
+    await this.loginThrottleService.unlockUser(user.username);
+    await this.auditService.recordAuthEvent(
+      {
+        type: AuthEventType.PASSWORD_CHANGED,
+        userId: id,
+        username: user.username,
+        actorUsername: actor?.username,
+        details: { method: 'admin_reset' },
+      },
+      source,
+    );
+    return { temporaryPassword };
+  }
+
+  // Soft delete: the row stays for the records that point at it
+  async remove(
+    organizationId: number,
+    id: number,
+    actor?: JwtUser,
+    source: RequestSource = {},
+  ): Promise<void> {
+    const user = await this.findMember(organizationId, id);
+    await this.assertNotLastActiveAdmin(user);
+    await this.usersRepository.softDelete({ id });
+    await this.refreshTokensService.revokeAllForUser(id, 'admin');
+    await this.auditService.recordAuthEvent(
+      {
+        type: AuthEventType.USER_DELETED,
+        userId: id,
+        username: user.username,
+        actorUsername: actor?.username,
+      },
+      source,
+    );
+  }
+
+  // Clears the user's failed logins and any lockout
+  async unlock(
+    organizationId: number,
+    id: number,
+  ): Promise<{ message: string }> {
+    const user = await this.findMember(organizationId, id);
+    await this.loginThrottleService.unlockUser(user.username);
+    return { message: `User ${user.username} unlocked` };
+  }
+
+  private async findExisting(id: number): Promise<User> {
+    const user = await this.findOne(id);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return user;
+  }
+
+  // Admins only manage the members of their active organization; other
+  // users look the same as ones that do not exist
+  private async findMember(organizationId: number, id: number): Promise<User> {
+    if (!(await this.organizationsService.isMember(id, organizationId))) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return this.findExisting(id);
+  }
+
+  // Demoting, disabling or deleting an admin must leave another enabled one
+  private async assertNotLastActiveAdmin(user: User): Promise<void> {
+    if (user.role !== UserRole.ADMIN || user.disabledAt) {
+      return;
+    }
+    const otherActiveAdmins = await this.usersRepository.count({
+      where: { role: UserRole.ADMIN, disabledAt: IsNull(), id: Not(user.id) },
+    });
+    if (otherActiveAdmins === 0) {
+      throw new ConflictException('Cannot remove the last active admin');
+    }
+  }
+
   async findByUsername(username: string): Promise<User | null> {
     return this.usersRepository.findOne({ where: { username } });
   }
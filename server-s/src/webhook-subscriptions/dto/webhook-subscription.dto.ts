@@ -0,0 +1,71 @@
+// src/webhook-subscriptions/dto/webhook-subscription.dto.ts
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { WEBHOOK_EVENT_TYPES } from '../webhook-event-types';
+import type { WebhookEventType } from '../webhook-event-types';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+
+// http is allowed so local receivers work during development
+const URL_OPTIONS = { protocols: ['http', 'https'], require_tld: false };
+
+export class CreateWebhookSubscriptionDto {
+  @IsUrl(URL_OPTIONS)
+  url: string;
+
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  events: WebhookEventType[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
+
+export class UpdateWebhookSubscriptionDto {
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  url?: string;
+
+  @IsOptional()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  events?: WebhookEventType[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class WebhookDeliveryQueryDto {
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
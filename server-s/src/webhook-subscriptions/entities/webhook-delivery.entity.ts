@@ -0,0 +1,75 @@
+// src/webhook-subscriptions/entities/webhook-delivery.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+import { WebhookSubscription } from './webhook-subscription.entity';
+import type {
+  OutboundWebhookEvent,
+  WebhookEventType,
+} from '../webhook-event-types';
+
+// One event owed to one subscriber, and how sending it went so far. Written
+// in the same transaction as the change it reports, then sent by the worker.
+@Entity('webhook_deliveries')
+@Index(['status', 'nextAttemptAt'])
+@Index(['subscriptionId', 'createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  subscriptionId: number;
+
+  @ManyToOne(() => WebhookSubscription, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscriptionId' })
+  subscription: WebhookSubscription;
+
+  @Column('uuid')
+  eventId: string;
+
+  @Column()
+  eventType: WebhookEventType;
+
+  @Column({ type: 'jsonb' })
+  payload: OutboundWebhookEvent;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  nextAttemptAt?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAttemptAt?: Date | null;
+
+  // Outcome of the last attempt
+  @Column({ type: 'int', nullable: true })
+  responseStatus?: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  responseBody?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string | null;
+
+  // Set on manual redeliveries: the delivery this one repeats
+  @Column({ nullable: true })
+  redeliveryOfId?: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
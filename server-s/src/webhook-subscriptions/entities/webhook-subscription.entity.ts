@@ -0,0 +1,50 @@
+// src/webhook-subscriptions/entities/webhook-subscription.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { WebhookEventType } from '../webhook-event-types';
+
+// A URL that receives signed payment events
+@Entity('webhook_subscriptions')
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Only events of this organization's payments are sent. Null only for
+  // subscriptions created before organizations existed, until SeedService
+  // moves them to the default one.
+  @Column({ type: 'int', nullable: true })
+  organizationId: number | null;
+
+  @Column()
+  url: string;
+
+  @Column({ type: 'jsonb' })
+  events: WebhookEventType[];
+
+  @Column({ nullable: true })
+  description?: string;
+
+  // Signs every delivery. Only returned when the subscription is created.
+  @Column({ select: false })
+  secret: string;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @Column({ nullable: true })
+  createdById?: number;
+
+  @Column({ nullable: true })
+  createdByUsername?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,9 @@
+// src/webhook-subscriptions/enums/webhook-delivery-status.enum.ts
+export enum WebhookDeliveryStatus {
+  // Waiting for its first or next attempt
+  PENDING = 'pending',
+  // The subscriber answered 2xx
+  SUCCEEDED = 'succeeded',
+  // Out of attempts, or the subscription is gone or disabled
+  FAILED = 'failed',
+}
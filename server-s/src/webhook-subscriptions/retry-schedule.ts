@@ -0,0 +1,17 @@
+// src/webhook-subscriptions/retry-schedule.ts
+
+// Attempts per delivery before it is marked failed
+export const DEFAULT_MAX_DELIVERY_ATTEMPTS = 8;
+
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Wait before the attempt after `attempts` failed ones: 30s, 1m, 2m, 4m ...
+// capped at 6h, with up to 10% jitter so retries from one outage spread out
+export function retryDelayMs(
+  attempts: number,
+  random: () => number = Math.random,
+): number {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  return Math.round(delay * (1 + 0.1 * random()));
+}
@@ -0,0 +1,246 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookDeliveryStatus } from './enums/webhook-delivery-status.enum';
+import { retryDelayMs } from './retry-schedule';
+import { verifyWebhookSignature } from '../webhooks/webhook-signature';
+
+const SECRET = 'whsec_test';
+
+interface Received {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+describe('WebhookDeliveryService', () => {
+  let server: Server;
+  let url: string;
+  let received: Received[];
+  // Status codes the receiver answers with, in order; 200 once used up
+  let replies: number[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        });
+        res.statusCode = replies.shift() ?? 200;
+        res.end(res.statusCode === 200 ? 'ok' : 'try again');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const setup = (active = true) => {
+    received = [];
+    replies = [];
+    const rows = new Map<number, WebhookDelivery>();
+    const deliveriesRepository = {
+      create: (values: Partial<WebhookDelivery>) => values,
+      save: jest.fn((values: WebhookDelivery) => {
+        const row = { ...values, id: values.id ?? rows.size + 1 };
+        rows.set(row.id, row);
+        return Promise.resolve({ ...row });
+      }),
+      findOne: jest.fn(({ where }: { where: { id: number } }) =>
+        Promise.resolve(rows.has(where.id) ? { ...rows.get(where.id) } : null),
+      ),
+      find: jest.fn(() =>
+        Promise.resolve(
+          [...rows.values()]
+            .filter(
+              (row) =>
+                row.status === WebhookDeliveryStatus.PENDING &&
+                row.nextAttemptAt! <= new Date(),
+            )
+            .map((row) => ({ ...row })),
+        ),
+      ),
+      // Applies the change only when every criterion matches
+      update: jest.fn(
+        (
+          criteria: number | Partial<WebhookDelivery>,
+          values: Partial<WebhookDelivery>,
+        ) => {
+          const where =
+            typeof criteria === 'number' ? { id: criteria } : criteria;
+          const row = rows.get(where.id!);
+          const matches =
+            row &&
+            Object.entries(where).every(
+              ([key, value]) => row[key as keyof WebhookDelivery] === value,
+            );
+          if (matches) {
+            Object.assign(row, values);
+          }
+          return Promise.resolve({ affected: matches ? 1 : 0 });
+        },
+      ),
+    };
+    const subscriptionsRepository = {
+      findOne: jest.fn(() =>
+        Promise.resolve({ id: 1, url, secret: SECRET, active }),
+      ),
+    };
+    const service = new WebhookDeliveryService(
+      deliveriesRepository as never,
+      subscriptionsRepository as never,
+    );
+
+    const queue = () =>
+      deliveriesRepository.save({
+        subscriptionId: 1,
+        eventId: '5a1f4c3e-0000-4000-8000-000000000001',
+        eventType: 'payment.created',
+        payload: {
+          id: '5a1f4c3e-0000-4000-8000-000000000001',
+          type: 'payment.created',
+          createdAt: '2024-01-15T10:00:00.000Z',
+          data: { payment: { id: 7 } },
+        },
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      } as WebhookDelivery);
+
+    return { service, rows, queue, deliveriesRepository };
+  };
+
+  it('posts signed events to the subscriber', async () => {
+    const { service, rows, queue } = setup();
+    const { id } = await queue();
+
+    expect(await service.deliverDue()).toBe(1);
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(() =>
+      verifyWebhookSignature(
+        body,
+        headers['x-webhook-signature'] as string,
+        SECRET,
+        300,
+      ),
+    ).not.toThrow();
+    expect(headers['x-webhook-event']).toBe('payment.created');
+    expect(JSON.parse(body)).toEqual(
+      expect.objectContaining({ data: { payment: { id: 7 } } }),
+    );
+    expect(rows.get(id)).toEqual(
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts: 1,
+        responseStatus: 200,
+        responseBody: 'ok',
+        nextAttemptAt: null,
+      }),
+    );
+  });
+
+  it('schedules a retry with backoff when the subscriber fails', async () => {
+    const { service, rows, queue } = setup();
+    const { id } = await queue();
+    replies = [500];
+
+    const before = Date.now();
+    await service.deliverDue();
+
+    const delivery = rows.get(id)!;
+    expect(delivery).toEqual(
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 1,
+        responseStatus: 500,
+        error: 'HTTP 500',
+      }),
+    );
+    expect(delivery.nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(
+      retryDelayMs(1, () => 0),
+    );
+    expect(await service.deliverDue()).toBe(0);
+
+    delivery.nextAttemptAt = new Date();
+    await service.deliverDue();
+    expect(rows.get(id)?.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+    expect(rows.get(id)?.error).toBeNull();
+  });
+
+  it('gives up after the last attempt', async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+    const { service, rows, queue } = setup();
+    const { id } = await queue();
+    replies = [503, 503];
+
+    await service.deliverDue();
+    rows.get(id)!.nextAttemptAt = new Date();
+    await service.deliverDue();
+
+    expect(rows.get(id)).toEqual(
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.FAILED,
+        attempts: 2,
+        nextAttemptAt: null,
+      }),
+    );
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+  });
+
+  it('redelivers an event as a new delivery with the same event id', async () => {
+    const { service, rows, queue, deliveriesRepository } = setup();
+    const original = await queue();
+    replies = [500];
+    await service.deliverDue();
+
+    const copy = await service.redeliver(4, original.id);
+
+    expect(deliveriesRepository.findOne).toHaveBeenCalledWith({
+      where: { id: original.id, subscription: { organizationId: 4 } },
+    });
+    expect(copy).toEqual(
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        eventId: original.eventId,
+        redeliveryOfId: original.id,
+      }),
+    );
+    expect(received.map(({ headers }) => headers['x-webhook-id'])).toEqual([
+      original.eventId,
+      original.eventId,
+    ]);
+    expect(rows.get(original.id)?.responseStatus).toBe(500);
+  });
+
+  it('fails deliveries of disabled subscriptions without sending them', async () => {
+    const { service, rows, queue } = setup(false);
+    const { id } = await queue();
+
+    await service.deliverDue();
+
+    expect(received).toHaveLength(0);
+    expect(rows.get(id)).toEqual(
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.FAILED,
+        error: 'Subscription is disabled',
+      }),
+    );
+  });
+
+  it('doubles the retry delay up to a cap', () => {
+    const delays = [1, 2, 3, 20].map((attempt) =>
+      retryDelayMs(attempt, () => 0),
+    );
+
+    expect(delays).toEqual([30000, 60000, 120000, 6 * 60 * 60 * 1000]);
+    expect(retryDelayMs(1, () => 1)).toBe(33000);
+  });
+});
@@ -0,0 +1,210 @@
+// src/webhook-subscriptions/webhook-delivery.service.ts
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDeliveryStatus } from './enums/webhook-delivery-status.enum';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from '../webhooks/webhook-signature';
+import { DEFAULT_MAX_DELIVERY_ATTEMPTS, retryDelayMs } from './retry-schedule';
+
+// Due deliveries sent per worker tick
+const DELIVERY_BATCH_SIZE = 50;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Response bodies kept in the delivery log
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+@Injectable()
+export class WebhookDeliveryService {
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+
+  constructor(
+    @InjectRepository(WebhookDelivery)
+    private deliveriesRepository: Repository<WebhookDelivery>,
+    @InjectRepository(WebhookSubscription)
+    private subscriptionsRepository: Repository<WebhookSubscription>,
+  ) {}
+
+  get maxAttempts(): number {
+    const attempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+    return attempts > 0 ? attempts : DEFAULT_MAX_DELIVERY_ATTEMPTS;
+  }
+
+  get timeoutMs(): number {
+    const timeout = Number(process.env.WEBHOOK_DELIVERY_TIMEOUT_MS);
+    return timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS;
+  }
+
+  // Sends every pending delivery whose next attempt is due. Returns how many
+  // were attempted.
+  async deliverDue(now = new Date()): Promise<number> {
+    const due = await this.deliveriesRepository.find({
+      where: {
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: LessThanOrEqual(now),
+      },
+      order: { nextAttemptAt: 'ASC', id: 'ASC' },
+      take: DELIVERY_BATCH_SIZE,
+    });
+
+    let attempted = 0;
+    for (const delivery of due) {
+      if (await this.attempt(delivery)) {
+        attempted++;
+      }
+    }
+    return attempted;
+  }
+
+  // Queues a fresh copy of a delivery, same event id and payload, and sends
+  // it right away. The original stays in the log untouched.
+  async redeliver(
+    organizationId: number,
+    deliveryId: number,
+  ): Promise<WebhookDelivery> {
+    const original = await this.deliveriesRepository.findOne({
+      where: { id: deliveryId, subscription: { organizationId } },
+    });
+    if (!original) {
+      throw new NotFoundException(
+        `Webhook delivery with ID ${deliveryId} not found`,
+      );
+    }
+
+    const copy = await this.deliveriesRepository.save(
+      this.deliveriesRepository.create({
+        subscriptionId: original.subscriptionId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        redeliveryOfId: original.id,
+      }),
+    );
+
+    return (await this.attempt(copy)) ?? copy;
+  }
+
+  // Claims the delivery, POSTs it and records the outcome. Returns null when
+  // another worker claimed it first.
+  async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+    const attempts = delivery.attempts + 1;
+    const startedAt = new Date();
+
+    // The attempt counter doubles as a lock; pushing nextAttemptAt past the
+    // timeout keeps other workers away while the request is in flight
+    const claim = await this.deliveriesRepository.update(
+      {
+        id: delivery.id,
+        attempts: delivery.attempts,
+        status: WebhookDeliveryStatus.PENDING,
+      },
+      {
+        attempts,
+        lastAttemptAt: startedAt,
+        nextAttemptAt: new Date(startedAt.getTime() + 2 * this.timeoutMs),
+      },
+    );
+    if (!claim.affected) {
+      return null;
+    }
+
+    const subscription = await this.subscriptionsRepository.findOne({
+      where: { id: delivery.subscriptionId },
+      select: { id: true, url: true, secret: true, active: true },
+    });
+
+    let outcome: Pick<
+      WebhookDelivery,
+      'responseStatus' | 'responseBody' | 'error'
+    >;
+    if (!subscription?.active) {
+      outcome = { error: 'Subscription is disabled' };
+    } else {
+      outcome = await this.send(subscription, delivery);
+    }
+
+    const succeeded =
+      outcome.responseStatus !== undefined &&
+      outcome.responseStatus !== null &&
+      outcome.responseStatus >= 200 &&
+      outcome.responseStatus < 300;
+    const givesUp = !subscription?.active || attempts >= this.maxAttempts;
+
+    const result: Partial<WebhookDelivery> = {
+      responseStatus: null,
+      responseBody: null,
+      error: null,
+      ...outcome,
+      attempts,
+      lastAttemptAt: startedAt,
+      status: succeeded
+        ? WebhookDeliveryStatus.SUCCEEDED
+        : givesUp
+          ? WebhookDeliveryStatus.FAILED
+          : WebhookDeliveryStatus.PENDING,
+      nextAttemptAt:
+        succeeded || givesUp
+          ? null
+          : new Date(Date.now() + retryDelayMs(attempts)),
+    };
+    await this.deliveriesRepository.update(delivery.id, result);
+
+    if (!succeeded) {
+      this.logger.warn(
+        `Delivery ${delivery.id} of ${delivery.eventType} failed on attempt ${attempts}: ${outcome.error ?? `HTTP ${outcome.responseStatus}`}`,
+      );
+    }
+
+    return { ...delivery, ...result };
+  }
+
+  private async send(
+    subscription: WebhookSubscription,
+    delivery: WebhookDelivery,
+  ): Promise<
+    Pick<WebhookDelivery, 'responseStatus' | 'responseBody' | 'error'>
+  > {
+    const body = JSON.stringify(delivery.payload);
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'user-agent': 'payment-dashboard-webhooks',
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            body,
+            subscription.secret,
+          ),
+          'x-webhook-id': delivery.eventId,
+          'x-webhook-event': delivery.eventType,
+          'x-webhook-delivery': String(delivery.id),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      const text = await response.text();
+      return {
+        responseStatus: response.status,
+        responseBody: text.slice(0, MAX_RESPONSE_BODY_LENGTH),
+        error: response.ok ? null : `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      const { name, message } = error as Error;
+      return {
+        error:
+          name === 'TimeoutError'
+            ? `Timed out after ${this.timeoutMs}ms`
+            : message,
+      };
+    }
+  }
+}
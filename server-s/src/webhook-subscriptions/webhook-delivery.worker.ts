@@ -0,0 +1,45 @@
+// src/webhook-subscriptions/webhook-delivery.worker.ts
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+
+// Sends queued webhook deliveries every WEBHOOK_DELIVERY_INTERVAL_MS
+// (5s by default; 0 turns the worker off)
+@Injectable()
+export class WebhookDeliveryWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDeliveryWorker.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly deliveryService: WebhookDeliveryService) {}
+
+  onModuleInit() {
+    const interval = Number(process.env.WEBHOOK_DELIVERY_INTERVAL_MS ?? 5000);
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.tick(), interval);
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  // Skips a tick while the previous one is still running
+  async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.deliveryService.deliverDue();
+    } catch (error) {
+      this.logger.error(`Sending webhooks failed: ${(error as Error).message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
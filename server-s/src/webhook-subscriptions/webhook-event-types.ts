@@ -0,0 +1,19 @@
+// src/webhook-subscriptions/webhook-event-types.ts
+
+// Events subscribers can ask for
+export const WEBHOOK_EVENT_TYPES = [
+  'payment.created',
+  'payment.status_changed',
+  'refund.created',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Body POSTed to subscribers. `id` stays the same across retries and
+// redeliveries so receivers can drop duplicates.
+export interface OutboundWebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: object;
+}
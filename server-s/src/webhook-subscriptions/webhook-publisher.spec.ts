@@ -0,0 +1,50 @@
+import { WebhookPublisher } from './webhook-publisher';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+
+describe('WebhookPublisher', () => {
+  const setup = (subscriptionIds: number[]) => {
+    const query = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn(() =>
+        Promise.resolve(subscriptionIds.map((id) => ({ id }))),
+      ),
+    };
+    const manager = {
+      createQueryBuilder: jest.fn(() => query),
+      insert: jest.fn().mockResolvedValue({}),
+    };
+    return { publisher: new WebhookPublisher(), query, manager };
+  };
+
+  it("queues events for the subscriptions of the payment's organization", async () => {
+    const { publisher, query, manager } = setup([3, 5]);
+
+    await publisher.publish(manager as never, 4, 'payment.created', {
+      payment: { id: 7, organizationId: 4 },
+    });
+
+    expect(query.where).toHaveBeenCalledWith(
+      'subscription.organizationId = :organizationId',
+      { organizationId: 4 },
+    );
+    const [entity, rows] = manager.insert.mock.calls[0] as [
+      unknown,
+      WebhookDelivery[],
+    ];
+    expect(entity).toBe(WebhookDelivery);
+    expect(rows.map((row) => row.subscriptionId)).toEqual([3, 5]);
+  });
+
+  it('queues nothing for payments without an organization', async () => {
+    const { publisher, manager } = setup([3]);
+
+    await publisher.publish(manager as never, null, 'payment.created', {
+      payment: { id: 7 },
+    });
+
+    expect(manager.createQueryBuilder).not.toHaveBeenCalled();
+    expect(manager.insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+// src/webhook-subscriptions/webhook-publisher.ts
+import { Injectable } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookEventType } from './webhook-event-types';
+
+// Queues events for every active subscription of the payment's organization
+// that asked for them. Rows are written with the caller's manager, so an
+// event is only sent when the change it describes commits; the delivery
+// worker sends it afterwards.
+@Injectable()
+export class WebhookPublisher {
+  async publish(
+    manager: EntityManager,
+    organizationId: number | null,
+    type: WebhookEventType,
+    data: object,
+  ): Promise<void> {
+    await this.publishAll(manager, organizationId, type, [data]);
+  }
+
+  // One event per entry of `data`, e.g. for bulk imports
+  async publishAll(
+    manager: EntityManager,
+    organizationId: number | null,
+    type: WebhookEventType,
+    data: object[],
+  ): Promise<void> {
+    if (data.length === 0 || organizationId === null) {
+      return;
+    }
+
+    const subscriptions = await manager
+      .createQueryBuilder(WebhookSubscription, 'subscription')
+      .select('subscription.id')
+      .where('subscription.organizationId = :organizationId', {
+        organizationId,
+      })
+      .andWhere('subscription.active = true')
+      .andWhere('subscription.events @> :events', {
+        events: JSON.stringify([type]),
+      })
+      .getMany();
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const createdAt = new Date();
+    const events = data.map((entry) => ({
+      id: randomUUID(),
+      type,
+      createdAt: createdAt.toISOString(),
+      data: entry,
+    }));
+
+    await manager.insert(
+      WebhookDelivery,
+      subscriptions.flatMap((subscription) =>
+        events.map((event) => ({
+          subscriptionId: subscription.id,
+          eventId: event.id,
+          eventType: type,
+          payload: event,
+          nextAttemptAt: createdAt,
+        })),
+      ),
+    );
+  }
+}
@@ -0,0 +1,104 @@
+// src/webhook-subscriptions/webhook-subscriptions.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  HttpCode,
+  ParseIntPipe,
+  ValidationPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtOrApiKeyAuthGuard } from 'src/api-keys/jwt-or-api-key-auth-guard';
+import { ApiKeyResource } from 'src/api-keys/api-key-resource.decorator';
+import { RolesGuard } from 'src/auth/roles-guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { UserRole } from 'src/users/enums/user-role.enum';
+import type { JwtUser } from 'src/auth/interfaces/jwt-user.interface';
+import { ActiveOrganization } from 'src/organizations/active-organization.decorator';
+import { WebhookSubscriptionsService } from './webhook-subscriptions.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  WebhookDeliveryQueryDto,
+} from './dto/webhook-subscription.dto';
+
+// Every route acts in the caller's active organization; see ActiveOrganization
+@Controller('webhook-subscriptions')
+@UseGuards(JwtOrApiKeyAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiKeyResource('webhooks')
+export class WebhookSubscriptionsController {
+  constructor(
+    private readonly subscriptionsService: WebhookSubscriptionsService,
+    private readonly deliveryService: WebhookDeliveryService,
+  ) {}
+
+  @Post()
+  create(
+    @ActiveOrganization() organizationId: number,
+    @Body(ValidationPipe) createDto: CreateWebhookSubscriptionDto,
+    @Request() req: { user: JwtUser },
+  ) {
+    return this.subscriptionsService.create(
+      organizationId,
+      createDto,
+      req.user,
+    );
+  }
+
+  @Get()
+  findAll(@ActiveOrganization() organizationId: number) {
+    return this.subscriptionsService.findAll(organizationId);
+  }
+
+  @Get(':id')
+  findOne(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.subscriptionsService.findOne(organizationId, id);
+  }
+
+  @Patch(':id')
+  update(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body(ValidationPipe) updateDto: UpdateWebhookSubscriptionDto,
+  ) {
+    return this.subscriptionsService.update(organizationId, id, updateDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  remove(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.subscriptionsService.remove(organizationId, id);
+  }
+
+  @Get(':id/deliveries')
+  findDeliveries(
+    @ActiveOrganization() organizationId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Query(ValidationPipe) query: WebhookDeliveryQueryDto,
+  ) {
+    return this.subscriptionsService.findDeliveries(organizationId, id, query);
+  }
+
+  // Sends the event again as a new delivery, whatever happened to the last
+  @Post('deliveries/:deliveryId/redeliver')
+  redeliver(
+    @ActiveOrganization() organizationId: number,
+    @Param('deliveryId', ParseIntPipe) deliveryId: number,
+  ) {
+    return this.deliveryService.redeliver(organizationId, deliveryId);
+  }
+}
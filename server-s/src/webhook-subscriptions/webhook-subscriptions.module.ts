@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookSubscriptionsService } from './webhook-subscriptions.service';
+import { WebhookSubscriptionsController } from './webhook-subscriptions.controller';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { WebhookDeliveryWorker } from './webhook-delivery.worker';
+import { WebhookPublisher } from './webhook-publisher';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WebhookSubscription, WebhookDelivery])],
+  controllers: [WebhookSubscriptionsController],
+  providers: [
+    WebhookSubscriptionsService,
+    WebhookDeliveryService,
+    WebhookDeliveryWorker,
+    WebhookPublisher,
+  ],
+  exports: [WebhookPublisher],
+})
+export class WebhookSubscriptionsModule {}
@@ -0,0 +1,94 @@
+// src/webhook-subscriptions/webhook-subscriptions.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  WebhookDeliveryQueryDto,
+} from './dto/webhook-subscription.dto';
+import { JwtUser } from '../auth/interfaces/jwt-user.interface';
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+
+@Injectable()
+export class WebhookSubscriptionsService {
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private subscriptionsRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private deliveriesRepository: Repository<WebhookDelivery>,
+  ) {}
+
+  // The generated signing secret is only ever returned here
+  async create(
+    organizationId: number,
+    createDto: CreateWebhookSubscriptionDto,
+    actor?: JwtUser,
+  ): Promise<WebhookSubscription> {
+    return this.subscriptionsRepository.save(
+      this.subscriptionsRepository.create({
+        ...createDto,
+        organizationId,
+        secret: `whsec_${randomBytes(24).toString('hex')}`,
+        createdById: actor?.userId,
+        createdByUsername: actor?.username,
+      }),
+    );
+  }
+
+  async findAll(organizationId: number): Promise<WebhookSubscription[]> {
+    return this.subscriptionsRepository.find({
+      where: { organizationId },
+      order: { id: 'ASC' },
+    });
+  }
+
+  async findOne(
+    organizationId: number,
+    id: number,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionsRepository.findOne({
+      where: { id, organizationId },
+    });
+    if (!subscription) {
+      throw new NotFoundException(
+        `Webhook subscription with ID ${id} not found`,
+      );
+    }
+    return subscription;
+  }
+
+  async update(
+    organizationId: number,
+    id: number,
+    updateDto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.findOne(organizationId, id);
+    Object.assign(subscription, updateDto);
+    return this.subscriptionsRepository.save(subscription);
+  }
+
+  // Deleting a subscription also drops its delivery log
+  async remove(organizationId: number, id: number): Promise<void> {
+    await this.findOne(organizationId, id);
+    await this.subscriptionsRepository.delete(id);
+  }
+
+  // Delivery log of a subscription, newest first
+  async findDeliveries(
+    organizationId: number,
+    id: number,
+    query: WebhookDeliveryQueryDto,
+  ): Promise<WebhookDelivery[]> {
+    await this.findOne(organizationId, id);
+    return this.deliveriesRepository.find({
+      where: { subscriptionId: id, status: query.status },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      take: query.limit ?? DEFAULT_DELIVERY_LIMIT,
+    });
+  }
+}
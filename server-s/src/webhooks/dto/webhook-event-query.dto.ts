@@ -0,0 +1,26 @@
+// src/webhooks/dto/webhook-event-query.dto.ts
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { WebhookEventStatus } from '../enums/webhook-event-status.enum';
+
+export class WebhookEventQueryDto {
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @IsOptional()
+  @IsEnum(WebhookEventStatus)
+  status?: WebhookEventStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  paymentId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,56 @@
+// src/webhooks/entities/webhook-event.entity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { WebhookEventStatus } from '../enums/webhook-event-status.enum';
+
+// A verified event received from a gateway, kept verbatim for debugging.
+// The unique index is what drops redelivered events.
+@Entity('webhook_events')
+@Index(['provider', 'eventId'], { unique: true })
+@Index(['paymentId'])
+export class WebhookEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  provider: string;
+
+  @Column()
+  eventId: string;
+
+  @Column()
+  type: string;
+
+  // The body exactly as received, so the signature can be re-checked
+  @Column({ type: 'text' })
+  payload: string;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookEventStatus,
+    default: WebhookEventStatus.RECEIVED,
+  })
+  status: WebhookEventStatus;
+
+  @Column({ nullable: true })
+  paymentId?: number;
+
+  // Why the event was ignored or failed
+  @Column({ type: 'text', nullable: true })
+  detail?: string | null;
+
+  // Deliveries of this event, counting redeliveries after a failure
+  @Column({ default: 1 })
+  attempts: number;
+
+  @CreateDateColumn()
+  receivedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  processedAt?: Date | null;
+}
@@ -0,0 +1,11 @@
+// src/webhooks/enums/webhook-event-status.enum.ts
+export enum WebhookEventStatus {
+  // Stored, not applied yet
+  RECEIVED = 'received',
+  // Changed the payment's status
+  PROCESSED = 'processed',
+  // Valid, but nothing to change (stale, out of order or informational)
+  IGNORED = 'ignored',
+  // Could not be applied; a redelivery is processed again
+  FAILED = 'failed',
+}
@@ -0,0 +1,98 @@
+// src/webhooks/sign-webhook.ts
+//
+// Builds and signs a webhook event the way a gateway would, then prints it
+// as a curl command or sends it. Reads the secret from WEBHOOK_SECRET_<PROVIDER>.
+//
+//   npm run webhook:sign -- --type payment.captured --reference TXN123
+//   npm run webhook:sign -- --type payment.failed --provider-reference mock_... \
+//     --failure-reason "Card declined" --send http://localhost:3000
+import { parseArgs } from 'util';
+import {
+  MOCK_WEBHOOK_EVENT_TYPES,
+  createMockWebhookEvent,
+} from '../payments/providers/mock-payment.provider';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from './webhook-signature';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      provider: { type: 'string', default: 'mock' },
+      type: { type: 'string', default: 'payment.captured' },
+      reference: { type: 'string' },
+      'provider-reference': { type: 'string' },
+      'failure-reason': { type: 'string' },
+      'event-id': { type: 'string' },
+      // Unix seconds; set it in the past to try the replay protection
+      timestamp: { type: 'string' },
+      secret: { type: 'string' },
+      send: { type: 'string' },
+    },
+  });
+
+  const provider = values.provider;
+  const secret =
+    values.secret ?? process.env[`WEBHOOK_SECRET_${provider.toUpperCase()}`];
+  if (!secret) {
+    throw new Error(
+      `Pass --secret or set WEBHOOK_SECRET_${provider.toUpperCase()}`,
+    );
+  }
+  if (!values.reference && !values['provider-reference']) {
+    throw new Error('Pass --reference and/or --provider-reference');
+  }
+  if (!(values.type in MOCK_WEBHOOK_EVENT_TYPES)) {
+    console.warn(
+      `Note: ${values.type} is not one of ${Object.keys(MOCK_WEBHOOK_EVENT_TYPES).join(', ')}`,
+    );
+  }
+
+  const body = JSON.stringify(
+    createMockWebhookEvent(
+      values.type,
+      {
+        reference: values.reference,
+        providerReference: values['provider-reference'],
+        failureReason: values['failure-reason'],
+      },
+      values['event-id'],
+    ),
+  );
+  const signature = signWebhookPayload(
+    body,
+    secret,
+    values.timestamp ? Number(values.timestamp) : undefined,
+  );
+
+  if (!values.send) {
+    console.log(
+      [
+        `curl -X POST http://localhost:${process.env.PORT || 3000}/webhooks/${provider}`,
+        `  -H 'Content-Type: application/json'`,
+        `  -H '${WEBHOOK_SIGNATURE_HEADER}: ${signature}'`,
+        `  -d '${body}'`,
+      ].join(' \\\n'),
+    );
+    return;
+  }
+
+  const response = await fetch(
+    `${values.send.replace(/\/$/, '')}/webhooks/${provider}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_SIGNATURE_HEADER]: signature,
+      },
+      body,
+    },
+  );
+  console.log(`${response.status} ${await response.text()}`);
+}
+
+main().catch((error: Error) => {
+  console.error(error.message);
+  process.exit(1);
+});
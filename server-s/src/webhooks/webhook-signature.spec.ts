@@ -0,0 +1,64 @@
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhook-signature';
+
+describe('webhook signatures', () => {
+  const secret = 'whsec_test';
+  const body = '{"id":"evt_1","type":"payment.captured"}';
+  const now = 1_700_000_000;
+
+  it('accepts a body signed with the shared secret', () => {
+    const header = signWebhookPayload(body, secret, now);
+
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(() =>
+      verifyWebhookSignature(Buffer.from(body), header, secret, 300, now + 10),
+    ).not.toThrow();
+  });
+
+  it('rejects a tampered body, another secret or a missing header', () => {
+    const header = signWebhookPayload(body, secret, now);
+
+    expect(() =>
+      verifyWebhookSignature(`${body} `, header, secret, 300, now),
+    ).toThrow('Invalid webhook signature');
+    expect(() =>
+      verifyWebhookSignature(body, header, 'whsec_other', 300, now),
+    ).toThrow('Invalid webhook signature');
+    expect(() =>
+      verifyWebhookSignature(body, undefined, secret, 300, now),
+    ).toThrow('Missing x-webhook-signature header');
+    expect(() =>
+      verifyWebhookSignature(body, 'v1=abc', secret, 300, now),
+    ).toThrow('Malformed webhook signature header');
+  });
+
+  it('rejects timestamps outside the tolerance, including a re-signed t', () => {
+    const header = signWebhookPayload(body, secret, now - 301);
+    const [, signature] = header.split(',');
+
+    expect(() =>
+      verifyWebhookSignature(body, header, secret, 300, now),
+    ).toThrow('Webhook timestamp is outside the allowed tolerance');
+    // Moving t forward without the secret breaks the HMAC
+    expect(() =>
+      verifyWebhookSignature(body, `t=${now},${signature}`, secret, 300, now),
+    ).toThrow('Invalid webhook signature');
+  });
+
+  it('accepts any of several v1 signatures while a secret is rotated', () => {
+    const current = signWebhookPayload(body, secret, now);
+    const previous = signWebhookPayload(body, 'whsec_old', now).split(',')[1];
+
+    expect(() =>
+      verifyWebhookSignature(
+        body,
+        `${current},${previous}`,
+        'whsec_old',
+        300,
+        now,
+      ),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,76 @@
+// src/webhooks/webhook-signature.ts
+import { UnauthorizedException } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Header carrying "t=<unix seconds>,v1=<hex HMAC-SHA256>". The HMAC covers
+// "<t>.<raw body>", so the timestamp cannot be swapped without the secret.
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+// How old (or far in the future) a signed timestamp may be
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+const unixNow = () => Math.floor(Date.now() / 1000);
+
+function computeSignature(
+  payload: Buffer | string,
+  secret: string,
+  timestamp: number,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(payload)
+    .digest('hex');
+}
+
+// Signs a body the way gateways do; used by tests and the signing tool
+export function signWebhookPayload(
+  payload: Buffer | string,
+  secret: string,
+  timestamp = unixNow(),
+): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+// Throws UnauthorizedException unless one of the v1 signatures matches and
+// the timestamp is within the tolerance. Several v1 values are accepted so
+// a secret can be rotated.
+export function verifyWebhookSignature(
+  payload: Buffer | string,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds = DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  now = unixNow(),
+): void {
+  if (!header) {
+    throw new UnauthorizedException(
+      `Missing ${WEBHOOK_SIGNATURE_HEADER} header`,
+    );
+  }
+
+  const parts = header.split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts
+    .filter(([key, value]) => key === 'v1' && value)
+    .map(([, value]) => value);
+
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new UnauthorizedException('Malformed webhook signature header');
+  }
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    throw new UnauthorizedException(
+      'Webhook timestamp is outside the allowed tolerance',
+    );
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp));
+  const matches = signatures.some((signature) => {
+    const candidate = Buffer.from(signature);
+    return (
+      candidate.length === expected.length &&
+      timingSafeEqual(candidate, expected)
+    );
+  });
+  if (!matches) {
+    throw new UnauthorizedException('Invalid webhook signature');
+  }
+}
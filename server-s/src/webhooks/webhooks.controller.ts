@@ -0,0 +1,54 @@
+// src/webhooks/webhooks.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Headers,
+  Req,
+  HttpCode,
+  ValidationPipe,
+  UseGuards,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { JwtOrApiKeyAuthGuard } from 'src/api-keys/jwt-or-api-key-auth-guard';
+import { ApiKeyResource } from 'src/api-keys/api-key-resource.decorator';
+import { RolesGuard } from 'src/auth/roles-guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { UserRole } from 'src/users/enums/user-role.enum';
+import { ActiveOrganization } from 'src/organizations/active-organization.decorator';
+import { WebhooksService } from './webhooks.service';
+import { WebhookEventQueryDto } from './dto/webhook-event-query.dto';
+import { WEBHOOK_SIGNATURE_HEADER } from './webhook-signature';
+
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  // Stored gateway events of the active organization's payments, for
+  // debugging deliveries
+  @Get('events')
+  @UseGuards(JwtOrApiKeyAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiKeyResource('webhooks')
+  findEvents(
+    @ActiveOrganization() organizationId: number,
+    @Query(ValidationPipe) query: WebhookEventQueryDto,
+  ) {
+    return this.webhooksService.findEvents(organizationId, query);
+  }
+
+  // Called by the gateway, so there is no JWT; the HMAC signature over the
+  // raw body authenticates it instead
+  @Post(':provider')
+  @HttpCode(200)
+  receive(
+    @Param('provider') provider: string,
+    @Headers(WEBHOOK_SIGNATURE_HEADER) signature: string | undefined,
+    @Req() req: RawBodyRequest<Request>,
+  ) {
+    return this.webhooksService.handle(provider, req.rawBody, signature);
+  }
+}
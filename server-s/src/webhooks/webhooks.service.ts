@@ -0,0 +1,232 @@
+// src/webhooks/webhooks.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PaymentsService } from '../payments/payments.service';
+import { Payment } from '../payments/entities/payment.entity';
+import { PaymentProviderRegistry } from '../payments/providers/payment-provider.registry';
+import { WebhookEvent } from './entities/webhook-event.entity';
+import { WebhookEventStatus } from './enums/webhook-event-status.enum';
+import { WebhookEventQueryDto } from './dto/webhook-event-query.dto';
+import {
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  verifyWebhookSignature,
+} from './webhook-signature';
+
+const UNIQUE_VIOLATION = '23505';
+
+export interface WebhookReceipt {
+  received: true;
+  eventId: string;
+  status: WebhookEventStatus;
+  duplicate?: true;
+}
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @InjectRepository(WebhookEvent)
+    private webhookEventsRepository: Repository<WebhookEvent>,
+    private paymentsService: PaymentsService,
+    private providerRegistry: PaymentProviderRegistry,
+  ) {}
+
+  // Shared secret for a gateway, from WEBHOOK_SECRET_<PROVIDER>
+  secretFor(providerName: string): string {
+    const secret = process.env[`WEBHOOK_SECRET_${providerName.toUpperCase()}`];
+    if (!secret) {
+      throw new NotFoundException(
+        `Webhooks are not configured for provider "${providerName}"`,
+      );
+    }
+    return secret;
+  }
+
+  get toleranceSeconds(): number {
+    const seconds = Number(process.env.WEBHOOK_TOLERANCE_SECONDS);
+    return seconds > 0 ? seconds : DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  }
+
+  // Verifies, stores and applies one delivery. Redeliveries of an event that
+  // was already handled are acknowledged without being applied again; a
+  // delivery that failed is retried. Throws NotFoundException when the
+  // payment is unknown so the gateway delivers the event again later.
+  async handle(
+    providerName: string,
+    rawBody: Buffer | undefined,
+    signature: string | undefined,
+  ): Promise<WebhookReceipt> {
+    const provider = this.providerRegistry.get(providerName);
+    if (!rawBody || rawBody.length === 0) {
+      throw new BadRequestException('Webhook body is empty');
+    }
+    verifyWebhookSignature(
+      rawBody,
+      signature,
+      this.secretFor(provider.name),
+      this.toleranceSeconds,
+    );
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestException('Webhook body is not valid JSON');
+    }
+    const event = provider.parseWebhookEvent(body);
+
+    const stored = await this.claim(
+      provider.name,
+      event.eventId,
+      event.type,
+      rawBody.toString('utf8'),
+    );
+    if (!stored) {
+      const existing = await this.webhookEventsRepository.findOneOrFail({
+        where: { provider: provider.name, eventId: event.eventId },
+      });
+      return {
+        received: true,
+        eventId: event.eventId,
+        status: existing.status,
+        duplicate: true,
+      };
+    }
+
+    if (!event.status) {
+      return this.finish(stored, WebhookEventStatus.IGNORED, {
+        detail: `Event type ${event.type} does not change payment status`,
+      });
+    }
+
+    const result = await this.paymentsService
+      .applyProviderUpdate(provider.name, { ...event, status: event.status })
+      .catch(async (error: Error) => {
+        // Left RECEIVED, every redelivery would be acknowledged as a
+        // duplicate and the update lost; FAILED lets the next one try again
+        await this.finish(stored, WebhookEventStatus.FAILED, {
+          detail: error.message,
+        });
+        throw error;
+      });
+    if (!result) {
+      const detail = `No ${provider.name} payment matches ${event.providerReference ?? event.reference}`;
+      await this.finish(stored, WebhookEventStatus.FAILED, { detail });
+      throw new NotFoundException(detail);
+    }
+
+    const { payment, previousStatus } = result;
+    return this.finish(
+      stored,
+      payment.status !== previousStatus
+        ? WebhookEventStatus.PROCESSED
+        : WebhookEventStatus.IGNORED,
+      {
+        paymentId: payment.id,
+        detail:
+          payment.status !== previousStatus
+            ? `Payment ${previousStatus} -> ${payment.status}`
+            : `Payment is already ${payment.status}`,
+      },
+    );
+  }
+
+  // Stored events of the organization's payments, newest first. Events that
+  // matched no payment belong to no organization and are not listed.
+  findEvents(
+    organizationId: number,
+    query: WebhookEventQueryDto = {},
+  ): Promise<WebhookEvent[]> {
+    const { provider, status, paymentId, limit = 50 } = query;
+    const events = this.webhookEventsRepository
+      .createQueryBuilder('event')
+      .innerJoin(Payment, 'payment', 'payment.id = event.paymentId')
+      .where('payment.organizationId = :organizationId', { organizationId });
+    if (provider) {
+      events.andWhere('event.provider = :provider', { provider });
+    }
+    if (status) {
+      events.andWhere('event.status = :status', { status });
+    }
+    if (paymentId) {
+      events.andWhere('event.paymentId = :paymentId', { paymentId });
+    }
+
+    return events
+      .orderBy('event.receivedAt', 'DESC')
+      .addOrderBy('event.id', 'DESC')
+      .limit(limit)
+      .getMany();
+  }
+
+  // Records the event, or takes over a failed earlier delivery of it.
+  // Returns null when the event was already handled or is being handled.
+  private async claim(
+    provider: string,
+    eventId: string,
+    type: string,
+    payload: string,
+  ): Promise<WebhookEvent | null> {
+    const existing = await this.webhookEventsRepository.findOne({
+      where: { provider, eventId },
+    });
+
+    if (existing) {
+      if (existing.status !== WebhookEventStatus.FAILED) {
+        return null;
+      }
+      // Only one redelivery may take it over
+      const { affected } = await this.webhookEventsRepository.update(
+        { id: existing.id, status: WebhookEventStatus.FAILED },
+        {
+          status: WebhookEventStatus.RECEIVED,
+          attempts: existing.attempts + 1,
+          payload,
+        },
+      );
+      return affected
+        ? { ...existing, status: WebhookEventStatus.RECEIVED, payload }
+        : null;
+    }
+
+    try {
+      return await this.webhookEventsRepository.save(
+        this.webhookEventsRepository.create({
+          provider,
+          eventId,
+          type,
+          payload,
+        }),
+      );
+    } catch (error) {
+      // A concurrent delivery of the same event got there first
+      if ((error as { code?: string })?.code === UNIQUE_VIOLATION) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async finish(
+    event: WebhookEvent,
+    status: WebhookEventStatus,
+    values: { paymentId?: number; detail?: string },
+  ): Promise<WebhookReceipt> {
+    await this.webhookEventsRepository.update(event.id, {
+      status,
+      ...values,
+      processedAt: new Date(),
+    });
+    this.logger.log(
+      `${event.provider} event ${event.eventId} (${event.type}): ${status}`,
+    );
+    return { received: true, eventId: event.eventId, status };
+  }
+}
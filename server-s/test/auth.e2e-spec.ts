@@ -0,0 +1,822 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AuthController } from '../src/auth/auth.controller';
+import { AuthService } from '../src/auth/auth.service';
+import { JwtStrategy } from '../src/auth/jwt.strategy';
+import { RefreshTokensService } from '../src/auth/refresh-tokens.service';
+import { RefreshToken } from '../src/auth/entities/refresh-token.entity';
+import { LoginThrottleService } from '../src/auth/login-throttle.service';
+import { LoginAttempt } from '../src/auth/entities/login-attempt.entity';
+import { LoginLockout } from '../src/auth/entities/login-lockout.entity';
+import { MfaService } from '../src/auth/mfa/mfa.service';
+import { MfaController } from '../src/auth/mfa/mfa.controller';
+import { MfaRecoveryCode } from '../src/auth/entities/mfa-recovery-code.entity';
+import { MfaRolePolicy } from '../src/auth/entities/mfa-role-policy.entity';
+import { generateTotp, totpStep } from '../src/auth/mfa/totp';
+import { PasswordResetService } from '../src/auth/password-reset.service';
+import { PasswordResetToken } from '../src/auth/entities/password-reset-token.entity';
+import {
+  NOTIFIER,
+  Notification,
+} from '../src/notifications/notifier.interface';
+import { User } from '../src/users/entities/user.entity';
+import { UserRole } from '../src/users/enums/user-role.enum';
+import { AuthErrorCode } from '../src/auth/enums/auth-error-code.enum';
+import { AuditService } from '../src/audit/audit.service';
+import { AuthEvent } from '../src/audit/entities/auth-event.entity';
+import { AuthEventType } from '../src/audit/enums/auth-event-type.enum';
+import { OrganizationsService } from '../src/organizations/organizations.service';
+import { Organization } from '../src/organizations/entities/organization.entity';
+import { OrganizationMembership } from '../src/organizations/entities/organization-membership.entity';
+
+const JWT_SECRET = 'auth-e2e-secret';
+
+// Minimal in-memory stand-in for a table; understands IsNull() in filters
+class InMemoryTable<T extends object> {
+  rows: T[] = [];
+  private nextId = 1;
+
+  private matches(row: T, where: object | object[]): boolean {
+    if (Array.isArray(where)) {
+      return where.some((condition: object) => this.matches(row, condition));
+    }
+    return Object.entries(where).every(([key, value]) => {
+      const actual = row[key as keyof T] as unknown;
+      return value instanceof FindOperator && value.type === 'isNull'
+        ? actual === undefined || actual === null
+        : actual === value;
+    });
+  }
+
+  create(values: Partial<T>) {
+    return { ...values } as T;
+  }
+
+  insert(values: Partial<T> | Partial<T>[]) {
+    for (const row of Array.isArray(values) ? values : [values]) {
+      this.rows.push({
+        ...row,
+        id: this.nextId++,
+        createdAt: new Date(),
+      } as T);
+    }
+    return Promise.resolve({});
+  }
+
+  // Rows handed out by find* are the stored objects, so saving them again
+  // only needs to stamp them
+  save(row: T) {
+    if (!this.rows.includes(row)) {
+      this.rows.push(row);
+    }
+    Object.assign(row, { updatedAt: new Date() });
+    return Promise.resolve(row);
+  }
+
+  find({ where }: { where: object | object[] }) {
+    return Promise.resolve(this.rows.filter((row) => this.matches(row, where)));
+  }
+
+  delete(where: object) {
+    this.rows = this.rows.filter((row) => !this.matches(row, where));
+    return Promise.resolve({});
+  }
+
+  findOne({ where }: { where: object | object[] }) {
+    return Promise.resolve(
+      this.rows.find((row) => this.matches(row, where)) ?? null,
+    );
+  }
+
+  exists({ where }: { where: object }) {
+    return Promise.resolve(this.rows.some((row) => this.matches(row, where)));
+  }
+
+  update(where: object, values: Partial<T>) {
+    const rows = this.rows.filter((row) => this.matches(row, where));
+    rows.forEach((row) => Object.assign(row, values));
+    return Promise.resolve({ affected: rows.length });
+  }
+
+  // Requests are handled one at a time here, so a transaction and its row
+  // locks need nothing extra
+  manager = {
+    transaction: <R>(work: (manager: InMemoryTable<T>['manager']) => R) =>
+      work(this.manager),
+    findOneOrFail: async (_entity: unknown, options: { where: object }) => {
+      const row = await this.findOne(options);
+      if (!row) {
+        throw new Error('Row not found');
+      }
+      return row;
+    },
+    save: (row: T) => this.save(row),
+  };
+}
+
+describe('Auth sessions (e2e)', () => {
+  let app: INestApplication<App>;
+  let refreshTokens: InMemoryTable<RefreshToken>;
+  let loginAttempts: InMemoryTable<LoginAttempt>;
+  let lockouts: InMemoryTable<LoginLockout>;
+  let users: InMemoryTable<User>;
+  let resetTokens: InMemoryTable<PasswordResetToken>;
+  let authEvents: InMemoryTable<AuthEvent>;
+  let memberships: InMemoryTable<OrganizationMembership>;
+  const notifier = {
+    name: 'test',
+    send: jest.fn<Promise<void>, [Notification]>(),
+  };
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = JWT_SECRET;
+
+    users = new InMemoryTable<User>();
+    await users.insert({
+      username: 'admin',
+      password: await bcrypt.hash('admin123', 4),
+      role: UserRole.ADMIN,
+    });
+    await users.insert({
+      username: 'viewer',
+      password: await bcrypt.hash('viewer123', 4),
+      role: UserRole.VIEWER,
+    });
+    refreshTokens = new InMemoryTable<RefreshToken>();
+    loginAttempts = new InMemoryTable<LoginAttempt>();
+    lockouts = new InMemoryTable<LoginLockout>();
+    resetTokens = new InMemoryTable<PasswordResetToken>();
+    authEvents = new InMemoryTable<AuthEvent>();
+    const organizations = new InMemoryTable<Organization>();
+    await organizations.insert([{ name: 'Retail' }, { name: 'Wholesale' }]);
+    // The admin works for both business units, the viewer for the first
+    memberships = new InMemoryTable<OrganizationMembership>();
+    await memberships.insert([
+      { userId: 1, organizationId: 1 },
+      { userId: 1, organizationId: 2 },
+      { userId: 2, organizationId: 1 },
+    ]);
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        PassportModule,
+        JwtModule.register({
+          secret: JWT_SECRET,
+          signOptions: { expiresIn: 900 },
+        }),
+      ],
+      controllers: [AuthController, MfaController],
+      providers: [
+        AuthService,
+        JwtStrategy,
+        RefreshTokensService,
+        LoginThrottleService,
+        MfaService,
+        PasswordResetService,
+        AuditService,
+        OrganizationsService,
+        { provide: NOTIFIER, useValue: notifier },
+        { provide: getRepositoryToken(User), useValue: users },
+        { provide: getRepositoryToken(RefreshToken), useValue: refreshTokens },
+        { provide: getRepositoryToken(LoginAttempt), useValue: loginAttempts },
+        { provide: getRepositoryToken(LoginLockout), useValue: lockouts },
+        {
+          provide: getRepositoryToken(MfaRecoveryCode),
+          useValue: new InMemoryTable<MfaRecoveryCode>(),
+        },
+        {
+          provide: getRepositoryToken(MfaRolePolicy),
+          useValue: new InMemoryTable<MfaRolePolicy>(),
+        },
+        {
+          provide: getRepositoryToken(PasswordResetToken),
+          useValue: resetTokens,
+        },
+        { provide: getRepositoryToken(AuthEvent), useValue: authEvents },
+        {
+          provide: getRepositoryToken(Organization),
+          useValue: organizations,
+        },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: memberships,
+        },
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  interface Tokens {
+    access_token: string;
+    refresh_token: string;
+    expires_in: number;
+    user: { id: number; organizationId: number | null };
+  }
+
+  const login = async () => {
+    const res = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username: 'admin', password: 'admin123' })
+      .expect(201);
+    return res.body as Tokens;
+  };
+
+  const refresh = (refreshToken: string) =>
+    request(app.getHttpServer()).post('/auth/refresh').send({ refreshToken });
+
+  const profile = (accessToken: string) =>
+    request(app.getHttpServer())
+      .get('/auth/profile')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+  it('issues a short-lived access token and a hashed refresh token', async () => {
+    const tokens = await login();
+
+    expect(tokens.expires_in).toBe(900);
+    expect(refreshTokens.rows.map(({ tokenHash }) => tokenHash)).not.toContain(
+      tokens.refresh_token,
+    );
+    await profile(tokens.access_token).expect(200);
+  });
+
+  it('rotates the refresh token on every refresh', async () => {
+    const tokens = await login();
+
+    const res = await refresh(tokens.refresh_token).expect(200);
+    const rotated = res.body as Tokens;
+
+    expect(rotated.refresh_token).not.toBe(tokens.refresh_token);
+    await profile(rotated.access_token).expect(200);
+    await refresh(rotated.refresh_token).expect(200);
+  });
+
+  it('revokes the whole family when a used refresh token comes back', async () => {
+    const tokens = await login();
+    const rotated = (await refresh(tokens.refresh_token).expect(200))
+      .body as Tokens;
+
+    await refresh(tokens.refresh_token).expect(401);
+
+    await refresh(rotated.refresh_token).expect(401);
+    await profile(rotated.access_token).expect(401);
+  });
+
+  it('ends the session on logout', async () => {
+    const tokens = await login();
+    const other = await login();
+
+    await request(app.getHttpServer())
+      .post('/auth/logout')
+      .set('Authorization', `Bearer ${tokens.access_token}`)
+      .expect(201);
+
+    await profile(tokens.access_token).expect(401);
+    await refresh(tokens.refresh_token).expect(401);
+    await profile(other.access_token).expect(200);
+  });
+
+  it('audits logins, refreshes and logouts with the client IP and user agent', async () => {
+    authEvents.rows = [];
+    const server = app.getHttpServer();
+
+    await request(server)
+      .post('/auth/login')
+      .set('User-Agent', 'audit-test')
+      .send({ username: 'admin', password: 'wrong' })
+      .expect(401);
+    const tokens = (
+      await request(server)
+        .post('/auth/login')
+        .set('User-Agent', 'audit-test')
+        .send({ username: 'admin', password: 'admin123' })
+        .expect(201)
+    ).body as Tokens;
+    const rotated = (
+      await request(server)
+        .post('/auth/refresh')
+        .set('User-Agent', 'audit-test')
+        .send({ refreshToken: tokens.refresh_token })
+        .expect(200)
+    ).body as Tokens;
+    await request(server)
+      .post('/auth/logout')
+      .set('User-Agent', 'audit-test')
+      .set('Authorization', `Bearer ${rotated.access_token}`)
+      .expect(201);
+
+    expect(authEvents.rows.map(({ type }) => type)).toEqual([
+      AuthEventType.LOGIN_FAILED,
+      AuthEventType.LOGIN_SUCCEEDED,
+      AuthEventType.TOKEN_REFRESHED,
+      AuthEventType.LOGOUT,
+    ]);
+    expect(authEvents.rows[0].details).toEqual({
+      reason: 'invalid_credentials',
+    });
+    for (const event of authEvents.rows) {
+      expect(event).toEqual(
+        expect.objectContaining({
+          username: 'admin',
+          ip: expect.any(String) as string,
+          userAgent: 'audit-test',
+        }),
+      );
+    }
+    expect(authEvents.rows.slice(1).map(({ userId }) => userId)).toEqual([
+      1, 1, 1,
+    ]);
+  });
+
+  it('shuts out a disabled user', async () => {
+    const tokens = await login();
+    const admin = users.rows.find(({ username }) => username === 'admin')!;
+
+    admin.disabledAt = new Date();
+    try {
+      await profile(tokens.access_token).expect(401);
+      await refresh(tokens.refresh_token).expect(401);
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username: 'admin', password: 'admin123' })
+        .expect(401);
+    } finally {
+      admin.disabledAt = null;
+    }
+  });
+
+  describe('organizations', () => {
+    const switchTo = (accessToken: string, organizationId: number) =>
+      request(app.getHttpServer())
+        .post('/auth/switch-organization')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ organizationId });
+
+    const organizationOf = (accessToken: string) =>
+      app.get(JwtService).decode<{ org?: number }>(accessToken).org;
+
+    it('acts in the first organization the user joined', async () => {
+      const tokens = await login();
+
+      expect(tokens.user.organizationId).toBe(1);
+      expect(organizationOf(tokens.access_token)).toBe(1);
+    });
+
+    it('switches organizations and ends the previous session', async () => {
+      const tokens = await login();
+
+      const refused = await switchTo(tokens.access_token, 3).expect(403);
+      expect((refused.body as { code: string }).code).toBe(
+        AuthErrorCode.FORBIDDEN,
+      );
+
+      const switched = (await switchTo(tokens.access_token, 2).expect(200))
+        .body as Tokens;
+      expect(switched.user.organizationId).toBe(2);
+      await profile(tokens.access_token).expect(401);
+      await refresh(tokens.refresh_token).expect(401);
+
+      // Refreshing keeps the organization of the session
+      const refreshed = (await refresh(switched.refresh_token).expect(200))
+        .body as Tokens;
+      expect(organizationOf(refreshed.access_token)).toBe(2);
+      expect(authEvents.rows).toContainEqual(
+        expect.objectContaining({
+          type: AuthEventType.ORGANIZATION_SWITCHED,
+          details: { from: 1, to: 2 },
+        }),
+      );
+    });
+
+    it('drops an organization from sessions once the user leaves it', async () => {
+      const tokens = await login();
+      const switched = (await switchTo(tokens.access_token, 2).expect(200))
+        .body as Tokens;
+      const membership = memberships.rows.find(
+        ({ userId, organizationId }) => userId === 1 && organizationId === 2,
+      )!;
+      memberships.rows = memberships.rows.filter((row) => row !== membership);
+
+      try {
+        const res = await profile(switched.access_token).expect(403);
+        expect((res.body as { code: string }).code).toBe(
+          AuthErrorCode.FORBIDDEN,
+        );
+
+        const refreshed = (await refresh(switched.refresh_token).expect(200))
+          .body as Tokens;
+        expect(refreshed.user.organizationId).toBe(1);
+        await profile(refreshed.access_token).expect(200);
+      } finally {
+        memberships.rows.push(membership);
+      }
+    });
+  });
+
+  describe('error codes', () => {
+    const codeOf = (res: request.Response) =>
+      (res.body as { code: string }).code;
+
+    it('rejects malformed login payloads before checking credentials', async () => {
+      const attempts = loginAttempts.rows.length;
+      const res = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username: 'admin' })
+        .expect(400);
+      expect(codeOf(res)).toBe(AuthErrorCode.VALIDATION_FAILED);
+      expect(loginAttempts.rows).toHaveLength(attempts);
+    });
+
+    it('tells wrong credentials apart from expired and revoked tokens', async () => {
+      const wrong = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username: 'admin', password: 'nope' })
+        .expect(401);
+      expect(codeOf(wrong)).toBe(AuthErrorCode.INVALID_CREDENTIALS);
+
+      const tokens = await login();
+      const expired = app
+        .get(JwtService)
+        .sign(
+          { sub: 1, username: 'admin', role: UserRole.ADMIN },
+          { expiresIn: -10 },
+        );
+      expect(codeOf(await profile(expired).expect(401))).toBe(
+        AuthErrorCode.TOKEN_EXPIRED,
+      );
+      expect(codeOf(await profile('garbage').expect(401))).toBe(
+        AuthErrorCode.TOKEN_INVALID,
+      );
+
+      await request(app.getHttpServer())
+        .post('/auth/logout')
+        .set('Authorization', `Bearer ${tokens.access_token}`)
+        .expect(201);
+      expect(codeOf(await profile(tokens.access_token).expect(401))).toBe(
+        AuthErrorCode.TOKEN_REVOKED,
+      );
+      expect(codeOf(await refresh(tokens.refresh_token).expect(401))).toBe(
+        AuthErrorCode.TOKEN_INVALID,
+      );
+    });
+
+    it('adds a code to errors raised by guards', async () => {
+      const viewer = users.rows.find(({ username }) => username === 'viewer')!;
+      const accessToken = app.get(JwtService).sign({
+        sub: viewer.id,
+        username: viewer.username,
+        role: viewer.role,
+      });
+
+      const res = await request(app.getHttpServer())
+        .get('/auth/mfa/policies')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+      expect(codeOf(res)).toBe(AuthErrorCode.FORBIDDEN);
+    });
+  });
+
+  describe('lockout', () => {
+    const attempt = (password: string) =>
+      request(app.getHttpServer())
+        .post('/auth/login')
+        .set('User-Agent', 'lockout-test')
+        .send({ username: 'viewer', password });
+
+    it('locks the user out after repeated failures', async () => {
+      for (let i = 0; i < 4; i++) {
+        await attempt('wrong').expect(401);
+      }
+
+      const locked = await attempt('wrong').expect(429);
+      expect(locked.body).toEqual(
+        expect.objectContaining({
+          code: AuthErrorCode.ACCOUNT_LOCKED,
+          retryAfterSeconds: 60,
+        }),
+      );
+
+      // Even the right password is refused until the lockout ends
+      await attempt('viewer123').expect(429);
+      expect(
+        loginAttempts.rows
+          .filter(({ username }) => username === 'viewer')
+          .map(({ failureReason }) => failureReason),
+      ).toEqual([...Array<string>(5).fill('invalid_credentials'), 'locked']);
+      expect(loginAttempts.rows.at(-1)).toEqual(
+        expect.objectContaining({
+          ip: expect.any(String) as string,
+          userAgent: 'lockout-test',
+          succeeded: false,
+        }),
+      );
+    });
+
+    it('lets the user in again once an admin unlocks them', async () => {
+      await app.get(LoginThrottleService).unlockUser('viewer');
+
+      await attempt('viewer123').expect(201);
+    });
+
+    it('keeps counting the IP failures across successful logins', async () => {
+      process.env.LOGIN_MAX_FAILURES_PER_IP = '3';
+      await lockouts.delete({ scope: 'ip' });
+
+      try {
+        await attempt('wrong').expect(401);
+        await attempt('wrong').expect(401);
+        await attempt('viewer123').expect(201);
+
+        await attempt('wrong').expect(429);
+        expect(lockouts.rows.find(({ scope }) => scope === 'ip')).toEqual(
+          expect.objectContaining({ lockouts: 1 }),
+        );
+      } finally {
+        delete process.env.LOGIN_MAX_FAILURES_PER_IP;
+        await lockouts.delete({ scope: 'ip' });
+      }
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    interface Challenge {
+      mfa_required: boolean;
+      enrollment_required: boolean;
+      challenge_token: string;
+    }
+
+    const loginAs = (username: string, password: string) =>
+      request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username, password })
+        .expect(201);
+
+    const loginWithMfa = (challengeToken: string, code: string) =>
+      request(app.getHttpServer())
+        .post('/auth/login/mfa')
+        .send({ challengeToken, code });
+
+    // The enrollment code used up the current step
+    const nextCode = (secret: string) => generateTotp(secret, totpStep() + 1);
+
+    let secret: string;
+    let recoveryCodes: string[];
+
+    it('enrolls an authenticator and hands out recovery codes', async () => {
+      const { access_token } = await login();
+
+      const enrollment = await request(app.getHttpServer())
+        .post('/auth/mfa/enroll')
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(200);
+      secret = (enrollment.body as { secret: string }).secret;
+      expect(enrollment.body).toEqual({
+        secret: expect.stringMatching(/^[A-Z2-7]{32}$/) as string,
+        otpauthUri: expect.stringMatching(
+          /^otpauth:\/\/totp\/Payment%20Dashboard%3Aadmin\?secret=/,
+        ) as string,
+      });
+
+      await request(app.getHttpServer())
+        .post('/auth/mfa/verify')
+        .set('Authorization', `Bearer ${access_token}`)
+        .send({ code: 'abcdef' })
+        .expect(401);
+      const verified = await request(app.getHttpServer())
+        .post('/auth/mfa/verify')
+        .set('Authorization', `Bearer ${access_token}`)
+        .send({ code: generateTotp(secret) })
+        .expect(200);
+      recoveryCodes = (verified.body as { recoveryCodes: string[] })
+        .recoveryCodes;
+      expect(recoveryCodes).toHaveLength(10);
+    });
+
+    it('answers the password with a challenge that is not an access token', async () => {
+      const res = await loginAs('admin', 'admin123');
+      const challenge = res.body as Challenge;
+
+      expect(challenge).toEqual(
+        expect.objectContaining({
+          mfa_required: true,
+          enrollment_required: false,
+        }),
+      );
+      expect(res.body).not.toHaveProperty('access_token');
+      await profile(challenge.challenge_token).expect(401);
+    });
+
+    it('logs in with a TOTP code that has not been used before', async () => {
+      const { challenge_token } = (await loginAs('admin', 'admin123'))
+        .body as Challenge;
+      const code = nextCode(secret);
+
+      const res = await loginWithMfa(challenge_token, code).expect(201);
+      await profile((res.body as Tokens).access_token).expect(200);
+
+      await loginWithMfa(challenge_token, code).expect(401);
+      expect(loginAttempts.rows.at(-1)?.failureReason).toBe('invalid_mfa_code');
+    });
+
+    it('accepts each recovery code once', async () => {
+      const { challenge_token } = (await loginAs('admin', 'admin123'))
+        .body as Challenge;
+
+      await loginWithMfa(challenge_token, recoveryCodes[0]).expect(201);
+      await loginWithMfa(challenge_token, recoveryCodes[0]).expect(401);
+      await loginWithMfa('not-a-token', recoveryCodes[1]).expect(401);
+    });
+
+    it('makes users of a role that requires 2FA enroll while logging in', async () => {
+      const { challenge_token } = (await loginAs('admin', 'admin123'))
+        .body as Challenge;
+      const adminTokens = (
+        await loginWithMfa(challenge_token, recoveryCodes[2]).expect(201)
+      ).body as Tokens;
+      await request(app.getHttpServer())
+        .put('/auth/mfa/policies/viewer')
+        .set('Authorization', `Bearer ${adminTokens.access_token}`)
+        .send({ required: true })
+        .expect(200);
+
+      const challenge = (await loginAs('viewer', 'viewer123'))
+        .body as Challenge;
+      expect(challenge.enrollment_required).toBe(true);
+
+      const enrollment = await request(app.getHttpServer())
+        .post('/auth/login/mfa/enroll')
+        .send({ challengeToken: challenge.challenge_token })
+        .expect(200);
+      const viewerSecret = (enrollment.body as { secret: string }).secret;
+
+      const res = await loginWithMfa(
+        challenge.challenge_token,
+        generateTotp(viewerSecret),
+      ).expect(201);
+      const viewer = res.body as Tokens & { recovery_codes: string[] };
+      expect(viewer.recovery_codes).toHaveLength(10);
+
+      // The role still requires it, so it cannot be switched off
+      await request(app.getHttpServer())
+        .post('/auth/mfa/disable')
+        .set('Authorization', `Bearer ${viewer.access_token}`)
+        .send({ code: viewer.recovery_codes[0] })
+        .expect(403);
+    });
+  });
+
+  describe('password change and reset', () => {
+    beforeAll(async () => {
+      await users.insert({
+        username: 'operator',
+        password: await bcrypt.hash('operator123', 4),
+        role: UserRole.ADMIN,
+      });
+    });
+
+    const loginAs = async (password: string) =>
+      (
+        await request(app.getHttpServer())
+          .post('/auth/login')
+          .send({ username: 'operator', password })
+          .expect(201)
+      ).body as Tokens;
+
+    const changePassword = (
+      accessToken: string,
+      currentPassword: string,
+      newPassword: string,
+    ) =>
+      request(app.getHttpServer())
+        .post('/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword, newPassword });
+
+    const forgotPassword = async () => {
+      notifier.send.mockClear();
+      await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ username: 'operator' })
+        .expect(202);
+      const [notification] = notifier.send.mock.calls[0];
+      return /Reset token: (\S+)/.exec(notification.text)![1];
+    };
+
+    const resetPassword = (token: string, newPassword: string) =>
+      request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token, newPassword });
+
+    it('changes the password and ends every other session', async () => {
+      const tokens = await loginAs('operator123');
+      const other = await loginAs('operator123');
+
+      await changePassword(
+        tokens.access_token,
+        'wrong-password',
+        'n3w-pass',
+      ).expect(400);
+      await changePassword(tokens.access_token, 'operator123', 'short').expect(
+        400,
+      );
+      const res = await changePassword(
+        tokens.access_token,
+        'operator123',
+        'changed-pass',
+      ).expect(200);
+
+      await profile(tokens.access_token).expect(401);
+      await profile(other.access_token).expect(401);
+      await refresh(other.refresh_token).expect(401);
+      await profile((res.body as Tokens).access_token).expect(200);
+      await loginAs('changed-pass');
+    });
+
+    it('counts wrong current passwords towards a lockout', async () => {
+      process.env.LOGIN_MAX_FAILURES_PER_USER = '2';
+      const tokens = await loginAs('changed-pass');
+
+      try {
+        await changePassword(
+          tokens.access_token,
+          'wrong-password',
+          'n3w-pass',
+        ).expect(400);
+        await changePassword(
+          tokens.access_token,
+          'wrong-password',
+          'n3w-pass',
+        ).expect(429);
+        await changePassword(
+          tokens.access_token,
+          'changed-pass',
+          'n3w-pass',
+        ).expect(429);
+
+        expect(
+          loginAttempts.rows
+            .filter(({ username }) => username === 'operator')
+            .slice(-3)
+            .map(({ failureReason }) => failureReason),
+        ).toEqual([
+          'invalid_current_password',
+          'invalid_current_password',
+          'locked',
+        ]);
+      } finally {
+        delete process.env.LOGIN_MAX_FAILURES_PER_USER;
+        await app.get(LoginThrottleService).unlockUser('operator');
+        await lockouts.delete({ scope: 'ip' });
+      }
+    });
+
+    it('resets the password with a single-use token', async () => {
+      const tokens = await loginAs('changed-pass');
+      const token = await forgotPassword();
+
+      await resetPassword(token, 'operator').expect(400);
+      await resetPassword(token, 'reset-pass').expect(200);
+      await resetPassword(token, 'reset-again').expect(400);
+
+      await profile(tokens.access_token).expect(401);
+      await loginAs('reset-pass');
+    });
+
+    it('only honours the newest, unexpired token', async () => {
+      const first = await forgotPassword();
+      const second = await forgotPassword();
+
+      await resetPassword(first, 'reset-pass-2').expect(400);
+
+      const [pending] = resetTokens.rows.filter(({ usedAt }) => !usedAt);
+      pending.expiresAt = new Date(Date.now() - 1000);
+      await resetPassword(second, 'reset-pass-2').expect(400);
+    });
+
+    it('answers the same for unknown usernames without sending anything', async () => {
+      notifier.send.mockClear();
+      await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ username: 'nobody' })
+        .expect(202);
+      expect(notifier.send).not.toHaveBeenCalled();
+    });
+  });
+
+  it('rejects unknown refresh tokens', async () => {
+    await refresh('not-a-token').expect(401);
+    await refresh('').expect(400);
+  });
+});
@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { JwtStrategy } from '../src/auth/jwt.strategy';
+import { RefreshTokensService } from '../src/auth/refresh-tokens.service';
+import { ApiKeyStrategy } from '../src/api-keys/api-key.strategy';
+import { ApiKeysService } from '../src/api-keys/api-keys.service';
+import { PaymentsController } from '../src/payments/payments.controller';
+import { PaymentsService } from '../src/payments/payments.service';
+import { PaymentImportService } from '../src/payments/import/payment-import.service';
+import { PaymentStream } from '../src/payments/payment-stream';
+import { IdempotencyService } from '../src/idempotency/idempotency.service';
+import { IdempotencyInterceptor } from '../src/idempotency/idempotency.interceptor';
+import { IdempotencyKey } from '../src/idempotency/entities/idempotency-key.entity';
+import { UserRole } from '../src/users/enums/user-role.enum';
+import { User } from '../src/users/entities/user.entity';
+import { OrganizationsService } from '../src/organizations/organizations.service';
+
+const JWT_SECRET = 'idempotency-e2e-secret';
+
+// Minimal in-memory stand-in for the idempotency_keys table
+class InMemoryIdempotencyKeys {
+  rows: IdempotencyKey[] = [];
+  private nextId = 1;
+
+  private matches(row: IdempotencyKey, where: Partial<IdempotencyKey>) {
+    return row.key === where.key && row.scope === where.scope;
+  }
+
+  findOne({ where }: { where: Partial<IdempotencyKey> }) {
+    return Promise.resolve(
+      this.rows.find((row) => this.matches(row, where)) ?? null,
+    );
+  }
+
+  insert(values: Partial<IdempotencyKey>) {
+    this.rows.push({ id: this.nextId++, ...values } as IdempotencyKey);
+    return Promise.resolve();
+  }
+
+  update(where: Partial<IdempotencyKey>, values: Partial<IdempotencyKey>) {
+    this.rows
+      .filter((row) => this.matches(row, where))
+      .forEach((row) => Object.assign(row, values));
+    return Promise.resolve();
+  }
+
+  delete(criteria: number | Partial<IdempotencyKey>) {
+    this.rows = this.rows.filter((row) =>
+      typeof criteria === 'number'
+        ? row.id !== criteria
+        : criteria.key === undefined || !this.matches(row, criteria),
+    );
+    return Promise.resolve();
+  }
+}
+
+describe('POST /payments idempotency (e2e)', () => {
+  let app: INestApplication<App>;
+  let token: string;
+  let created = 0;
+  const paymentsService = {
+    create: jest.fn(() => Promise.resolve({ id: ++created })),
+  };
+
+  const payment = {
+    amount: 100,
+    receiver: 'John Doe',
+    method: 'upi',
+  };
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = JWT_SECRET;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule],
+      controllers: [PaymentsController],
+      providers: [
+        JwtStrategy,
+        {
+          provide: RefreshTokensService,
+          useValue: { isSessionActive: jest.fn().mockResolvedValue(true) },
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: { exists: jest.fn().mockResolvedValue(true) },
+        },
+        {
+          provide: OrganizationsService,
+          useValue: { isMember: jest.fn().mockResolvedValue(true) },
+        },
+        ApiKeyStrategy,
+        { provide: ApiKeysService, useValue: {} },
+        IdempotencyService,
+        IdempotencyInterceptor,
+        { provide: PaymentsService, useValue: paymentsService },
+        { provide: PaymentImportService, useValue: {} },
+        { provide: PaymentStream, useValue: {} },
+        {
+          provide: getRepositoryToken(IdempotencyKey),
+          useValue: new InMemoryIdempotencyKeys(),
+        },
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    token = new JwtService({ secret: JWT_SECRET }).sign({
+      sub: 1,
+      username: 'admin',
+      role: UserRole.ADMIN,
+      org: 1,
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const post = (body: object, key?: string) => {
+    const req = request(app.getHttpServer())
+      .post('/payments')
+      .set('Authorization', `Bearer ${token}`);
+    if (key) {
+      req.set('Idempotency-Key', key);
+    }
+    return req.send(body);
+  };
+
+  it('creates a new payment for every request without a key', async () => {
+    const first = await post(payment).expect(201);
+    const second = await post(payment).expect(201);
+
+    expect((first.body as { id: number }).id).not.toEqual(
+      (second.body as { id: number }).id,
+    );
+  });
+
+  it('replays the original response when a key is reused', async () => {
+    const calls = paymentsService.create.mock.calls.length;
+
+    const first = await post(payment, 'key-1').expect(201);
+    const retry = await post({ ...payment }, 'key-1').expect(201);
+
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(paymentsService.create.mock.calls.length).toBe(calls + 1);
+  });
+
+  it('ignores property order when comparing bodies', async () => {
+    await post(payment, 'key-2').expect(201);
+    const reordered = {
+      method: payment.method,
+      receiver: payment.receiver,
+      amount: payment.amount,
+    };
+
+    await post(reordered, 'key-2').expect(201);
+  });
+
+  it('rejects a reused key with a different body with 422', async () => {
+    await post(payment, 'key-3').expect(201);
+
+    await post({ ...payment, amount: 200 }, 'key-3').expect(422);
+  });
+
+  it('frees the key when the original request fails', async () => {
+    paymentsService.create.mockImplementationOnce(() =>
+      Promise.reject(new Error('database unavailable')),
+    );
+
+    await post(payment, 'key-4').expect(500);
+    await post(payment, 'key-4').expect(201);
+  });
+});
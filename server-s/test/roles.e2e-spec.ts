@@ -0,0 +1,625 @@
+import { IncomingMessage } from 'http';
+import { Readable } from 'stream';
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpStatus, INestApplication } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { JwtStrategy } from '../src/auth/jwt.strategy';
+import { RefreshTokensService } from '../src/auth/refresh-tokens.service';
+import { MfaController } from '../src/auth/mfa/mfa.controller';
+import { ApiKeyStrategy } from '../src/api-keys/api-key.strategy';
+import { ApiKeysController } from '../src/api-keys/api-keys.controller';
+import { AuditController } from '../src/audit/audit.controller';
+import { AuditService } from '../src/audit/audit.service';
+import { ApiKeysService } from '../src/api-keys/api-keys.service';
+import { AuthException } from '../src/auth/auth.exception';
+import { AuthErrorCode } from '../src/auth/enums/auth-error-code.enum';
+import { MfaService } from '../src/auth/mfa/mfa.service';
+import { PaymentsController } from '../src/payments/payments.controller';
+import { PaymentsService } from '../src/payments/payments.service';
+import { UsersController } from '../src/users/users.controller';
+import { UsersService } from '../src/users/users.service';
+import { UserRole } from '../src/users/enums/user-role.enum';
+import { User } from '../src/users/entities/user.entity';
+import { IdempotencyService } from '../src/idempotency/idempotency.service';
+import { PaymentImportService } from '../src/payments/import/payment-import.service';
+import { PaymentStream } from '../src/payments/payment-stream';
+import { ReconciliationController } from '../src/reconciliation/reconciliation.controller';
+import { ReconciliationService } from '../src/reconciliation/reconciliation.service';
+import { WebhooksController } from '../src/webhooks/webhooks.controller';
+import { WebhooksService } from '../src/webhooks/webhooks.service';
+import { WebhookSubscriptionsController } from '../src/webhook-subscriptions/webhook-subscriptions.controller';
+import { WebhookSubscriptionsService } from '../src/webhook-subscriptions/webhook-subscriptions.service';
+import { WebhookDeliveryService } from '../src/webhook-subscriptions/webhook-delivery.service';
+import { OrganizationsController } from '../src/organizations/organizations.controller';
+import { OrganizationsService } from '../src/organizations/organizations.service';
+
+const JWT_SECRET = 'roles-e2e-secret';
+
+// Acts as an admin service account but may only read payments
+const READ_PAYMENTS_KEY = 'pdk_0000beef_read-payments';
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+interface RouteCase {
+  method: Method;
+  path: string;
+  body?: object;
+  // Sent as a multipart upload in the "file" field
+  file?: string;
+  allowed: UserRole[];
+}
+
+const BOTH = [UserRole.ADMIN, UserRole.VIEWER];
+const ADMIN_ONLY = [UserRole.ADMIN];
+
+const routes: RouteCase[] = [
+  { method: 'get', path: '/payments?page=1&limit=10', allowed: BOTH },
+  { method: 'get', path: '/payments/stats', allowed: BOTH },
+  { method: 'get', path: '/payments/quick-stats', allowed: BOTH },
+  { method: 'get', path: '/payments/status-transitions', allowed: BOTH },
+  { method: 'get', path: '/payments/search?q=john', allowed: BOTH },
+  { method: 'get', path: '/payments/export', allowed: BOTH },
+  { method: 'get', path: '/payments/1', allowed: BOTH },
+  {
+    method: 'get',
+    path: '/payments/analytics/revenue-by-method',
+    allowed: BOTH,
+  },
+  {
+    method: 'get',
+    path: '/payments/analytics/hourly-distribution',
+    allowed: BOTH,
+  },
+  {
+    method: 'get',
+    path: '/payments/analytics/success-rate-trend?days=7',
+    allowed: BOTH,
+  },
+  {
+    method: 'post',
+    path: '/payments',
+    body: {
+      amount: 100,
+      receiver: 'John Doe',
+      method: 'upi',
+    },
+    allowed: ADMIN_ONLY,
+  },
+  {
+    method: 'patch',
+    path: '/payments/1/status',
+    body: { status: 'success' },
+    allowed: ADMIN_ONLY,
+  },
+  {
+    method: 'post',
+    path: '/payments/1/refunds',
+    body: { amount: 10 },
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/payments/1/refunds', allowed: BOTH },
+  {
+    method: 'post',
+    path: '/payments/1/refunds/2/retry',
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/payments/1/history', allowed: BOTH },
+  {
+    method: 'post',
+    path: '/payments/1/notes',
+    body: { note: 'Customer called about this payment' },
+    allowed: ADMIN_ONLY,
+  },
+  {
+    method: 'post',
+    path: '/payments/import?dryRun=true',
+    file: 'amount,receiver,status,method\n100,John Doe,pending,upi\n',
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/payments/import/1', allowed: ADMIN_ONLY },
+  { method: 'get', path: '/payments/import/1/rejected', allowed: ADMIN_ONLY },
+  {
+    method: 'post',
+    path: '/reconciliation/statements',
+    file: 'Date,Amount,Reference\n2024-01-15,100,TXN1\n',
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/reconciliation/statements', allowed: BOTH },
+  { method: 'get', path: '/reconciliation/statements/1', allowed: BOTH },
+  {
+    method: 'post',
+    path: '/reconciliation/lines/1/confirm',
+    body: { note: 'Checked against the bank portal' },
+    allowed: ADMIN_ONLY,
+  },
+  {
+    method: 'post',
+    path: '/reconciliation/lines/1/override',
+    body: { paymentId: 1 },
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/webhooks/events', allowed: ADMIN_ONLY },
+  {
+    method: 'post',
+    path: '/webhook-subscriptions',
+    body: { url: 'https://example.com/hooks', events: ['payment.created'] },
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/webhook-subscriptions', allowed: ADMIN_ONLY },
+  { method: 'get', path: '/webhook-subscriptions/1', allowed: ADMIN_ONLY },
+  {
+    method: 'patch',
+    path: '/webhook-subscriptions/1',
+    body: { active: false },
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'delete', path: '/webhook-subscriptions/1', allowed: ADMIN_ONLY },
+  {
+    method: 'get',
+    path: '/webhook-subscriptions/1/deliveries',
+    allowed: ADMIN_ONLY,
+  },
+  {
+    method: 'post',
+    path: '/webhook-subscriptions/deliveries/1/redeliver',
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/auth/mfa', allowed: BOTH },
+  { method: 'get', path: '/auth/mfa/policies', allowed: ADMIN_ONLY },
+  {
+    method: 'put',
+    path: '/auth/mfa/policies/admin',
+    body: { required: true },
+    allowed: ADMIN_ONLY,
+  },
+  {
+    method: 'post',
+    path: '/api-keys',
+    body: { name: 'nightly-export', userId: 3, scopes: ['payments:read'] },
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/api-keys', allowed: ADMIN_ONLY },
+  { method: 'get', path: '/api-keys/1', allowed: ADMIN_ONLY },
+  { method: 'post', path: '/api-keys/1/revoke', allowed: ADMIN_ONLY },
+  {
+    method: 'get',
+    path: '/audit/auth-events?type=login_failed',
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/organizations/mine', allowed: BOTH },
+  { method: 'get', path: '/organizations', allowed: ADMIN_ONLY },
+  {
+    method: 'post',
+    path: '/organizations',
+    body: { name: 'Wholesale' },
+    allowed: ADMIN_ONLY,
+  },
+  {
+    method: 'post',
+    path: '/organizations/1/members',
+    body: { userId: 2 },
+    allowed: ADMIN_ONLY,
+  },
+  {
+    method: 'delete',
+    path: '/organizations/1/members/2',
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'get', path: '/users', allowed: ADMIN_ONLY },
+  { method: 'post', path: '/users/1/unlock', allowed: ADMIN_ONLY },
+  {
+    method: 'patch',
+    path: '/users/2',
+    body: { role: 'admin' },
+    allowed: ADMIN_ONLY,
+  },
+  { method: 'post', path: '/users/2/disable', allowed: ADMIN_ONLY },
+  { method: 'post', path: '/users/2/enable', allowed: ADMIN_ONLY },
+  { method: 'post', path: '/users/2/reset-password', allowed: ADMIN_ONLY },
+  { method: 'delete', path: '/users/2', allowed: ADMIN_ONLY },
+  {
+    method: 'post',
+    path: '/users',
+    body: { username: 'new_admin', password: 'secret123', role: 'admin' },
+    allowed: ADMIN_ONLY,
+  },
+];
+
+describe('Role-based access (e2e)', () => {
+  let app: INestApplication<App>;
+  const tokens: Record<UserRole, string> = {} as Record<UserRole, string>;
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = JWT_SECRET;
+
+    const paymentsService = {
+      create: jest.fn().mockResolvedValue({ id: 1 }),
+      findAll: jest.fn().mockResolvedValue({ data: [], total: 0 }),
+      findOne: jest.fn().mockResolvedValue({ id: 1 }),
+      getStats: jest.fn().mockResolvedValue({}),
+      getPaymentMethodsBreakdown: jest.fn().mockResolvedValue([]),
+      getStatusBreakdown: jest.fn().mockResolvedValue([]),
+      getRecentTransactions: jest.fn().mockResolvedValue([]),
+      getRevenueTrend: jest.fn().mockResolvedValue([]),
+      getQuickStats: jest.fn().mockResolvedValue({}),
+      getStatusTransitions: jest.fn().mockReturnValue({}),
+      search: jest.fn().mockResolvedValue({ query: 'john', data: [] }),
+      exportPayments: jest.fn(() => Readable.from([])),
+      updateStatus: jest.fn().mockResolvedValue({ id: 1 }),
+      getRevenueByMethod: jest.fn().mockResolvedValue([]),
+      getHourlyDistribution: jest.fn().mockResolvedValue([]),
+      getSuccessRateTrend: jest.fn().mockResolvedValue([]),
+      createRefund: jest.fn().mockResolvedValue({ id: 1 }),
+      findRefunds: jest.fn().mockResolvedValue([]),
+      retryRefund: jest.fn().mockResolvedValue({ id: 2 }),
+      getHistory: jest.fn().mockResolvedValue([]),
+      addNote: jest.fn().mockResolvedValue({ id: 1 }),
+    };
+    const paymentImportService = {
+      importCsv: jest.fn().mockResolvedValue({ id: 1 }),
+      findJob: jest.fn().mockResolvedValue({ id: 1 }),
+      getRejectedRowsCsv: jest.fn().mockResolvedValue(Buffer.from('')),
+    };
+    const reconciliationService = {
+      importStatement: jest.fn().mockResolvedValue({ statement: { id: 1 } }),
+      listStatements: jest.fn().mockResolvedValue([]),
+      getStatement: jest.fn().mockResolvedValue({ statement: { id: 1 } }),
+      confirmLine: jest.fn().mockResolvedValue({ id: 1 }),
+      overrideLine: jest.fn().mockResolvedValue({ id: 1 }),
+    };
+    const webhooksService = {
+      findEvents: jest.fn().mockResolvedValue([]),
+    };
+    const webhookSubscriptionsService = {
+      create: jest.fn().mockResolvedValue({ id: 1 }),
+      findAll: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue({ id: 1 }),
+      update: jest.fn().mockResolvedValue({ id: 1 }),
+      remove: jest.fn().mockResolvedValue(undefined),
+      findDeliveries: jest.fn().mockResolvedValue([]),
+    };
+    const webhookDeliveryService = {
+      redeliver: jest.fn().mockResolvedValue({ id: 2 }),
+    };
+    const mfaService = {
+      getStatus: jest.fn().mockResolvedValue({ enabled: false }),
+      getPolicies: jest.fn().mockResolvedValue([]),
+      setPolicy: jest.fn().mockResolvedValue({ role: 'admin', required: true }),
+    };
+    const apiKeysService = {
+      create: jest.fn().mockResolvedValue({ id: 1 }),
+      findAll: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue({ id: 1 }),
+      revoke: jest.fn().mockResolvedValue({ id: 1 }),
+      authenticate: jest.fn((key: string) =>
+        key === READ_PAYMENTS_KEY
+          ? Promise.resolve({
+              userId: 3,
+              username: 'reporting',
+              role: UserRole.ADMIN,
+              apiKeyId: 1,
+              scopes: ['payments:read'],
+              organizationId: 1,
+            })
+          : Promise.reject(
+              new AuthException(
+                HttpStatus.UNAUTHORIZED,
+                AuthErrorCode.TOKEN_INVALID,
+                'Invalid API key',
+              ),
+            ),
+      ),
+    };
+    const auditService = {
+      findAuthEvents: jest.fn().mockResolvedValue({ data: [], total: 0 }),
+    };
+    const organizationsService = {
+      isMember: jest.fn().mockResolvedValue(true),
+      findForUser: jest.fn().mockResolvedValue([]),
+      findAll: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({ id: 2 }),
+      addMember: jest.fn().mockResolvedValue({ id: 1 }),
+      removeMember: jest.fn().mockResolvedValue(undefined),
+    };
+    const usersService = {
+      findAll: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({ id: 2 }),
+      unlock: jest.fn().mockResolvedValue({ message: 'unlocked' }),
+      update: jest.fn().mockResolvedValue({ id: 2 }),
+      disable: jest.fn().mockResolvedValue({ id: 2 }),
+      enable: jest.fn().mockResolvedValue({ id: 2 }),
+      resetPassword: jest.fn().mockResolvedValue({ temporaryPassword: 'x' }),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [PassportModule],
+      controllers: [
+        PaymentsController,
+        ReconciliationController,
+        WebhooksController,
+        WebhookSubscriptionsController,
+        UsersController,
+        MfaController,
+        ApiKeysController,
+        AuditController,
+        OrganizationsController,
+      ],
+      providers: [
+        JwtStrategy,
+        {
+          provide: RefreshTokensService,
+          useValue: { isSessionActive: jest.fn().mockResolvedValue(true) },
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: { exists: jest.fn().mockResolvedValue(true) },
+        },
+        { provide: PaymentsService, useValue: paymentsService },
+        { provide: UsersService, useValue: usersService },
+        { provide: MfaService, useValue: mfaService },
+        ApiKeyStrategy,
+        { provide: ApiKeysService, useValue: apiKeysService },
+        { provide: AuditService, useValue: auditService },
+        { provide: OrganizationsService, useValue: organizationsService },
+        { provide: IdempotencyService, useValue: {} },
+        { provide: PaymentImportService, useValue: paymentImportService },
+        PaymentStream,
+        { provide: ReconciliationService, useValue: reconciliationService },
+        { provide: WebhooksService, useValue: webhooksService },
+        {
+          provide: WebhookSubscriptionsService,
+          useValue: webhookSubscriptionsService,
+        },
+        { provide: WebhookDeliveryService, useValue: webhookDeliveryService },
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    const jwtService = new JwtService({ secret: JWT_SECRET });
+    tokens[UserRole.ADMIN] = jwtService.sign({
+      sub: 1,
+      username: 'admin',
+      role: UserRole.ADMIN,
+      org: 1,
+    });
+    tokens[UserRole.VIEWER] = jwtService.sign({
+      sub: 2,
+      username: 'viewer',
+      role: UserRole.VIEWER,
+      org: 1,
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const send = (route: RouteCase, token?: string) => {
+    const req = request(app.getHttpServer())[route.method](route.path);
+    if (token) {
+      req.set('Authorization', `Bearer ${token}`);
+    }
+    if (route.file) {
+      return req.attach('file', Buffer.from(route.file), 'payments.csv');
+    }
+    return route.body ? req.send(route.body) : req;
+  };
+
+  // The stream never ends, so it is closed after the first full event
+  describe('get /payments/stream', () => {
+    const firstEvent = (token?: string) => {
+      const req = request(app.getHttpServer()).get('/payments/stream');
+      if (token) {
+        req.set('Authorization', `Bearer ${token}`);
+      }
+      return req.buffer(true).parse((res, callback) => {
+        const stream = res as unknown as IncomingMessage;
+        let text = '';
+        stream.on('data', (chunk: Buffer) => {
+          text += chunk.toString();
+          if (text.includes('\n\n')) {
+            stream.destroy();
+            callback(null, text);
+          }
+        });
+        stream.once('end', () => callback(null, text));
+      });
+    };
+
+    it('rejects unauthenticated requests with 401', async () => {
+      await firstEvent().expect(401);
+    });
+
+    it.each(Object.values(UserRole))('as %s', async (role) => {
+      const res = await firstEvent(tokens[role]);
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toContain('text/event-stream');
+      expect(res.body).toContain('event: ready');
+    });
+  });
+
+  describe('with an API key', () => {
+    const withKey = (method: Method, path: string, key = READ_PAYMENTS_KEY) =>
+      request(app.getHttpServer())[method](path).set('X-API-Key', key);
+
+    it('allows routes of its scopes', async () => {
+      await withKey('get', '/payments?page=1&limit=10').expect(200);
+      await withKey('get', '/payments/import/1').expect(200);
+    });
+
+    it('refuses writes without the write scope', async () => {
+      await withKey('post', '/payments/1/notes')
+        .send({ note: 'Customer called about this payment' })
+        .expect(403);
+    });
+
+    it('refuses resources it has no scope for', async () => {
+      await withKey('get', '/reconciliation/statements').expect(403);
+    });
+
+    it('is not accepted by routes that take access tokens only', async () => {
+      await withKey('get', '/users').expect(401);
+      await withKey('get', '/api-keys').expect(401);
+      await withKey('get', '/audit/auth-events').expect(401);
+    });
+
+    it('rejects unknown keys with 401', async () => {
+      const res = await withKey('get', '/payments/1', 'pdk_nope').expect(401);
+
+      expect((res.body as { code: string }).code).toBe(
+        AuthErrorCode.TOKEN_INVALID,
+      );
+    });
+  });
+
+  describe('organization scope', () => {
+    const sign = (payload: object) =>
+      new JwtService({ secret: JWT_SECRET }).sign({
+        sub: 2,
+        username: 'viewer',
+        role: UserRole.VIEWER,
+        ...payload,
+      });
+
+    it('runs payment queries in the organization of the token', async () => {
+      const paymentsService = app.get<{ findAll: jest.Mock }>(PaymentsService);
+
+      await request(app.getHttpServer())
+        .get('/payments?page=1&limit=10')
+        .set('Authorization', `Bearer ${sign({ org: 4 })}`)
+        .expect(200);
+
+      expect(paymentsService.findAll).toHaveBeenLastCalledWith(
+        4,
+        expect.objectContaining({ limit: '10' }),
+      );
+    });
+
+    it('runs reconciliation in the organization of the token', async () => {
+      const reconciliationService = app.get<{ getStatement: jest.Mock }>(
+        ReconciliationService,
+      );
+
+      await request(app.getHttpServer())
+        .get('/reconciliation/statements/3')
+        .set('Authorization', `Bearer ${sign({ org: 4 })}`)
+        .expect(200);
+
+      expect(reconciliationService.getStatement).toHaveBeenLastCalledWith(4, 3);
+    });
+
+    it('manages webhook subscriptions of the organization of the token', async () => {
+      const subscriptionsService = app.get<{ update: jest.Mock }>(
+        WebhookSubscriptionsService,
+      );
+      const deliveryService = app.get<{ redeliver: jest.Mock }>(
+        WebhookDeliveryService,
+      );
+      const token = sign({ org: 4, role: UserRole.ADMIN });
+
+      await request(app.getHttpServer())
+        .patch('/webhook-subscriptions/3')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ active: false })
+        .expect(200);
+      await request(app.getHttpServer())
+        .post('/webhook-subscriptions/deliveries/8/redeliver')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(201);
+
+      expect(subscriptionsService.update).toHaveBeenLastCalledWith(4, 3, {
+        active: false,
+      });
+      expect(deliveryService.redeliver).toHaveBeenLastCalledWith(4, 8);
+    });
+
+    it('lists webhook events of the organization of the token', async () => {
+      const webhooksService = app.get<{ findEvents: jest.Mock }>(
+        WebhooksService,
+      );
+
+      await request(app.getHttpServer())
+        .get('/webhooks/events?status=failed')
+        .set(
+          'Authorization',
+          `Bearer ${sign({ org: 4, role: UserRole.ADMIN })}`,
+        )
+        .expect(200);
+
+      expect(webhooksService.findEvents).toHaveBeenLastCalledWith(
+        4,
+        expect.objectContaining({ status: 'failed' }),
+      );
+    });
+
+    it('manages users of the organization of the token', async () => {
+      const usersService = app.get<{ findAll: jest.Mock; disable: jest.Mock }>(
+        UsersService,
+      );
+      const token = sign({ org: 4, role: UserRole.ADMIN });
+
+      await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      await request(app.getHttpServer())
+        .post('/users/3/disable')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(usersService.findAll).toHaveBeenLastCalledWith(4);
+      expect(usersService.disable).toHaveBeenLastCalledWith(
+        4,
+        3,
+        expect.objectContaining({ userId: 2 }),
+        expect.objectContaining({ ip: expect.any(String) as string }),
+      );
+    });
+
+    it('refuses payment routes to tokens without an organization', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/payments/stats')
+        .set('Authorization', `Bearer ${sign({})}`)
+        .expect(403);
+
+      expect((res.body as { message: string }).message).toContain(
+        'No active organization',
+      );
+    });
+
+    it('refuses tokens of an organization the user has left', async () => {
+      app
+        .get<{ isMember: jest.Mock }>(OrganizationsService)
+        .isMember.mockResolvedValueOnce(false);
+
+      await request(app.getHttpServer())
+        .get('/payments')
+        .set('Authorization', `Bearer ${sign({ org: 4 })}`)
+        .expect(403);
+    });
+  });
+
+  describe.each(routes)('$method $path', (route) => {
+    it('rejects unauthenticated requests with 401', async () => {
+      await send(route).expect(401);
+    });
+
+    it.each(Object.values(UserRole))('as %s', async (role) => {
+      const res = await send(route, tokens[role]);
+
+      if (route.allowed.includes(role)) {
+        expect(res.status).toBeLessThan(400);
+      } else {
+        expect(res.status).toBe(403);
+      }
+    });
+  });
+});
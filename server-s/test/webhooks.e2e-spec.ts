@@ -0,0 +1,276 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, INestApplication } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { WebhooksController } from '../src/webhooks/webhooks.controller';
+import { WebhooksService } from '../src/webhooks/webhooks.service';
+import { WebhookEvent } from '../src/webhooks/entities/webhook-event.entity';
+import { WebhookEventStatus } from '../src/webhooks/enums/webhook-event-status.enum';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from '../src/webhooks/webhook-signature';
+import { PaymentsService } from '../src/payments/payments.service';
+import { PaymentProviderRegistry } from '../src/payments/providers/payment-provider.registry';
+import { PAYMENT_PROVIDERS } from '../src/payments/providers/payment-provider.interface';
+import {
+  MockPaymentProvider,
+  createMockWebhookEvent,
+} from '../src/payments/providers/mock-payment.provider';
+import { PaymentStatus } from '../src/payments/entities/payment.entity';
+
+const SECRET = 'whsec_e2e';
+
+// Minimal in-memory stand-in for the webhook_events table
+class InMemoryWebhookEvents {
+  rows: WebhookEvent[] = [];
+  private nextId = 1;
+
+  private matches(row: WebhookEvent, where: Partial<WebhookEvent>) {
+    return Object.entries(where).every(
+      ([key, value]) => row[key as keyof WebhookEvent] === value,
+    );
+  }
+
+  create(values: Partial<WebhookEvent>) {
+    return { ...values };
+  }
+
+  save(values: Partial<WebhookEvent>) {
+    if (
+      this.rows.some(
+        (row) =>
+          row.provider === values.provider && row.eventId === values.eventId,
+      )
+    ) {
+      return Promise.reject(
+        Object.assign(new Error('duplicate'), { code: '23505' }),
+      );
+    }
+    const row = {
+      id: this.nextId++,
+      status: WebhookEventStatus.RECEIVED,
+      attempts: 1,
+      ...values,
+    } as WebhookEvent;
+    this.rows.push(row);
+    return Promise.resolve(row);
+  }
+
+  findOne({ where }: { where: Partial<WebhookEvent> }) {
+    return Promise.resolve(
+      this.rows.find((row) => this.matches(row, where)) ?? null,
+    );
+  }
+
+  findOneOrFail(options: { where: Partial<WebhookEvent> }) {
+    return this.findOne(options);
+  }
+
+  update(
+    criteria: number | Partial<WebhookEvent>,
+    values: Partial<WebhookEvent>,
+  ) {
+    const where = typeof criteria === 'number' ? { id: criteria } : criteria;
+    const rows = this.rows.filter((row) => this.matches(row, where));
+    rows.forEach((row) => Object.assign(row, values));
+    return Promise.resolve({ affected: rows.length });
+  }
+}
+
+describe('POST /webhooks/:provider (e2e)', () => {
+  let app: INestApplication<App>;
+  const events = new InMemoryWebhookEvents();
+  const paymentsService = {
+    applyProviderUpdate: jest.fn(),
+  };
+
+  beforeAll(async () => {
+    process.env.WEBHOOK_SECRET_MOCK = SECRET;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      controllers: [WebhooksController],
+      providers: [
+        WebhooksService,
+        PaymentProviderRegistry,
+        {
+          provide: PAYMENT_PROVIDERS,
+          useValue: [
+            new MockPaymentProvider({ outcome: 'success', delayMs: 0 }),
+          ],
+        },
+        { provide: PaymentsService, useValue: paymentsService },
+        { provide: getRepositoryToken(WebhookEvent), useValue: events },
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ rawBody: true });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    delete process.env.WEBHOOK_SECRET_MOCK;
+    await app.close();
+  });
+
+  beforeEach(() => {
+    paymentsService.applyProviderUpdate.mockReset();
+  });
+
+  const send = (
+    event: object,
+    sign: (body: string) => string = (body) => signWebhookPayload(body, SECRET),
+    provider = 'mock',
+  ) => {
+    const body = JSON.stringify(event);
+    return request(app.getHttpServer())
+      .post(`/webhooks/${provider}`)
+      .set('Content-Type', 'application/json')
+      .set(WEBHOOK_SIGNATURE_HEADER, sign(body))
+      .send(body);
+  };
+
+  it('applies a signed event to the payment and stores the raw body', async () => {
+    paymentsService.applyProviderUpdate.mockResolvedValue({
+      payment: { id: 7, status: PaymentStatus.SUCCESS },
+      previousStatus: PaymentStatus.PENDING,
+    });
+    const event = createMockWebhookEvent(
+      'payment.captured',
+      { providerReference: 'mock_abc' },
+      'evt_captured',
+    );
+
+    const res = await send(event).expect(200);
+
+    expect(res.body).toEqual({
+      received: true,
+      eventId: 'evt_captured',
+      status: WebhookEventStatus.PROCESSED,
+    });
+    expect(paymentsService.applyProviderUpdate).toHaveBeenCalledWith(
+      'mock',
+      expect.objectContaining({
+        providerReference: 'mock_abc',
+        status: 'captured',
+      }),
+    );
+    expect(events.rows.find((row) => row.eventId === 'evt_captured')).toEqual(
+      expect.objectContaining({
+        paymentId: 7,
+        payload: JSON.stringify(event),
+        status: WebhookEventStatus.PROCESSED,
+      }),
+    );
+  });
+
+  it('acknowledges a redelivered event without applying it again', async () => {
+    const event = createMockWebhookEvent(
+      'payment.captured',
+      { providerReference: 'mock_abc' },
+      'evt_captured',
+    );
+
+    const res = await send(event).expect(200);
+
+    expect(res.body).toEqual(expect.objectContaining({ duplicate: true }));
+    expect(paymentsService.applyProviderUpdate).not.toHaveBeenCalled();
+  });
+
+  it('rejects bad signatures and stale timestamps with 401', async () => {
+    const event = createMockWebhookEvent('payment.failed', {
+      reference: 'TXN1',
+    });
+    const stale = Math.floor(Date.now() / 1000) - 3600;
+
+    await send(event, (body) => signWebhookPayload(body, 'whsec_wrong')).expect(
+      401,
+    );
+    await send(event, (body) => signWebhookPayload(body, SECRET, stale)).expect(
+      401,
+    );
+    await send(event, () => '').expect(401);
+    expect(paymentsService.applyProviderUpdate).not.toHaveBeenCalled();
+  });
+
+  it('retries a delivery for an unknown payment on redelivery', async () => {
+    const event = createMockWebhookEvent(
+      'payment.failed',
+      { reference: 'TXN_LATE', failureReason: 'Card declined' },
+      'evt_late',
+    );
+    paymentsService.applyProviderUpdate.mockResolvedValueOnce(null);
+
+    await send(event).expect(404);
+
+    paymentsService.applyProviderUpdate.mockResolvedValueOnce({
+      payment: { id: 8, status: PaymentStatus.FAILED },
+      previousStatus: PaymentStatus.PENDING,
+    });
+    const res = await send(event).expect(200);
+
+    expect(res.body).toEqual(
+      expect.objectContaining({ status: WebhookEventStatus.PROCESSED }),
+    );
+    expect(events.rows.find((row) => row.eventId === 'evt_late')).toEqual(
+      expect.objectContaining({ attempts: 2, paymentId: 8 }),
+    );
+  });
+
+  it('retries a delivery whose update failed on redelivery', async () => {
+    const event = createMockWebhookEvent(
+      'payment.captured',
+      { providerReference: 'mock_busy' },
+      'evt_busy',
+    );
+    paymentsService.applyProviderUpdate.mockRejectedValueOnce(
+      new ConflictException('Cannot change status from failed to success'),
+    );
+
+    await send(event).expect(409);
+
+    expect(events.rows.find((row) => row.eventId === 'evt_busy')).toEqual(
+      expect.objectContaining({
+        status: WebhookEventStatus.FAILED,
+        detail: 'Cannot change status from failed to success',
+      }),
+    );
+
+    paymentsService.applyProviderUpdate.mockResolvedValueOnce({
+      payment: { id: 9, status: PaymentStatus.SUCCESS },
+      previousStatus: PaymentStatus.PENDING,
+    });
+    const res = await send(event).expect(200);
+
+    expect(res.body).toEqual(
+      expect.objectContaining({ status: WebhookEventStatus.PROCESSED }),
+    );
+    expect(paymentsService.applyProviderUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores events for payments that already settled', async () => {
+    paymentsService.applyProviderUpdate.mockResolvedValue({
+      payment: { id: 7, status: PaymentStatus.SUCCESS },
+      previousStatus: PaymentStatus.SUCCESS,
+    });
+
+    const res = await send(
+      createMockWebhookEvent('payment.failed', {
+        providerReference: 'mock_abc',
+      }),
+    ).expect(200);
+
+    expect(res.body).toEqual(
+      expect.objectContaining({ status: WebhookEventStatus.IGNORED }),
+    );
+  });
+
+  it('returns 404 for providers without a webhook secret', async () => {
+    await send(
+      createMockWebhookEvent('payment.captured', { reference: 'TXN1' }),
+      undefined,
+      'acme',
+    ).expect(404);
+  });
+});